@@ -1,39 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { privateKeyToAccount } from "viem/accounts";
-import { baseSepolia } from "viem/chains";
+import { getSignatureNonce } from "@/app/utils/gameManager";
+import {
+  hashGameDraw,
+  hashGameResult,
+  signGameDraw,
+  signGameResult,
+  signatureDeadline,
+} from "@/app/utils/signGameResult";
+import { verifyGameResult } from "@/app/utils/resultVerification";
+import { collectCosignatures, orderBySigner } from "@/app/utils/cosigners";
 
-// Game Manager contract address
-const GAME_MANAGER_ADDRESS = "0xA40b4539d79ed767C8603e7f2E8F12D873174294";
-
-// EIP-712 Domain (must match the contract)
-const domain = {
-  name: "DuelBase",
-  version: "1",
-  chainId: baseSepolia.id, // 84532
-  verifyingContract: GAME_MANAGER_ADDRESS as `0x${string}`,
-} as const;
-
-// EIP-712 Types
-const types = {
-  GameResult: [
-    { name: "gameId", type: "uint256" },
-    { name: "winner", type: "address" },
-  ],
-} as const;
-
-// In-memory game states (shared with the games API)
-// In production, use a database
-const gameStatesCache = new Map<string, {
-  winner: string | null;
-  isDraw: boolean;
-}>();
-
-// POST - Sign a game result
+// POST - Sign a game result (a winner, or a draw when isDraw is set)
 export async function POST(request: NextRequest) {
   try {
-    const { gameId, winner } = await request.json();
+    const { gameId, winner, isDraw } = await request.json();
 
-    if (!gameId || !winner) {
+    if (!gameId || (!winner && !isDraw)) {
       return NextResponse.json(
         { error: "Missing gameId or winner" },
         { status: 400 }
@@ -42,7 +25,7 @@ export async function POST(request: NextRequest) {
 
     // Get the backend signer private key from environment
     const privateKey = process.env.NEXT_PUBLIC_BACKEND_SIGNER_KEY;
-    
+
     if (!privateKey) {
       console.error("NEXT_PUBLIC_BACKEND_SIGNER_KEY not configured");
       return NextResponse.json(
@@ -51,62 +34,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify the game state from our API
-    // In production, you'd fetch this from a database
-    const gameStateRes = await fetch(
-      `${process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"}/api/games/${gameId}`
-    );
-    const gameStateData = await gameStateRes.json();
+    // Verify against the stored game state and the chain
+    const failure = await verifyGameResult(String(gameId), { winner, isDraw });
 
-    if (!gameStateData.exists) {
+    if (failure) {
       return NextResponse.json(
-        { error: "Game not found" },
-        { status: 404 }
+        { error: failure.error },
+        { status: failure.status }
       );
     }
 
-    const gameState = gameStateData.state;
+    // Signatures carry the current nonce (so the owner can revoke them) and a deadline
+    const nonce = await getSignatureNonce();
+    const deadline = signatureDeadline();
+    const account = privateKeyToAccount(privateKey as `0x${string}`);
 
-    // Verify the winner matches our game state
-    if (gameState.isDraw) {
-      return NextResponse.json(
-        { error: "Game ended in a draw - no winner to claim" },
-        { status: 400 }
-      );
-    }
+    // Sign a draw so both players can reclaim their stakes, or the winner
+    const signature = isDraw
+      ? await signGameDraw(BigInt(gameId), nonce, deadline, privateKey as `0x${string}`)
+      : await signGameResult(BigInt(gameId), winner, nonce, deadline, privateKey as `0x${string}`);
 
-    if (!gameState.winner) {
-      return NextResponse.json(
-        { error: "Game is not finished yet" },
-        { status: 400 }
+    // Collect the other verifiers' signatures to meet the contract's threshold
+    let cosignatures;
+    try {
+      cosignatures = await collectCosignatures(
+        isDraw
+          ? { type: "GameDraw", gameId: String(gameId), deadline: deadline.toString() }
+          : { type: "GameResult", gameId: String(gameId), winner, deadline: deadline.toString() },
+        isDraw
+          ? hashGameDraw(BigInt(gameId), nonce, deadline)
+          : hashGameResult(BigInt(gameId), winner, nonce, deadline),
+        account.address
       );
-    }
-
-    if (gameState.winner.toLowerCase() !== winner.toLowerCase()) {
+    } catch (error) {
+      console.error("Error collecting cosignatures:", error);
       return NextResponse.json(
-        { error: "Invalid winner - does not match game result" },
-        { status: 400 }
+        { error: "Failed to collect cosignatures" },
+        { status: 502 }
       );
     }
 
-    // Sign the game result
-    const account = privateKeyToAccount(privateKey as `0x${string}`);
-    
-    const signature = await account.signTypedData({
-      domain,
-      types,
-      primaryType: "GameResult",
-      message: {
-        gameId: BigInt(gameId),
-        winner: winner as `0x${string}`,
-      },
-    });
+    const signatures = orderBySigner([{ signer: account.address, signature }, ...cosignatures]);
 
     return NextResponse.json({
       success: true,
-      signature,
+      signatures,
+      deadline: deadline.toString(),
       gameId,
-      winner,
+      ...(isDraw ? { isDraw: true } : { winner }),
     });
   } catch (error) {
     console.error("Error signing game result:", error);
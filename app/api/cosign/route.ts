@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { getSignatureNonce } from "@/app/utils/gameManager";
+import {
+  SIGNATURE_TTL_SECONDS,
+  signGameDraw,
+  signGameResult,
+  signTournamentMatchResult,
+} from "@/app/utils/signGameResult";
+import { verifyGameResult, verifyTournamentMatchResult } from "@/app/utils/resultVerification";
+import type { CosignRequest } from "@/app/utils/cosigners";
+
+// Allowance for clock drift between verifier instances
+const DEADLINE_SKEW_SECONDS = 60;
+
+/**
+ * Parse a requested deadline, refusing ones longer than this instance would
+ * have issued itself
+ */
+function parseDeadline(value: unknown): bigint | null {
+  if (!/^\d+$/.test(String(value))) return null;
+  const deadline = BigInt(String(value));
+  const now = Math.floor(Date.now() / 1000);
+  if (deadline <= BigInt(now) || deadline > BigInt(now + SIGNATURE_TTL_SECONDS + DEADLINE_SKEW_SECONDS)) {
+    return null;
+  }
+  return deadline;
+}
+
+// POST - Co-sign a result another verifier instance is about to hand out
+//
+// Re-verifies the result independently before signing with this instance's
+// key. Never collects further cosignatures itself.
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as CosignRequest;
+
+    // Get the backend signer private key from environment
+    const privateKey = process.env.NEXT_PUBLIC_BACKEND_SIGNER_KEY as `0x${string}` | undefined;
+
+    if (!privateKey) {
+      console.error("NEXT_PUBLIC_BACKEND_SIGNER_KEY not configured");
+      return NextResponse.json(
+        { error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const signer = privateKeyToAccount(privateKey).address;
+
+    if (body.type === "TournamentMatchResult") {
+      const { tournamentId, round, matchIndex } = body;
+
+      if (
+        !/^\d+$/.test(String(tournamentId)) ||
+        !Number.isInteger(round) || round < 0 || round > 255 ||
+        !Number.isInteger(matchIndex) || matchIndex < 0 || matchIndex > 255
+      ) {
+        return NextResponse.json(
+          { error: "Invalid tournament match" },
+          { status: 400 }
+        );
+      }
+
+      const deadline = parseDeadline(body.deadline);
+      if (deadline === null) {
+        return NextResponse.json(
+          { error: "Missing deadline or deadline out of range" },
+          { status: 400 }
+        );
+      }
+
+      const match = { tournamentId: BigInt(tournamentId), round, matchIndex };
+      const result = await verifyTournamentMatchResult(match);
+
+      if ("error" in result) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const nonce = await getSignatureNonce();
+      const signature = await signTournamentMatchResult(match, result.winner, nonce, deadline, privateKey);
+      return NextResponse.json({ success: true, signer, signature });
+    }
+
+    if (body.type !== "GameResult" && body.type !== "GameDraw") {
+      return NextResponse.json(
+        { error: "Unknown result type" },
+        { status: 400 }
+      );
+    }
+
+    if (!/^\d+$/.test(String(body.gameId)) || !/^\d+$/.test(String(body.deadline))) {
+      return NextResponse.json(
+        { error: "Missing gameId or deadline" },
+        { status: 400 }
+      );
+    }
+
+    const deadline = parseDeadline(body.deadline);
+    if (deadline === null) {
+      return NextResponse.json(
+        { error: "Deadline out of range" },
+        { status: 400 }
+      );
+    }
+
+    const isDraw = body.type === "GameDraw";
+    const winner = isDraw ? undefined : body.winner;
+    const failure = await verifyGameResult(body.gameId, { winner, isDraw });
+
+    if (failure) {
+      return NextResponse.json(
+        { error: failure.error },
+        { status: failure.status }
+      );
+    }
+
+    const nonce = await getSignatureNonce();
+    const signature = isDraw
+      ? await signGameDraw(BigInt(body.gameId), nonce, deadline, privateKey)
+      : await signGameResult(BigInt(body.gameId), winner as `0x${string}`, nonce, deadline, privateKey);
+
+    return NextResponse.json({ success: true, signer, signature });
+  } catch (error) {
+    console.error("Error co-signing result:", error);
+    return NextResponse.json(
+      { error: "Failed to co-sign result" },
+      { status: 500 }
+    );
+  }
+}
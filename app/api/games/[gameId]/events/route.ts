@@ -0,0 +1,111 @@
+import { NextRequest } from "next/server";
+import { getGameStore, type GameState } from "@/app/utils/gameStore";
+import { TURN_TIME_LIMIT_MS } from "@/app/utils/turnTimer";
+
+// Streams must never be cached or statically rendered
+export const dynamic = "force-dynamic";
+
+// How often to check the store for changes
+const CHECK_INTERVAL_MS = 500;
+
+// Comment line sent to keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// GET - Stream game state changes as Server-Sent Events
+//
+// Events:
+//   state   - full game state, sent on connect and whenever it changes
+//   turn    - { currentTurn, turnStartTime } when a new turn starts
+//   timeout - { timedOutPlayer } once the current turn's clock runs out
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  const store = getGameStore();
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let checkTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    closed = true;
+    clearInterval(checkTimer);
+    clearInterval(heartbeatTimer);
+  };
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastUpdated = 0;
+      let lastTurnStart = 0;
+      let timeoutSentFor = 0; // turnStartTime of the turn we reported a timeout for
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        controller.close();
+      };
+
+      const check = async () => {
+        let state: GameState | null;
+        try {
+          state = await store.get(gameId);
+        } catch (err) {
+          console.error("Game stream read error:", err);
+          return;
+        }
+        if (!state || closed) return;
+
+        if (state.lastUpdated !== lastUpdated) {
+          lastUpdated = state.lastUpdated;
+          send("state", state);
+        }
+
+        const isOver = !!state.winner || state.isDraw;
+
+        if (!isOver && state.turnStartTime !== lastTurnStart) {
+          lastTurnStart = state.turnStartTime;
+          send("turn", { currentTurn: state.currentTurn, turnStartTime: state.turnStartTime });
+        }
+
+        if (
+          !isOver &&
+          timeoutSentFor !== state.turnStartTime &&
+          Date.now() - state.turnStartTime >= TURN_TIME_LIMIT_MS
+        ) {
+          timeoutSentFor = state.turnStartTime;
+          send("timeout", { timedOutPlayer: state.currentTurn });
+        }
+      };
+
+      // Tell EventSource how long to wait before reconnecting
+      controller.enqueue(encoder.encode("retry: 2000\n\n"));
+
+      check();
+      checkTimer = setInterval(check, CHECK_INTERVAL_MS);
+      heartbeatTimer = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,30 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-
-// In-memory game state storage (for MVP - use database in production)
-// This will persist across requests but reset on server restart
-const gameStates = new Map<string, GameState>();
-
-// Turn timer duration in milliseconds (60 seconds)
-const TURN_TIME_LIMIT_MS = 60 * 1000;
-
-interface GameState {
-  gameId: string;
-  gameType: "tictactoe" | "connect4";
-  board: number[][] | number[]; // 2D for connect4, 1D for tictactoe
-  currentTurn: string; // address of whose turn it is
-  moves: Move[];
-  winner: string | null;
-  isDraw: boolean;
-  lastUpdated: number;
-  turnStartTime: number; // timestamp when current turn started
-  timeoutLoser: string | null; // address of player who timed out (if any)
-}
-
-interface Move {
-  player: string;
-  position: number | { row: number; col: number };
-  timestamp: number;
-}
+import { isAddress } from "viem";
+import { getGameStore, type GameState, type GameUpdate } from "@/app/utils/gameStore";
+import { verifyPlayerSignature, type PlayerAuthMessages } from "@/app/utils/playerAuth";
+import { verifySessionToken } from "@/app/utils/playerSession";
+import { getOnchainGame, isRematchOf, type OnchainGame } from "@/app/utils/gameManager";
+import { getOnchainMatchGame, parseTournamentMatchGameId } from "@/app/utils/tournament";
+import { GameStatus } from "@/app/contracts/GameManagerABI";
+import { TURN_TIME_LIMIT_MS } from "@/app/utils/turnTimer";
+import { getEngine } from "@/app/utils/engine";
+import {
+  SERIES_INTERMISSION_MS,
+  createSeries,
+  firstMover,
+  recordSeriesGame,
+  seriesMoveIndex,
+} from "@/app/utils/series";
 
 // GET - Retrieve game state
 export async function GET(
@@ -33,7 +23,7 @@ export async function GET(
 ) {
   const { gameId } = await params;
   
-  const state = gameStates.get(gameId);
+  const state = await getGameStore().get(gameId);
   
   if (!state) {
     return NextResponse.json({ exists: false });
@@ -43,249 +33,511 @@ export async function GET(
 }
 
 // POST - Initialize or update game state
+//
+// Every change goes through store.update, which holds the game's lock from
+// reading the state to saving it, so concurrent requests never lose a move.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ gameId: string }> }
 ) {
   const { gameId } = await params;
   const body = await request.json();
+  const store = getGameStore();
+  
+  if (!/^\d+$/.test(gameId)) {
+    return NextResponse.json({ error: "Invalid game ID" }, { status: 400 });
+  }
+  
+  // Every action must be signed by the player taking it (or, for routine
+  // ones, come with their session token)
+  const actor = body.action === "timeout" ? body.claimedBy : body.player;
+  if (typeof actor !== "string" || !isAddress(actor)) {
+    return NextResponse.json({ error: "Missing or invalid player address" }, { status: 400 });
+  }
   
   // Initialize new game
   if (body.action === "init") {
-    const { gameType, player1, player2 } = body;
+    const { player } = body;
     
-    let initialBoard: number[][] | number[];
-    if (gameType === "connect4") {
-      // 6 rows x 7 columns, all zeros
-      initialBoard = Array(6).fill(null).map(() => Array(7).fill(0));
-    } else {
-      // Tic-tac-toe: 9 cells
-      initialBoard = Array(9).fill(0);
+    // Players and game type come from the contract, never the request
+    let onchainGame;
+    try {
+      onchainGame = await readOnchainGame(gameId);
+    } catch (err) {
+      console.error("Failed to read game from GameManager:", err);
+      return NextResponse.json({ error: "Failed to read game from chain" }, { status: 502 });
     }
     
-    const now = Date.now();
-    const state: GameState = {
-      gameId,
-      gameType,
-      board: initialBoard,
-      currentTurn: player1, // Player 1 always starts
-      moves: [],
-      winner: null,
-      isDraw: false,
-      lastUpdated: now,
-      turnStartTime: now,
-      timeoutLoser: null,
-    };
+    if (!onchainGame) {
+      return NextResponse.json({ error: "Game not found" }, { status: 404 });
+    }
     
-    gameStates.set(gameId, state);
-    return NextResponse.json({ success: true, state });
-  }
-  
-  // Make a move
-  if (body.action === "move") {
-    const { player, position } = body;
+    if (onchainGame.status !== GameStatus.Active) {
+      return NextResponse.json({ error: "Game is not active" }, { status: 400 });
+    }
     
-    let state = gameStates.get(gameId);
-    if (!state) {
-      return NextResponse.json({ error: "Game not found" }, { status: 404 });
+    const { gameType, player1, player2, bestOf } = onchainGame;
+    
+    // Game types registered on-chain without an engine here can't be played
+    if (!gameType) {
+      return NextResponse.json({ error: "Game type not supported" }, { status: 400 });
     }
     
-    // Verify it's the player's turn
-    if (state.currentTurn.toLowerCase() !== player.toLowerCase()) {
-      return NextResponse.json({ error: "Not your turn" }, { status: 400 });
+    // Only a participant may initialize the game
+    if (!isParticipant({ player1, player2 }, player)) {
+      return NextResponse.json({ error: "Not a player in this game" }, { status: 403 });
     }
     
-    // Check if game is already over
-    if (state.winner || state.isDraw) {
-      return NextResponse.json({ error: "Game is already over" }, { status: 400 });
+    const isSigned = await isSignedOrInSession(
+      "GameInit",
+      { gameId: BigInt(gameId), player },
+      body
+    );
+    if (!isSigned) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
     }
     
-    // Check if current player has timed out - auto-lose
-    const elapsed = Date.now() - state.turnStartTime;
-    if (elapsed >= TURN_TIME_LIMIT_MS) {
-      // The current player (who is trying to move) has timed out - they lose
-      const opponent = body.opponent;
-      state.winner = opponent;
-      state.timeoutLoser = player;
-      state.lastUpdated = Date.now();
-      gameStates.set(gameId, state);
+    return store.update(gameId, (existing) => {
+      // Never reset a game that's already underway (both players may init at once)
+      if (existing) {
+        return reply({ success: true, state: existing });
+      }
       
-      return NextResponse.json({ 
-        success: false, 
-        error: "Time expired! You lost by timeout.",
-        state 
-      }, { status: 400 });
+      const now = Date.now();
+      const state: GameState = {
+        gameId,
+        gameType,
+        player1,
+        player2,
+        board: getEngine(gameType).createInitialBoard(),
+        currentTurn: player1, // Player 1 starts the first game of a series
+        moves: [],
+        winner: null,
+        isDraw: false,
+        lastUpdated: now,
+        turnStartTime: now,
+        timeoutLoser: null,
+        resignedBy: null,
+        drawOfferedBy: null,
+        // Knockout matches replay drawn games until someone wins
+        series: createSeries(bestOf, parseTournamentMatchGameId(BigInt(gameId)) !== null),
+        rematch: null,
+      };
+      
+      return saved(state);
+    });
+  }
+  
+  // Make a move
+  if (body.action === "move") {
+    const { player, position } = body;
+    
+    if (!Number.isInteger(position) || position < 0) {
+      return NextResponse.json({ error: "Invalid position" }, { status: 400 });
     }
     
-    // Apply the move based on game type
-    if (state.gameType === "connect4") {
-      const board = state.board as number[][];
-      const col = position as number;
-      
-      // Find the lowest empty row in this column
-      let row = -1;
-      for (let r = 5; r >= 0; r--) {
-        if (board[r][col] === 0) {
-          row = r;
-          break;
-        }
+    return store.update(gameId, async (current) => {
+      const state = await withPlayers(gameId, current);
+      if (!state) {
+        return reply({ error: "Game not found" }, 404);
       }
       
-      if (row === -1) {
-        return NextResponse.json({ error: "Column is full" }, { status: 400 });
+      // Verify it's the player's turn
+      if (state.currentTurn.toLowerCase() !== player.toLowerCase()) {
+        return reply({ error: "Not your turn" }, 400);
       }
       
-      // Determine player number (1 for player1, 2 for player2)
-      const playerNum = state.moves.length % 2 === 0 ? 1 : 2;
-      board[row][col] = playerNum;
+      // Verify the player signed this exact move
+      const isSigned = await isSignedOrInSession(
+        "GameMove",
+        {
+          gameId: BigInt(gameId),
+          player,
+          moveIndex: BigInt(seriesMoveIndex(state)),
+          position: BigInt(position),
+        },
+        body
+      );
+      if (!isSigned) {
+        return reply({ error: "Invalid signature" }, 401);
+      }
+      
+      // Check if game is already over
+      if (state.winner || state.isDraw) {
+        return reply({ error: "Game is already over" }, 400);
+      }
+      
+      // The next game of a series opens once the intermission is over
+      const elapsed = Date.now() - state.turnStartTime;
+      if (elapsed < 0) {
+        return reply({ error: "The next game hasn't started yet" }, 400);
+      }
+      
+      // Check if current player has timed out - auto-lose (forfeits the series)
+      if (elapsed >= TURN_TIME_LIMIT_MS) {
+        // The current player (who is trying to move) has timed out - they lose
+        state.winner = getOpponent(state, player);
+        state.timeoutLoser = player;
+        state.lastUpdated = Date.now();
+        
+        return {
+          state,
+          result: NextResponse.json({ 
+            success: false, 
+            error: "Time expired! You lost by timeout.",
+            state 
+          }, { status: 400 }),
+        };
+      }
       
-      // Check for win
-      const winner = checkConnect4Win(board, row, col, playerNum);
-      if (winner) {
-        state.winner = player;
+      // Apply the move with the shared rules engine
+      const engine = getEngine(state.gameType);
+      const moveError = engine.validateMove(state.board, position);
+      if (moveError) {
+        return reply({ error: moveError }, 400);
       }
       
-      // Check for draw (board full)
-      if (!state.winner && board[0].every((cell, c) => board.some((row) => row[c] !== 0) && board[0][c] !== 0)) {
-        // Check if top row is full
-        if (board[0].every(cell => cell !== 0)) {
+      // Pieces follow the player, not move order, since the first mover alternates in a series
+      const piece = player.toLowerCase() === state.player1.toLowerCase() ? 1 : 2;
+      const applied = engine.applyMove(state.board, position, piece);
+      state.board = applied.board;
+      state.moves.push({ player, position: applied.position, timestamp: Date.now() });
+      
+      const now = Date.now();
+      const outcome = engine.getOutcome(state.board);
+      if (outcome.winner || outcome.isDraw) {
+        const seriesWinner = recordSeriesGame(state, outcome.winner ? player : null);
+        if (seriesWinner === undefined) {
+          // Set up the next game, with the other player moving first
+          state.board = engine.createInitialBoard();
+          state.moves = [];
+          state.currentTurn = firstMover(state, state.series.games.length);
+          state.turnStartTime = now + SERIES_INTERMISSION_MS;
+        } else if (seriesWinner === null) {
           state.isDraw = true;
+        } else {
+          state.winner = seriesWinner;
         }
+      } else {
+        // Switch turns
+        state.currentTurn = getOpponent(state, player);
+        state.turnStartTime = now; // Reset turn timer for next player
       }
       
-      state.moves.push({ player, position: { row, col: col }, timestamp: Date.now() });
+      state.lastUpdated = now;
+      return saved(state);
+    });
+  }
+  
+  // Handle timeout claim
+  if (body.action === "timeout") {
+    const { claimedBy, timedOutPlayer } = body;
+    
+    return store.update(gameId, async (current) => {
+      const state = await withPlayers(gameId, current);
+      if (!state) {
+        return reply({ error: "Game not found" }, 404);
+      }
       
-    } else {
-      // Tic-tac-toe
-      const board = state.board as number[];
-      const pos = position as number;
+      // Only the waiting player can claim the turn timeout
+      if (!isParticipant(state, claimedBy) || state.currentTurn.toLowerCase() === claimedBy.toLowerCase()) {
+        return reply({ error: "Not a player waiting on this turn" }, 403);
+      }
       
-      if (board[pos] !== 0) {
-        return NextResponse.json({ error: "Cell already occupied" }, { status: 400 });
+      // Check if game is already over
+      if (state.winner || state.isDraw || state.timeoutLoser) {
+        return reply({ error: "Game is already over" }, 400);
       }
       
-      const playerNum = state.moves.length % 2 === 0 ? 1 : 2;
-      board[pos] = playerNum;
+      // Verify it's the opponent's turn who timed out
+      if (typeof timedOutPlayer !== "string" || state.currentTurn.toLowerCase() !== timedOutPlayer.toLowerCase()) {
+        return reply({ error: "Invalid timeout claim - not their turn" }, 400);
+      }
       
-      // Check for win
-      const winner = checkTicTacToeWin(board);
-      if (winner) {
-        state.winner = player;
+      // Verify the claimer signed this claim
+      const isSigned = await isSignedOrInSession(
+        "TimeoutClaim",
+        {
+          gameId: BigInt(gameId),
+          player: claimedBy,
+          timedOutPlayer: timedOutPlayer as `0x${string}`,
+          moveIndex: BigInt(seriesMoveIndex(state)),
+        },
+        body
+      );
+      if (!isSigned) {
+        return reply({ error: "Invalid signature" }, 401);
       }
       
-      // Check for draw
-      if (!state.winner && board.every(cell => cell !== 0)) {
-        state.isDraw = true;
+      // Verify the timeout actually occurred
+      const elapsed = Date.now() - state.turnStartTime;
+      if (elapsed < TURN_TIME_LIMIT_MS) {
+        return reply({ 
+          error: `Timeout not reached. ${Math.ceil((TURN_TIME_LIMIT_MS - elapsed) / 1000)}s remaining` 
+        }, 400);
       }
       
-      state.moves.push({ player, position: pos, timestamp: Date.now() });
-    }
-    
-    // Switch turns if game isn't over
-    const now = Date.now();
-    if (!state.winner && !state.isDraw) {
-      const nextPlayer = body.opponent;
-      state.currentTurn = nextPlayer;
-      state.turnStartTime = now; // Reset turn timer for next player
-    }
-    
-    state.lastUpdated = now;
-    gameStates.set(gameId, state);
+      // Process timeout - the claimer wins the series
+      state.winner = claimedBy;
+      state.timeoutLoser = timedOutPlayer;
+      state.lastUpdated = Date.now();
+      return saved(state);
+    });
+  }
+  
+  // Concede - mirrors GameManager.resign, the opponent wins the series
+  if (body.action === "resign") {
+    const { player } = body;
     
-    return NextResponse.json({ success: true, state });
+    return store.update(gameId, async (current) => {
+      const state = await withPlayers(gameId, current);
+      if (!state) {
+        return reply({ error: "Game not found" }, 404);
+      }
+      
+      if (!isParticipant(state, player)) {
+        return reply({ error: "Not a player in this game" }, 403);
+      }
+      
+      if (state.winner || state.isDraw) {
+        return reply({ error: "Game is already over" }, 400);
+      }
+      
+      const isSigned = await verifyPlayerSignature(
+        "Resignation",
+        { gameId: BigInt(gameId), player, moveIndex: BigInt(seriesMoveIndex(state)) },
+        body.signature
+      );
+      if (!isSigned) {
+        return reply({ error: "Invalid signature" }, 401);
+      }
+      
+      state.winner = getOpponent(state, player);
+      state.resignedBy = player;
+      state.drawOfferedBy = null;
+      state.lastUpdated = Date.now();
+      return saved(state);
+    });
   }
   
-  // Handle timeout claim
-  if (body.action === "timeout") {
-    const { claimedBy, timedOutPlayer } = body;
+  // Offer a draw, or agree to the opponent's open offer - mirrors GameManager.offerDraw
+  if (body.action === "offer-draw") {
+    const { player } = body;
     
-    let state = gameStates.get(gameId);
-    if (!state) {
-      return NextResponse.json({ error: "Game not found" }, { status: 404 });
+    // A bracket match needs a winner, and the Tournament contract has no draws to settle
+    if (parseTournamentMatchGameId(BigInt(gameId))) {
+      return NextResponse.json({ error: "Tournament matches can't be drawn" }, { status: 400 });
     }
     
-    // Check if game is already over
-    if (state.winner || state.isDraw || state.timeoutLoser) {
-      return NextResponse.json({ error: "Game is already over" }, { status: 400 });
-    }
+    return store.update(gameId, async (current) => {
+      const state = await withPlayers(gameId, current);
+      if (!state) {
+        return reply({ error: "Game not found" }, 404);
+      }
+      
+      if (!isParticipant(state, player)) {
+        return reply({ error: "Not a player in this game" }, 403);
+      }
+      
+      if (state.winner || state.isDraw) {
+        return reply({ error: "Game is already over" }, 400);
+      }
+      
+      const isSigned = await verifyPlayerSignature(
+        "DrawOffer",
+        { gameId: BigInt(gameId), player, moveIndex: BigInt(seriesMoveIndex(state)) },
+        body.signature
+      );
+      if (!isSigned) {
+        return reply({ error: "Invalid signature" }, 401);
+      }
+      
+      // Both players have now offered: the series is drawn
+      if (state.drawOfferedBy && state.drawOfferedBy.toLowerCase() !== player.toLowerCase()) {
+        state.isDraw = true;
+        state.drawOfferedBy = null;
+      } else {
+        state.drawOfferedBy = player;
+      }
+      state.lastUpdated = Date.now();
+      return saved(state);
+    });
+  }
+  
+  // Take back an open draw offer - mirrors GameManager.withdrawDrawOffer
+  if (body.action === "withdraw-draw") {
+    const { player } = body;
     
-    // Verify it's the opponent's turn who timed out
-    if (state.currentTurn.toLowerCase() !== timedOutPlayer.toLowerCase()) {
-      return NextResponse.json({ error: "Invalid timeout claim - not their turn" }, { status: 400 });
-    }
+    return store.update(gameId, async (current) => {
+      const state = await withPlayers(gameId, current);
+      if (!state) {
+        return reply({ error: "Game not found" }, 404);
+      }
+      
+      if (!isParticipant(state, player)) {
+        return reply({ error: "Not a player in this game" }, 403);
+      }
+      
+      if (state.winner || state.isDraw) {
+        return reply({ error: "Game is already over" }, 400);
+      }
+      
+      if (state.drawOfferedBy?.toLowerCase() !== player.toLowerCase()) {
+        return reply({ error: "No draw offer to withdraw" }, 400);
+      }
+      
+      const isSigned = await verifyPlayerSignature(
+        "DrawOfferWithdrawal",
+        { gameId: BigInt(gameId), player, moveIndex: BigInt(seriesMoveIndex(state)) },
+        body.signature
+      );
+      if (!isSigned) {
+        return reply({ error: "Invalid signature" }, 401);
+      }
+      
+      state.drawOfferedBy = null;
+      state.lastUpdated = Date.now();
+      return saved(state);
+    });
+  }
+  
+  // Propose a rematch where the opponent moves first (and so creates the new game)
+  if (body.action === "offer-rematch") {
+    const { player, firstMover } = body;
     
-    // Verify the timeout actually occurred
-    const elapsed = Date.now() - state.turnStartTime;
-    if (elapsed < TURN_TIME_LIMIT_MS) {
-      return NextResponse.json({ 
-        error: `Timeout not reached. ${Math.ceil((TURN_TIME_LIMIT_MS - elapsed) / 1000)}s remaining` 
-      }, { status: 400 });
-    }
+    return store.update(gameId, async (current) => {
+      const state = rematchableState(gameId, await withPlayers(gameId, current));
+      if ("error" in state) {
+        return reply({ error: state.error }, state.status);
+      }
+      
+      if (!isParticipant(state, player) || typeof firstMover !== "string" || !isParticipant(state, firstMover)) {
+        return reply({ error: "Not a player in this game" }, 403);
+      }
+      
+      const isSigned = await verifyPlayerSignature(
+        "RematchOffer",
+        { gameId: BigInt(gameId), player, firstMover: firstMover as `0x${string}` },
+        body.signature
+      );
+      if (!isSigned) {
+        return reply({ error: "Invalid signature" }, 401);
+      }
+      
+      state.rematch = { proposedBy: player, firstMover, gameId: null };
+      state.lastUpdated = Date.now();
+      return saved(state);
+    });
+  }
+  
+  // Link the rematch game once its first mover has created it on-chain
+  if (body.action === "rematch-created") {
+    const { player, rematchGameId } = body;
     
-    // Process timeout - the claimer wins
-    state.winner = claimedBy;
-    state.timeoutLoser = timedOutPlayer;
-    state.lastUpdated = Date.now();
-    gameStates.set(gameId, state);
+    if (typeof rematchGameId !== "string" || !/^\d+$/.test(rematchGameId)) {
+      return NextResponse.json({ error: "Invalid rematch game ID" }, { status: 400 });
+    }
     
-    return NextResponse.json({ success: true, state });
+    return store.update(gameId, async (current) => {
+      const state = rematchableState(gameId, await withPlayers(gameId, current));
+      if ("error" in state) {
+        return reply({ error: state.error }, state.status);
+      }
+      
+      if (!isParticipant(state, player)) {
+        return reply({ error: "Not a player in this game" }, 403);
+      }
+      
+      // Creating the game on-chain is the player's authorization
+      let isRematch;
+      try {
+        isRematch = await isRematchOf(BigInt(rematchGameId), BigInt(gameId), player);
+      } catch (err) {
+        console.error("Failed to read rematch from GameManager:", err);
+        return reply({ error: "Failed to read game from chain" }, 502);
+      }
+      
+      if (!isRematch) {
+        return reply({ error: "Not a rematch of this game" }, 400);
+      }
+      
+      state.rematch = { proposedBy: state.rematch?.proposedBy ?? player, firstMover: player, gameId: rematchGameId };
+      state.lastUpdated = Date.now();
+      return saved(state);
+    });
   }
   
   return NextResponse.json({ error: "Invalid action" }, { status: 400 });
 }
 
-// Check Connect 4 win
-function checkConnect4Win(board: number[][], row: number, col: number, player: number): boolean {
-  const directions = [
-    [0, 1],   // horizontal
-    [1, 0],   // vertical
-    [1, 1],   // diagonal down-right
-    [1, -1],  // diagonal down-left
-  ];
-  
-  for (const [dRow, dCol] of directions) {
-    let count = 1;
-    
-    // Check positive direction
-    for (let i = 1; i < 4; i++) {
-      const newRow = row + dRow * i;
-      const newCol = col + dCol * i;
-      if (newRow >= 0 && newRow < 6 && newCol >= 0 && newCol < 7 && board[newRow][newCol] === player) {
-        count++;
-      } else {
-        break;
-      }
-    }
-    
-    // Check negative direction
-    for (let i = 1; i < 4; i++) {
-      const newRow = row - dRow * i;
-      const newCol = col - dCol * i;
-      if (newRow >= 0 && newRow < 6 && newCol >= 0 && newCol < 7 && board[newRow][newCol] === player) {
-        count++;
-      } else {
-        break;
-      }
-    }
-    
-    if (count >= 4) return true;
+// Respond without changing the game
+function reply(body: unknown, status?: number): GameUpdate<NextResponse> {
+  return { result: NextResponse.json(body, status ? { status } : undefined) };
+}
+
+// Save the game and respond with it
+function saved(state: GameState): GameUpdate<NextResponse> {
+  return { state, result: NextResponse.json({ success: true, state }) };
+}
+
+// Check the game is a finished GameManager game that doesn't have a rematch yet
+function rematchableState(
+  gameId: string,
+  state: GameState | null
+): GameState | { error: string; status: number } {
+  if (parseTournamentMatchGameId(BigInt(gameId))) {
+    return { error: "Tournament matches can't be rematched", status: 400 };
   }
   
-  return false;
+  if (!state) {
+    return { error: "Game not found", status: 404 };
+  }
+  if (!state.winner && !state.isDraw) {
+    return { error: "Game is not over yet", status: 400 };
+  }
+  if (state.rematch?.gameId) {
+    return { error: "Rematch already created", status: 400 };
+  }
+  return state;
 }
 
-// Check Tic Tac Toe win
-function checkTicTacToeWin(board: number[]): number | null {
-  const lines = [
-    [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-    [0, 3, 6], [1, 4, 7], [2, 5, 8], // cols
-    [0, 4, 8], [2, 4, 6], // diagonals
-  ];
+// Backfill players from the contract for older records (saved with the update)
+async function withPlayers(gameId: string, state: GameState | null): Promise<GameState | null> {
+  if (!state || (state.player1 && state.player2)) return state;
   
-  for (const [a, b, c] of lines) {
-    if (board[a] !== 0 && board[a] === board[b] && board[a] === board[c]) {
-      return board[a];
-    }
+  const onchainGame = await readOnchainGame(gameId);
+  if (!onchainGame) return null;
+  
+  state.player1 = onchainGame.player1;
+  state.player2 = onchainGame.player2;
+  return state;
+}
+
+// Read a game's players from GameManager, or from the Tournament bracket for match IDs
+async function readOnchainGame(gameId: string): Promise<OnchainGame | null> {
+  const match = parseTournamentMatchGameId(BigInt(gameId));
+  return match ? getOnchainMatchGame(match) : getOnchainGame(BigInt(gameId));
+}
+
+// Check the player signed this action, or sent a session token in place of the signature
+async function isSignedOrInSession<T extends "GameInit" | "GameMove" | "TimeoutClaim">(
+  primaryType: T,
+  message: PlayerAuthMessages[T],
+  body: { signature?: unknown; sessionToken?: unknown }
+): Promise<boolean> {
+  if (verifySessionToken(body.sessionToken, message.player)) {
+    return true;
   }
-  return null;
+  return verifyPlayerSignature(primaryType, message, body.signature);
+}
+
+// Check whether an address is one of the game's two players
+function isParticipant(players: { player1: string; player2: string }, address: string): boolean {
+  const addr = address.toLowerCase();
+  return addr === players.player1.toLowerCase() || addr === players.player2.toLowerCase();
+}
+
+// Get the other player in the game
+function getOpponent(state: GameState, player: string): string {
+  return state.player1.toLowerCase() === player.toLowerCase() ? state.player2 : state.player1;
 }
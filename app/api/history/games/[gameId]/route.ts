@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIndexedGame } from "@/app/utils/indexer";
+
+export const dynamic = "force-dynamic";
+
+// GET - One indexed game (?source=gameManager|ticTacToe), with on-chain moves for TicTacToeGame games
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  const source = request.nextUrl.searchParams.get("source") ?? "gameManager";
+
+  if (!/^\d+$/.test(gameId)) {
+    return NextResponse.json({ error: "Invalid game ID" }, { status: 400 });
+  }
+  if (source !== "gameManager" && source !== "ticTacToe") {
+    return NextResponse.json({ error: "Invalid source" }, { status: 400 });
+  }
+
+  try {
+    const result = await getIndexedGame(source, gameId);
+    if (!result) {
+      return NextResponse.json({ error: "Game not found" }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error reading game history:", error);
+    return NextResponse.json({ error: "Failed to read game history" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getIndexedGames, type IndexedGame, type IndexedGameStatus } from "@/app/utils/indexer";
+
+export const dynamic = "force-dynamic";
+
+const SOURCES: IndexedGame["source"][] = ["gameManager", "ticTacToe"];
+const STATUSES: IndexedGameStatus[] = ["created", "active", "won", "drawn", "cancelled", "abandoned"];
+
+// Games per page unless ?limit= asks for fewer
+const MAX_LIMIT = 100;
+
+// GET - Indexed games, newest first (?player=&source=&status=&before=&limit=)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const player = params.get("player") ?? undefined;
+  const source = params.get("source") ?? undefined;
+  const status = params.get("status") ?? undefined;
+  const before = params.get("before");
+  const limit = Number(params.get("limit") ?? MAX_LIMIT);
+
+  if (player !== undefined && !isAddress(player)) {
+    return NextResponse.json({ error: "Invalid player address" }, { status: 400 });
+  }
+  if (source !== undefined && !SOURCES.includes(source as IndexedGame["source"])) {
+    return NextResponse.json({ error: "Invalid source" }, { status: 400 });
+  }
+  if (status !== undefined && !STATUSES.includes(status as IndexedGameStatus)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+  if ((before !== null && !/^\d+$/.test(before)) || !Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: "Invalid page" }, { status: 400 });
+  }
+
+  try {
+    const games = await getIndexedGames({
+      player,
+      source: source as IndexedGame["source"] | undefined,
+      status: status as IndexedGameStatus | undefined,
+      before: before === null ? undefined : Number(before),
+      limit: Math.min(limit, MAX_LIMIT),
+    });
+    return NextResponse.json({ games });
+  } catch (error) {
+    console.error("Error reading game history:", error);
+    return NextResponse.json({ error: "Failed to read game history" }, { status: 500 });
+  }
+}
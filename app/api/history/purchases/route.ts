@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getPurchases } from "@/app/utils/indexer";
+
+export const dynamic = "force-dynamic";
+
+// Purchases per response unless ?limit= asks for fewer
+const MAX_LIMIT = 100;
+
+// GET - DUEL purchases from the TokenStore, newest first (?buyer=&limit=)
+export async function GET(request: NextRequest) {
+  const buyer = request.nextUrl.searchParams.get("buyer") ?? undefined;
+  const limit = Number(request.nextUrl.searchParams.get("limit") ?? MAX_LIMIT);
+
+  if (buyer !== undefined && !isAddress(buyer)) {
+    return NextResponse.json({ error: "Invalid buyer address" }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+  }
+
+  try {
+    const purchases = await getPurchases({ buyer, limit: Math.min(limit, MAX_LIMIT) });
+    return NextResponse.json({ purchases });
+  } catch (error) {
+    console.error("Error reading purchase history:", error);
+    return NextResponse.json({ error: "Failed to read purchase history" }, { status: 500 });
+  }
+}
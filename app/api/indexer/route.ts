@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getIndexStatus, syncIndex } from "@/app/utils/indexer";
+
+export const dynamic = "force-dynamic";
+
+// GET - Indexer checkpoint and how far behind the chain head it is
+export async function GET() {
+  try {
+    return NextResponse.json(await getIndexStatus());
+  } catch (error) {
+    console.error("Error reading indexer status:", error);
+    return NextResponse.json({ error: "Failed to read indexer status" }, { status: 500 });
+  }
+}
+
+// POST - Sync now (for a cron job, or to catch up a backfill faster than reads do)
+export async function POST() {
+  try {
+    await syncIndex();
+    return NextResponse.json(await getIndexStatus());
+  } catch (error) {
+    console.error("Indexer sync failed:", error);
+    return NextResponse.json({ error: "Indexer sync failed" }, { status: 502 });
+  }
+}
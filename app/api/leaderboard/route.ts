@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  RATED_GAME_TYPES,
+  RATING_WINDOWS,
+  getLeaderboard,
+  type RatedGameType,
+  type RatingWindow,
+} from "@/app/utils/ratings";
+
+export const dynamic = "force-dynamic";
+
+// GET - Ranked Elo ratings for a game type (?gameType=tictactoe|connect4&window=all|30d|7d)
+export async function GET(request: NextRequest) {
+  const gameType = request.nextUrl.searchParams.get("gameType") ?? "tictactoe";
+  const window = request.nextUrl.searchParams.get("window") ?? "all";
+
+  if (!RATED_GAME_TYPES.includes(gameType as RatedGameType)) {
+    return NextResponse.json({ error: "Invalid game type" }, { status: 400 });
+  }
+  if (!(window in RATING_WINDOWS)) {
+    return NextResponse.json({ error: "Invalid time window" }, { status: 400 });
+  }
+
+  try {
+    const leaderboard = await getLeaderboard(gameType as RatedGameType, window as RatingWindow);
+    return NextResponse.json({ gameType, window, ...leaderboard });
+  } catch (error) {
+    console.error("Error computing leaderboard:", error);
+    return NextResponse.json({ error: "Failed to compute leaderboard" }, { status: 500 });
+  }
+}
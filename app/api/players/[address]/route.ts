@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getPlayerRatings } from "@/app/utils/ratings";
+
+export const dynamic = "force-dynamic";
+
+// GET - A player's rating and rank per game type, with their latest results
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  if (!isAddress(address)) {
+    return NextResponse.json({ error: "Invalid address" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getPlayerRatings(address));
+  } catch (error) {
+    console.error("Error computing player ratings:", error);
+    return NextResponse.json({ error: "Failed to compute player ratings" }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSessionToken, verifySignIn } from "@/app/utils/playerSession";
+
+// POST - Exchange a signed Sign-In With Ethereum message for a session token
+export async function POST(request: NextRequest) {
+  const { message, signature } = await request.json();
+
+  const player = await verifySignIn(message, signature, request.nextUrl.host);
+  if (!player) {
+    return NextResponse.json({ error: "Invalid sign-in" }, { status: 401 });
+  }
+
+  return NextResponse.json({ success: true, ...createSessionToken(player) });
+}
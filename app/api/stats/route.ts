@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getIndexStats } from "@/app/utils/indexer";
+
+export const dynamic = "force-dynamic";
+
+// GET - Totals across all indexed games and purchases, or one player's (?player=)
+export async function GET(request: NextRequest) {
+  const player = request.nextUrl.searchParams.get("player") ?? undefined;
+
+  if (player !== undefined && !isAddress(player)) {
+    return NextResponse.json({ error: "Invalid player address" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getIndexStats(player));
+  } catch (error) {
+    console.error("Error computing stats:", error);
+    return NextResponse.json({ error: "Failed to compute stats" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+import { getSignatureNonce } from "@/app/utils/gameManager";
+import {
+  hashTournamentMatchResult,
+  signTournamentMatchResult,
+  signatureDeadline,
+} from "@/app/utils/signGameResult";
+import { verifyTournamentMatchResult } from "@/app/utils/resultVerification";
+import { collectCosignatures, orderBySigner } from "@/app/utils/cosigners";
+
+// POST - Sign a bracket match result so the winner can advance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tournamentId: string }> }
+) {
+  try {
+    const { tournamentId } = await params;
+    const { round, matchIndex } = await request.json();
+
+    if (
+      !/^\d+$/.test(tournamentId) ||
+      !Number.isInteger(round) || round < 0 || round > 255 ||
+      !Number.isInteger(matchIndex) || matchIndex < 0 || matchIndex > 255
+    ) {
+      return NextResponse.json(
+        { error: "Invalid tournament match" },
+        { status: 400 }
+      );
+    }
+
+    // Get the backend signer private key from environment
+    const privateKey = process.env.NEXT_PUBLIC_BACKEND_SIGNER_KEY;
+
+    if (!privateKey) {
+      console.error("NEXT_PUBLIC_BACKEND_SIGNER_KEY not configured");
+      return NextResponse.json(
+        { error: "Server configuration error" },
+        { status: 500 }
+      );
+    }
+
+    const match = { tournamentId: BigInt(tournamentId), round, matchIndex };
+
+    // Verify against the stored game state for the match and the chain
+    const result = await verifyTournamentMatchResult(match);
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    // Signatures carry the current nonce (so the owner can revoke them) and a deadline
+    const nonce = await getSignatureNonce();
+    const deadline = signatureDeadline();
+    const account = privateKeyToAccount(privateKey as `0x${string}`);
+
+    // Sign the match result
+    const signature = await signTournamentMatchResult(
+      match,
+      result.winner,
+      nonce,
+      deadline,
+      privateKey as `0x${string}`
+    );
+
+    // Collect the other verifiers' signatures to meet the GameManager's threshold
+    let cosignatures;
+    try {
+      cosignatures = await collectCosignatures(
+        { type: "TournamentMatchResult", tournamentId, round, matchIndex, deadline: deadline.toString() },
+        hashTournamentMatchResult(match, result.winner, nonce, deadline),
+        account.address
+      );
+    } catch (error) {
+      console.error("Error collecting cosignatures:", error);
+      return NextResponse.json(
+        { error: "Failed to collect cosignatures" },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      signatures: orderBySigner([{ signer: account.address, signature }, ...cosignatures]),
+      deadline: deadline.toString(),
+      tournamentId,
+      round,
+      matchIndex,
+      winner: result.winner,
+    });
+  } catch (error) {
+    console.error("Error signing match result:", error);
+    return NextResponse.json(
+      { error: "Failed to sign match result" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { connect4Engine } from "@/app/utils/engine";
 
 interface Connect4Props {
   gameId: bigint;
@@ -13,55 +14,11 @@ interface Connect4Props {
 }
 
 type Cell = "red" | "yellow" | null;
-type Board = Cell[][];
 
-const ROWS = 6;
 const COLS = 7;
 
-function createEmptyBoard(): Board {
-  return Array(ROWS).fill(null).map(() => Array(COLS).fill(null));
-}
-
-function checkWin(board: Board, row: number, col: number, player: Cell): boolean {
-  if (!player) return false;
-
-  const directions = [
-    [0, 1],   // horizontal
-    [1, 0],   // vertical
-    [1, 1],   // diagonal down-right
-    [1, -1],  // diagonal down-left
-  ];
-
-  for (const [dRow, dCol] of directions) {
-    let count = 1;
-
-    // Check positive direction
-    for (let i = 1; i < 4; i++) {
-      const newRow = row + dRow * i;
-      const newCol = col + dCol * i;
-      if (newRow < 0 || newRow >= ROWS || newCol < 0 || newCol >= COLS) break;
-      if (board[newRow][newCol] !== player) break;
-      count++;
-    }
-
-    // Check negative direction
-    for (let i = 1; i < 4; i++) {
-      const newRow = row - dRow * i;
-      const newCol = col - dCol * i;
-      if (newRow < 0 || newRow >= ROWS || newCol < 0 || newCol >= COLS) break;
-      if (board[newRow][newCol] !== player) break;
-      count++;
-    }
-
-    if (count >= 4) return true;
-  }
-
-  return false;
-}
-
-function isBoardFull(board: Board): boolean {
-  return board[0].every(cell => cell !== null);
-}
+// Engine boards use 1 for player1 (red) and 2 for player2 (yellow)
+const CELL_COLORS: Record<number, Cell> = { 0: null, 1: "red", 2: "yellow" };
 
 export function Connect4({
   gameId,
@@ -72,7 +29,7 @@ export function Connect4({
   onMove,
   disabled = false,
 }: Connect4Props) {
-  const [board, setBoard] = useState<Board>(createEmptyBoard());
+  const [board, setBoard] = useState<number[][]>(() => connect4Engine.createInitialBoard());
   const [currentTurn, setCurrentTurn] = useState<"red" | "yellow">("red");
   const [winner, setWinner] = useState<Cell>(null);
   const [isDraw, setIsDraw] = useState(false);
@@ -85,26 +42,18 @@ export function Connect4({
 
   const dropPiece = useCallback((col: number) => {
     if (!canPlay) return;
-    if (board[0][col] !== null) return; // Column is full
-
-    // Find the lowest empty row
-    let row = ROWS - 1;
-    while (row >= 0 && board[row][col] !== null) {
-      row--;
-    }
-
-    if (row < 0) return; // Column is full
+    if (connect4Engine.validateMove(board, col)) return; // Column is full
 
     // Make the move
-    const newBoard = board.map(r => [...r]);
-    newBoard[row][col] = currentTurn;
+    const { board: newBoard, position } = connect4Engine.applyMove(board, col, currentTurn === "red" ? 1 : 2);
     setBoard(newBoard);
-    setLastMove({ row, col });
+    if (typeof position === "object") setLastMove(position);
 
     // Check for win
-    if (checkWin(newBoard, row, col, currentTurn)) {
-      setWinner(currentTurn);
-    } else if (isBoardFull(newBoard)) {
+    const outcome = connect4Engine.getOutcome(newBoard);
+    if (outcome.winner) {
+      setWinner(CELL_COLORS[outcome.winner]);
+    } else if (outcome.isDraw) {
       setIsDraw(true);
     } else {
       // Switch turns
@@ -115,13 +64,7 @@ export function Connect4({
     onMove(col);
   }, [board, currentTurn, canPlay, onMove]);
 
-  const getColumnTop = (col: number): number => {
-    let row = ROWS - 1;
-    while (row >= 0 && board[row][col] !== null) {
-      row--;
-    }
-    return row;
-  };
+  const legalCols = connect4Engine.legalMoves(board);
 
   return (
     <div className="flex flex-col items-center">
@@ -172,8 +115,7 @@ export function Connect4({
         {/* Column buttons (for dropping pieces) */}
         <div className="flex mb-2">
           {Array(COLS).fill(null).map((_, col) => {
-            const topRow = getColumnTop(col);
-            const isColumnFull = topRow < 0;
+            const isColumnFull = !legalCols.includes(col);
             
             return (
               <button
@@ -201,30 +143,33 @@ export function Connect4({
         {/* Grid */}
         <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${COLS}, 1fr)` }}>
           {board.map((row, rowIndex) =>
-            row.map((cell, colIndex) => (
-              <div
-                key={`${rowIndex}-${colIndex}`}
-                className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 ${
-                  cell === "red"
-                    ? "bg-red-500 shadow-inner"
-                    : cell === "yellow"
-                    ? "bg-yellow-400 shadow-inner"
-                    : "bg-blue-800"
-                } ${
-                  lastMove?.row === rowIndex && lastMove?.col === colIndex
-                    ? "ring-4 ring-white/50"
-                    : ""
-                }`}
-              >
-                {cell && (
-                  <div className={`w-10 h-10 rounded-full ${
+            row.map((value, colIndex) => {
+              const cell = CELL_COLORS[value];
+              return (
+                <div
+                  key={`${rowIndex}-${colIndex}`}
+                  className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 ${
                     cell === "red"
-                      ? "bg-gradient-to-br from-red-400 to-red-600"
-                      : "bg-gradient-to-br from-yellow-300 to-yellow-500"
-                  }`} />
-                )}
-              </div>
-            ))
+                      ? "bg-red-500 shadow-inner"
+                      : cell === "yellow"
+                      ? "bg-yellow-400 shadow-inner"
+                      : "bg-blue-800"
+                  } ${
+                    lastMove?.row === rowIndex && lastMove?.col === colIndex
+                      ? "ring-4 ring-white/50"
+                      : ""
+                  }`}
+                >
+                  {cell && (
+                    <div className={`w-10 h-10 rounded-full ${
+                      cell === "red"
+                        ? "bg-gradient-to-br from-red-400 to-red-600"
+                        : "bg-gradient-to-br from-yellow-300 to-yellow-500"
+                    }`} />
+                  )}
+                </div>
+              );
+            })
           )}
         </div>
       </div>
@@ -0,0 +1,263 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAccount, usePublicClient, useReadContracts } from "wagmi";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import Link from "next/link";
+import {
+  CONTRACTS,
+  GAME_MANAGER_ABI,
+  GAME_MANAGER_DEPLOY_BLOCK,
+  GameStatus,
+  GameType,
+  getWagerToken,
+  type GameData,
+  type WagerToken,
+} from "@/app/hooks/useGameContracts";
+import { baseSepolia } from "wagmi/chains";
+
+const CHAIN_ID = baseSepolia.id;
+
+interface OpenChallenge {
+  id: bigint;
+  player1: `0x${string}`;
+  token: WagerToken;
+  wagerAmount: bigint;
+  player2Wager: bigint;
+  gameType: GameType;
+  bestOf: number;
+  createdAt: Date;
+}
+
+type GameTypeFilter = "all" | GameType;
+
+interface OpenChallengesProps {
+  limit?: number; // Max challenges to show (the lobby shows all)
+}
+
+export function OpenChallenges({ limit }: OpenChallengesProps) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient({ chainId: CHAIN_ID });
+  const [createdIds, setCreatedIds] = useState<bigint[]>([]);
+  const [isLoadingLogs, setIsLoadingLogs] = useState(true);
+  const [challenges, setChallenges] = useState<OpenChallenge[]>([]);
+
+  // Filters
+  const [gameTypeFilter, setGameTypeFilter] = useState<GameTypeFilter>("all");
+  const [minWager, setMinWager] = useState("");
+  const [maxWager, setMaxWager] = useState("");
+
+  // Find every open challenge ever posted (GameCreated with player2 unset)
+  useEffect(() => {
+    if (!publicClient) return;
+
+    let cancelled = false;
+    const fetchLogs = async () => {
+      try {
+        const logs = await publicClient.getContractEvents({
+          address: CONTRACTS.GAME_MANAGER,
+          abi: GAME_MANAGER_ABI,
+          eventName: "GameCreated",
+          args: { player2: zeroAddress },
+          fromBlock: GAME_MANAGER_DEPLOY_BLOCK,
+        });
+        if (cancelled) return;
+        setCreatedIds(
+          logs
+            .map((log) => log.args.gameId)
+            .filter((id): id is bigint => id !== undefined)
+        );
+      } catch (err) {
+        console.error("Failed to load open challenges:", err);
+      } finally {
+        if (!cancelled) setIsLoadingLogs(false);
+      }
+    };
+    fetchLogs();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicClient]);
+
+  // Re-read each game, since logs don't tell us whether it was joined or cancelled since
+  const contracts = createdIds.map((id) => ({
+    address: CONTRACTS.GAME_MANAGER as `0x${string}`,
+    abi: GAME_MANAGER_ABI,
+    functionName: "getGame",
+    args: [id],
+    chainId: CHAIN_ID,
+  }));
+
+  const { data: gamesData, isLoading: isLoadingGames } = useReadContracts({
+    contracts: contracts as any,
+    query: { enabled: contracts.length > 0 },
+  });
+
+  // Keep only challenges still waiting for an opponent
+  useEffect(() => {
+    if (!gamesData) {
+      setChallenges([]);
+      return;
+    }
+
+    const open: OpenChallenge[] = [];
+
+    gamesData.forEach((result) => {
+      if (result.status !== "success" || !result.result) return;
+
+      const game = result.result as GameData;
+      if (game.status !== GameStatus.Created || game.player2 !== zeroAddress) return;
+
+      open.push({
+        id: game.id,
+        player1: game.player1,
+        token: getWagerToken(game.token),
+        wagerAmount: game.wagerAmount,
+        player2Wager: game.player2Wager,
+        gameType: game.gameType,
+        bestOf: game.bestOf,
+        createdAt: new Date(Number(game.createdAt) * 1000),
+      });
+    });
+
+    // Sort by creation time (newest first)
+    open.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    setChallenges(open);
+  }, [gamesData]);
+
+  // Wager filters are whole-token amounts, compared in each challenge's own decimals
+  const parseWagerFilter = (value: string, decimals: number) => {
+    try {
+      return value ? parseUnits(value, decimals) : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const filtered = challenges.filter((c) => {
+    if (gameTypeFilter !== "all" && c.gameType !== gameTypeFilter) return false;
+    const minWagerBigInt = parseWagerFilter(minWager, c.token.decimals);
+    const maxWagerBigInt = parseWagerFilter(maxWager, c.token.decimals);
+    if (minWagerBigInt !== undefined && c.wagerAmount < minWagerBigInt) return false;
+    if (maxWagerBigInt !== undefined && c.wagerAmount > maxWagerBigInt) return false;
+    return true;
+  });
+  const visible = limit !== undefined ? filtered.slice(0, limit) : filtered;
+
+  const isLoading = isLoadingLogs || (contracts.length > 0 && isLoadingGames);
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Open Challenges</h2>
+        {limit !== undefined && (
+          <Link href="/lobby" className="text-sm text-purple-400 hover:text-purple-300 font-medium">
+            View all →
+          </Link>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-2 mb-4">
+        <div className="grid grid-cols-3 gap-2">
+          {([
+            ["all", "All"],
+            [GameType.TicTacToe, "⭕ Tic Tac Toe"],
+            [GameType.ConnectFour, "🔴 Connect 4"],
+          ] as [GameTypeFilter, string][]).map(([value, label]) => (
+            <button
+              key={value.toString()}
+              type="button"
+              onClick={() => setGameTypeFilter(value)}
+              className={`py-2 px-2 rounded-lg border text-xs transition-all ${
+                gameTypeFilter === value
+                  ? "border-purple-500 bg-purple-500/20 text-purple-300"
+                  : "border-gray-700 text-gray-400 hover:border-gray-600"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="number"
+            value={minWager}
+            onChange={(e) => setMinWager(e.target.value)}
+            placeholder="Min wager"
+            min="0"
+            className="w-full px-3 py-2 text-sm border border-gray-700 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all text-white bg-gray-800 placeholder-gray-500"
+          />
+          <input
+            type="number"
+            value={maxWager}
+            onChange={(e) => setMaxWager(e.target.value)}
+            placeholder="Max wager"
+            min="0"
+            className="w-full px-3 py-2 text-sm border border-gray-700 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all text-white bg-gray-800 placeholder-gray-500"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin h-8 w-8 border-4 border-purple-500 border-t-transparent rounded-full" />
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-gray-400 text-center py-4">
+          {challenges.length === 0
+            ? "No open challenges right now. Post one for anyone to accept!"
+            : "No open challenges match your filters."}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((challenge) => {
+            const isOwn = !!address && challenge.player1.toLowerCase() === address.toLowerCase();
+
+            return (
+              <div
+                key={challenge.id.toString()}
+                className="border border-purple-500/30 bg-gray-900/50 rounded-xl p-4 hover:border-purple-400/50 transition-colors"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-mono text-sm text-gray-400">
+                    by {challenge.player1.slice(0, 6)}...{challenge.player1.slice(-4)}
+                  </span>
+                  <span className="text-xs bg-purple-500/20 text-purple-300 px-2 py-1 rounded-full border border-purple-500/30">
+                    {challenge.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four"}
+                    {challenge.bestOf > 1 && ` · Bo${challenge.bestOf}`}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-bold text-purple-400">
+                      {Number(formatUnits(challenge.wagerAmount, challenge.token.decimals)).toLocaleString()} {challenge.token.symbol}
+                    </span>
+                    <p className="text-xs text-gray-500">
+                      You stake {Number(formatUnits(challenge.player2Wager, challenge.token.decimals)).toLocaleString()} {challenge.token.symbol}
+                    </p>
+                  </div>
+
+                  {isOwn ? (
+                    <span className="text-xs bg-gray-700 text-gray-300 px-3 py-2 rounded-lg">
+                      Yours
+                    </span>
+                  ) : (
+                    <Link
+                      href={`/join/${challenge.id}`}
+                      className="px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      Accept
+                    </Link>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
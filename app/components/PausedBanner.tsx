@@ -0,0 +1,21 @@
+'use client';
+
+import { useContractsPaused } from '@/app/hooks/useGameContracts';
+
+export function PausedBanner() {
+  const { gameManager, ticTacToe, tokenStore, anyPaused } = useContractsPaused();
+
+  if (!anyPaused) return null;
+
+  // Describe only what's actually stopped; everything else keeps working
+  const stopped = [
+    (gameManager || ticTacToe) && 'new games',
+    tokenStore && 'DUEL purchases',
+  ].filter(Boolean).join(' and ');
+
+  return (
+    <div className="sticky top-0 z-40 bg-yellow-500/90 text-yellow-950 text-sm font-medium text-center px-4 py-2 pl-32 shadow-lg">
+      ⏸️ DuelBase is paused: {stopped} are on hold. Games already in progress can still be finished, cancelled or refunded.
+    </div>
+  );
+}
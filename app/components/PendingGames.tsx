@@ -1,39 +1,46 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
-import { formatUnits } from "viem";
+import { formatUnits, zeroAddress } from "viem";
 import Link from "next/link";
-import { useReadContracts } from "wagmi";
 import {
-  useNextGameId,
+  usePlayerGames,
+  useAbandonTimeout,
+  gameStatusMask,
   CONTRACTS,
   GAME_MANAGER_ABI,
   GameStatus,
   GameType,
-  DUEL_DECIMALS,
-  type GameData,
+  getWagerToken,
 } from "@/app/hooks/useGameContracts";
 import { baseSepolia } from "wagmi/chains";
+import { inviteLink } from "@/app/utils/referrals";
 
 const CHAIN_ID = baseSepolia.id;
 
+// Games still waiting for an opponent or a result
+const PENDING_STATUSES = gameStatusMask(GameStatus.Created, GameStatus.Active);
+
 interface PendingGame {
   id: bigint;
   opponent: string;
   wagerAmount: string;
+  tokenSymbol: string;
   gameType: string;
   isChallenger: boolean;
   createdAt: Date;
   status: GameStatus;
+  canAbandon: boolean; // Active with no result past the abandon timeout
 }
 
 export function PendingGames() {
   const { address } = useAccount();
-  const { data: nextGameId } = useNextGameId();
+  const { data: abandonTimeout } = useAbandonTimeout();
   const [pendingGames, setPendingGames] = useState<PendingGame[]>([]);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [abandoningId, setAbandoningId] = useState<string | null>(null);
   const [dismissedGames, setDismissedGames] = useState<Set<string>>(new Set());
 
   // Load dismissed games from localStorage
@@ -75,6 +82,37 @@ export function PendingGames() {
     }
   }, [cancelError, resetCancel]);
 
+  // Abandon transaction (either player, refunds both stakes of a stale game)
+  const { 
+    data: abandonHash, 
+    writeContract: abandonGame, 
+    isPending: isAbandonPending,
+    reset: resetAbandon,
+    error: abandonError
+  } = useWriteContract();
+  
+  const { isLoading: isAbandonConfirming, isSuccess: isAbandonSuccess } = useWaitForTransactionReceipt({
+    hash: abandonHash,
+  });
+
+  // Handle abandon success
+  useEffect(() => {
+    if (isAbandonSuccess && abandoningId) {
+      // Remove the refunded game from the list
+      setPendingGames(prev => prev.filter(g => g.id.toString() !== abandoningId));
+      setAbandoningId(null);
+      resetAbandon();
+    }
+  }, [isAbandonSuccess, abandoningId, resetAbandon]);
+
+  // Handle abandon error
+  useEffect(() => {
+    if (abandonError) {
+      setAbandoningId(null);
+      resetAbandon();
+    }
+  }, [abandonError, resetAbandon]);
+
   // On-chain cancel for game creator (refunds their wager)
   const handleCancelGame = (gameId: bigint) => {
     setCancellingId(gameId.toString());
@@ -87,6 +125,18 @@ export function PendingGames() {
     });
   };
 
+  // On-chain refund of an Active game that never got a result
+  const handleAbandonGame = (gameId: bigint) => {
+    setAbandoningId(gameId.toString());
+    abandonGame({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "abandonGame",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
   // Local dismiss for invitee (they haven't staked funds yet)
   const handleDismissInvite = (gameId: bigint) => {
     const newDismissed = new Set(dismissedGames);
@@ -95,73 +145,76 @@ export function PendingGames() {
     localStorage.setItem('dismissedGames', JSON.stringify([...newDismissed]));
   };
 
-  // Build contract calls to fetch recent games
-  const gameIds = nextGameId ? Array.from(
-    { length: Math.min(Number(nextGameId), 50) }, // Fetch last 50 games max
-    (_, i) => BigInt(Number(nextGameId) - 1 - i)
-  ).filter(id => id >= BigInt(0)) : [];
-
-  const contracts = gameIds.map((id) => ({
-    address: CONTRACTS.GAME_MANAGER as `0x${string}`,
-    abi: GAME_MANAGER_ABI,
-    functionName: "getGame",
-    args: [id],
-    chainId: CHAIN_ID,
-  }));
-
-  const { data: gamesData, isLoading } = useReadContracts({
-    contracts: contracts as any,
-    query: { enabled: contracts.length > 0 && !!address },
-  });
+  // The player's pending games from GameManager's per-player index, newest first
+  const {
+    games,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = usePlayerGames(address, PENDING_STATUSES);
+
+  // Load the next page when the bottom of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   // Process games data
   useEffect(() => {
-    if (!gamesData || !address) {
+    if (!address) {
       setPendingGames([]);
       return;
     }
 
     const userAddress = address.toLowerCase();
-    const pending: PendingGame[] = [];
+    const now = BigInt(Math.floor(Date.now() / 1000));
 
-    gamesData.forEach((result, index) => {
-      if (result.status !== "success" || !result.result) return;
-      
-      const game = result.result as GameData;
-      
-      // Show Created (waiting) and Active games
-      if (game.status !== GameStatus.Created && game.status !== GameStatus.Active) return;
-      
-      const player1 = game.player1.toLowerCase();
-      const player2 = game.player2.toLowerCase();
-      
-      // Check if user is involved in this game
-      if (player1 === userAddress || player2 === userAddress) {
-        const isChallenger = player1 === userAddress;
-        
-        pending.push({
-          id: game.id,
-          opponent: isChallenger ? game.player2 : game.player1,
-          wagerAmount: formatUnits(game.wagerAmount, DUEL_DECIMALS),
-          gameType: game.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four",
-          isChallenger,
-          createdAt: new Date(Number(game.createdAt) * 1000),
-          status: game.status,
-        });
-      }
+    const pending: PendingGame[] = games.map((game) => {
+      const isChallenger = game.player1.toLowerCase() === userAddress;
+      const wagerToken = getWagerToken(game.token);
+
+      return {
+        id: game.id,
+        opponent: isChallenger ? game.player2 : game.player1,
+        wagerAmount: formatUnits(game.wagerAmount, wagerToken.decimals),
+        tokenSymbol: wagerToken.symbol,
+        gameType: game.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four",
+        isChallenger,
+        createdAt: new Date(Number(game.createdAt) * 1000),
+        status: game.status,
+        canAbandon:
+          game.status === GameStatus.Active &&
+          abandonTimeout !== undefined &&
+          now >= game.startedAt + abandonTimeout,
+      };
     });
 
-    // Sort by creation time (newest first)
-    pending.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    
     // Filter out dismissed games (for invitees who declined)
     const filtered = pending.filter(g => !dismissedGames.has(g.id.toString()));
     setPendingGames(filtered);
-  }, [gamesData, address, dismissedGames]);
+  }, [games, address, dismissedGames, abandonTimeout]);
+
+  // Keeps paging while more games are left (even if every loaded one was dismissed)
+  const loadMore = hasNextPage && (
+    <div ref={loadMoreRef} className="flex justify-center pt-4">
+      {isFetchingNextPage && (
+        <div className="animate-spin h-6 w-6 border-4 border-purple-500 border-t-transparent rounded-full" />
+      )}
+    </div>
+  );
 
   const copyInviteLink = (gameId: bigint) => {
-    const link = `${window.location.origin}/join/${gameId}`;
-    navigator.clipboard.writeText(link);
+    navigator.clipboard.writeText(inviteLink(window.location.origin, gameId, address));
     setCopiedId(gameId.toString());
     setTimeout(() => setCopiedId(null), 2000);
   };
@@ -186,6 +239,7 @@ export function PendingGames() {
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-6">
         <h2 className="text-xl font-bold text-white mb-4">Your Games</h2>
         <p className="text-gray-400 text-center py-4">No pending games. Start a new game to challenge a friend!</p>
+        {loadMore}
       </div>
     );
   }
@@ -227,23 +281,44 @@ export function PendingGames() {
 
             <div className="text-sm text-gray-400 mb-3">
               <span className="font-mono truncate block max-w-[200px]">
-                vs {game.opponent.slice(0, 6)}...{game.opponent.slice(-4)}
+                {game.opponent === zeroAddress
+                  ? "Open challenge"
+                  : `vs ${game.opponent.slice(0, 6)}...${game.opponent.slice(-4)}`}
               </span>
             </div>
 
             <div className="flex items-center justify-between">
               <span className="font-bold text-purple-400">
-                {Number(game.wagerAmount).toLocaleString()} DUEL
+                {Number(game.wagerAmount).toLocaleString()} {game.tokenSymbol}
               </span>
 
               <div className="flex items-center gap-2">
                 {game.status === GameStatus.Active ? (
-                  <Link
-                    href={`/games/${game.id}`}
-                    className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white text-sm font-medium rounded-lg transition-colors"
-                  >
-                    🎮 Play
-                  </Link>
+                  <>
+                    <Link
+                      href={`/games/${game.id}`}
+                      className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      🎮 Play
+                    </Link>
+                    {game.canAbandon && (
+                      <button
+                        onClick={() => handleAbandonGame(game.id)}
+                        disabled={abandoningId === game.id.toString() && (isAbandonPending || isAbandonConfirming)}
+                        className="px-3 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-300 text-sm font-medium rounded-lg transition-colors border border-red-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="No result was recorded in time - refund both players"
+                      >
+                        {abandoningId === game.id.toString() && (isAbandonPending || isAbandonConfirming) ? (
+                          <span className="flex items-center gap-1">
+                            <span className="animate-spin h-3 w-3 border-2 border-red-300 border-t-transparent rounded-full" />
+                            Refunding...
+                          </span>
+                        ) : (
+                          "Refund"
+                        )}
+                      </button>
+                    )}
+                  </>
                 ) : game.isChallenger ? (
                   <>
                     <button
@@ -293,6 +368,7 @@ export function PendingGames() {
           </div>
         ))}
       </div>
+      {loadMore}
     </div>
   );
 }
@@ -0,0 +1,82 @@
+"use client";
+
+import type { SeriesState } from "@/app/utils/gameStore/types";
+import { winsNeeded } from "@/app/utils/series";
+
+interface SeriesScoreboardProps {
+  series: SeriesState;
+  player1: string;
+  player2: string;
+  viewer?: string;
+  nextGameIn: number; // Seconds until the next game opens (0 when a game is in progress)
+  seriesOver: boolean;
+}
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export function SeriesScoreboard({ series, player1, player2, viewer, nextGameIn, seriesOver }: SeriesScoreboardProps) {
+  const viewerAddr = viewer?.toLowerCase();
+  const label = (player: string) => (player.toLowerCase() === viewerAddr ? "You" : formatAddress(player));
+  const lastGame = series.games[series.games.length - 1];
+  const currentGame = series.games.length + 1;
+  // Replayed draws can run past bestOf games
+  const gameSlots = Math.max(series.bestOf, series.games.length);
+
+  return (
+    <div className="bg-gray-800/50 rounded-2xl p-4 mb-6">
+      <div className="flex justify-between items-center mb-3 text-sm text-gray-400">
+        <span>
+          {series.bestOf > 1 ? `Best of ${series.bestOf} · first to ${winsNeeded(series.bestOf)}` : "Knockout match"}
+          {series.replayDraws && " · draws replay"}
+        </span>
+        <span>
+          {seriesOver ? "Series over" : series.replayDraws ? `Game ${currentGame}` : `Game ${currentGame} of ${series.bestOf}`}
+        </span>
+      </div>
+
+      {/* Score */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2">
+          <div className="w-4 h-4 rounded-full bg-red-500"></div>
+          <span className="text-sm">{label(player1)}</span>
+        </div>
+        <span className="text-2xl font-bold font-mono">
+          {series.wins.player1} – {series.wins.player2}
+        </span>
+        <div className="flex items-center gap-2">
+          <span className="text-sm">{label(player2)}</span>
+          <div className="w-4 h-4 rounded-full bg-yellow-500"></div>
+        </div>
+      </div>
+
+      {/* Game-by-game results */}
+      <div className="flex justify-center gap-2 mt-3">
+        {Array.from({ length: gameSlots }, (_, index) => {
+          const game = series.games[index];
+          const color = !game
+            ? "bg-gray-700"
+            : game.winner === null
+              ? "bg-gray-400"
+              : game.winner.toLowerCase() === player1.toLowerCase()
+                ? "bg-red-500"
+                : "bg-yellow-500";
+          return <div key={index} className={`w-3 h-3 rounded-full ${color}`} title={`Game ${index + 1}`}></div>;
+        })}
+      </div>
+
+      {/* Intermission before the next game */}
+      {nextGameIn > 0 && lastGame && (
+        <div className="mt-3 text-center">
+          <p className="font-semibold">
+            {lastGame.winner === null
+              ? `Game ${series.games.length} drawn`
+              : `${label(lastGame.winner)} won game ${series.games.length}`}
+          </p>
+          <p className="text-sm text-gray-400">
+            Game {series.games.length + 1} starts in {nextGameIn}s
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import {
+  BetSide,
+  DUEL_DECIMALS,
+  GameStatus,
+  PoolStatus,
+  useSidePool,
+  useSidePoolActions,
+  useSidePoolAllowance,
+} from "@/app/hooks/useGameContracts";
+
+interface SidePoolPanelProps {
+  gameId: bigint;
+  player1: string;
+  player2: string;
+  gameStatus: GameStatus;
+  viewer?: `0x${string}`;
+}
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+const formatDuel = (amount: bigint) => Number(formatUnits(amount, DUEL_DECIMALS)).toLocaleString();
+
+/**
+ * Spectator side pool for a game: pool sizes, implied odds, betting and payouts
+ */
+export function SidePoolPanel({ gameId, player1, player2, gameStatus, viewer }: SidePoolPanelProps) {
+  const [betInput, setBetInput] = useState("");
+
+  const { pool, myBetOnPlayer1, myBetOnPlayer2, claimable, refetch } = useSidePool(gameId, viewer);
+  const { data: allowance, refetch: refetchAllowance } = useSidePoolAllowance(viewer);
+  const { approveBet, placeBet, settle, claim, isPending, isConfirming, isSuccess, error, reset } = useSidePoolActions();
+
+  // Refresh the pool once an approve, bet, settle or claim transaction lands
+  useEffect(() => {
+    if (!isSuccess) return;
+    refetch();
+    refetchAllowance();
+    setBetInput("");
+    reset();
+  }, [isSuccess, refetch, refetchAllowance, reset]);
+
+  if (!pool) return null;
+
+  let betAmount = BigInt(0);
+  try {
+    betAmount = betInput ? parseUnits(betInput, DUEL_DECIMALS) : BigInt(0);
+  } catch {
+    // Invalid input leaves the bet buttons disabled
+  }
+
+  const total = pool.player1Total + pool.player2Total;
+  const isPlayer = !!viewer && [player1, player2].some((p) => p.toLowerCase() === viewer.toLowerCase());
+  const isOpen = pool.status === PoolStatus.Open;
+  // Betting closes when player2 joins; open challenges can't be bet on
+  const canBet = isOpen && gameStatus === GameStatus.Created && player2 !== zeroAddress && !!viewer && !isPlayer;
+  const canSettle = isOpen && total > BigInt(0) && (gameStatus === GameStatus.Completed || gameStatus === GameStatus.Cancelled);
+  const needsApproval = allowance !== undefined && allowance < betAmount;
+  const isBusy = isPending || isConfirming;
+
+  // Nothing to show for a started game nobody bet on
+  if (total === BigInt(0) && !canBet) return null;
+
+  // Parimutuel odds: a side's backers share the whole pool
+  const sides = [
+    { side: BetSide.Player1, player: player1, sideTotal: pool.player1Total, myBet: myBetOnPlayer1, dot: "bg-red-500" },
+    { side: BetSide.Player2, player: player2, sideTotal: pool.player2Total, myBet: myBetOnPlayer2, dot: "bg-yellow-500" },
+  ];
+
+  const handleBet = (side: BetSide) => {
+    if (needsApproval) {
+      approveBet(betAmount);
+    } else {
+      placeBet(gameId, side, betAmount);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 rounded-2xl p-4 mt-6">
+      <div className="flex justify-between items-center mb-3 text-sm text-gray-400">
+        <span>🎲 Side pool</span>
+        <span>
+          {formatDuel(total)} DUEL
+          {pool.status === PoolStatus.Settled && " · settled"}
+          {pool.status === PoolStatus.Refunded && " · refunded"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {sides.map(({ side, player, sideTotal, myBet, dot }) => {
+          const won = pool.status === PoolStatus.Settled && pool.winningSide === side;
+          return (
+            <div
+              key={side}
+              className={`rounded-xl p-3 bg-white/5 border ${won ? "border-green-500/60" : "border-transparent"}`}
+            >
+              <div className="flex items-center gap-2 text-sm mb-1">
+                <div className={`w-3 h-3 rounded-full ${dot}`}></div>
+                <span>{formatAddress(player)}</span>
+                {won && <span className="text-green-400">✓</span>}
+              </div>
+              <p className="text-lg font-bold">{formatDuel(sideTotal)} DUEL</p>
+              <p className="text-xs text-gray-400">
+                {sideTotal > BigInt(0)
+                  ? `${(Number(total) / Number(sideTotal)).toFixed(2)}x · ${Math.round((Number(sideTotal) * 100) / Number(total))}% implied`
+                  : "No bets yet"}
+              </p>
+              {!!myBet && myBet > BigInt(0) && (
+                <p className="text-xs text-purple-300 mt-1">Your bet: {formatDuel(myBet)} DUEL</p>
+              )}
+              {canBet && (
+                <button
+                  onClick={() => handleBet(side)}
+                  disabled={isBusy || betAmount === BigInt(0)}
+                  className="mt-2 w-full px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-semibold transition-all"
+                >
+                  {needsApproval ? "Approve DUEL" : "Back"}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canBet && (
+        <input
+          type="text"
+          inputMode="decimal"
+          value={betInput}
+          onChange={(e) => setBetInput(e.target.value.replace(/[^0-9.]/g, "").replace(/(\..*)\./g, "$1"))}
+          placeholder="Bet amount (DUEL)"
+          className="mt-3 w-full px-3 py-2 bg-gray-900/60 border border-gray-700 rounded-lg text-sm focus:outline-none focus:border-purple-500"
+        />
+      )}
+
+      {canSettle && (
+        <button
+          onClick={() => settle(gameId)}
+          disabled={isBusy}
+          className="mt-3 w-full px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-sm font-semibold transition-all"
+        >
+          Settle pool
+        </button>
+      )}
+
+      {!isOpen && !!claimable && claimable > BigInt(0) && (
+        <button
+          onClick={() => claim(gameId)}
+          disabled={isBusy}
+          className="mt-3 w-full px-4 py-2 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 disabled:opacity-50 rounded-lg font-semibold transition-all"
+        >
+          {pool.status === PoolStatus.Refunded ? "↩️ Reclaim" : "💰 Collect"} {formatDuel(claimable)} DUEL
+        </button>
+      )}
+
+      {isConfirming && <p className="text-xs text-yellow-300 mt-2 text-center">Confirming transaction...</p>}
+      {error && <p className="text-xs text-red-400 mt-2 text-center">{error.message.split("\n")[0]}</p>}
+    </div>
+  );
+}
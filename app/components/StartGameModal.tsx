@@ -17,6 +17,15 @@ import {
   FormHelperText,
   CircularProgress,
 } from '@mui/material';
+import { formatUnits, parseUnits } from 'viem';
+import {
+  useCalculatePlayer2Wager,
+  useCalculateWinnerPayout,
+  useFeePercent,
+  useGameTypes,
+  GameType,
+  DUEL_DECIMALS,
+} from '@/app/hooks/useGameContracts';
 
 type StartGameModalProps = {
   open: boolean;
@@ -31,6 +40,12 @@ export type GameFormData = {
   opponent: string;
 };
 
+// Icons for the game types this client has a board for
+const GAME_TYPE_ICONS: Record<number, string> = {
+  [GameType.TicTacToe]: '🎯',
+  [GameType.ConnectFour]: '🔴',
+};
+
 const ethAddressRegex = /^0x[a-fA-F0-9]{40}$/;
 const baseNameRegex = /^[a-zA-Z0-9-]+\.base\.eth$/;
 
@@ -93,17 +108,46 @@ export default function StartGameModal({ open, onClose, onSubmit, isLoading = fa
   const {
     control,
     handleSubmit,
+    watch,
     formState: { errors },
   } = useForm<GameFormData>({
     resolver: yupResolver(schema),
     mode: 'onBlur',
     defaultValues: {
-      gameType: 'tictactoe',
+      gameType: String(GameType.TicTacToe),
       wagerAmount: '',
       opponent: '',
     },
   });
 
+  // Game types come from the on-chain registry; disabled ones can't be created
+  const { data: gameTypes } = useGameTypes();
+  const enabledGameTypes = (gameTypes ?? []).filter((type) => type.enabled);
+
+  // Preview stakes and the net payout before the player commits
+  const watchedType = Number(watch('gameType'));
+  const selectedGameType = enabledGameTypes.find((type) => type.id === watchedType);
+  const watchedWager = watch('wagerAmount');
+  let wagerBigInt = BigInt(0);
+  try {
+    wagerBigInt = watchedWager ? parseUnits(watchedWager, DUEL_DECIMALS) : BigInt(0);
+  } catch {
+    // Invalid input is reported by the form validation
+  }
+  const { data: player2Wager } = useCalculatePlayer2Wager(wagerBigInt, watchedType);
+  const { data: winnerPayout } = useCalculateWinnerPayout(wagerBigInt, watchedType);
+  const { data: feePercent } = useFeePercent(watchedType);
+
+  // The game type's own wager limits, if it has any
+  let wagerLimitsHint: string | undefined;
+  if (selectedGameType && (selectedGameType.minWager > BigInt(0) || selectedGameType.maxWager > BigInt(0))) {
+    const min = Number(formatUnits(selectedGameType.minWager, DUEL_DECIMALS)).toLocaleString();
+    const max = Number(formatUnits(selectedGameType.maxWager, DUEL_DECIMALS)).toLocaleString();
+    wagerLimitsHint = selectedGameType.maxWager > BigInt(0)
+      ? `${selectedGameType.name} wagers: ${min} to ${max} DUEL`
+      : `${selectedGameType.name} wagers: at least ${min} DUEL`;
+  }
+
   const onFormSubmit = (data: GameFormData) => {
     onSubmit?.(data);
   };
@@ -128,8 +172,16 @@ export default function StartGameModal({ open, onClose, onSubmit, isLoading = fa
                 helperText="Choose your battle!"
                 sx={{ mb: 3 }}
               >
-                <MenuItem value="tictactoe">🎯 Tic Tac Toe</MenuItem>
-                <MenuItem value="connect4">🔴 Connect 4</MenuItem>
+                {enabledGameTypes.length === 0 && (
+                  <MenuItem value={field.value} disabled>Loading games...</MenuItem>
+                )}
+                {enabledGameTypes.map((type) => (
+                  // Types this client has no board for yet are listed but not selectable
+                  <MenuItem key={type.id} value={String(type.id)} disabled={GameType[type.id] === undefined}>
+                    {GAME_TYPE_ICONS[type.id] ?? '🎮'} {type.name}
+                    {GameType[type.id] === undefined && ' (coming soon)'}
+                  </MenuItem>
+                ))}
               </TextField>
             )}
           />
@@ -154,7 +206,7 @@ export default function StartGameModal({ open, onClose, onSubmit, isLoading = fa
                 onBlur={onBlur}
                 inputRef={ref}
                 error={!!errors.wagerAmount}
-                helperText={errors.wagerAmount?.message}
+                helperText={errors.wagerAmount?.message ?? wagerLimitsHint}
                 InputProps={{
                   startAdornment: <InputAdornment position="start">DUEL</InputAdornment>,
                 }}
@@ -184,6 +236,18 @@ export default function StartGameModal({ open, onClose, onSubmit, isLoading = fa
             )}
           />
 
+          {wagerBigInt > BigInt(0) && player2Wager !== undefined && winnerPayout !== undefined && (
+            <Box sx={{ mb: 3 }}>
+              <Typography variant="body2" color="text.secondary">
+                Opponent stakes {Number(formatUnits(player2Wager, DUEL_DECIMALS)).toLocaleString()} DUEL
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Winner receives {Number(formatUnits(winnerPayout, DUEL_DECIMALS)).toLocaleString()} DUEL
+                {feePercent ? ` (after ${Number(feePercent) / 100}% fee)` : ''}
+              </Typography>
+            </Box>
+          )}
+
           <Box sx={{ display: 'flex', gap: 2, justifyContent: 'flex-end' }}>
             {onClose && (
               <Button variant="outlined" onClick={onClose} disabled={isLoading}>
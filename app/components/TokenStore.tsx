@@ -10,9 +10,12 @@ import {
   useUsdcAllowance,
   useTokenPrice,
   useStoreIsOpen,
+  useContractsPaused,
   useStoreInventory,
   useCalculateCost,
   useTokenStore,
+  usePermitSupport,
+  CONTRACTS,
   USDC_DECIMALS,
   DUEL_DECIMALS,
 } from "@/app/hooks/useGameContracts";
@@ -31,8 +34,10 @@ export function TokenStore() {
   const { data: duelBalance, refetch: refetchDuel } = useDuelBalance(address);
   const { data: usdcBalance, refetch: refetchUsdc } = useUsdcBalance(address);
   const { data: usdcAllowance, refetch: refetchAllowance } = useUsdcAllowance(address);
+  const permitSupported = usePermitSupport(CONTRACTS.USDC, address);
   const { data: pricePerToken } = useTokenPrice();
   const { data: isOpen } = useStoreIsOpen();
+  const { tokenStore: isPaused } = useContractsPaused();
   const { data: inventory } = useStoreInventory();
 
   // Calculate cost for the entered amount
@@ -43,6 +48,9 @@ export function TokenStore() {
   const {
     approveUsdc,
     buyTokens,
+    buyTokensWithPermit,
+    isSigning,
+    permitFailed,
     isPending,
     isConfirming,
     isSuccess,
@@ -50,8 +58,10 @@ export function TokenStore() {
     reset,
   } = useTokenStore();
 
-  // Check if approval is needed
+  // Check if approval is needed (granted by permit in the same transaction)
   const needsApproval = usdcAllowance !== undefined && usdcCost !== undefined && usdcAllowance < usdcCost;
+  // Smart-contract wallets and failed permits approve first instead
+  const canPermit = permitSupported === true && !permitFailed;
 
   // Format display values
   const formattedDuelBalance = duelBalance ? formatUnits(duelBalance, DUEL_DECIMALS) : "0";
@@ -102,10 +112,15 @@ export function TokenStore() {
   }, [usdcCost, approveUsdc]);
 
   const handleBuy = useCallback(() => {
-    if (!duelAmountBigInt) return;
+    if (!duelAmountBigInt || !usdcCost) return;
     setStep("buy");
-    buyTokens(duelAmountBigInt);
-  }, [duelAmountBigInt, buyTokens]);
+    if (needsApproval) {
+      // Sign a permit for the exact cost instead of sending a separate approve
+      buyTokensWithPermit(duelAmountBigInt, usdcCost);
+    } else {
+      buyTokens(duelAmountBigInt);
+    }
+  }, [duelAmountBigInt, usdcCost, needsApproval, buyTokens, buyTokensWithPermit]);
 
   const handleReset = useCallback(() => {
     setStep("input");
@@ -134,12 +149,16 @@ export function TokenStore() {
     );
   }
 
-  if (isOpen === false) {
+  if (isOpen === false || isPaused) {
     return (
       <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-8 text-center">
         <div className="text-6xl mb-4">🔒</div>
-        <h2 className="text-2xl font-bold text-white mb-2">Store Closed</h2>
-        <p className="text-gray-400">The token store is currently closed. Check back later!</p>
+        <h2 className="text-2xl font-bold text-white mb-2">{isPaused ? "Store Paused" : "Store Closed"}</h2>
+        <p className="text-gray-400">
+          {isPaused
+            ? "Purchases are paused while an issue is investigated. Check back later!"
+            : "The token store is currently closed. Check back later!"}
+        </p>
       </div>
     );
   }
@@ -298,19 +317,25 @@ export function TokenStore() {
             {/* Action Button */}
             {duelAmount && Number(duelAmount) > 0 && !isWrongNetwork && (
               <button
-                onClick={needsApproval ? handleApprove : handleBuy}
-                disabled={isPending || isConfirming || step === "buying-after-approve" || !usdcCost || (usdcBalance !== undefined && usdcCost !== undefined && usdcCost > usdcBalance)}
+                onClick={needsApproval && !canPermit ? handleApprove : handleBuy}
+                disabled={isSigning || isPending || isConfirming || step === "buying-after-approve" || !usdcCost || (usdcBalance !== undefined && usdcCost !== undefined && usdcCost > usdcBalance)}
                 className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white font-bold text-lg rounded-xl transition-all shadow-lg shadow-purple-500/25 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
-                {isPending || isConfirming || step === "buying-after-approve" ? (
+                {isSigning || isPending || isConfirming || step === "buying-after-approve" ? (
                   <>
                     <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                     </svg>
-                    {step === "approve" ? "Approving..." : step === "buying-after-approve" ? "Preparing purchase..." : "Purchasing..."}
+                    {isSigning
+                      ? "Sign in wallet..."
+                      : step === "approve"
+                        ? "Approving..."
+                        : step === "buying-after-approve"
+                          ? "Preparing purchase..."
+                          : "Purchasing..."}
                   </>
-                ) : needsApproval ? (
+                ) : needsApproval && !canPermit ? (
                   <>
                     <span>🔓</span> Approve USDC
                   </>
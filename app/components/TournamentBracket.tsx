@@ -0,0 +1,91 @@
+"use client";
+
+import Link from "next/link";
+import { zeroAddress } from "viem";
+import type { BracketMatch } from "@/app/hooks/useGameContracts";
+import { tournamentMatchGameId } from "@/app/utils/tournament";
+
+interface TournamentBracketProps {
+  tournamentId: bigint;
+  rounds: BracketMatch[][];
+  viewer?: string;
+  isActive: boolean;
+}
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+/**
+ * Name of a bracket round, counted back from the final
+ */
+export function roundName(round: number, totalRounds: number): string {
+  const remaining = totalRounds - round;
+  if (remaining === 1) return "Final";
+  if (remaining === 2) return "Semifinals";
+  if (remaining === 3) return "Quarterfinals";
+  return `Round ${round + 1}`;
+}
+
+/**
+ * Single-elimination bracket, one column per round
+ */
+export function TournamentBracket({ tournamentId, rounds, viewer, isActive }: TournamentBracketProps) {
+  const isViewer = (addr: string) => !!viewer && addr.toLowerCase() === viewer.toLowerCase();
+
+  const renderSlot = (player: `0x${string}`, match: BracketMatch) => {
+    const decided = match.winner !== zeroAddress;
+    const won = decided && player.toLowerCase() === match.winner.toLowerCase();
+
+    return (
+      <div
+        className={`flex items-center justify-between px-2 py-1 text-sm ${
+          won ? "text-green-300 font-semibold" : decided ? "text-gray-500 line-through" : "text-gray-200"
+        }`}
+      >
+        <span className={isViewer(player) ? "text-purple-300" : ""}>
+          {player === zeroAddress ? "TBD" : isViewer(player) ? "You" : formatAddress(player)}
+        </span>
+        {won && <span>✓</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {rounds.map((matches, round) => (
+        <div key={round} className="flex flex-col justify-around gap-4 min-w-[11rem]">
+          <h3 className="text-xs uppercase tracking-wide text-gray-400 text-center">
+            {roundName(round, rounds.length)}
+          </h3>
+          {matches.map((match) => {
+            const ready =
+              isActive &&
+              match.winner === zeroAddress &&
+              match.player1 !== zeroAddress &&
+              match.player2 !== zeroAddress;
+            const isMine = isViewer(match.player1) || isViewer(match.player2);
+
+            return (
+              <div
+                key={match.matchIndex}
+                className={`rounded-lg border bg-gray-800/60 divide-y divide-gray-700 ${
+                  ready && isMine ? "border-purple-500" : "border-gray-700"
+                }`}
+              >
+                {renderSlot(match.player1, match)}
+                {renderSlot(match.player2, match)}
+                {ready && isMine && (
+                  <Link
+                    href={`/games/${tournamentMatchGameId({ tournamentId, round, matchIndex: match.matchIndex })}`}
+                    className="block px-2 py-1 text-xs text-center text-purple-300 hover:text-purple-200 font-semibold"
+                  >
+                    ▶ Play match
+                  </Link>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useAccount, useConnect, useDisconnect } from 'wagmi';
+import { formatUnits } from 'viem';
+import { useClaimReferralEarnings, useReferralEarnings } from '@/app/hooks/useGameContracts';
 
 export function WalletIndicator() {
   const { address, isConnected } = useAccount();
@@ -12,6 +15,11 @@ export function WalletIndicator() {
   const [mounted, setMounted] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  const { earnings, refetch: refetchEarnings } = useReferralEarnings(address);
+  const { claimReferralEarnings, isPending: isClaiming, isConfirming, isSuccess: isClaimed, reset: resetClaim } =
+    useClaimReferralEarnings();
+  const claimable = earnings.filter(({ amount }) => amount > BigInt(0));
+
   const injectedConnector = connectors.find((connector) => connector.id === 'injected');
 
   // Prevent hydration mismatch by only rendering after mount
@@ -30,6 +38,13 @@ export function WalletIndicator() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Refresh balances once a referral claim lands
+  useEffect(() => {
+    if (!isClaimed) return;
+    refetchEarnings();
+    resetClaim();
+  }, [isClaimed, refetchEarnings, resetClaim]);
+
   const copyAddress = async () => {
     if (address) {
       await navigator.clipboard.writeText(address);
@@ -99,6 +114,23 @@ export function WalletIndicator() {
               'Copy Address'
             )}
           </button>
+          <Link
+            href="/history"
+            onClick={() => setIsOpen(false)}
+            className="block w-full px-3 py-2 text-left text-xs text-gray-700 hover:bg-gray-50 transition-colors border-t border-gray-100"
+          >
+            Game History
+          </Link>
+          {claimable.map(({ token, amount }) => (
+            <button
+              key={token.address}
+              onClick={() => claimReferralEarnings(token.address)}
+              disabled={isClaiming || isConfirming}
+              className="w-full px-3 py-2 text-left text-xs text-green-700 hover:bg-green-50 disabled:opacity-50 transition-colors border-t border-gray-100"
+            >
+              Claim {Number(formatUnits(amount, token.decimals)).toLocaleString()} {token.symbol} referrals
+            </button>
+          ))}
           <button
             onClick={handleDisconnect}
             className="w-full px-3 py-2 text-left text-xs text-red-600 hover:bg-red-50 transition-colors border-t border-gray-100"
@@ -0,0 +1,441 @@
+/**
+ * GameManager ABI (minimal, shared by client hooks and API routes)
+ */
+
+export const GAME_MANAGER_ABI = [
+  // Read functions
+  {
+    name: "getGame",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "id", type: "uint256" },
+          { name: "player1", type: "address" },
+          { name: "player2", type: "address" },
+          { name: "token", type: "address" },
+          { name: "wagerAmount", type: "uint256" },
+          { name: "player2Wager", type: "uint256" },
+          { name: "protocolFee", type: "uint256" },
+          { name: "gameType", type: "uint8" },
+          { name: "bestOf", type: "uint8" },
+          { name: "status", type: "uint8" },
+          { name: "createdAt", type: "uint256" },
+          { name: "startedAt", type: "uint256" },
+          { name: "winner", type: "address" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getPlayerGameCount",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "player", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getGamesByPlayer",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "player", type: "address" },
+      { name: "offset", type: "uint256" },
+      { name: "limit", type: "uint256" },
+    ],
+    outputs: [
+      {
+        name: "page",
+        type: "tuple[]",
+        components: [
+          { name: "id", type: "uint256" },
+          { name: "player1", type: "address" },
+          { name: "player2", type: "address" },
+          { name: "token", type: "address" },
+          { name: "wagerAmount", type: "uint256" },
+          { name: "player2Wager", type: "uint256" },
+          { name: "protocolFee", type: "uint256" },
+          { name: "gameType", type: "uint8" },
+          { name: "bestOf", type: "uint8" },
+          { name: "status", type: "uint8" },
+          { name: "createdAt", type: "uint256" },
+          { name: "startedAt", type: "uint256" },
+          { name: "winner", type: "address" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getGamesByPlayerWithStatus",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "player", type: "address" },
+      { name: "statusMask", type: "uint256" },
+      { name: "offset", type: "uint256" },
+      { name: "limit", type: "uint256" },
+    ],
+    outputs: [
+      {
+        name: "page",
+        type: "tuple[]",
+        components: [
+          { name: "id", type: "uint256" },
+          { name: "player1", type: "address" },
+          { name: "player2", type: "address" },
+          { name: "token", type: "address" },
+          { name: "wagerAmount", type: "uint256" },
+          { name: "player2Wager", type: "uint256" },
+          { name: "protocolFee", type: "uint256" },
+          { name: "gameType", type: "uint8" },
+          { name: "bestOf", type: "uint8" },
+          { name: "status", type: "uint8" },
+          { name: "createdAt", type: "uint256" },
+          { name: "startedAt", type: "uint256" },
+          { name: "winner", type: "address" },
+        ],
+      },
+      { name: "nextOffset", type: "uint256" },
+    ],
+  },
+  {
+    name: "calculatePlayer2Wager",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "wagerAmount", type: "uint256" },
+      { name: "gameType", type: "uint8" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "calculateWinnerPayout",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "wagerAmount", type: "uint256" },
+      { name: "gameType", type: "uint8" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getGameTypes",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      {
+        name: "types",
+        type: "tuple[]",
+        components: [
+          { name: "id", type: "uint8" },
+          { name: "enabled", type: "bool" },
+          { name: "name", type: "string" },
+          { name: "edgePercent", type: "uint256" },
+          { name: "minWager", type: "uint256" },
+          { name: "maxWager", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "referralEarnings",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "referrer", type: "address" },
+      { name: "token", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "feePercent",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "gameType", type: "uint8" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "tokenConfigs",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [
+      { name: "allowed", type: "bool" },
+      { name: "minWager", type: "uint256" },
+      { name: "maxWager", type: "uint256" },
+    ],
+  },
+  {
+    name: "MAX_BEST_OF",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "nextGameId",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "abandonTimeout",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "drawOfferedBy",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "signatureNonce",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "signerThreshold",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "isSigner",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "paused",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  // Write functions
+  {
+    name: "createGame",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "opponent", type: "address" },
+      { name: "wagerAmount", type: "uint256" },
+      { name: "gameType", type: "uint8" },
+    ],
+    outputs: [{ name: "gameId", type: "uint256" }],
+  },
+  {
+    name: "createGameWithToken",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "opponent", type: "address" },
+      { name: "token", type: "address" },
+      { name: "wagerAmount", type: "uint256" },
+      { name: "gameType", type: "uint8" },
+      { name: "bestOf", type: "uint8" },
+    ],
+    outputs: [{ name: "gameId", type: "uint256" }],
+  },
+  {
+    name: "createGameWithPermit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "opponent", type: "address" },
+      { name: "token", type: "address" },
+      { name: "wagerAmount", type: "uint256" },
+      { name: "gameType", type: "uint8" },
+      { name: "bestOf", type: "uint8" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [{ name: "gameId", type: "uint256" }],
+  },
+  {
+    name: "joinGame",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "joinGame",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "referrer", type: "address" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "joinGameWithPermit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "joinGameWithPermit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "referrer", type: "address" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "claimReferralEarnings",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [],
+  },
+  {
+    name: "completeGame",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "winner", type: "address" },
+      { name: "deadline", type: "uint256" },
+      { name: "signatures", type: "bytes[]" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "completeGameAsDraw",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "signatures", type: "bytes[]" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "cancelGame",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "abandonGame",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "resign",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "offerDraw",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "acceptDraw",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "withdrawDrawOffer",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  // Events
+  {
+    name: "GameCreated",
+    type: "event",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "player1", type: "address", indexed: true },
+      { name: "player2", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: false },
+      { name: "wagerAmount", type: "uint256", indexed: false },
+      { name: "player2Wager", type: "uint256", indexed: false },
+      { name: "gameType", type: "uint8", indexed: false },
+    ],
+  },
+  {
+    name: "GameJoined",
+    type: "event",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "player2", type: "address", indexed: true },
+    ],
+  },
+  {
+    name: "GameCompleted",
+    type: "event",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "winner", type: "address", indexed: true },
+      { name: "totalPayout", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "GameDrawn",
+    type: "event",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "player1Refund", type: "uint256", indexed: false },
+      { name: "player2Refund", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+// ============ Enums ============
+// Game types this client has a board for (IDs in the on-chain registry)
+export enum GameType {
+  TicTacToe = 0,
+  ConnectFour = 1,
+}
+
+export enum GameStatus {
+  Created = 0,
+  Active = 1,
+  Completed = 2,
+  Cancelled = 3,
+}
@@ -0,0 +1,105 @@
+/**
+ * SidePool ABI (minimal, for spectator betting on GameManager games)
+ */
+
+export const SIDE_POOL_ABI = [
+  // Read functions
+  {
+    name: "getPool",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "player1Total", type: "uint256" },
+          { name: "player2Total", type: "uint256" },
+          { name: "status", type: "uint8" },
+          { name: "winningSide", type: "uint8" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "player1Bets",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "bettor", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "player2Bets",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "bettor", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "claimableAmount",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "bettor", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  // Write functions
+  {
+    name: "placeBet",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "side", type: "uint8" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "settle",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "settleWithSignature",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "winner", type: "address" },
+      { name: "deadline", type: "uint256" },
+      { name: "signatures", type: "bytes[]" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "claim",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [],
+  },
+] as const;
+
+// ============ Enums ============
+export enum BetSide {
+  Player1 = 0,
+  Player2 = 1,
+}
+
+export enum PoolStatus {
+  Open = 0,
+  Settled = 1,
+  Refunded = 2,
+}
@@ -16,6 +16,13 @@ export const TicTacToeGameABI = [
     outputs: [{ name: '', type: 'address' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'paused',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
   {
     type: 'event',
     name: 'GameCreated',
@@ -51,6 +58,73 @@ export const TicTacToeGameABI = [
     ],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'getPlayerGameCount',
+    inputs: [{ name: 'player', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGamesByPlayer',
+    inputs: [
+      { name: 'player', type: 'address' },
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [
+      {
+        name: 'page',
+        type: 'tuple[]',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'player1', type: 'address' },
+          { name: 'player2', type: 'address' },
+          { name: 'wagerAmount', type: 'uint256' },
+          { name: 'status', type: 'uint8' },
+          { name: 'createdAt', type: 'uint256' },
+          { name: 'lastMoveAt', type: 'uint256' },
+          { name: 'currentTurn', type: 'address' },
+          { name: 'winner', type: 'address' },
+          { name: 'board', type: 'uint8[9]' },
+          { name: 'isDraw', type: 'bool' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getGamesByPlayerWithStatus',
+    inputs: [
+      { name: 'player', type: 'address' },
+      { name: 'statusMask', type: 'uint256' },
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [
+      {
+        name: 'page',
+        type: 'tuple[]',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'player1', type: 'address' },
+          { name: 'player2', type: 'address' },
+          { name: 'wagerAmount', type: 'uint256' },
+          { name: 'status', type: 'uint8' },
+          { name: 'createdAt', type: 'uint256' },
+          { name: 'lastMoveAt', type: 'uint256' },
+          { name: 'currentTurn', type: 'address' },
+          { name: 'winner', type: 'address' },
+          { name: 'board', type: 'uint8[9]' },
+          { name: 'isDraw', type: 'bool' },
+        ],
+      },
+      { name: 'nextOffset', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
   {
     type: 'function',
     name: 'getBoard',
@@ -0,0 +1,121 @@
+/**
+ * Tournament ABI (minimal, shared by client hooks and API routes)
+ */
+
+export const TOURNAMENT_ABI = [
+  // Read functions
+  {
+    name: "getTournament",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tournamentId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "id", type: "uint256" },
+          { name: "entryFee", type: "uint256" },
+          { name: "size", type: "uint8" },
+          { name: "playerCount", type: "uint8" },
+          { name: "gameType", type: "uint8" },
+          { name: "status", type: "uint8" },
+          { name: "createdAt", type: "uint256" },
+          { name: "startedAt", type: "uint256" },
+          { name: "prizePaid", type: "uint256" },
+          { name: "champion", type: "address" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getPrizeSplit",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tournamentId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256[]" }],
+  },
+  {
+    name: "getEntrants",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tournamentId", type: "uint256" }],
+    outputs: [{ name: "players", type: "address[]" }],
+  },
+  {
+    name: "getMatch",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "tournamentId", type: "uint256" },
+      { name: "round", type: "uint8" },
+      { name: "matchIndex", type: "uint8" },
+    ],
+    outputs: [
+      { name: "player1", type: "address" },
+      { name: "player2", type: "address" },
+      { name: "winner", type: "address" },
+    ],
+  },
+  {
+    name: "isRegistered",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "tournamentId", type: "uint256" },
+      { name: "player", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "nextTournamentId",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "abandonTimeout",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  // Write functions
+  {
+    name: "register",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "tournamentId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "reportResult",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "tournamentId", type: "uint256" },
+      { name: "round", type: "uint8" },
+      { name: "matchIndex", type: "uint8" },
+      { name: "winner", type: "address" },
+      { name: "deadline", type: "uint256" },
+      { name: "signatures", type: "bytes[]" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "abandonTournament",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "tournamentId", type: "uint256" }],
+    outputs: [],
+  },
+] as const;
+
+// ============ Enums ============
+export enum TournamentStatus {
+  Registration = 0,
+  Active = 1,
+  Completed = 2,
+  Cancelled = 3,
+}
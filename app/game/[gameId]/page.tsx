@@ -6,7 +6,12 @@ import { baseSepolia } from "wagmi/chains";
 import { useState, useEffect, useCallback, useRef } from "react";
 import { formatEther } from "viem";
 import Link from "next/link";
-import { useGame, GameType, GameStatus, useGameActions, DUEL_DECIMALS } from "@/app/hooks/useGameContracts";
+import { useGame, GameType, GameStatus, useGameActions, getWagerToken } from "@/app/hooks/useGameContracts";
+import { useGameStateStream } from "@/app/hooks/useGameStateStream";
+import { usePlayerSession } from "@/app/hooks/usePlayerSession";
+import { connect4Engine, ticTacToeEngine } from "@/app/utils/engine";
+import type { SeriesState } from "@/app/utils/gameStore/types";
+import { SeriesScoreboard } from "@/app/components/SeriesScoreboard";
 import { formatUnits } from "viem";
 
 // Types for synced game state
@@ -19,12 +24,15 @@ interface SyncedGameState {
   winner: string | null;
   isDraw: boolean;
   lastUpdated: number;
+  turnStartTime: number;
+  series: SeriesState;
 }
 
 export default function GamePage() {
   const params = useParams();
   const { address, chainId } = useAccount();
   const { switchChain } = useSwitchChain();
+  const { getSessionToken, clearSession } = usePlayerSession();
   
   const gameId = params.gameId ? BigInt(params.gameId as string) : undefined;
   const gameIdStr = gameId?.toString() || "";
@@ -44,18 +52,22 @@ export default function GamePage() {
   const [syncedState, setSyncedState] = useState<SyncedGameState | null>(null);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const initSignatureRequestedRef = useRef(false); // Only prompt the wallet once per attempt
+  const [initFailed, setInitFailed] = useState(false); // Waits for the player to retry
   
   // Claiming state
   const [isClaiming, setIsClaiming] = useState(false);
   const [claimStep, setClaimStep] = useState<"idle" | "signing" | "submitting" | "success">("idle");
   const [hasClaimed, setHasClaimed] = useState(false);
   
+  // Intermission between games of a series
+  const [nextGameIn, setNextGameIn] = useState<number>(0);
+  
   const isWrongNetwork = chainId !== baseSepolia.id;
 
   // Initialize game state on server when game becomes active
   useEffect(() => {
-    if (!game || !gameIdStr || isInitializing) return;
+    if (!game || gameId === undefined || !address || isInitializing || initFailed) return;
     
     const isGameActive = game.status === GameStatus.Active || 
       (game.player2 !== "0x0000000000000000000000000000000000000000" && game.status !== GameStatus.Cancelled);
@@ -74,61 +86,62 @@ export default function GamePage() {
         }
         
         // Initialize new game state
+        if (initSignatureRequestedRef.current) return;
+        initSignatureRequestedRef.current = true;
         setIsInitializing(true);
-        const gameType = game.gameType === GameType.ConnectFour ? "connect4" : "tictactoe";
+        // Prove we're a player in this game (signs in on the first game of the session)
+        const sessionToken = await getSessionToken();
         
         const res = await fetch(`/api/games/${gameIdStr}`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             action: "init",
-            gameType,
-            player1: game.player1,
-            player2: game.player2,
+            player: address,
+            sessionToken,
           }),
         });
         
         const data = await res.json();
-        if (data.success) {
-          setSyncedState(data.state);
+        if (!data.success) {
+          if (res.status === 401) clearSession();
+          throw new Error(data.error || "Init rejected");
         }
+        setSyncedState(data.state);
       } catch (err) {
         console.error("Failed to initialize game:", err);
-        setError("Failed to initialize game state");
+        // Let the player try again (e.g. after rejecting the wallet prompt)
+        initSignatureRequestedRef.current = false;
+        setInitFailed(true);
       } finally {
         setIsInitializing(false);
       }
     };
     
     initGame();
-  }, [game, gameIdStr, isInitializing]);
+  }, [game, gameId, gameIdStr, address, isInitializing, initFailed, getSessionToken, clearSession]);
+
+  // Live game state updates (falls back to polling if the stream drops)
+  useGameStateStream<SyncedGameState>(gameIdStr, !!syncedState, {
+    onState: (state) => {
+      setSyncedState((prev) => (!prev || state.lastUpdated > prev.lastUpdated ? state : prev));
+    },
+  });
 
-  // Poll for game state updates
+  // Count down to the next game of a series
   useEffect(() => {
-    if (!gameIdStr || !syncedState) return;
+    if (!syncedState || syncedState.winner || syncedState.isDraw) return;
     
-    const pollState = async () => {
-      try {
-        const res = await fetch(`/api/games/${gameIdStr}`);
-        const data = await res.json();
-        
-        if (data.exists && data.state.lastUpdated > syncedState.lastUpdated) {
-          setSyncedState(data.state);
-        }
-      } catch (err) {
-        console.error("Polling error:", err);
-      }
+    const updateCountdown = () => {
+      const untilStart = syncedState.turnStartTime - Date.now();
+      setNextGameIn(untilStart > 0 ? Math.ceil(untilStart / 1000) : 0);
     };
     
-    // Poll every 1 second
-    pollingRef.current = setInterval(pollState, 1000);
+    updateCountdown();
+    const countdownInterval = setInterval(updateCountdown, 1000);
     
-    return () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current);
-      }
-    };
-  }, [gameIdStr, syncedState]);
+    return () => clearInterval(countdownInterval);
+  }, [syncedState]);
 
   // Handle making a move
   const makeMove = useCallback(async (position: number) => {
@@ -141,10 +154,9 @@ export default function GamePage() {
       return;
     }
     
-    const isPlayer1 = address.toLowerCase() === game.player1.toLowerCase();
-    const opponent = isPlayer1 ? game.player2 : game.player1;
-    
     try {
+      const sessionToken = await getSessionToken();
+      
       const res = await fetch(`/api/games/${gameIdStr}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -152,11 +164,12 @@ export default function GamePage() {
           action: "move",
           player: address,
           position,
-          opponent,
+          sessionToken,
         }),
       });
       
       const data = await res.json();
+      if (res.status === 401) clearSession();
       
       if (data.success) {
         setSyncedState(data.state);
@@ -169,7 +182,7 @@ export default function GamePage() {
       setError("Failed to make move");
       setTimeout(() => setError(null), 2000);
     }
-  }, [game, address, syncedState, gameIdStr]);
+  }, [game, address, syncedState, gameIdStr, getSessionToken, clearSession]);
 
   // Handle claiming the win
   const handleClaimWin = useCallback(async () => {
@@ -193,7 +206,7 @@ export default function GamePage() {
       const signData = await signRes.json();
       
       if (!signRes.ok || !signData.success) {
-        throw new Error(signData.error || "Failed to get signature");
+        throw new Error(signData.error || "Failed to get signatures");
       }
       
       // Step 2: Submit to blockchain
@@ -201,7 +214,8 @@ export default function GamePage() {
       completeGame(
         gameId,
         syncedState.winner as `0x${string}`,
-        signData.signature as `0x${string}`
+        BigInt(signData.deadline),
+        signData.signatures as `0x${string}`[]
       );
       
     } catch (err) {
@@ -290,7 +304,9 @@ export default function GamePage() {
   const isParticipant = isPlayer1 || isPlayer2;
   const gameStatus = game.status as GameStatus;
   const gameType = game.gameType as GameType;
-  const wagerAmount = formatUnits(game.wagerAmount, DUEL_DECIMALS);
+  const wagerToken = getWagerToken(game.token);
+  // What the winner receives (both stakes less the protocol fee)
+  const winnerPayout = formatUnits(game.wagerAmount + game.player2Wager - game.protocolFee, wagerToken.decimals);
   
   // Use synced state for game logic
   const currentTurn = syncedState?.currentTurn || game.player1;
@@ -316,6 +332,18 @@ export default function GamePage() {
           <div className="w-16"></div>
         </div>
 
+        {/* Series Scoreboard */}
+        {syncedState && (syncedState.series.bestOf > 1 || syncedState.series.replayDraws) && (
+          <SeriesScoreboard
+            series={syncedState.series}
+            player1={game.player1}
+            player2={game.player2}
+            viewer={address}
+            nextGameIn={nextGameIn}
+            seriesOver={!!winner || isDraw}
+          />
+        )}
+
         {/* Error Toast */}
         {error && (
           <div className="fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50">
@@ -332,7 +360,7 @@ export default function GamePage() {
             </div>
             <div className="text-right">
               <span className="text-gray-400 text-sm">Pot</span>
-              <p className="font-semibold text-green-400">{Number(wagerAmount) * 2} DUEL</p>
+              <p className="font-semibold text-green-400">{Number(winnerPayout).toLocaleString()} {wagerToken.symbol}</p>
             </div>
           </div>
           
@@ -398,7 +426,7 @@ export default function GamePage() {
                       disabled={isClaiming}
                       className="mt-2 px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl font-semibold transition-all shadow-lg"
                     >
-                      💰 Claim {Number(wagerAmount) * 2} DUEL
+                      💰 Claim {Number(winnerPayout).toLocaleString()} {wagerToken.symbol}
                     </button>
                   )}
                 </>
@@ -408,7 +436,9 @@ export default function GamePage() {
           
           {isDraw && (
             <div className="bg-gray-500/20 border border-gray-500/50 rounded-xl p-3 text-center">
-              <p className="text-gray-300">🤝 It&apos;s a Draw!</p>
+              <p className="text-gray-300">
+                {syncedState && syncedState.series.bestOf > 1 ? "🤝 Series Drawn!" : "🤝 It's a Draw!"}
+              </p>
             </div>
           )}
         </div>
@@ -418,10 +448,14 @@ export default function GamePage() {
           <div className="flex flex-col items-center">
             {/* Turn Indicator */}
             <div className="mb-4 text-lg font-semibold">
-              <span className={`inline-flex items-center gap-2 ${isMyTurn ? "text-green-400" : "text-yellow-400"}`}>
-                <span className={`w-4 h-4 rounded-full ${isMyTurn ? "bg-green-400" : "bg-yellow-400"}`}></span>
-                {isMyTurn ? "Your turn!" : "Waiting for opponent..."}
-              </span>
+              {nextGameIn > 0 ? (
+                <span className="text-purple-300">Next game starts in {nextGameIn}s</span>
+              ) : (
+                <span className={`inline-flex items-center gap-2 ${isMyTurn ? "text-green-400" : "text-yellow-400"}`}>
+                  <span className={`w-4 h-4 rounded-full ${isMyTurn ? "bg-green-400" : "bg-yellow-400"}`}></span>
+                  {isMyTurn ? "Your turn!" : "Waiting for opponent..."}
+                </span>
+              )}
             </div>
             
             {/* Player Info */}
@@ -447,7 +481,7 @@ export default function GamePage() {
               <Connect4Board
                 board={syncedState.board as number[][]}
                 onMove={makeMove}
-                disabled={!isParticipant || !isMyTurn || isPending || isConfirming}
+                disabled={!isParticipant || !isMyTurn || nextGameIn > 0 || isPending || isConfirming}
                 isMyTurn={isMyTurn}
                 myColor={isPlayer1 ? "red" : "yellow"}
               />
@@ -455,7 +489,7 @@ export default function GamePage() {
               <TicTacToeBoard
                 board={syncedState.board as number[]}
                 onMove={makeMove}
-                disabled={!isParticipant || !isMyTurn || isPending || isConfirming}
+                disabled={!isParticipant || !isMyTurn || nextGameIn > 0 || isPending || isConfirming}
                 isMyTurn={isMyTurn}
                 myMark={isPlayer1 ? "X" : "O"}
               />
@@ -468,12 +502,22 @@ export default function GamePage() {
         )}
 
         {/* Waiting for game to start */}
-        {isGameActive && !syncedState && (
+        {isGameActive && !syncedState && (initFailed ? (
+          <div className="flex flex-col items-center py-12">
+            <p className="text-red-400 mb-4">Failed to initialize game state</p>
+            <button
+              onClick={() => setInitFailed(false)}
+              className="px-6 py-3 bg-purple-600 hover:bg-purple-700 rounded-xl font-semibold transition-colors"
+            >
+              Try again
+            </button>
+          </div>
+        ) : (
           <div className="flex flex-col items-center py-12">
             <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4"></div>
             <p className="text-gray-400">Syncing game state...</p>
           </div>
-        )}
+        ))}
 
         {/* Spectator Notice */}
         {!isParticipant && (
@@ -516,6 +560,14 @@ function Connect4Board({
   myColor: "red" | "yellow";
 }) {
   const [hoverCol, setHoverCol] = useState<number | null>(null);
+  const legalCols = connect4Engine.legalMoves(board);
+  
+  // Preview where my piece would land in the hovered column
+  const preview =
+    hoverCol !== null && !disabled && legalCols.includes(hoverCol)
+      ? connect4Engine.applyMove(board, hoverCol, myColor === "red" ? 1 : 2).position
+      : null;
+  const previewCell = typeof preview === "object" ? preview : null;
   
   return (
     <div className="bg-blue-600 p-4 rounded-xl shadow-lg">
@@ -526,7 +578,7 @@ function Connect4Board({
             key={col}
             className="w-10 h-10 flex items-center justify-center"
           >
-            {hoverCol === col && !disabled && board[0][col] === 0 && (
+            {previewCell?.col === col && (
               <div
                 className={`w-8 h-8 rounded-full opacity-50 ${
                   myColor === "red" ? "bg-red-500" : "bg-yellow-400"
@@ -544,13 +596,15 @@ function Connect4Board({
             {row.map((cell, colIndex) => (
               <button
                 key={colIndex}
-                onClick={() => !disabled && board[0][colIndex] === 0 && onMove(colIndex)}
+                onClick={() => !disabled && legalCols.includes(colIndex) && onMove(colIndex)}
                 onMouseEnter={() => setHoverCol(colIndex)}
                 onMouseLeave={() => setHoverCol(null)}
-                disabled={disabled || board[0][colIndex] !== 0}
+                disabled={disabled || !legalCols.includes(colIndex)}
                 className={`w-10 h-10 rounded-full transition-all duration-200 ${
                   cell === 0
-                    ? "bg-blue-800 hover:bg-blue-700"
+                    ? previewCell?.row === rowIndex && previewCell?.col === colIndex
+                      ? myColor === "red" ? "bg-red-500/40" : "bg-yellow-400/40"
+                      : "bg-blue-800 hover:bg-blue-700"
                     : cell === 1
                     ? "bg-red-500 shadow-inner"
                     : "bg-yellow-400 shadow-inner"
@@ -578,13 +632,18 @@ function TicTacToeBoard({
   isMyTurn: boolean;
   myMark: "X" | "O";
 }) {
+  const [hoverCell, setHoverCell] = useState<number | null>(null);
+  const legalCells = ticTacToeEngine.legalMoves(board);
+  
   return (
     <div className="grid grid-cols-3 gap-3 bg-gray-800 p-4 rounded-xl">
       {board.map((cell, index) => (
         <button
           key={index}
-          onClick={() => !disabled && cell === 0 && onMove(index)}
-          disabled={disabled || cell !== 0}
+          onClick={() => !disabled && legalCells.includes(index) && onMove(index)}
+          onMouseEnter={() => setHoverCell(index)}
+          onMouseLeave={() => setHoverCell(null)}
+          disabled={disabled || !legalCells.includes(index)}
           className={`w-20 h-20 rounded-lg text-4xl font-bold flex items-center justify-center transition-all duration-200 ${
             cell === 0
               ? "bg-gray-700 hover:bg-gray-600"
@@ -595,6 +654,8 @@ function TicTacToeBoard({
             <span className="text-red-500">X</span>
           ) : cell === 2 ? (
             <span className="text-yellow-400">O</span>
+          ) : hoverCell === index && !disabled && legalCells.includes(index) ? (
+            <span className={`opacity-30 ${myMark === "X" ? "text-red-500" : "text-yellow-400"}`}>{myMark}</span>
           ) : null}
         </button>
       ))}
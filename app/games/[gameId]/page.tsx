@@ -1,11 +1,33 @@
 "use client";
 
-import { useParams } from "next/navigation";
-import { useAccount, useSwitchChain } from "wagmi";
+import { useParams, useRouter } from "next/navigation";
+import { useAccount, useSwitchChain, useSignTypedData } from "wagmi";
 import { baseSepolia } from "wagmi/chains";
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import Link from "next/link";
-import { useGame, GameType, GameStatus, useGameActions, DUEL_DECIMALS } from "@/app/hooks/useGameContracts";
+import {
+  useGame,
+  GameType,
+  GameStatus,
+  useGameActions,
+  getWagerToken,
+  useContractsPaused,
+  useTokenAllowance,
+  usePermitSupport,
+  useTournamentMatchGame,
+  useTournamentActions,
+  CONTRACTS,
+} from "@/app/hooks/useGameContracts";
+import { useGameStateStream } from "@/app/hooks/useGameStateStream";
+import { usePlayerSession } from "@/app/hooks/usePlayerSession";
+import { PLAYER_AUTH_DOMAIN, PLAYER_AUTH_TYPES } from "@/app/utils/playerAuth";
+import { connect4Engine, ticTacToeEngine } from "@/app/utils/engine";
+import { seriesMoveIndex } from "@/app/utils/series";
+import { inviteLink } from "@/app/utils/referrals";
+import { parseTournamentMatchGameId } from "@/app/utils/tournament";
+import type { RematchState, SeriesState } from "@/app/utils/gameStore/types";
+import { SeriesScoreboard } from "@/app/components/SeriesScoreboard";
+import { SidePoolPanel } from "@/app/components/SidePoolPanel";
 import { formatUnits } from "viem";
 
 // Turn timer duration in seconds
@@ -23,32 +45,52 @@ interface SyncedGameState {
   lastUpdated: number;
   turnStartTime: number;
   timeoutLoser: string | null;
+  resignedBy: string | null;
+  drawOfferedBy: string | null;
+  series: SeriesState;
+  rematch: RematchState | null;
 }
 
 export default function GamePage() {
   const params = useParams();
+  const router = useRouter();
   const { address, chainId } = useAccount();
   const { switchChain } = useSwitchChain();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { getSessionToken, clearSession } = usePlayerSession();
   
   const gameId = params.gameId ? BigInt(params.gameId as string) : undefined;
   const gameIdStr = gameId?.toString() || "";
   
-  const { data: game, isLoading: isLoadingGame, refetch: refetchGame } = useGame(gameId);
-  const { 
-    completeGame, 
-    isPending, 
-    isConfirming, 
+  // Tournament bracket matches are played here too, under their own game IDs
+  const matchRef = useMemo(
+    () => (gameId !== undefined ? parseTournamentMatchGameId(gameId) : null),
+    [gameId]
+  );
+
+  const managerGame = useGame(matchRef ? undefined : gameId);
+  const matchGame = useTournamentMatchGame(matchRef, gameId);
+  const { data: game, isLoading: isLoadingGame, refetch: refetchGame } = matchRef ? matchGame : managerGame;
+
+  const gameActions = useGameActions();
+  const tournamentActions = useTournamentActions();
+  const { completeGame, completeGameAsDraw, resign, offerDraw, withdrawDrawOffer, approveTokens, createGame, createGameWithPermit, permitFailed, receipt } = gameActions;
+  const { reportResult } = tournamentActions;
+  const {
+    isPending,
+    isConfirming,
     isSuccess: isTxSuccess,
     hash: txHash,
     error: txError,
     reset: resetTx
-  } = useGameActions();
+  } = matchRef ? tournamentActions : gameActions;
   
   // Synced game state from server
   const [syncedState, setSyncedState] = useState<SyncedGameState | null>(null);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const initSignatureRequestedRef = useRef(false); // Only prompt the wallet once per attempt
+  const [initFailed, setInitFailed] = useState(false); // Waits for the player to retry
   
   // Claiming state
   const [isClaiming, setIsClaiming] = useState(false);
@@ -57,13 +99,31 @@ export default function GamePage() {
   
   // Timer state
   const [timeRemaining, setTimeRemaining] = useState<number>(TURN_TIME_LIMIT_SECONDS);
+  const [nextGameIn, setNextGameIn] = useState<number>(0); // Intermission between games of a series
   const [isClaimingTimeout, setIsClaimingTimeout] = useState(false);
   
+  // Resign / draw offer in flight (settled on-chain without the backend)
+  const [pendingAction, setPendingAction] = useState<"resign" | "offer-draw" | "withdraw-draw" | "rematch" | null>(null);
+  
+  // Rematch: who moves first (null until chosen, defaults to the loser) and
+  // the rematch already linked when the page loaded (only new ones redirect)
+  const [rematchMeFirst, setRematchMeFirst] = useState<boolean | null>(null);
+  const initialRematchRef = useRef<string | null | undefined>(undefined);
+  // Opponent of a rematch waiting on its approve transaction before creation
+  const rematchAfterApproveRef = useRef<`0x${string}` | null>(null);
+  
+  // The rematch's first mover stakes the full wager, by permit if not yet approved
+  // (approving first where the token or wallet can't permit)
+  const { data: tokenAllowance } = useTokenAllowance(game?.token ?? CONTRACTS.DUEL_TOKEN, address);
+  const permitSupported = usePermitSupport(game?.token ?? CONTRACTS.DUEL_TOKEN, address);
+  const canPermit = permitSupported === true && !permitFailed;
+  const { gameManager: isPaused } = useContractsPaused();
+  
   const isWrongNetwork = chainId !== baseSepolia.id;
 
   // Initialize game state on server when game becomes active
   useEffect(() => {
-    if (!game || !gameIdStr || isInitializing) return;
+    if (!game || gameId === undefined || !address || isInitializing || initFailed) return;
     
     const isGameActive = game.status === GameStatus.Active || 
       (game.player2 !== "0x0000000000000000000000000000000000000000" && game.status !== GameStatus.Cancelled);
@@ -82,61 +142,48 @@ export default function GamePage() {
         }
         
         // Initialize new game state
+        if (initSignatureRequestedRef.current) return;
+        initSignatureRequestedRef.current = true;
         setIsInitializing(true);
-        const gameType = game.gameType === GameType.ConnectFour ? "connect4" : "tictactoe";
+        // Prove we're a player in this game (signs in on the first game of the session)
+        const sessionToken = await getSessionToken();
         
         const res = await fetch(`/api/games/${gameIdStr}`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             action: "init",
-            gameType,
-            player1: game.player1,
-            player2: game.player2,
+            player: address,
+            sessionToken,
           }),
         });
         
         const data = await res.json();
-        if (data.success) {
-          setSyncedState(data.state);
+        if (!data.success) {
+          if (res.status === 401) clearSession();
+          throw new Error(data.error || "Init rejected");
         }
+        setSyncedState(data.state);
       } catch (err) {
         console.error("Failed to initialize game:", err);
-        setError("Failed to initialize game state");
+        // Let the player try again (e.g. after rejecting the wallet prompt)
+        initSignatureRequestedRef.current = false;
+        setInitFailed(true);
       } finally {
         setIsInitializing(false);
       }
     };
     
     initGame();
-  }, [game, gameIdStr, isInitializing]);
+  }, [game, gameId, gameIdStr, address, isInitializing, initFailed, getSessionToken, clearSession]);
 
-  // Poll for game state updates
-  useEffect(() => {
-    if (!gameIdStr || !syncedState) return;
-    
-    const pollState = async () => {
-      try {
-        const res = await fetch(`/api/games/${gameIdStr}`);
-        const data = await res.json();
-        
-        if (data.exists && data.state.lastUpdated > syncedState.lastUpdated) {
-          setSyncedState(data.state);
-        }
-      } catch (err) {
-        console.error("Polling error:", err);
-      }
-    };
-    
-    // Poll every 1 second
-    pollingRef.current = setInterval(pollState, 1000);
-    
-    return () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current);
-      }
-    };
-  }, [gameIdStr, syncedState]);
+  // Live game state updates (falls back to polling if the stream drops)
+  useGameStateStream<SyncedGameState>(gameIdStr, !!syncedState, {
+    onState: (state) => {
+      setSyncedState((prev) => (!prev || state.lastUpdated > prev.lastUpdated ? state : prev));
+    },
+    onTimeout: () => setTimeRemaining(0),
+  });
 
   // Timer countdown effect
   useEffect(() => {
@@ -144,7 +191,9 @@ export default function GamePage() {
     
     const updateTimer = () => {
       const elapsed = Date.now() - syncedState.turnStartTime;
-      const remaining = Math.max(0, TURN_TIME_LIMIT_SECONDS - Math.floor(elapsed / 1000));
+      // The next game of a series starts (and its turn timer runs) once the intermission ends
+      setNextGameIn(elapsed < 0 ? Math.ceil(-elapsed / 1000) : 0);
+      const remaining = Math.max(0, TURN_TIME_LIMIT_SECONDS - Math.floor(Math.max(0, elapsed) / 1000));
       setTimeRemaining(remaining);
     };
     
@@ -173,6 +222,8 @@ export default function GamePage() {
     setIsClaimingTimeout(true);
     
     try {
+      const sessionToken = await getSessionToken();
+      
       const res = await fetch(`/api/games/${gameIdStr}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -180,10 +231,12 @@ export default function GamePage() {
           action: "timeout",
           claimedBy: address,
           timedOutPlayer,
+          sessionToken,
         }),
       });
       
       const data = await res.json();
+      if (res.status === 401) clearSession();
       
       if (data.success) {
         setSyncedState(data.state);
@@ -198,7 +251,132 @@ export default function GamePage() {
     } finally {
       setIsClaimingTimeout(false);
     }
-  }, [game, address, syncedState, gameIdStr, isClaimingTimeout]);
+  }, [game, address, syncedState, gameIdStr, isClaimingTimeout, getSessionToken, clearSession]);
+
+  // Resign, offer a draw or withdraw the offer: record it with the games API, then mirror it on-chain
+  const settleByAgreement = useCallback(async (action: "resign" | "offer-draw" | "withdraw-draw") => {
+    if (!game || !address || !syncedState || pendingAction) return;
+    
+    if (action === "resign" && !window.confirm("Resign and hand your opponent the win?")) return;
+    
+    setPendingAction(action);
+    
+    try {
+      const signature = await signTypedDataAsync({
+        domain: PLAYER_AUTH_DOMAIN,
+        types: PLAYER_AUTH_TYPES,
+        primaryType:
+          action === "resign" ? "Resignation" : action === "offer-draw" ? "DrawOffer" : "DrawOfferWithdrawal",
+        message: {
+          gameId: BigInt(gameIdStr),
+          player: address,
+          moveIndex: BigInt(seriesMoveIndex(syncedState)),
+        },
+      });
+      
+      const res = await fetch(`/api/games/${gameIdStr}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, player: address, signature }),
+      });
+      
+      const data = await res.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || "Failed to update game");
+      }
+      setSyncedState(data.state);
+      
+      // Tournament matches are settled by the winner reporting the result
+      if (matchRef || gameId === undefined) {
+        setPendingAction(null);
+        return;
+      }
+      
+      // offerDraw also accepts the opponent's open offer on-chain
+      if (action === "resign") {
+        resign(gameId);
+      } else if (action === "offer-draw") {
+        offerDraw(gameId);
+      } else {
+        withdrawDrawOffer(gameId);
+      }
+    } catch (err) {
+      console.error(`${action} error:`, err);
+      setError(err instanceof Error ? err.message : "Failed to update game");
+      setTimeout(() => setError(null), 3000);
+      setPendingAction(null);
+    }
+  }, [game, address, syncedState, pendingAction, gameIdStr, gameId, matchRef, signTypedDataAsync, resign, offerDraw, withdrawDrawOffer]);
+
+  // Latest stored state, for acting on the rematch as the other player left it
+  const fetchSyncedState = useCallback(async (): Promise<SyncedGameState | null> => {
+    const res = await fetch(`/api/games/${gameIdStr}`);
+    const data = await res.json();
+    return data.exists ? data.state : null;
+  }, [gameIdStr]);
+
+  // Rematch: the first mover creates the new game; otherwise ask the opponent to
+  const proposeRematch = useCallback(async (meFirst: boolean) => {
+    if (!game || !address || !syncedState || gameId === undefined || pendingAction) return;
+    
+    const opponent = (address.toLowerCase() === game.player1.toLowerCase() ? game.player2 : game.player1) as `0x${string}`;
+    setPendingAction("rematch");
+    
+    try {
+      if (meFirst) {
+        // Both players may click at once: never escrow a second game when the
+        // opponent has already created (or is about to create) the rematch
+        const latest = await fetchSyncedState();
+        if (latest) setSyncedState(latest);
+        if (latest?.rematch?.gameId) {
+          // The redirect below moves us to the linked game
+          setPendingAction(null);
+          return;
+        }
+        if (latest?.rematch && latest.rematch.firstMover.toLowerCase() === opponent.toLowerCase()) {
+          throw new Error("Your opponent is creating the rematch");
+        }
+        
+        resetTx();
+        // Same game type, series length, token and wager; we become player1
+        if ((tokenAllowance === undefined || tokenAllowance < game.wagerAmount) && !canPermit) {
+          rematchAfterApproveRef.current = opponent;
+          approveTokens(game.wagerAmount, game.token);
+        } else if (tokenAllowance === undefined || tokenAllowance < game.wagerAmount) {
+          await createGameWithPermit(opponent, game.wagerAmount, game.gameType as GameType, game.token, game.bestOf);
+        } else {
+          createGame(opponent, game.wagerAmount, game.gameType as GameType, game.token, game.bestOf);
+        }
+        return;
+      }
+      
+      const signature = await signTypedDataAsync({
+        domain: PLAYER_AUTH_DOMAIN,
+        types: PLAYER_AUTH_TYPES,
+        primaryType: "RematchOffer",
+        message: { gameId, player: address, firstMover: opponent },
+      });
+      
+      const res = await fetch(`/api/games/${gameIdStr}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "offer-rematch", player: address, firstMover: opponent, signature }),
+      });
+      
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to offer rematch");
+      }
+      setSyncedState(data.state);
+      setPendingAction(null);
+    } catch (err) {
+      console.error("Rematch error:", err);
+      setError(err instanceof Error ? err.message : "Failed to offer rematch");
+      setTimeout(() => setError(null), 3000);
+      setPendingAction(null);
+    }
+  }, [game, address, syncedState, gameId, gameIdStr, pendingAction, tokenAllowance, canPermit, fetchSyncedState, resetTx, approveTokens, createGame, createGameWithPermit, signTypedDataAsync]);
 
   // Handle making a move
   const makeMove = useCallback(async (position: number) => {
@@ -218,10 +396,9 @@ export default function GamePage() {
       return;
     }
     
-    const isPlayer1 = address.toLowerCase() === game.player1.toLowerCase();
-    const opponent = isPlayer1 ? game.player2 : game.player1;
-    
     try {
+      const sessionToken = await getSessionToken();
+      
       const res = await fetch(`/api/games/${gameIdStr}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -229,11 +406,12 @@ export default function GamePage() {
           action: "move",
           player: address,
           position,
-          opponent,
+          sessionToken,
         }),
       });
       
       const data = await res.json();
+      if (res.status === 401) clearSession();
       
       if (data.success) {
         setSyncedState(data.state);
@@ -250,7 +428,7 @@ export default function GamePage() {
       setError("Failed to make move");
       setTimeout(() => setError(null), 2000);
     }
-  }, [game, address, syncedState, gameIdStr, timeRemaining]);
+  }, [game, address, syncedState, gameIdStr, timeRemaining, getSessionToken, clearSession]);
 
   // Handle claiming the win
   const handleClaimWin = useCallback(async () => {
@@ -262,36 +440,92 @@ export default function GamePage() {
     
     try {
       // Step 1: Get signature from backend
+      const signRes = matchRef
+        ? await fetch(`/api/tournaments/${matchRef.tournamentId}/result`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              round: matchRef.round,
+              matchIndex: matchRef.matchIndex,
+            }),
+          })
+        : await fetch("/api/complete-game", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              gameId: gameId.toString(),
+              winner: syncedState.winner,
+            }),
+          });
+      
+      const signData = await signRes.json();
+      
+      if (!signRes.ok || !signData.success) {
+        throw new Error(signData.error || "Failed to get signatures");
+      }
+      
+      // Step 2: Submit to blockchain
+      setClaimStep("submitting");
+      if (matchRef) {
+        reportResult(
+          matchRef,
+          syncedState.winner as `0x${string}`,
+          BigInt(signData.deadline),
+          signData.signatures as `0x${string}`[]
+        );
+      } else {
+        completeGame(
+          gameId,
+          syncedState.winner as `0x${string}`,
+          BigInt(signData.deadline),
+          signData.signatures as `0x${string}`[]
+        );
+      }
+      
+    } catch (err) {
+      console.error("Claim error:", err);
+      setError(err instanceof Error ? err.message : "Failed to claim winnings");
+      setIsClaiming(false);
+      setClaimStep("idle");
+    }
+  }, [syncedState?.winner, gameId, matchRef, isClaiming, hasClaimed, completeGame, reportResult]);
+
+  // Handle reclaiming stakes after a draw (refunds both players)
+  const handleReclaimStake = useCallback(async () => {
+    if (!syncedState?.isDraw || !gameId || isClaiming || hasClaimed) return;
+    
+    setIsClaiming(true);
+    setClaimStep("signing");
+    setError(null);
+    
+    try {
+      // Step 1: Get draw signature from backend
       const signRes = await fetch("/api/complete-game", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           gameId: gameId.toString(),
-          winner: syncedState.winner,
+          isDraw: true,
         }),
       });
       
       const signData = await signRes.json();
       
       if (!signRes.ok || !signData.success) {
-        throw new Error(signData.error || "Failed to get signature");
+        throw new Error(signData.error || "Failed to get signatures");
       }
       
       // Step 2: Submit to blockchain
       setClaimStep("submitting");
-      completeGame(
-        gameId,
-        syncedState.winner as `0x${string}`,
-        signData.signature as `0x${string}`
-      );
+      completeGameAsDraw(gameId, BigInt(signData.deadline), signData.signatures as `0x${string}`[]);
       
     } catch (err) {
-      console.error("Claim error:", err);
-      setError(err instanceof Error ? err.message : "Failed to claim winnings");
+      console.error("Reclaim error:", err);
+      setError(err instanceof Error ? err.message : "Failed to reclaim stake");
       setIsClaiming(false);
       setClaimStep("idle");
     }
-  }, [syncedState?.winner, gameId, isClaiming, hasClaimed, completeGame]);
+  }, [syncedState?.isDraw, gameId, isClaiming, hasClaimed, completeGameAsDraw]);
 
   // Handle successful claim transaction
   useEffect(() => {
@@ -303,6 +537,92 @@ export default function GamePage() {
     }
   }, [isTxSuccess, claimStep, refetchGame]);
 
+  // Handle resign / draw offer transaction result
+  useEffect(() => {
+    if (!pendingAction) return;
+    if (txError) {
+      rematchAfterApproveRef.current = null;
+      setError(txError.message || "Transaction failed");
+      setPendingAction(null);
+      resetTx();
+    } else if (isTxSuccess && pendingAction !== "rematch") {
+      setPendingAction(null);
+      refetchGame(); // Picks up the settlement if the game was decided
+      resetTx();
+    }
+  }, [pendingAction, isTxSuccess, txError, refetchGame, resetTx]);
+
+  // Link the rematch game once it's created (the redirect below then moves both players)
+  useEffect(() => {
+    if (pendingAction !== "rematch" || !isTxSuccess || !receipt || !address) return;
+    
+    // The approve went through: create the rematch with the new allowance
+    const approvedOpponent = rematchAfterApproveRef.current;
+    if (approvedOpponent && game) {
+      rematchAfterApproveRef.current = null;
+      resetTx();
+      createGame(approvedOpponent, game.wagerAmount, game.gameType as GameType, game.token, game.bestOf);
+      return;
+    }
+    
+    // topics[1] of GameCreated (the first GameManager log) is the new game ID
+    const gameManagerLog = receipt.logs.find(
+      (log) => log.address.toLowerCase() === CONTRACTS.GAME_MANAGER.toLowerCase()
+    );
+    if (!gameManagerLog?.topics[1]) return;
+    
+    const rematchGameId = BigInt(gameManagerLog.topics[1]).toString();
+    resetTx();
+    
+    fetch(`/api/games/${gameIdStr}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "rematch-created", player: address, rematchGameId }),
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error);
+        setSyncedState(data.state);
+      })
+      .catch(async (err) => {
+        console.error("Failed to link rematch:", err);
+        
+        // The opponent's rematch got linked first: ours is an orphan to cancel
+        const latest = await fetchSyncedState().catch(() => null);
+        const linkedGameId = latest?.rematch?.gameId;
+        if (linkedGameId && linkedGameId !== rematchGameId) {
+          // Keep the message up instead of redirecting straight away
+          initialRematchRef.current = linkedGameId;
+          setError(
+            `Your opponent already created the rematch. Cancel game #${rematchGameId} from your pending games to get your stake back.`
+          );
+          setTimeout(() => router.push(`/join/${linkedGameId}`), 5000);
+          return;
+        }
+        
+        // The game exists on-chain either way
+        setError(err instanceof Error && err.message ? err.message : "Failed to link rematch");
+        setTimeout(() => router.push(`/games/${rematchGameId}`), 3000);
+      })
+      .finally(() => setPendingAction(null));
+  }, [pendingAction, isTxSuccess, receipt, address, game, gameIdStr, fetchSyncedState, resetTx, createGame, router]);
+
+  // Move both players to a rematch created while they're on this page
+  useEffect(() => {
+    if (!syncedState || !address) return;
+    
+    const rematchGameId = syncedState.rematch?.gameId ?? null;
+    if (initialRematchRef.current === undefined) {
+      initialRematchRef.current = rematchGameId;
+      return;
+    }
+    if (!rematchGameId || rematchGameId === initialRematchRef.current) return;
+    
+    // The first mover waits on the new game; the other player joins it
+    const isFirstMover = syncedState.rematch?.firstMover.toLowerCase() === address.toLowerCase();
+    router.push(isFirstMover ? `/games/${rematchGameId}` : `/join/${rematchGameId}`);
+  }, [syncedState, address, router]);
+
   // Handle claim transaction error
   useEffect(() => {
     if (txError && claimStep === "submitting") {
@@ -371,13 +691,26 @@ export default function GamePage() {
   const isParticipant = isPlayer1 || isPlayer2;
   const gameStatus = game.status as GameStatus;
   const gameType = game.gameType as GameType;
-  const wagerAmount = formatUnits(game.wagerAmount, DUEL_DECIMALS);
+  const wagerToken = getWagerToken(game.token);
+  // What the winner receives (both stakes less the protocol fee)
+  const winnerPayout = formatUnits(game.wagerAmount + game.player2Wager - game.protocolFee, wagerToken.decimals);
+  // What this player escrowed (player2 staked the edge-reduced wager)
+  const myStake = formatUnits(isPlayer1 ? game.wagerAmount : game.player2Wager, wagerToken.decimals);
   
   // Use synced state for game logic
   const currentTurn = syncedState?.currentTurn || game.player1;
   const isMyTurn = currentTurn.toLowerCase() === address.toLowerCase();
   const winner = syncedState?.winner || null;
   const isDraw = syncedState?.isDraw || false;
+  const iOfferedDraw = syncedState?.drawOfferedBy?.toLowerCase() === address.toLowerCase();
+  const opponentOfferedDraw = !!syncedState?.drawOfferedBy && !iOfferedDraw;
+  
+  // Rematch: the loser moves first by default, and colours swap after a draw
+  const rematch = syncedState?.rematch ?? null;
+  const rematchMeFirstDefault = winner ? winner.toLowerCase() !== address.toLowerCase() : isPlayer2;
+  const meFirstInRematch = rematchMeFirst ?? rematchMeFirstDefault;
+  const rematchOfferedToMe = !!rematch && !rematch.gameId && rematch.firstMover.toLowerCase() === address.toLowerCase();
+  const iOfferedRematch = !!rematch && !rematch.gameId && rematch.proposedBy.toLowerCase() === address.toLowerCase();
 
   // Check if game is active
   const isGameActive = gameStatus === GameStatus.Active || game.player2 !== "0x0000000000000000000000000000000000000000";
@@ -393,10 +726,26 @@ export default function GamePage() {
           <Link href="/" className="text-purple-400 hover:text-purple-300 flex items-center gap-2">
             ← Back
           </Link>
-          <h1 className="text-xl font-bold">Game #{gameId?.toString()}</h1>
+          <h1 className="text-xl font-bold">
+            {matchRef
+              ? `Tournament #${matchRef.tournamentId} · Round ${matchRef.round + 1}`
+              : `Game #${gameId?.toString()}`}
+          </h1>
           <div className="w-16"></div>
         </div>
 
+        {/* Series Scoreboard */}
+        {syncedState && (syncedState.series.bestOf > 1 || syncedState.series.replayDraws) && (
+          <SeriesScoreboard
+            series={syncedState.series}
+            player1={game.player1}
+            player2={game.player2}
+            viewer={address}
+            nextGameIn={nextGameIn}
+            seriesOver={!!winner || isDraw}
+          />
+        )}
+
         {/* Error Toast */}
         {error && (
           <div className="fixed top-4 right-4 bg-red-500 text-white px-4 py-2 rounded-lg shadow-lg z-50">
@@ -411,20 +760,31 @@ export default function GamePage() {
               <span className="text-gray-400 text-sm">Game Type</span>
               <p className="font-semibold">{gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect 4"}</p>
             </div>
-            <div className="text-right">
-              <span className="text-gray-400 text-sm">Pot</span>
-              <p className="font-semibold text-green-400">{Number(wagerAmount) * 2} DUEL</p>
-            </div>
+            {matchRef ? (
+              <Link
+                href={`/tournaments/${matchRef.tournamentId}`}
+                className="text-sm text-purple-400 hover:text-purple-300"
+              >
+                View bracket →
+              </Link>
+            ) : (
+              <div className="text-right">
+                <span className="text-gray-400 text-sm">Pot</span>
+                <p className="font-semibold text-green-400">{Number(winnerPayout).toLocaleString()} {wagerToken.symbol}</p>
+              </div>
+            )}
           </div>
 
           {/* Status Banner */}
           {!isGameActive && gameStatus === GameStatus.Created && (
             <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-xl p-3 text-center">
-              <p className="text-yellow-300">⏳ Waiting for opponent to join...</p>
-              {isPlayer1 && (
+              <p className="text-yellow-300">
+                {matchRef ? "⏳ Waiting for the opponent's previous match..." : "⏳ Waiting for opponent to join..."}
+              </p>
+              {isPlayer1 && !matchRef && (
                 <button
                   onClick={() => {
-                    navigator.clipboard.writeText(`${window.location.origin}/join/${gameId}`);
+                    navigator.clipboard.writeText(inviteLink(window.location.origin, gameIdStr, address));
                     alert("Invite link copied!");
                   }}
                   className="mt-2 text-sm text-yellow-400 hover:text-yellow-300 underline"
@@ -443,11 +803,21 @@ export default function GamePage() {
             }`}>
               <p className={`text-lg font-bold mb-2 ${winner.toLowerCase() === address.toLowerCase() ? "text-green-300" : "text-red-300"}`}>
                 {winner.toLowerCase() === address.toLowerCase() ? "🎉 You Won!" : "😢 You Lost!"}
+                {syncedState && syncedState.series.bestOf > 1 && !syncedState.timeoutLoser && (
+                  <span className="block text-sm font-normal mt-1 opacity-75">
+                    (series {syncedState.series.wins.player1}–{syncedState.series.wins.player2})
+                  </span>
+                )}
                 {syncedState?.timeoutLoser && (
                   <span className="block text-sm font-normal mt-1 opacity-75">
                     (by timeout ⏱️)
                   </span>
                 )}
+                {syncedState?.resignedBy && (
+                  <span className="block text-sm font-normal mt-1 opacity-75">
+                    (by resignation 🏳️)
+                  </span>
+                )}
               </p>
               
               {winner.toLowerCase() === address.toLowerCase() && (
@@ -456,7 +826,7 @@ export default function GamePage() {
                   {(hasClaimed || gameStatus === GameStatus.Completed) ? (
                     <div className="text-green-400 flex items-center justify-center gap-2">
                       <span>✅</span>
-                      <span>Winnings claimed!</span>
+                      <span>{matchRef ? "Result recorded!" : "Winnings claimed!"}</span>
                       {txHash && (
                         <a
                           href={`https://sepolia.basescan.org/tx/${txHash}`}
@@ -484,7 +854,9 @@ export default function GamePage() {
                       disabled={isClaiming}
                       className="mt-2 px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl font-semibold transition-all shadow-lg"
                     >
-                      💰 Claim {Number(wagerAmount) * 2} DUEL
+                      {matchRef
+                        ? "🏆 Record win & advance"
+                        : `💰 Claim ${Number(winnerPayout).toLocaleString()} ${wagerToken.symbol}`}
                     </button>
                   )}
                 </>
@@ -502,7 +874,53 @@ export default function GamePage() {
 
           {isDraw && (
             <div className="bg-gray-500/20 border border-gray-500/50 rounded-xl p-4 text-center">
-              <p className="text-gray-300 text-lg font-bold mb-4">🤝 It&apos;s a Draw!</p>
+              <p className="text-gray-300 text-lg font-bold mb-4">
+                {syncedState && syncedState.series.bestOf > 1 ? "🤝 Series Drawn!" : "🤝 It's a Draw!"}
+              </p>
+              
+              {isParticipant && (
+                <div className="mb-4">
+                  {/* Already reclaimed or settled on-chain */}
+                  {(hasClaimed || gameStatus === GameStatus.Completed) ? (
+                    <div className="text-green-400 flex items-center justify-center gap-2">
+                      <span>✅</span>
+                      <span>Stakes returned!</span>
+                      {txHash && (
+                        <a
+                          href={`https://sepolia.basescan.org/tx/${txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-green-300 hover:text-green-200 underline text-sm"
+                        >
+                          View tx
+                        </a>
+                      )}
+                    </div>
+                  ) : claimStep === "signing" ? (
+                    <div className="flex items-center justify-center gap-2 text-yellow-300">
+                      <div className="w-4 h-4 border-2 border-yellow-300 border-t-transparent rounded-full animate-spin"></div>
+                      <span>Getting signature...</span>
+                    </div>
+                  ) : claimStep === "submitting" ? (
+                    <div className="flex items-center justify-center gap-2 text-yellow-300">
+                      <div className="w-4 h-4 border-2 border-yellow-300 border-t-transparent rounded-full animate-spin"></div>
+                      <span>{isConfirming ? "Confirming transaction..." : "Submitting to blockchain..."}</span>
+                    </div>
+                  ) : (
+                    <>
+                      <button
+                        onClick={handleReclaimStake}
+                        disabled={isClaiming}
+                        className="px-6 py-3 bg-gradient-to-r from-gray-600 to-slate-600 hover:from-gray-500 hover:to-slate-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl font-semibold transition-all shadow-lg"
+                      >
+                        ↩️ Reclaim stake ({Number(myStake).toLocaleString()} {wagerToken.symbol})
+                      </button>
+                      <p className="text-xs text-gray-400 mt-2">Refunds both players&apos; stakes</p>
+                    </>
+                  )}
+                </div>
+              )}
+              
               <Link
                 href="/"
                 className="inline-block px-6 py-3 bg-purple-600 hover:bg-purple-500 text-white font-semibold rounded-xl transition-all"
@@ -511,63 +929,133 @@ export default function GamePage() {
               </Link>
             </div>
           )}
+          
+          {/* Rematch (regular games only; tournament matches belong to the bracket) */}
+          {(winner || isDraw) && isParticipant && !matchRef && (
+            <div className="bg-white/5 border border-purple-500/30 rounded-xl p-4 text-center">
+              {rematch?.gameId ? (
+                <Link
+                  href={`/games/${rematch.gameId}`}
+                  className="text-purple-300 hover:text-purple-200 font-semibold"
+                >
+                  Go to rematch →
+                </Link>
+              ) : pendingAction === "rematch" ? (
+                <div className="flex items-center justify-center gap-2 text-yellow-300">
+                  <div className="w-4 h-4 border-2 border-yellow-300 border-t-transparent rounded-full animate-spin"></div>
+                  <span>{isConfirming ? "Creating rematch..." : "Setting up rematch..."}</span>
+                </div>
+              ) : rematchOfferedToMe ? (
+                <>
+                  <p className="text-sm text-gray-300 mb-3">
+                    {formatAddress(rematch.proposedBy)} wants a rematch with you moving first
+                    ({formatUnits(game.wagerAmount, wagerToken.decimals)} {wagerToken.symbol}).
+                  </p>
+                  <button
+                    onClick={() => proposeRematch(true)}
+                    disabled={isPaused}
+                    className="px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl font-semibold transition-all shadow-lg"
+                  >
+                    🔁 Accept rematch
+                  </button>
+                </>
+              ) : iOfferedRematch ? (
+                <p className="text-sm text-gray-300">
+                  🔁 Rematch offered. Waiting for {formatAddress(rematch.firstMover)} to create it...
+                </p>
+              ) : (
+                <>
+                  <div className="flex justify-center gap-2 mb-3 text-sm">
+                    <button
+                      onClick={() => setRematchMeFirst(true)}
+                      className={`px-3 py-1 rounded-lg transition-all ${meFirstInRematch ? "bg-purple-600" : "bg-white/10 hover:bg-white/20"}`}
+                    >
+                      I move first
+                    </button>
+                    <button
+                      onClick={() => setRematchMeFirst(false)}
+                      className={`px-3 py-1 rounded-lg transition-all ${!meFirstInRematch ? "bg-purple-600" : "bg-white/10 hover:bg-white/20"}`}
+                    >
+                      Opponent moves first
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => proposeRematch(meFirstInRematch)}
+                    disabled={isPaused}
+                    className="px-6 py-3 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl font-semibold transition-all shadow-lg"
+                  >
+                    🔁 {meFirstInRematch ? "Create rematch" : "Offer rematch"}
+                  </button>
+                  <p className="text-xs text-gray-400 mt-2">
+                    Same game and wager ({formatUnits(game.wagerAmount, wagerToken.decimals)} {wagerToken.symbol}); the first mover stakes it as player 1
+                  </p>
+                </>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Game Board */}
         {isGameActive && !winner && !isDraw && syncedState && (
           <div className="flex flex-col items-center">
-            {/* Turn Indicator with Timer */}
-            <div className="mb-4 text-center">
-              <div className="text-lg font-semibold mb-2">
-                <span className={`inline-flex items-center gap-2 ${isMyTurn ? "text-green-400" : "text-yellow-400"}`}>
-                  <span className={`w-4 h-4 rounded-full ${isMyTurn ? "bg-green-400" : "bg-yellow-400"}`}></span>
-                  {isMyTurn ? "Your turn!" : "Waiting for opponent..."}
-                </span>
+            {/* Turn Indicator with Timer (hidden between games of a series) */}
+            {nextGameIn > 0 ? (
+              <div className="mb-4 text-center text-lg font-semibold text-purple-300">
+                Next game starts in {nextGameIn}s
               </div>
+            ) : (
+              <div className="mb-4 text-center">
+                <div className="text-lg font-semibold mb-2">
+                  <span className={`inline-flex items-center gap-2 ${isMyTurn ? "text-green-400" : "text-yellow-400"}`}>
+                    <span className={`w-4 h-4 rounded-full ${isMyTurn ? "bg-green-400" : "bg-yellow-400"}`}></span>
+                    {isMyTurn ? "Your turn!" : "Waiting for opponent..."}
+                  </span>
+                </div>
               
-              {/* Timer Display */}
-              <div className={`text-3xl font-mono font-bold ${
-                timeRemaining <= 10 
-                  ? "text-red-500 animate-pulse" 
-                  : timeRemaining <= 30 
-                    ? "text-yellow-400" 
-                    : "text-white"
-              }`}>
-                ⏱️ {timeRemaining}s
-              </div>
+                {/* Timer Display */}
+                <div className={`text-3xl font-mono font-bold ${
+                  timeRemaining <= 10 
+                    ? "text-red-500 animate-pulse" 
+                    : timeRemaining <= 30 
+                      ? "text-yellow-400" 
+                      : "text-white"
+                }`}>
+                  ⏱️ {timeRemaining}s
+                </div>
               
-              {/* Timeout Claim Button - shown when opponent has timed out */}
-              {timeRemaining === 0 && !isMyTurn && (
-                <button
-                  onClick={claimTimeout}
-                  disabled={isClaimingTimeout}
-                  className="mt-3 px-6 py-2 bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-500 hover:to-orange-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-semibold transition-all shadow-lg animate-bounce"
-                >
-                  {isClaimingTimeout ? (
-                    <span className="flex items-center gap-2">
-                      <span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></span>
-                      Claiming...
-                    </span>
-                  ) : (
-                    "🏆 Claim Timeout Win!"
-                  )}
-                </button>
-              )}
+                {/* Timeout Claim Button - shown when opponent has timed out */}
+                {timeRemaining === 0 && !isMyTurn && (
+                  <button
+                    onClick={claimTimeout}
+                    disabled={isClaimingTimeout}
+                    className="mt-3 px-6 py-2 bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-500 hover:to-orange-500 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg font-semibold transition-all shadow-lg animate-bounce"
+                  >
+                    {isClaimingTimeout ? (
+                      <span className="flex items-center gap-2">
+                        <span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></span>
+                        Claiming...
+                      </span>
+                    ) : (
+                      "🏆 Claim Timeout Win!"
+                    )}
+                  </button>
+                )}
               
-              {/* Warning when time is running out on your turn */}
-              {timeRemaining <= 10 && timeRemaining > 0 && isMyTurn && (
-                <p className="text-red-400 text-sm mt-2 animate-pulse">
-                  ⚠️ Hurry! You&apos;ll lose if time runs out!
-                </p>
-              )}
+                {/* Warning when time is running out on your turn */}
+                {timeRemaining <= 10 && timeRemaining > 0 && isMyTurn && (
+                  <p className="text-red-400 text-sm mt-2 animate-pulse">
+                    ⚠️ Hurry! You&apos;ll lose if time runs out!
+                  </p>
+                )}
               
-              {/* Message when you've timed out */}
-              {timeRemaining === 0 && isMyTurn && (
-                <p className="text-red-500 text-lg font-bold mt-2">
-                  ⏱️ TIME&apos;S UP! You lost by timeout.
-                </p>
-              )}
-            </div>
+                {/* Message when you've timed out */}
+                {timeRemaining === 0 && isMyTurn && (
+                  <p className="text-red-500 text-lg font-bold mt-2">
+                    ⏱️ TIME&apos;S UP! You lost by timeout.
+                  </p>
+                )}
+              </div>
+            )}
             
             {/* Player Info */}
             <div className="flex justify-between items-center w-full max-w-md mb-4">
@@ -592,7 +1080,7 @@ export default function GamePage() {
               <Connect4Board
                 board={syncedState.board as number[][]}
                 onMove={makeMove}
-                disabled={!isParticipant || !isMyTurn || isPending || isConfirming || (isMyTurn && timeRemaining === 0)}
+                disabled={!isParticipant || !isMyTurn || nextGameIn > 0 || isPending || isConfirming || (isMyTurn && timeRemaining === 0)}
                 isMyTurn={isMyTurn}
                 myColor={isPlayer1 ? "red" : "yellow"}
               />
@@ -600,7 +1088,7 @@ export default function GamePage() {
               <TicTacToeBoard
                 board={syncedState.board as number[]}
                 onMove={makeMove}
-                disabled={!isParticipant || !isMyTurn || isPending || isConfirming || (isMyTurn && timeRemaining === 0)}
+                disabled={!isParticipant || !isMyTurn || nextGameIn > 0 || isPending || isConfirming || (isMyTurn && timeRemaining === 0)}
                 isMyTurn={isMyTurn}
                 myMark={isPlayer1 ? "X" : "O"}
               />
@@ -609,15 +1097,69 @@ export default function GamePage() {
             {!isMyTurn && (
               <p className="text-gray-400 text-sm mt-4">Waiting for opponent&apos;s move...</p>
             )}
+            
+            {/* Resign / Draw Offer */}
+            {isParticipant && (
+              <div className="flex items-center gap-3 mt-6">
+                {/* Bracket matches replay drawn games until someone wins, so they can't be drawn */}
+                {!matchRef && (
+                  <button
+                    onClick={() => settleByAgreement(iOfferedDraw ? "withdraw-draw" : "offer-draw")}
+                    disabled={!!pendingAction || isPending || isConfirming}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors border disabled:opacity-50 disabled:cursor-not-allowed ${
+                      opponentOfferedDraw
+                        ? "bg-green-500/20 hover:bg-green-500/30 text-green-300 border-green-500/30 animate-pulse"
+                        : "bg-gray-700 hover:bg-gray-600 text-white border-gray-600"
+                    }`}
+                  >
+                    {pendingAction === "offer-draw" || pendingAction === "withdraw-draw"
+                      ? "Submitting..."
+                      : opponentOfferedDraw
+                        ? "🤝 Accept draw"
+                        : iOfferedDraw
+                          ? "↩️ Withdraw draw offer"
+                          : "🤝 Offer draw"}
+                  </button>
+                )}
+                <button
+                  onClick={() => settleByAgreement("resign")}
+                  disabled={!!pendingAction || isPending || isConfirming}
+                  className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-300 text-sm font-medium rounded-lg transition-colors border border-red-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {pendingAction === "resign" ? "Resigning..." : "🏳️ Resign"}
+                </button>
+              </div>
+            )}
           </div>
         )}
 
         {/* Waiting for game to start */}
-        {isGameActive && !syncedState && (
+        {isGameActive && !syncedState && (initFailed ? (
+          <div className="flex flex-col items-center py-12">
+            <p className="text-red-400 mb-4">Failed to initialize game state</p>
+            <button
+              onClick={() => setInitFailed(false)}
+              className="px-6 py-3 bg-purple-600 hover:bg-purple-700 rounded-xl font-semibold transition-colors"
+            >
+              Try again
+            </button>
+          </div>
+        ) : (
           <div className="flex flex-col items-center py-12">
             <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4"></div>
             <p className="text-gray-400">Syncing game state...</p>
           </div>
+        ))}
+
+        {/* Spectator side pool (regular games only) */}
+        {!matchRef && gameId !== undefined && (
+          <SidePoolPanel
+            gameId={gameId}
+            player1={game.player1}
+            player2={game.player2}
+            gameStatus={gameStatus}
+            viewer={address}
+          />
         )}
 
         {/* Spectator Notice */}
@@ -647,6 +1189,14 @@ function Connect4Board({
   myColor: "red" | "yellow";
 }) {
   const [hoverCol, setHoverCol] = useState<number | null>(null);
+  const legalCols = connect4Engine.legalMoves(board);
+  
+  // Preview where my piece would land in the hovered column
+  const preview =
+    hoverCol !== null && !disabled && legalCols.includes(hoverCol)
+      ? connect4Engine.applyMove(board, hoverCol, myColor === "red" ? 1 : 2).position
+      : null;
+  const previewCell = typeof preview === "object" ? preview : null;
   
   return (
     <div className="bg-blue-600 p-4 rounded-xl shadow-lg">
@@ -657,7 +1207,7 @@ function Connect4Board({
             key={col}
             className="w-10 h-10 flex items-center justify-center"
           >
-            {hoverCol === col && !disabled && board[0][col] === 0 && (
+            {previewCell?.col === col && (
               <div
                 className={`w-8 h-8 rounded-full opacity-50 ${
                   myColor === "red" ? "bg-red-500" : "bg-yellow-400"
@@ -675,13 +1225,15 @@ function Connect4Board({
             {row.map((cell, colIndex) => (
               <button
                 key={colIndex}
-                onClick={() => !disabled && board[0][colIndex] === 0 && onMove(colIndex)}
+                onClick={() => !disabled && legalCols.includes(colIndex) && onMove(colIndex)}
                 onMouseEnter={() => setHoverCol(colIndex)}
                 onMouseLeave={() => setHoverCol(null)}
-                disabled={disabled || board[0][colIndex] !== 0}
+                disabled={disabled || !legalCols.includes(colIndex)}
                 className={`w-10 h-10 rounded-full transition-all duration-200 ${
                   cell === 0
-                    ? "bg-blue-800 hover:bg-blue-700"
+                    ? previewCell?.row === rowIndex && previewCell?.col === colIndex
+                      ? myColor === "red" ? "bg-red-500/40" : "bg-yellow-400/40"
+                      : "bg-blue-800 hover:bg-blue-700"
                     : cell === 1
                     ? "bg-red-500 shadow-inner"
                     : "bg-yellow-400 shadow-inner"
@@ -709,13 +1261,18 @@ function TicTacToeBoard({
   isMyTurn: boolean;
   myMark: "X" | "O";
 }) {
+  const [hoverCell, setHoverCell] = useState<number | null>(null);
+  const legalCells = ticTacToeEngine.legalMoves(board);
+  
   return (
     <div className="grid grid-cols-3 gap-3 bg-gray-800 p-4 rounded-xl">
       {board.map((cell, index) => (
         <button
           key={index}
-          onClick={() => !disabled && cell === 0 && onMove(index)}
-          disabled={disabled || cell !== 0}
+          onClick={() => !disabled && legalCells.includes(index) && onMove(index)}
+          onMouseEnter={() => setHoverCell(index)}
+          onMouseLeave={() => setHoverCell(null)}
+          disabled={disabled || !legalCells.includes(index)}
           className={`w-20 h-20 rounded-lg text-4xl font-bold flex items-center justify-center transition-all duration-200 ${
             cell === 0
               ? "bg-gray-700 hover:bg-gray-600"
@@ -726,6 +1283,8 @@ function TicTacToeBoard({
             <span className="text-red-500">X</span>
           ) : cell === 2 ? (
             <span className="text-yellow-400">O</span>
+          ) : hoverCell === index && !disabled && legalCells.includes(index) ? (
+            <span className={`opacity-30 ${myMark === "X" ? "text-red-500" : "text-yellow-400"}`}>{myMark}</span>
           ) : null}
         </button>
       ))}
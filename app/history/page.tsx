@@ -0,0 +1,309 @@
+"use client";
+
+import { sdk } from "@farcaster/miniapp-sdk";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { formatUnits } from "viem";
+import { getWagerToken, useGameTypes, type WagerToken } from "@/app/hooks/useGameContracts";
+import { WalletIndicator } from "@/app/components/WalletIndicator";
+import { gamePnl, toCsv, type GameOutcome } from "@/app/utils/history";
+import type { IndexedGame } from "@/app/utils/indexer";
+
+// Games per history API request
+const PAGE_SIZE = 100;
+
+const OUTCOME_LABELS: Record<GameOutcome, { label: string; color: string }> = {
+  won: { label: "Won", color: "text-green-400" },
+  lost: { label: "Lost", color: "text-red-400" },
+  drawn: { label: "Draw", color: "text-yellow-300" },
+  refunded: { label: "Refunded", color: "text-gray-400" },
+  pending: { label: "In progress", color: "text-purple-300" },
+};
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+// TicTacToeGame games are always DUEL
+const tokenOf = (game: IndexedGame): WagerToken => getWagerToken(game.token ?? undefined);
+
+const formatAmount = (amount: bigint, token: WagerToken) =>
+  Number(formatUnits(amount, token.decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+/**
+ * Every indexed game the player played, newest first
+ */
+async function fetchPlayerGames(player: string): Promise<IndexedGame[]> {
+  const games = new Map<string, IndexedGame>();
+  let before: number | undefined;
+
+  for (;;) {
+    const params = new URLSearchParams({ player, limit: String(PAGE_SIZE) });
+    // Page from the last game's second inclusive, so games sharing a block aren't skipped
+    if (before !== undefined) params.set("before", String(before + 1));
+
+    const res = await fetch(`/api/history/games?${params}`);
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to load history");
+
+    const page: IndexedGame[] = data.games;
+    const added = page.filter((game) => !games.has(`${game.source}:${game.gameId}`));
+    for (const game of added) games.set(`${game.source}:${game.gameId}`, game);
+
+    if (page.length < PAGE_SIZE || added.length === 0) break;
+    before = page[page.length - 1].createdAt;
+  }
+
+  return Array.from(games.values());
+}
+
+export default function HistoryPage() {
+  const { address, isConnected } = useAccount();
+  const { data: gameTypes } = useGameTypes();
+  const [games, setGames] = useState<IndexedGame[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sdk.actions.ready();
+  }, []);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+    setGames(null);
+    setError(null);
+
+    fetchPlayerGames(address)
+      .then((result) => {
+        if (!cancelled) setGames(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load history");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const gameTypeName = (game: IndexedGame) =>
+    game.source === "ticTacToe"
+      ? "Tic-Tac-Toe (classic)"
+      : (gameTypes?.find((type) => type.id === game.gameType)?.name ?? `Game type ${game.gameType}`);
+
+  const rows = useMemo(
+    () => (games && address ? games.map((game) => gamePnl(game, address.toLowerCase())) : []),
+    [games, address]
+  );
+
+  // Totals per wager token, over settled games only
+  const totals = useMemo(() => {
+    const byToken = new Map<string, {
+      token: WagerToken;
+      wagered: bigint;
+      edgePaid: bigint;
+      feePaid: bigint;
+      payout: bigint;
+      net: bigint;
+    }>();
+    for (const row of rows) {
+      if (row.outcome === "pending") continue;
+      const token = tokenOf(row.game);
+      const entry = byToken.get(token.symbol) ?? {
+        token,
+        wagered: BigInt(0),
+        edgePaid: BigInt(0),
+        feePaid: BigInt(0),
+        payout: BigInt(0),
+        net: BigInt(0),
+      };
+      entry.wagered += row.stake;
+      entry.edgePaid += row.edgePaid;
+      entry.feePaid += row.feePaid;
+      entry.payout += row.payout;
+      entry.net += row.net;
+      byToken.set(token.symbol, entry);
+    }
+    return Array.from(byToken.values());
+  }, [rows]);
+
+  // Win rate per game type, counting games that were played to a result
+  const winRateByType = new Map<string, { wins: number; played: number }>();
+  for (const row of rows) {
+    if (row.outcome !== "won" && row.outcome !== "lost" && row.outcome !== "drawn") continue;
+    const name = gameTypeName(row.game);
+    const entry = winRateByType.get(name) ?? { wins: 0, played: 0 };
+    entry.played++;
+    if (row.outcome === "won") entry.wins++;
+    winRateByType.set(name, entry);
+  }
+  const winRates = Array.from(winRateByType.entries());
+
+  const exportCsv = () => {
+    const header = ["Contract", "Game ID", "Date", "Game Type", "Opponent", "Token", "Wager", "Edge Paid", "Fee Paid", "Result", "Payout", "Net"];
+    const lines = rows.map((row) => {
+      const token = tokenOf(row.game);
+      return [
+        row.game.source === "ticTacToe" ? "TicTacToeGame" : "GameManager",
+        row.game.gameId,
+        new Date(row.game.createdAt * 1000).toISOString(),
+        gameTypeName(row.game),
+        row.opponent ?? "",
+        token.symbol,
+        formatUnits(row.stake, token.decimals),
+        formatUnits(row.edgePaid, token.decimals),
+        formatUnits(row.feePaid, token.decimals),
+        OUTCOME_LABELS[row.outcome].label,
+        formatUnits(row.payout, token.decimals),
+        formatUnits(row.net, token.decimals),
+      ];
+    });
+
+    const url = URL.createObjectURL(new Blob([toCsv([header, ...lines])], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `duelbase-history-${address}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <WalletIndicator />
+
+      <div className="max-w-lg mx-auto px-4 py-8 pt-16">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+            Game History
+          </h1>
+          <p className="text-gray-400">
+            What you&apos;ve won and lost, game by game
+          </p>
+        </div>
+
+        {!isConnected ? (
+          <p className="text-center text-gray-400">Connect your wallet to see your games.</p>
+        ) : error ? (
+          <p className="text-center text-red-400">{error}</p>
+        ) : !games ? (
+          <p className="text-center text-gray-400">Loading history...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-gray-400">No games yet.</p>
+        ) : (
+          <>
+            {/* Totals */}
+            <div className="space-y-3 mb-4">
+              {totals.map(({ token, wagered, edgePaid, feePaid, payout, net }) => (
+                <div key={token.symbol} className="bg-gray-800/50 border border-purple-500/20 rounded-2xl p-4">
+                  <div className="flex justify-between items-baseline mb-3">
+                    <span className="text-gray-400 text-sm">Net {token.symbol}</span>
+                    <span className={`text-2xl font-bold ${net < BigInt(0) ? "text-red-400" : "text-green-400"}`}>
+                      {net > BigInt(0) ? "+" : ""}
+                      {formatAmount(net, token)}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2 text-center text-xs text-gray-400">
+                    <div>
+                      <p className="text-white font-semibold text-sm">{formatAmount(wagered, token)}</p>
+                      Wagered
+                    </div>
+                    <div>
+                      <p className="text-white font-semibold text-sm">{formatAmount(payout, token)}</p>
+                      Paid out
+                    </div>
+                    <div>
+                      <p className="text-white font-semibold text-sm">{formatAmount(edgePaid, token)}</p>
+                      Edge paid
+                    </div>
+                    <div>
+                      <p className="text-white font-semibold text-sm">{formatAmount(feePaid, token)}</p>
+                      Fees paid
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Win rate per game type */}
+            {winRates.length > 0 && (
+              <div className="bg-gray-800/50 border border-purple-500/20 rounded-2xl p-4 mb-4 space-y-1 text-sm">
+                {winRates.map(([name, { wins, played }]) => (
+                  <div key={name} className="flex justify-between">
+                    <span className="text-gray-300">{name}</span>
+                    <span className="text-white">
+                      {Math.round((wins * 100) / played)}% <span className="text-gray-400">· {wins} / {played} won</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={exportCsv}
+              className="w-full mb-4 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-sm font-semibold transition-all"
+            >
+              ⬇️ Export CSV
+            </button>
+
+            {/* Games */}
+            <div className="space-y-2">
+              {rows.map((row) => {
+                const token = tokenOf(row.game);
+                const { label, color } = OUTCOME_LABELS[row.outcome];
+                const body = (
+                  <>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="font-semibold text-white">
+                        #{row.game.gameId} · {gameTypeName(row.game)}
+                      </span>
+                      <span className={`text-sm font-medium ${color}`}>{label}</span>
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-400">
+                      <span>
+                        vs {row.opponent ? formatAddress(row.opponent) : "nobody"} ·{" "}
+                        {new Date(row.game.createdAt * 1000).toLocaleDateString()}
+                      </span>
+                      {row.outcome !== "pending" && (
+                        <span className={row.net < BigInt(0) ? "text-red-400" : row.net > BigInt(0) ? "text-green-400" : ""}>
+                          {row.net > BigInt(0) ? "+" : ""}
+                          {formatAmount(row.net, token)} {token.symbol}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Wager {formatAmount(row.stake, token)} · Payout {formatAmount(row.payout, token)}
+                      {row.edgePaid > BigInt(0) && ` · Edge ${formatAmount(row.edgePaid, token)}`}
+                      {row.feePaid > BigInt(0) && ` · Fee ${formatAmount(row.feePaid, token)}`} {token.symbol}
+                    </div>
+                  </>
+                );
+                const className =
+                  "block bg-gray-800/50 hover:bg-gray-700/50 border border-purple-500/20 rounded-xl p-3 transition-colors";
+
+                return row.game.source === "gameManager" ? (
+                  <Link key={`${row.game.source}:${row.game.gameId}`} href={`/games/${row.game.gameId}`} className={className}>
+                    {body}
+                  </Link>
+                ) : (
+                  <div key={`${row.game.source}:${row.game.gameId}`} className={className}>
+                    {body}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {/* Back Link */}
+        <div className="mt-6 text-center">
+          <a
+            href="/"
+            className="text-purple-400 hover:text-purple-300 font-medium hover:underline"
+          >
+            ← Back to Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
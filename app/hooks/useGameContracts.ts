@@ -1,8 +1,26 @@
 "use client";
 
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { useMemo, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import {
+  useAccount,
+  useBytecode,
+  usePublicClient,
+  useReadContract,
+  useReadContracts,
+  useSignTypedData,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
 import { baseSepolia } from "wagmi/chains";
-import { parseEther, formatEther } from "viem";
+import { parseEther, formatEther, parseSignature } from "viem";
+import { GAME_MANAGER_ABI, GameType, GameStatus } from "@/app/contracts/GameManagerABI";
+import { TOURNAMENT_ABI, TournamentStatus } from "@/app/contracts/TournamentABI";
+import { TicTacToeGameABI } from "@/app/contracts/TicTacToeGameABI";
+import { SIDE_POOL_ABI, BetSide, PoolStatus } from "@/app/contracts/SidePoolABI";
+import type { TournamentMatchRef } from "@/app/utils/tournament";
+
+export { GAME_MANAGER_ABI, GameType, GameStatus, TOURNAMENT_ABI, TournamentStatus, SIDE_POOL_ABI, BetSide, PoolStatus };
 
 // ============ Contract Addresses (from environment variables) ============
 export const CONTRACTS = {
@@ -10,6 +28,8 @@ export const CONTRACTS = {
   GAME_MANAGER: (process.env.NEXT_PUBLIC_GAME_MANAGER_ADDRESS || "0x0000000000000000000000000000000000000000") as `0x${string}`,
   TOKEN_STORE: (process.env.NEXT_PUBLIC_TOKEN_STORE_ADDRESS || "0x0000000000000000000000000000000000000000") as `0x${string}`,
   TICTACTOE: (process.env.NEXT_PUBLIC_TICTACTOE_CONTRACT_ADDRESS || "0x0000000000000000000000000000000000000000") as `0x${string}`,
+  TOURNAMENT: (process.env.NEXT_PUBLIC_TOURNAMENT_ADDRESS || "0x0000000000000000000000000000000000000000") as `0x${string}`,
+  SIDE_POOL: (process.env.NEXT_PUBLIC_SIDE_POOL_ADDRESS || "0x0000000000000000000000000000000000000000") as `0x${string}`,
   USDC: (process.env.NEXT_PUBLIC_USDC_ADDRESS || "0x036CbD53842c5426634e7929541eC2318f3dCF7e") as `0x${string}`, // Base Sepolia USDC fallback
 } as const;
 
@@ -17,11 +37,55 @@ export const CONTRACTS = {
 export const USDC_DECIMALS = 6;
 export const DUEL_DECIMALS = 18;
 
+// ============ Wager Tokens ============
+export interface WagerToken {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+  permitVersion: string; // EIP-712 domain version used by the token's EIP-2612 permit
+}
+
+// Tokens offered in the create-game picker (must also be allowlisted on GameManager)
+export const WAGER_TOKENS: WagerToken[] = [
+  { symbol: "DUEL", address: CONTRACTS.DUEL_TOKEN, decimals: DUEL_DECIMALS, permitVersion: "1" },
+  { symbol: "USDC", address: CONTRACTS.USDC, decimals: USDC_DECIMALS, permitVersion: "2" },
+];
+
+// How long a signed permit stays valid
+const PERMIT_DEADLINE_SECONDS = 60 * 60;
+
+/**
+ * Look up a wager token by address, falling back to DUEL for unknown tokens
+ */
+export function getWagerToken(address: string | undefined): WagerToken {
+  return (
+    WAGER_TOKENS.find((token) => token.address.toLowerCase() === address?.toLowerCase()) ??
+    WAGER_TOKENS[0]
+  );
+}
+
+// Block the GameManager was deployed at (lower bound for event log queries)
+export const GAME_MANAGER_DEPLOY_BLOCK = BigInt(process.env.NEXT_PUBLIC_GAME_MANAGER_DEPLOY_BLOCK || "0");
+
 // Chain ID for all contract interactions
 const CHAIN_ID = baseSepolia.id;
 
 // ============ ABIs (minimal for frontend use) ============
 export const DUEL_TOKEN_ABI = [
+  {
+    name: "name",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+  {
+    name: "nonces",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
   {
     name: "balanceOf",
     type: "function",
@@ -51,117 +115,6 @@ export const DUEL_TOKEN_ABI = [
   },
 ] as const;
 
-export const GAME_MANAGER_ABI = [
-  // Read functions
-  {
-    name: "getGame",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "gameId", type: "uint256" }],
-    outputs: [
-      {
-        name: "",
-        type: "tuple",
-        components: [
-          { name: "id", type: "uint256" },
-          { name: "player1", type: "address" },
-          { name: "player2", type: "address" },
-          { name: "wagerAmount", type: "uint256" },
-          { name: "player1Wager", type: "uint256" },
-          { name: "gameType", type: "uint8" },
-          { name: "status", type: "uint8" },
-          { name: "createdAt", type: "uint256" },
-          { name: "winner", type: "address" },
-        ],
-      },
-    ],
-  },
-  {
-    name: "calculatePlayer1Wager",
-    type: "function",
-    stateMutability: "view",
-    inputs: [
-      { name: "wagerAmount", type: "uint256" },
-      { name: "gameType", type: "uint8" },
-    ],
-    outputs: [{ name: "", type: "uint256" }],
-  },
-  {
-    name: "nextGameId",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "uint256" }],
-  },
-  // Write functions
-  {
-    name: "createGame",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "opponent", type: "address" },
-      { name: "wagerAmount", type: "uint256" },
-      { name: "gameType", type: "uint8" },
-    ],
-    outputs: [{ name: "gameId", type: "uint256" }],
-  },
-  {
-    name: "joinGame",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "gameId", type: "uint256" }],
-    outputs: [],
-  },
-  {
-    name: "completeGame",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "gameId", type: "uint256" },
-      { name: "winner", type: "address" },
-      { name: "signature", type: "bytes" },
-    ],
-    outputs: [],
-  },
-  {
-    name: "cancelGame",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "gameId", type: "uint256" }],
-    outputs: [],
-  },
-  // Events
-  {
-    name: "GameCreated",
-    type: "event",
-    inputs: [
-      { name: "gameId", type: "uint256", indexed: true },
-      { name: "player1", type: "address", indexed: true },
-      { name: "player2", type: "address", indexed: true },
-      { name: "wagerAmount", type: "uint256", indexed: false },
-      { name: "player1Wager", type: "uint256", indexed: false },
-      { name: "gameType", type: "uint8", indexed: false },
-    ],
-  },
-  {
-    name: "GameJoined",
-    type: "event",
-    inputs: [
-      { name: "gameId", type: "uint256", indexed: true },
-      { name: "player2", type: "address", indexed: true },
-    ],
-  },
-  {
-    name: "GameCompleted",
-    type: "event",
-    inputs: [
-      { name: "gameId", type: "uint256", indexed: true },
-      { name: "winner", type: "address", indexed: true },
-      { name: "totalPayout", type: "uint256", indexed: false },
-    ],
-  },
-] as const;
-
 export const USDC_ABI = [
   {
     name: "balanceOf",
@@ -207,6 +160,13 @@ export const TOKEN_STORE_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "bool" }],
   },
+  {
+    name: "paused",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "bool" }],
+  },
   {
     name: "getInventory",
     type: "function",
@@ -235,21 +195,21 @@ export const TOKEN_STORE_ABI = [
     inputs: [{ name: "duelAmount", type: "uint256" }],
     outputs: [],
   },
+  {
+    name: "buyTokensWithPermit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "duelAmount", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
 ] as const;
 
-// ============ Enums ============
-export enum GameType {
-  TicTacToe = 0,
-  ConnectFour = 1,
-}
-
-export enum GameStatus {
-  Created = 0,
-  Active = 1,
-  Completed = 2,
-  Cancelled = 3,
-}
-
 // ============ Hooks ============
 
 /**
@@ -280,6 +240,47 @@ export function useDuelAllowance(owner: `0x${string}` | undefined) {
   });
 }
 
+/**
+ * Get a wager token balance for an address
+ */
+export function useTokenBalance(token: `0x${string}`, address: `0x${string}` | undefined) {
+  return useReadContract({
+    address: token,
+    abi: DUEL_TOKEN_ABI,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: !!address },
+  });
+}
+
+/**
+ * Get allowance for GameManager to spend a user's wager token
+ */
+export function useTokenAllowance(token: `0x${string}`, owner: `0x${string}` | undefined) {
+  return useReadContract({
+    address: token,
+    abi: DUEL_TOKEN_ABI,
+    functionName: "allowance",
+    args: owner ? [owner, CONTRACTS.GAME_MANAGER] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: !!owner },
+  });
+}
+
+/**
+ * Get whether a token is allowlisted for wagers, and its min/max wager
+ */
+export function useTokenConfig(token: `0x${string}`) {
+  return useReadContract({
+    address: CONTRACTS.GAME_MANAGER,
+    abi: GAME_MANAGER_ABI,
+    functionName: "tokenConfigs",
+    args: [token],
+    chainId: CHAIN_ID,
+  });
+}
+
 /**
  * Get game details by ID
  */
@@ -306,6 +307,46 @@ export function useNextGameId() {
   });
 }
 
+/**
+ * Get how long an Active game can go without a result before it can be abandoned
+ */
+export function useAbandonTimeout() {
+  return useReadContract({
+    address: CONTRACTS.GAME_MANAGER,
+    abi: GAME_MANAGER_ABI,
+    functionName: "abandonTimeout",
+    chainId: CHAIN_ID,
+  });
+}
+
+/**
+ * Check which contracts a guardian has paused
+ *
+ * A paused GameManager or TicTacToeGame rejects new and joined games (results,
+ * cancels and abandons still go through); a paused TokenStore rejects purchases.
+ */
+export function useContractsPaused() {
+  const { data } = useReadContracts({
+    contracts: [
+      { address: CONTRACTS.GAME_MANAGER, abi: GAME_MANAGER_ABI, functionName: "paused", chainId: CHAIN_ID },
+      { address: CONTRACTS.TICTACTOE, abi: TicTacToeGameABI, functionName: "paused", chainId: CHAIN_ID },
+      { address: CONTRACTS.TOKEN_STORE, abi: TOKEN_STORE_ABI, functionName: "paused", chainId: CHAIN_ID },
+    ],
+  });
+
+  // Contracts that aren't deployed (or predate pausing) read as not paused
+  const [gameManager, ticTacToe, tokenStore] = (data ?? []).map(
+    (entry) => entry.status === "success" && entry.result === true
+  );
+
+  return {
+    gameManager: !!gameManager,
+    ticTacToe: !!ticTacToe,
+    tokenStore: !!tokenStore,
+    anyPaused: !!(gameManager || ticTacToe || tokenStore),
+  };
+}
+
 /**
  * Game data structure returned from contract
  */
@@ -313,37 +354,268 @@ export interface GameData {
   id: bigint;
   player1: `0x${string}`;
   player2: `0x${string}`;
+  token: `0x${string}`; // ERC-20 both wagers are escrowed in
   wagerAmount: bigint;
-  player1Wager: bigint; // Amount player1 pays (includes edge percentage)
+  player2Wager: bigint; // Amount player2 pays (wager reduced by the edge percentage)
+  protocolFee: bigint; // Deducted from the pot when the game is won
   gameType: number;
+  bestOf: number; // Games in the series (1 for a single game)
   status: number;
   createdAt: bigint;
+  startedAt: bigint; // When player2 joined (0 until the game is Active)
   winner: `0x${string}`;
 }
 
+// Games fetched per page of a player's game list
+export const PLAYER_GAMES_PAGE_SIZE = 10;
+
+/**
+ * Build the status mask GameManager's player index filters on
+ */
+export function gameStatusMask(...statuses: GameStatus[]): bigint {
+  return statuses.reduce((mask, status) => mask | (BigInt(1) << BigInt(status)), BigInt(0));
+}
+
+/**
+ * Page through a player's games (newest first) from GameManager's player index
+ *
+ * @param player - The player's address
+ * @param statusMask - Statuses to include (see gameStatusMask)
+ */
+export function usePlayerGames(player: `0x${string}` | undefined, statusMask: bigint) {
+  const publicClient = usePublicClient({ chainId: CHAIN_ID });
+
+  const result = useInfiniteQuery({
+    queryKey: ["playerGames", CHAIN_ID, player, statusMask.toString()],
+    queryFn: async ({ pageParam }) => {
+      const [page, nextOffset] = await publicClient!.readContract({
+        address: CONTRACTS.GAME_MANAGER,
+        abi: GAME_MANAGER_ABI,
+        functionName: "getGamesByPlayerWithStatus",
+        args: [player!, statusMask, pageParam, BigInt(PLAYER_GAMES_PAGE_SIZE)],
+      });
+      return { games: page as readonly GameData[], nextOffset };
+    },
+    initialPageParam: BigInt(0),
+    // The contract only returns a short page once the index is exhausted
+    getNextPageParam: (lastPage) =>
+      lastPage.games.length === PLAYER_GAMES_PAGE_SIZE ? lastPage.nextOffset : undefined,
+    enabled: !!player && !!publicClient,
+  });
+
+  const games = useMemo(() => result.data?.pages.flatMap((page) => page.games) ?? [], [result.data]);
+
+  return { ...result, games };
+}
+
 /**
- * Calculate player1's wager (with edge) for a given base wager
+ * Calculate player2's stake (wager reduced by the edge) for a given base wager
  */
-export function useCalculatePlayer1Wager(wagerAmount: bigint, gameType: GameType) {
+export function useCalculatePlayer2Wager(wagerAmount: bigint, gameType: GameType) {
   return useReadContract({
     address: CONTRACTS.GAME_MANAGER,
     abi: GAME_MANAGER_ABI,
-    functionName: "calculatePlayer1Wager",
+    functionName: "calculatePlayer2Wager",
     args: [wagerAmount, gameType],
     chainId: CHAIN_ID,
   });
 }
 
+/**
+ * Calculate what the winner receives (both stakes less the protocol fee)
+ */
+export function useCalculateWinnerPayout(wagerAmount: bigint, gameType: GameType) {
+  return useReadContract({
+    address: CONTRACTS.GAME_MANAGER,
+    abi: GAME_MANAGER_ABI,
+    functionName: "calculateWinnerPayout",
+    args: [wagerAmount, gameType],
+    chainId: CHAIN_ID,
+  });
+}
+
+/**
+ * Get the protocol fee for a game type (basis points of the pot)
+ */
+export function useFeePercent(gameType: GameType) {
+  return useReadContract({
+    address: CONTRACTS.GAME_MANAGER,
+    abi: GAME_MANAGER_ABI,
+    functionName: "feePercent",
+    args: [gameType],
+    chainId: CHAIN_ID,
+  });
+}
+
+/**
+ * Get a referrer's claimable rewards in each wager token
+ */
+export function useReferralEarnings(referrer: `0x${string}` | undefined) {
+  const { data, refetch } = useReadContracts({
+    contracts: referrer
+      ? WAGER_TOKENS.map((token) => ({
+          address: CONTRACTS.GAME_MANAGER,
+          abi: GAME_MANAGER_ABI,
+          functionName: "referralEarnings" as const,
+          args: [referrer, token.address] as const,
+          chainId: CHAIN_ID,
+        }))
+      : [],
+    query: { enabled: !!referrer },
+  });
+
+  const earnings = useMemo(
+    () =>
+      WAGER_TOKENS.map((token, i) => ({
+        token,
+        amount: (data?.[i]?.result as bigint | undefined) ?? BigInt(0),
+      })),
+    [data]
+  );
+
+  return { earnings, refetch };
+}
+
+/**
+ * Hook for claiming referral rewards
+ */
+export function useClaimReferralEarnings() {
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const claimReferralEarnings = (token: `0x${string}`) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "claimReferralEarnings",
+      args: [token],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  return { claimReferralEarnings, hash, isPending, isConfirming, isSuccess, error, reset };
+}
+
+/**
+ * Get every game type in the GameManager's registry, enabled or not
+ */
+export function useGameTypes() {
+  return useReadContract({
+    address: CONTRACTS.GAME_MANAGER,
+    abi: GAME_MANAGER_ABI,
+    functionName: "getGameTypes",
+    chainId: CHAIN_ID,
+  });
+}
+
+/**
+ * Whether an owner can grant a token allowance by permit signature
+ *
+ * False for tokens without EIP-2612 and for smart-contract wallets, which
+ * can't produce the ECDSA signature permit() checks; those approve instead.
+ * Undefined while loading.
+ */
+export function usePermitSupport(token: `0x${string}`, owner: `0x${string}` | undefined) {
+  const { data: code, isLoading: isCodeLoading } = useBytecode({
+    address: owner,
+    chainId: CHAIN_ID,
+    query: { enabled: !!owner },
+  });
+  const { isSuccess: hasNonces, isLoading: isNoncesLoading } = useReadContract({
+    address: token,
+    abi: DUEL_TOKEN_ABI,
+    functionName: "nonces",
+    args: owner ? [owner] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: !!owner, retry: false },
+  });
+
+  if (!owner || isCodeLoading || isNoncesLoading) return undefined;
+  return hasNonces && !code;
+}
+
+/**
+ * Sign EIP-2612 permits so a contract can pull tokens without a separate approve transaction
+ *
+ * `permitFailed` stays set after a failed attempt (even across reset), so
+ * callers can fall back to approving.
+ */
+export function usePermitSignature() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient({ chainId: CHAIN_ID });
+  const { signTypedDataAsync } = useSignTypedData();
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [permitFailed, setPermitFailed] = useState(false);
+
+  const reset = () => setError(null);
+
+  const signPermit = async (token: `0x${string}`, spender: `0x${string}`, value: bigint) => {
+    setIsSigning(true);
+    setError(null);
+    try {
+      if (!address || !publicClient) {
+        throw new Error("Wallet not connected");
+      }
+
+      const [name, nonce] = await Promise.all([
+        publicClient.readContract({ address: token, abi: DUEL_TOKEN_ABI, functionName: "name" }),
+        publicClient.readContract({ address: token, abi: DUEL_TOKEN_ABI, functionName: "nonces", args: [address] }),
+      ]);
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+
+      const signature = await signTypedDataAsync({
+        domain: {
+          name,
+          version: getWagerToken(token).permitVersion,
+          chainId: CHAIN_ID,
+          verifyingContract: token,
+        },
+        types: {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        primaryType: "Permit",
+        message: { owner: address, spender, value, nonce, deadline },
+      });
+
+      const { r, s, v, yParity } = parseSignature(signature);
+      return { deadline, v: Number(v ?? BigInt(yParity + 27)), r, s };
+    } catch (err) {
+      // Reading the token's permit domain or signing failed: surface it and let callers approve instead
+      setError(err instanceof Error ? err : new Error(String(err)));
+      setPermitFailed(true);
+      return null;
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return { signPermit, isSigning, error, permitFailed, reset };
+}
+
 /**
  * Hook for all game write operations
  */
 export function useGameActions() {
-  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { writeContract, data: hash, isPending, error: writeError, reset: resetWrite } = useWriteContract();
   const { isLoading: isConfirming, isSuccess, data: receipt } = useWaitForTransactionReceipt({ hash });
+  const { signPermit, isSigning, error: permitError, permitFailed, reset: resetPermit } = usePermitSignature();
+  const error = writeError ?? permitError;
 
-  const approveTokens = (amount: bigint) => {
+  const reset = () => {
+    resetWrite();
+    resetPermit();
+  };
+
+  const approveTokens = (amount: bigint, token: `0x${string}` = CONTRACTS.DUEL_TOKEN) => {
     writeContract({
-      address: CONTRACTS.DUEL_TOKEN,
+      address: token,
       abi: DUEL_TOKEN_ABI,
       functionName: "approve",
       args: [CONTRACTS.GAME_MANAGER, amount],
@@ -351,32 +623,97 @@ export function useGameActions() {
     });
   };
 
-  const createGame = (opponent: `0x${string}`, wagerAmount: bigint, gameType: GameType) => {
+  const createGame = (
+    opponent: `0x${string}`,
+    wagerAmount: bigint,
+    gameType: GameType,
+    token: `0x${string}` = CONTRACTS.DUEL_TOKEN,
+    bestOf = 1
+  ) => {
     writeContract({
       address: CONTRACTS.GAME_MANAGER,
       abi: GAME_MANAGER_ABI,
-      functionName: "createGame",
-      args: [opponent, wagerAmount, gameType],
+      functionName: "createGameWithToken",
+      args: [opponent, token, wagerAmount, gameType, bestOf],
       chainId: CHAIN_ID,
     });
   };
 
-  const joinGame = (gameId: bigint) => {
+  // Sign a permit for the wager, then create the game in a single transaction
+  const createGameWithPermit = async (
+    opponent: `0x${string}`,
+    wagerAmount: bigint,
+    gameType: GameType,
+    token: `0x${string}` = CONTRACTS.DUEL_TOKEN,
+    bestOf = 1
+  ) => {
+    // Failures surface through `error` and `permitFailed`
+    const permit = await signPermit(token, CONTRACTS.GAME_MANAGER, wagerAmount);
+    if (!permit) return;
+
+    const { deadline, v, r, s } = permit;
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "createGameWithPermit",
+      args: [opponent, token, wagerAmount, gameType, bestOf, deadline, v, r, s],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  // Pass the inviting player as referrer to credit them (only counts on a first game)
+  const joinGame = (gameId: bigint, referrer?: `0x${string}`) => {
     writeContract({
       address: CONTRACTS.GAME_MANAGER,
       abi: GAME_MANAGER_ABI,
       functionName: "joinGame",
       chainId: CHAIN_ID,
-      args: [gameId],
+      args: referrer ? [gameId, referrer] : [gameId],
     });
   };
 
-  const completeGame = (gameId: bigint, winner: `0x${string}`, signature: `0x${string}`) => {
+  // Sign a permit for player2's stake, then join in a single transaction
+  const joinGameWithPermit = async (
+    gameId: bigint,
+    token: `0x${string}`,
+    stake: bigint,
+    referrer?: `0x${string}`
+  ) => {
+    // Failures surface through `error` and `permitFailed`
+    const permit = await signPermit(token, CONTRACTS.GAME_MANAGER, stake);
+    if (!permit) return;
+
+    const { deadline, v, r, s } = permit;
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "joinGameWithPermit",
+      args: referrer ? [gameId, referrer, deadline, v, r, s] : [gameId, deadline, v, r, s],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const completeGame = (
+    gameId: bigint,
+    winner: `0x${string}`,
+    deadline: bigint,
+    signatures: `0x${string}`[]
+  ) => {
     writeContract({
       address: CONTRACTS.GAME_MANAGER,
       abi: GAME_MANAGER_ABI,
       functionName: "completeGame",
-      args: [gameId, winner, signature],
+      args: [gameId, winner, deadline, signatures],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const completeGameAsDraw = (gameId: bigint, deadline: bigint, signatures: `0x${string}`[]) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "completeGameAsDraw",
+      args: [gameId, deadline, signatures],
       chainId: CHAIN_ID,
     });
   };
@@ -391,13 +728,74 @@ export function useGameActions() {
     });
   };
 
+  const abandonGame = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "abandonGame",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  // Settle without the backend: concede, or agree a draw with the opponent
+  const resign = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "resign",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const offerDraw = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "offerDraw",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const acceptDraw = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "acceptDraw",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const withdrawDrawOffer = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.GAME_MANAGER,
+      abi: GAME_MANAGER_ABI,
+      functionName: "withdrawDrawOffer",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
   return {
     approveTokens,
     createGame,
+    createGameWithPermit,
     joinGame,
+    joinGameWithPermit,
     completeGame,
+    completeGameAsDraw,
     cancelGame,
+    abandonGame,
+    resign,
+    offerDraw,
+    acceptDraw,
+    withdrawDrawOffer,
     hash,
+    isSigning,
+    permitFailed,
     isPending,
     isConfirming,
     isSuccess,
@@ -491,8 +889,15 @@ export function useCalculateCost(duelAmount: bigint) {
  * Hook for token store purchase operations
  */
 export function useTokenStore() {
-  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { writeContract, data: hash, isPending, error: writeError, reset: resetWrite } = useWriteContract();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const { signPermit, isSigning, error: permitError, permitFailed, reset: resetPermit } = usePermitSignature();
+  const error = writeError ?? permitError;
+
+  const reset = () => {
+    resetWrite();
+    resetPermit();
+  };
 
   const approveUsdc = (amount: bigint) => {
     writeContract({
@@ -514,9 +919,428 @@ export function useTokenStore() {
     });
   };
 
+  // Sign a USDC permit for the cost, then buy in a single transaction
+  const buyTokensWithPermit = async (duelAmount: bigint, usdcCost: bigint) => {
+    // Failures surface through `error` and `permitFailed`
+    const permit = await signPermit(CONTRACTS.USDC, CONTRACTS.TOKEN_STORE, usdcCost);
+    if (!permit) return;
+
+    const { deadline, v, r, s } = permit;
+    writeContract({
+      address: CONTRACTS.TOKEN_STORE,
+      abi: TOKEN_STORE_ABI,
+      functionName: "buyTokensWithPermit",
+      args: [duelAmount, deadline, v, r, s],
+      chainId: CHAIN_ID,
+    });
+  };
+
   return {
     approveUsdc,
     buyTokens,
+    buyTokensWithPermit,
+    hash,
+    isSigning,
+    permitFailed,
+    isPending,
+    isConfirming,
+    isSuccess,
+    error,
+    reset,
+  };
+}
+
+// ============ Tournament Hooks ============
+
+/**
+ * Tournament data structure returned from contract
+ */
+export interface TournamentData {
+  id: bigint;
+  entryFee: bigint; // DUEL paid by each player
+  size: number; // 4, 8 or 16 players
+  playerCount: number;
+  gameType: number;
+  status: number;
+  createdAt: bigint;
+  startedAt: bigint; // When the bracket filled (0 until Active)
+  prizePaid: bigint;
+  champion: `0x${string}`;
+}
+
+export interface BracketMatch {
+  round: number;
+  matchIndex: number;
+  player1: `0x${string}`;
+  player2: `0x${string}`;
+  winner: `0x${string}`;
+}
+
+/**
+ * Number of rounds in a bracket of the given size
+ */
+export function tournamentRounds(size: number): number {
+  return Math.log2(size);
+}
+
+/**
+ * Get the next tournament ID (total number of tournaments created)
+ */
+export function useNextTournamentId() {
+  return useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "nextTournamentId",
+    chainId: CHAIN_ID,
+  });
+}
+
+/**
+ * Get tournament details by ID
+ */
+export function useTournament(tournamentId: bigint | undefined) {
+  return useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "getTournament",
+    args: tournamentId !== undefined ? [tournamentId] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: tournamentId !== undefined },
+  });
+}
+
+/**
+ * Get a tournament's prize split (basis points per finishing tier)
+ */
+export function usePrizeSplit(tournamentId: bigint | undefined) {
+  return useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "getPrizeSplit",
+    args: tournamentId !== undefined ? [tournamentId] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: tournamentId !== undefined },
+  });
+}
+
+/**
+ * Get a tournament's entrants in seeding order
+ */
+export function useTournamentEntrants(tournamentId: bigint | undefined) {
+  return useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "getEntrants",
+    args: tournamentId !== undefined ? [tournamentId] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: tournamentId !== undefined },
+  });
+}
+
+/**
+ * Get whether an address has registered for a tournament
+ */
+export function useIsRegistered(tournamentId: bigint | undefined, player: `0x${string}` | undefined) {
+  return useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "isRegistered",
+    args: tournamentId !== undefined && player ? [tournamentId, player] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: tournamentId !== undefined && !!player },
+  });
+}
+
+/**
+ * Get allowance for the Tournament contract to spend user's DUEL
+ */
+export function useTournamentAllowance(owner: `0x${string}` | undefined) {
+  return useReadContract({
+    address: CONTRACTS.DUEL_TOKEN,
+    abi: DUEL_TOKEN_ABI,
+    functionName: "allowance",
+    args: owner ? [owner, CONTRACTS.TOURNAMENT] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: !!owner },
+  });
+}
+
+/**
+ * Get every match in a tournament's bracket, grouped by round
+ */
+export function useTournamentBracket(tournamentId: bigint | undefined, size: number | undefined) {
+  const refs: { round: number; matchIndex: number }[] = [];
+  if (size) {
+    for (let round = 0; round < tournamentRounds(size); round++) {
+      for (let matchIndex = 0; matchIndex < size >> (round + 1); matchIndex++) {
+        refs.push({ round, matchIndex });
+      }
+    }
+  }
+
+  const result = useReadContracts({
+    contracts: refs.map(({ round, matchIndex }) => ({
+      address: CONTRACTS.TOURNAMENT,
+      abi: TOURNAMENT_ABI,
+      functionName: "getMatch" as const,
+      args: [tournamentId ?? BigInt(0), round, matchIndex] as const,
+      chainId: CHAIN_ID,
+    })),
+    query: { enabled: tournamentId !== undefined && refs.length > 0 },
+  });
+
+  const rounds: BracketMatch[][] = [];
+  result.data?.forEach((entry, i) => {
+    if (entry.status !== "success" || !entry.result) return;
+    const [player1, player2, winner] = entry.result as readonly [`0x${string}`, `0x${string}`, `0x${string}`];
+    const { round, matchIndex } = refs[i];
+    (rounds[round] ??= []).push({ round, matchIndex, player1, player2, winner });
+  });
+
+  return { rounds, isLoading: result.isLoading, refetch: result.refetch };
+}
+
+/**
+ * Get a bracket match shaped like a GameManager game, so the game page can play it
+ *
+ * Matches carry no wager; status is Active once both players are known and
+ * Completed once the result is reported.
+ */
+export function useTournamentMatchGame(match: TournamentMatchRef | null, gameId: bigint | undefined) {
+  const tournament = useTournament(match?.tournamentId);
+  const matchResult = useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "getMatch",
+    args: match ? [match.tournamentId, match.round, match.matchIndex] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: !!match },
+  });
+
+  const zero = "0x0000000000000000000000000000000000000000";
+  let data: GameData | undefined;
+  if (match && gameId !== undefined && tournament.data && tournament.data.size > 0 && matchResult.data) {
+    const [player1, player2, winner] = matchResult.data;
+    data = {
+      id: gameId,
+      player1,
+      player2,
+      token: CONTRACTS.DUEL_TOKEN,
+      wagerAmount: BigInt(0),
+      player2Wager: BigInt(0),
+      protocolFee: BigInt(0),
+      gameType: tournament.data.gameType,
+      bestOf: 1,
+      status:
+        winner !== zero
+          ? GameStatus.Completed
+          : player1 !== zero && player2 !== zero && tournament.data.status === TournamentStatus.Active
+            ? GameStatus.Active
+            : GameStatus.Created,
+      createdAt: tournament.data.startedAt,
+      startedAt: tournament.data.startedAt,
+      winner,
+    };
+  }
+
+  return {
+    data,
+    isLoading: tournament.isLoading || matchResult.isLoading,
+    refetch: () => {
+      tournament.refetch();
+      return matchResult.refetch();
+    },
+  };
+}
+
+/**
+ * Get how long an Active tournament can run before its players can abandon it
+ */
+export function useTournamentAbandonTimeout() {
+  return useReadContract({
+    address: CONTRACTS.TOURNAMENT,
+    abi: TOURNAMENT_ABI,
+    functionName: "abandonTimeout",
+    chainId: CHAIN_ID,
+  });
+}
+
+/**
+ * Hook for tournament write actions
+ */
+export function useTournamentActions() {
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const approveEntryFee = (amount: bigint) => {
+    writeContract({
+      address: CONTRACTS.DUEL_TOKEN,
+      abi: DUEL_TOKEN_ABI,
+      functionName: "approve",
+      args: [CONTRACTS.TOURNAMENT, amount],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const register = (tournamentId: bigint) => {
+    writeContract({
+      address: CONTRACTS.TOURNAMENT,
+      abi: TOURNAMENT_ABI,
+      functionName: "register",
+      args: [tournamentId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const reportResult = (
+    match: TournamentMatchRef,
+    winner: `0x${string}`,
+    deadline: bigint,
+    signatures: `0x${string}`[]
+  ) => {
+    writeContract({
+      address: CONTRACTS.TOURNAMENT,
+      abi: TOURNAMENT_ABI,
+      functionName: "reportResult",
+      args: [match.tournamentId, match.round, match.matchIndex, winner, deadline, signatures],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const abandonTournament = (tournamentId: bigint) => {
+    writeContract({
+      address: CONTRACTS.TOURNAMENT,
+      abi: TOURNAMENT_ABI,
+      functionName: "abandonTournament",
+      args: [tournamentId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  return {
+    approveEntryFee,
+    register,
+    reportResult,
+    abandonTournament,
+    hash,
+    isPending,
+    isConfirming,
+    isSuccess,
+    error,
+    reset,
+  };
+}
+
+// ============ Side Pool Hooks ============
+
+/**
+ * Get a game's side pool and, for a connected bettor, their bets and claimable payout
+ */
+export function useSidePool(gameId: bigint | undefined, bettor: `0x${string}` | undefined) {
+  const enabled = gameId !== undefined;
+  const bettorArgs = gameId !== undefined && bettor ? ([gameId, bettor] as const) : undefined;
+
+  const pool = useReadContract({
+    address: CONTRACTS.SIDE_POOL,
+    abi: SIDE_POOL_ABI,
+    functionName: "getPool",
+    args: enabled ? [gameId] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled },
+  });
+
+  const bets = useReadContracts({
+    contracts: bettorArgs
+      ? [
+          { address: CONTRACTS.SIDE_POOL, abi: SIDE_POOL_ABI, functionName: "player1Bets", args: bettorArgs, chainId: CHAIN_ID },
+          { address: CONTRACTS.SIDE_POOL, abi: SIDE_POOL_ABI, functionName: "player2Bets", args: bettorArgs, chainId: CHAIN_ID },
+          { address: CONTRACTS.SIDE_POOL, abi: SIDE_POOL_ABI, functionName: "claimableAmount", args: bettorArgs, chainId: CHAIN_ID },
+        ]
+      : [],
+    query: { enabled: !!bettorArgs },
+  });
+
+  const refetch = () => {
+    pool.refetch();
+    bets.refetch();
+  };
+
+  return {
+    pool: pool.data,
+    myBetOnPlayer1: bets.data?.[0]?.result as bigint | undefined,
+    myBetOnPlayer2: bets.data?.[1]?.result as bigint | undefined,
+    claimable: bets.data?.[2]?.result as bigint | undefined,
+    isLoading: pool.isLoading,
+    refetch,
+  };
+}
+
+/**
+ * Get allowance for the SidePool contract to spend user's DUEL
+ */
+export function useSidePoolAllowance(owner: `0x${string}` | undefined) {
+  return useReadContract({
+    address: CONTRACTS.DUEL_TOKEN,
+    abi: DUEL_TOKEN_ABI,
+    functionName: "allowance",
+    args: owner ? [owner, CONTRACTS.SIDE_POOL] : undefined,
+    chainId: CHAIN_ID,
+    query: { enabled: !!owner },
+  });
+}
+
+/**
+ * Hook for side pool write actions
+ */
+export function useSidePoolActions() {
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const approveBet = (amount: bigint) => {
+    writeContract({
+      address: CONTRACTS.DUEL_TOKEN,
+      abi: DUEL_TOKEN_ABI,
+      functionName: "approve",
+      args: [CONTRACTS.SIDE_POOL, amount],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const placeBet = (gameId: bigint, side: BetSide, amount: bigint) => {
+    writeContract({
+      address: CONTRACTS.SIDE_POOL,
+      abi: SIDE_POOL_ABI,
+      functionName: "placeBet",
+      args: [gameId, side, amount],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const settle = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.SIDE_POOL,
+      abi: SIDE_POOL_ABI,
+      functionName: "settle",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  const claim = (gameId: bigint) => {
+    writeContract({
+      address: CONTRACTS.SIDE_POOL,
+      abi: SIDE_POOL_ABI,
+      functionName: "claim",
+      args: [gameId],
+      chainId: CHAIN_ID,
+    });
+  };
+
+  return {
+    approveBet,
+    placeBet,
+    settle,
+    claim,
     hash,
     isPending,
     isConfirming,
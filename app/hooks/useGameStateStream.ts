@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+// Polling interval used while the event stream is down
+const FALLBACK_POLL_INTERVAL_MS = 2000;
+
+// How long to poll before trying the stream again
+const STREAM_RETRY_DELAY_MS = 10 * 1000;
+
+interface GameStateStreamHandlers<T> {
+  onState: (state: T) => void;
+  onTimeout?: (timedOutPlayer: string) => void;
+}
+
+/**
+ * Subscribe to live game state from /api/games/[gameId]/events
+ *
+ * Falls back to polling /api/games/[gameId] when the stream drops, and
+ * switches back to the stream once it reconnects.
+ *
+ * @param gameId - The game ID
+ * @param enabled - Whether to subscribe (e.g. once the game is initialized)
+ * @param handlers - Called with each new state and on turn timeouts
+ * @returns Whether updates are currently arriving over the stream
+ */
+export function useGameStateStream<T>(
+  gameId: string,
+  enabled: boolean,
+  handlers: GameStateStreamHandlers<T>
+) {
+  const [isLive, setIsLive] = useState(false);
+
+  // Keep the latest handlers without resubscribing on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!gameId || !enabled) return;
+
+    let eventSource: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/games/${gameId}`);
+        const data = await res.json();
+        if (data.exists && !stopped) {
+          handlersRef.current.onState(data.state);
+        }
+      } catch (err) {
+        console.error("Polling error:", err);
+      }
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      poll();
+      pollTimer = setInterval(poll, FALLBACK_POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = () => {
+      if (stopped) return;
+
+      eventSource = new EventSource(`/api/games/${gameId}/events`);
+
+      eventSource.onopen = () => {
+        setIsLive(true);
+        stopPolling();
+      };
+
+      eventSource.addEventListener("state", (event) => {
+        handlersRef.current.onState(JSON.parse((event as MessageEvent).data));
+      });
+
+      eventSource.addEventListener("timeout", (event) => {
+        const { timedOutPlayer } = JSON.parse((event as MessageEvent).data);
+        handlersRef.current.onTimeout?.(timedOutPlayer);
+      });
+
+      // Stream dropped - poll until we can reconnect
+      eventSource.onerror = () => {
+        eventSource?.close();
+        eventSource = null;
+        setIsLive(false);
+        startPolling();
+        retryTimer = setTimeout(connect, STREAM_RETRY_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      eventSource?.close();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [gameId, enabled]);
+
+  return { isLive };
+}
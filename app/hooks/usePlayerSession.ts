@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { baseSepolia } from "wagmi/chains";
+import { createSiweMessage, generateSiweNonce } from "viem/siwe";
+
+// Sign in again this long before the session runs out
+const SESSION_RENEW_MARGIN_SECONDS = 60;
+
+interface StoredSession {
+  token: string;
+  expiresAt: number;
+}
+
+// Sign-ins in flight, so simultaneous actions share one wallet prompt
+const pendingSignIns = new Map<string, Promise<string>>();
+
+function storageKey(address: string): string {
+  return `duelbase:session:${address.toLowerCase()}`;
+}
+
+function readSession(address: string): StoredSession | null {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(storageKey(address)) || "null") as StoredSession | null;
+    return session && session.expiresAt - SESSION_RENEW_MARGIN_SECONDS > Date.now() / 1000 ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Session token for the connected wallet, from /api/session
+ *
+ * Signs in with Ethereum the first time it's needed (one wallet prompt) and
+ * keeps the token for the tab's lifetime, so moves and timeout claims can be
+ * sent without a signature each.
+ *
+ * @returns `getSessionToken` (signs in if there's no live session) and
+ * `clearSession` (after the server rejects the token)
+ */
+export function usePlayerSession() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const getSessionToken = useCallback(async (): Promise<string> => {
+    if (!address) throw new Error("Wallet not connected");
+
+    const session = readSession(address);
+    if (session) return session.token;
+
+    const key = storageKey(address);
+    let pending = pendingSignIns.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const message = createSiweMessage({
+          address,
+          chainId: baseSepolia.id,
+          domain: window.location.host,
+          uri: window.location.origin,
+          nonce: generateSiweNonce(),
+          issuedAt: new Date(),
+          statement: "Sign in to DuelBase to play your games without approving every move.",
+          version: "1",
+        });
+        const signature = await signMessageAsync({ message });
+
+        const res = await fetch("/api/session", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message, signature }),
+        });
+        const data = await res.json();
+        if (!data.success) throw new Error(data.error || "Sign-in failed");
+
+        sessionStorage.setItem(key, JSON.stringify({ token: data.token, expiresAt: data.expiresAt }));
+        return data.token as string;
+      })().finally(() => pendingSignIns.delete(key));
+      pendingSignIns.set(key, pending);
+    }
+    return pending;
+  }, [address, signMessageAsync]);
+
+  const clearSession = useCallback(() => {
+    if (address) sessionStorage.removeItem(storageKey(address));
+  }, [address]);
+
+  return { getSessionToken, clearSession };
+}
@@ -1,26 +1,30 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { useAccount, useChainId, useSwitchChain } from "wagmi";
 import { baseSepolia } from "wagmi/chains";
-import { formatUnits } from "viem";
+import { formatUnits, zeroAddress } from "viem";
 import Link from "next/link";
 import {
   useGame,
-  useDuelBalance,
-  useDuelAllowance,
+  useTokenBalance,
+  useTokenAllowance,
+  usePermitSupport,
   useGameActions,
+  useContractsPaused,
+  getWagerToken,
   GameStatus,
   GameType,
-  DUEL_DECIMALS,
   CONTRACTS,
   type GameData,
 } from "@/app/hooks/useGameContracts";
+import { inviteLink, parseReferrer } from "@/app/utils/referrals";
 
 export default function JoinGamePage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const gameId = params.gameId ? BigInt(params.gameId as string) : undefined;
 
   const { address, isConnected } = useAccount();
@@ -29,18 +33,28 @@ export default function JoinGamePage() {
 
   const isWrongNetwork = chainId !== baseSepolia.id;
 
+  // Whoever shared the invite link, credited if this is the player's first game
+  const referrer = parseReferrer(searchParams.get("ref"), address);
+
   // Fetch game data
   const { data: gameData, isLoading: isLoadingGame, refetch: refetchGame } = useGame(gameId);
   const game = gameData as GameData | undefined;
 
-  // User's DUEL balance and allowance
-  const { data: duelBalance } = useDuelBalance(address);
-  const { data: duelAllowance, refetch: refetchAllowance } = useDuelAllowance(address);
+  // User's balance and allowance in the token this game is wagered in
+  const tokenAddress = game?.token ?? CONTRACTS.DUEL_TOKEN;
+  const wagerToken = getWagerToken(tokenAddress);
+  const { data: tokenBalance } = useTokenBalance(tokenAddress, address);
+  const { data: tokenAllowance, refetch: refetchAllowance } = useTokenAllowance(tokenAddress, address);
+  const permitSupported = usePermitSupport(tokenAddress, address);
+  const { gameManager: isPaused } = useContractsPaused();
 
   // Game actions
   const {
     approveTokens,
     joinGame,
+    joinGameWithPermit,
+    isSigning,
+    permitFailed,
     isPending,
     isConfirming,
     isSuccess,
@@ -55,15 +69,15 @@ export default function JoinGamePage() {
       if (step === "approve") {
         // Show loading state while preparing join
         setStep("joining-after-approve");
-        
+
         // Wait for allowance to update, then auto-trigger join
         const proceedToJoin = async () => {
           await new Promise(resolve => setTimeout(resolve, 1000));
           await refetchAllowance();
           // Directly trigger join after approval
-          if (gameId) {
+          if (gameId !== undefined) {
             setStep("join");
-            joinGame(gameId);
+            joinGame(gameId, referrer);
           }
         };
         proceedToJoin();
@@ -72,39 +86,57 @@ export default function JoinGamePage() {
         refetchGame();
       }
     }
-  }, [isSuccess, step, refetchAllowance, refetchGame, gameId, joinGame]);
+  }, [isSuccess, step, refetchAllowance, refetchGame, gameId, referrer, joinGame]);
 
   // Format values for display
-  // Player 2 pays wagerAmount (the base wager, no edge)
-  const formattedWager = game ? formatUnits(game.wagerAmount, DUEL_DECIMALS) : "0";
-  const formattedBalance = duelBalance ? formatUnits(duelBalance, DUEL_DECIMALS) : "0";
-
-  // Check if user needs to approve tokens (player 2 needs to approve wagerAmount)
-  const needsApproval = game && duelAllowance !== undefined && duelAllowance < game.wagerAmount;
-  const hasEnoughBalance = game && duelBalance !== undefined && duelBalance >= game.wagerAmount;
-
-  // Check if user is the invited player
-  const isInvitedPlayer = game && address && game.player2.toLowerCase() === address.toLowerCase();
+  // Player 2 pays player2Wager (the base wager reduced by the edge)
+  const formattedWager = game ? formatUnits(game.wagerAmount, wagerToken.decimals) : "0";
+  const formattedStake = game ? formatUnits(game.player2Wager, wagerToken.decimals) : "0";
+  const formattedBalance = tokenBalance ? formatUnits(tokenBalance, wagerToken.decimals) : "0";
+  const formattedAllowance = tokenAllowance ? formatUnits(tokenAllowance, wagerToken.decimals) : "0";
+
+  // Winner takes both stakes less the protocol fee locked in at creation
+  const formattedPayout = game
+    ? formatUnits(game.wagerAmount + game.player2Wager - game.protocolFee, wagerToken.decimals)
+    : "0";
+  const formattedFee = game ? formatUnits(game.protocolFee, wagerToken.decimals) : "0";
+
+  // Check if player 2 needs an allowance for player2Wager (granted by permit if missing)
+  const needsApproval = game && tokenAllowance !== undefined && tokenAllowance < game.player2Wager;
+  // Tokens without EIP-2612, smart-contract wallets and failed permits approve first instead
+  const canPermit = permitSupported === true && !permitFailed;
+  const hasEnoughBalance = game && tokenBalance !== undefined && tokenBalance >= game.player2Wager;
+
+  // Check if user is the invited player (anyone but the creator can take an open challenge)
+  const isOpenChallenge = game?.player2 === zeroAddress;
   const isPlayer1 = game && address && game.player1.toLowerCase() === address.toLowerCase();
+  const isInvitedPlayer = game && address && (isOpenChallenge ? !isPlayer1 : game.player2.toLowerCase() === address.toLowerCase());
 
-  const gameTypeLabel = game?.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four";
+  const gameTypeLabel =
+    (game?.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four") +
+    (game && game.bestOf > 1 ? ` · Best of ${game.bestOf}` : "");
   const statusLabel = game ? ["Waiting for opponent", "Active", "Completed", "Cancelled"][game.status] : "";
 
   const handleApprove = () => {
     if (!game) return;
     setStep("approve");
-    approveTokens(game.wagerAmount);
+    approveTokens(game.player2Wager, tokenAddress);
   };
 
   const handleJoin = () => {
-    if (!gameId) return;
+    if (gameId === undefined || !game) return;
     setStep("join");
-    joinGame(gameId);
+    if (needsApproval) {
+      // Sign a permit for the stake instead of sending a separate approve
+      joinGameWithPermit(gameId, tokenAddress, game.player2Wager, referrer);
+    } else {
+      joinGame(gameId, referrer);
+    }
   };
 
   const copyInviteLink = () => {
-    const link = `${window.location.origin}/join/${gameId}`;
-    navigator.clipboard.writeText(link);
+    if (gameId === undefined) return;
+    navigator.clipboard.writeText(inviteLink(window.location.origin, gameId, address));
   };
 
   if (!gameId) {
@@ -152,7 +184,7 @@ export default function JoinGamePage() {
         {/* Header */}
         <div className="text-center mb-6">
           <div className="text-4xl mb-2">🎮</div>
-          <h1 className="text-2xl font-bold text-white">Game Invitation</h1>
+          <h1 className="text-2xl font-bold text-white">{isOpenChallenge ? "Open Challenge" : "Game Invitation"}</h1>
           <p className="text-gray-400 text-sm mt-1">{gameTypeLabel}</p>
         </div>
 
@@ -176,11 +208,17 @@ export default function JoinGamePage() {
           <div className="border-t border-white/20 pt-3 mt-3">
             <div className="flex justify-between items-center">
               <span className="opacity-80">Wager</span>
-              <span className="text-2xl font-bold">{Number(formattedWager).toLocaleString()} DUEL</span>
+              <span className="text-2xl font-bold">{Number(formattedWager).toLocaleString()} {wagerToken.symbol}</span>
             </div>
             <div className="flex justify-between items-center text-sm mt-1">
               <span className="opacity-60">Your stake (with edge discount)</span>
-              <span className="font-medium">{Number(formattedWager).toLocaleString()} DUEL</span>
+              <span className="font-medium">{Number(formattedStake).toLocaleString()} {wagerToken.symbol}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm mt-1">
+              <span className="opacity-60">
+                Winner receives{game.protocolFee > BigInt(0) && ` (after ${Number(formattedFee).toLocaleString()} ${wagerToken.symbol} fee)`}
+              </span>
+              <span className="font-medium">{Number(formattedPayout).toLocaleString()} {wagerToken.symbol}</span>
             </div>
           </div>
         </div>
@@ -200,7 +238,7 @@ export default function JoinGamePage() {
             <div>
               <p className="text-xs text-gray-500 uppercase tracking-wide">Opponent (You?)</p>
               <p className="font-mono text-sm text-gray-300 truncate max-w-[180px]">
-                {game.player2}
+                {isOpenChallenge ? "Open - anyone can join" : game.player2}
               </p>
             </div>
             {isInvitedPlayer && <span className="text-green-400 text-xl">✓</span>}
@@ -226,7 +264,7 @@ export default function JoinGamePage() {
         {error && (
           <div className="bg-red-500/20 border border-red-500/50 text-red-300 rounded-xl p-4 mb-4 text-sm">
             {error.message.includes("insufficient") 
-              ? "Insufficient DUEL balance" 
+              ? `Insufficient ${wagerToken.symbol} balance`
               : error.message.slice(0, 100)}
           </div>
         )}
@@ -292,37 +330,54 @@ export default function JoinGamePage() {
             {!hasEnoughBalance && (
               <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-xl p-4 mb-4">
                 <p className="text-yellow-300 text-sm">
-                  You need {Number(formattedWager).toLocaleString()} DUEL to join.
+                  You need {Number(formattedStake).toLocaleString()} {wagerToken.symbol} to join.
                   <br />
-                  Your balance: {Number(formattedBalance).toLocaleString()} DUEL
+                  Your balance: {Number(formattedBalance).toLocaleString()} {wagerToken.symbol}
                 </p>
-                <Link href="/store" className="text-purple-400 hover:text-purple-300 font-medium text-sm mt-2 inline-block">
-                  → Get more DUEL
-                </Link>
+                {tokenAddress === CONTRACTS.DUEL_TOKEN && (
+                  <Link href="/store" className="text-purple-400 hover:text-purple-300 font-medium text-sm mt-2 inline-block">
+                    → Get more DUEL
+                  </Link>
+                )}
               </div>
             )}
 
             {/* Action Button - single button that handles approve -> join flow */}
             {hasEnoughBalance && (
-              <button
-                onClick={needsApproval ? handleApprove : handleJoin}
-                disabled={isPending || isConfirming || step === "joining-after-approve"}
-                className={`w-full py-4 ${needsApproval ? 'bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 shadow-purple-500/25' : 'bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 shadow-green-500/25'} text-white font-bold text-lg rounded-xl transition-all shadow-lg disabled:opacity-50 flex items-center justify-center gap-2`}
-              >
-                {isPending || isConfirming || step === "joining-after-approve" ? (
-                  <>
-                    <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                    </svg>
-                    {step === "approve" ? "Approving..." : step === "joining-after-approve" ? "Preparing to join..." : "Joining..."}
-                  </>
-                ) : needsApproval ? (
-                  <>🔓 Approve DUEL</>
-                ) : (
-                  <>⚔️ Join Game & Stake {Number(formattedWager).toLocaleString()} DUEL</>
-                )}
-              </button>
+              <>
+                <p className="text-xs text-gray-500 text-center mb-2">
+                  Balance: {Number(formattedBalance).toLocaleString()} {wagerToken.symbol} · Approved: {Number(formattedAllowance).toLocaleString()} {wagerToken.symbol}
+                </p>
+                <button
+                  onClick={needsApproval && !canPermit ? handleApprove : handleJoin}
+                  disabled={isSigning || isPending || isConfirming || step === "joining-after-approve" || isPaused}
+                  className={`w-full py-4 ${needsApproval ? 'bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 shadow-purple-500/25' : 'bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 shadow-green-500/25'} text-white font-bold text-lg rounded-xl transition-all shadow-lg disabled:opacity-50 flex items-center justify-center gap-2`}
+                >
+                  {isSigning || isPending || isConfirming || step === "joining-after-approve" ? (
+                    <>
+                      <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                      </svg>
+                      {isSigning
+                        ? "Sign in wallet..."
+                        : step === "approve"
+                          ? "Approving..."
+                          : step === "joining-after-approve"
+                            ? "Preparing to join..."
+                            : "Joining..."}
+                    </>
+                  ) : isPaused ? (
+                    <>⏸️ Joining is paused</>
+                  ) : needsApproval && !canPermit ? (
+                    <>🔓 Approve {wagerToken.symbol}</>
+                  ) : needsApproval ? (
+                    <>✍️ Sign & Join · Stake {Number(formattedStake).toLocaleString()} {wagerToken.symbol}</>
+                  ) : (
+                    <>⚔️ Join Game & Stake {Number(formattedStake).toLocaleString()} {wagerToken.symbol}</>
+                  )}
+                </button>
+              </>
             )}
           </>
         )}
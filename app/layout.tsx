@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Inter } from "next/font/google";
+import { PausedBanner } from "./components/PausedBanner";
 import { WalletIndicator } from "./components/WalletIndicator";
 import "./globals.css";
 import { Providers } from "./providers";
@@ -75,6 +76,7 @@ export default function RootLayout({
       >
         <Providers>
           <WalletIndicator />
+          <PausedBanner />
           {children}
         </Providers>
       </body>
@@ -0,0 +1,169 @@
+"use client";
+
+import { sdk } from "@farcaster/miniapp-sdk";
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { WalletIndicator } from "@/app/components/WalletIndicator";
+import type { RankedPlayer, RatedGameType, RatingWindow } from "@/app/utils/ratings";
+
+const GAME_TYPE_OPTIONS: { value: RatedGameType; label: string }[] = [
+  { value: "tictactoe", label: "⭕ Tic Tac Toe" },
+  { value: "connect4", label: "🔴 Connect Four" },
+];
+
+const WINDOW_OPTIONS: { value: RatingWindow; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "30d", label: "30 days" },
+  { value: "7d", label: "7 days" },
+];
+
+// Players shown in the table
+const LIST_LIMIT = 50;
+
+const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+export default function LeaderboardPage() {
+  const { address } = useAccount();
+  const [gameType, setGameType] = useState<RatedGameType>("tictactoe");
+  const [timeWindow, setTimeWindow] = useState<RatingWindow>("all");
+  const [players, setPlayers] = useState<RankedPlayer[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sdk.actions.ready();
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPlayers(null);
+    setError(null);
+
+    fetch(`/api/leaderboard?gameType=${gameType}&window=${timeWindow}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load leaderboard");
+        if (!cancelled) setPlayers(data.players);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load leaderboard");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameType, timeWindow]);
+
+  const me = address?.toLowerCase();
+  const myEntry = players?.find((entry) => entry.address === me);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <WalletIndicator />
+
+      <div className="max-w-lg mx-auto px-4 py-8 pt-16">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+            Leaderboard
+          </h1>
+          <p className="text-gray-400">
+            Elo ratings from every finished game
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          {GAME_TYPE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setGameType(option.value)}
+              className={`py-2 rounded-xl text-sm font-semibold transition-all ${
+                gameType === option.value
+                  ? "bg-purple-600 text-white"
+                  : "bg-gray-800/80 text-gray-300 hover:bg-gray-700/80"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {WINDOW_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setTimeWindow(option.value)}
+              className={`py-1.5 rounded-lg text-xs font-medium transition-all ${
+                timeWindow === option.value
+                  ? "bg-white/20 text-white"
+                  : "bg-white/5 text-gray-400 hover:bg-white/10"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Your rank, even when outside the top of the table */}
+        {myEntry && (
+          <div className="bg-purple-600/20 border border-purple-500/40 rounded-xl p-4 mb-4 flex justify-between items-center">
+            <span className="text-gray-300">Your rating</span>
+            <span className="text-white font-bold">
+              {myEntry.rating} <span className="text-sm text-gray-400 font-normal">· #{myEntry.rank}</span>
+            </span>
+          </div>
+        )}
+
+        <div className="bg-gray-800/50 border border-purple-500/20 rounded-2xl overflow-hidden">
+          {error ? (
+            <p className="text-center text-red-400 p-6">{error}</p>
+          ) : !players ? (
+            <p className="text-center text-gray-400 p-6">Loading leaderboard...</p>
+          ) : players.length === 0 ? (
+            <p className="text-center text-gray-400 p-6">No rated games yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-xs text-left">
+                  <th className="px-4 py-2 font-medium">#</th>
+                  <th className="px-2 py-2 font-medium">Player</th>
+                  <th className="px-2 py-2 font-medium text-right">Rating</th>
+                  <th className="px-4 py-2 font-medium text-right">W / L / D</th>
+                </tr>
+              </thead>
+              <tbody>
+                {players.slice(0, LIST_LIMIT).map((entry) => (
+                  <tr
+                    key={entry.address}
+                    className={`border-t border-white/5 ${entry.address === me ? "bg-purple-600/20" : ""}`}
+                  >
+                    <td className="px-4 py-2 text-gray-400">
+                      {entry.rank <= 3 ? ["🥇", "🥈", "🥉"][entry.rank - 1] : entry.rank}
+                    </td>
+                    <td className="px-2 py-2 font-mono text-white">
+                      {formatAddress(entry.address)}
+                      {entry.address === me && <span className="ml-1 text-purple-300 font-sans">(you)</span>}
+                    </td>
+                    <td className="px-2 py-2 text-right font-bold text-white">{entry.rating}</td>
+                    <td className="px-4 py-2 text-right text-gray-400">
+                      {entry.wins} / {entry.losses} / {entry.draws}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Back Link */}
+        <div className="mt-6 text-center">
+          <a
+            href="/"
+            className="text-purple-400 hover:text-purple-300 font-medium hover:underline"
+          >
+            ← Back to Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { sdk } from "@farcaster/miniapp-sdk";
+import { useEffect } from "react";
+import { OpenChallenges } from "@/app/components/OpenChallenges";
+import { WalletIndicator } from "@/app/components/WalletIndicator";
+
+export default function LobbyPage() {
+  useEffect(() => {
+    sdk.actions.ready();
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <WalletIndicator />
+      
+      <div className="max-w-lg mx-auto px-4 py-8 pt-16">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+            Lobby
+          </h1>
+          <p className="text-gray-400">
+            Open challenges anyone can accept
+          </p>
+        </div>
+
+        {/* Open Challenges */}
+        <OpenChallenges />
+
+        {/* Back Link */}
+        <div className="mt-6 text-center">
+          <a
+            href="/"
+            className="text-purple-400 hover:text-purple-300 font-medium hover:underline"
+          >
+            ← Back to Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,21 +3,44 @@
 import { sdk } from '@farcaster/miniapp-sdk';
 import { useEffect, useState } from 'react';
 import { useAccount, useChainId, useSwitchChain } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
+import { parseUnits, formatUnits, zeroAddress } from 'viem';
 import { baseSepolia } from 'wagmi/chains';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useMiniApp } from './providers/miniAppProvider';
 import { PendingGames } from './components/PendingGames';
+import { OpenChallenges } from './components/OpenChallenges';
 import {
   useDuelBalance,
-  useDuelAllowance,
+  useTokenBalance,
+  useTokenAllowance,
+  usePermitSupport,
+  useTokenConfig,
   useGameActions,
-  useCalculatePlayer1Wager,
+  useCalculatePlayer2Wager,
+  useCalculateWinnerPayout,
+  useFeePercent,
+  useContractsPaused,
+  useGameTypes,
   GameType,
   DUEL_DECIMALS,
   CONTRACTS,
+  WAGER_TOKENS,
+  type WagerToken,
 } from './hooks/useGameContracts';
+import { winsNeeded } from './utils/series';
+import { inviteLink } from './utils/referrals';
+
+// Series lengths offered when creating a game (1 is a single game)
+const SERIES_OPTIONS = [1, 3, 5];
+
+const GAME_TYPE_ICONS: Record<number, string> = {
+  [GameType.TicTacToe]: '⭕',
+  [GameType.ConnectFour]: '🔴',
+};
+
+// Game types this client has a board for
+const isPlayable = (typeId: number) => GameType[typeId] !== undefined;
 
 export default function Home() {
   const router = useRouter();
@@ -31,24 +54,41 @@ export default function Home() {
   // Game creation state
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [opponent, setOpponent] = useState('');
+  const [isOpenChallenge, setIsOpenChallenge] = useState(false);
   const [wagerAmount, setWagerAmount] = useState('');
   const [gameType, setGameType] = useState<GameType>(GameType.TicTacToe);
+  const [wagerToken, setWagerToken] = useState<WagerToken>(WAGER_TOKENS[0]);
+  const [bestOf, setBestOf] = useState(1);
   const [step, setStep] = useState<'form' | 'approve' | 'creating-after-approve' | 'create' | 'success'>('form');
   const [createdGameId, setCreatedGameId] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
   // Contract data
-  const { data: duelBalance, refetch: refetchBalance } = useDuelBalance(address);
-  const { data: duelAllowance, refetch: refetchAllowance } = useDuelAllowance(address);
+  const { data: duelBalance, refetch: refetchDuelBalance } = useDuelBalance(address);
+  const { data: tokenBalance, refetch: refetchBalance } = useTokenBalance(wagerToken.address, address);
+  const { data: tokenAllowance, refetch: refetchAllowance } = useTokenAllowance(wagerToken.address, address);
+  const permitSupported = usePermitSupport(wagerToken.address, address);
+  const { data: tokenConfig } = useTokenConfig(wagerToken.address);
   
-  // Calculate Player 1's actual cost (base wager + edge fee)
-  const wagerBigInt = wagerAmount ? parseUnits(wagerAmount, DUEL_DECIMALS) : BigInt(0);
-  const { data: player1WagerCost } = useCalculatePlayer1Wager(wagerBigInt, gameType);
+  // Player 1 stakes the base wager; the opponent's stake is reduced by the edge
+  const wagerBigInt = wagerAmount ? parseUnits(wagerAmount, wagerToken.decimals) : BigInt(0);
+  const { data: player2Wager } = useCalculatePlayer2Wager(wagerBigInt, gameType);
+  const { data: winnerPayout } = useCalculateWinnerPayout(wagerBigInt, gameType);
+  const { data: feePercent } = useFeePercent(gameType);
+  const { gameManager: isPaused } = useContractsPaused();
+
+  // Game types come from the GameManager registry; disabled ones can't be created
+  const { data: gameTypes } = useGameTypes();
+  const enabledGameTypes = (gameTypes ?? []).filter((type) => type.enabled);
+  const isGameTypeAvailable = enabledGameTypes.some((type) => type.id === gameType && isPlayable(type.id));
 
   // Game actions
   const {
     approveTokens,
     createGame,
+    createGameWithPermit,
+    isSigning,
+    permitFailed,
     isPending,
     isConfirming,
     isSuccess,
@@ -58,16 +98,35 @@ export default function Home() {
     receipt,
   } = useGameActions();
 
-  const formattedBalance = duelBalance ? formatUnits(duelBalance, DUEL_DECIMALS) : '0';
-  // Player 1 needs to approve and have enough for wager + edge fee
-  const actualCost = player1WagerCost || wagerBigInt;
-  const needsApproval = duelAllowance !== undefined && actualCost > BigInt(0) && duelAllowance < actualCost;
-  const hasEnoughBalance = duelBalance !== undefined && actualCost <= duelBalance;
+  const formattedDuelBalance = duelBalance ? formatUnits(duelBalance, DUEL_DECIMALS) : '0';
+  const formattedBalance = tokenBalance ? formatUnits(tokenBalance, wagerToken.decimals) : '0';
+  const formatAmount = (amount: bigint) => Number(formatUnits(amount, wagerToken.decimals)).toLocaleString();
+  // Player 1 needs an allowance (granted by permit if missing) and enough for the base wager
+  const actualCost = wagerBigInt;
+  const needsApproval = tokenAllowance !== undefined && actualCost > BigInt(0) && tokenAllowance < actualCost;
+  // Tokens without EIP-2612, smart-contract wallets and failed permits approve first instead
+  const canPermit = permitSupported === true && !permitFailed;
+  const hasEnoughBalance = tokenBalance !== undefined && actualCost <= tokenBalance;
+  // Per-token wager limits set by the GameManager owner (max of 0 means no cap)
+  const [isTokenAllowed, minWager, maxWager] = tokenConfig ?? [true, BigInt(0), BigInt(0)];
+  const isWagerInRange =
+    wagerBigInt >= minWager && (maxWager === BigInt(0) || wagerBigInt <= maxWager);
+  // Open challenges leave player2 unset so anyone can accept
+  const opponentAddress = (isOpenChallenge ? zeroAddress : opponent) as `0x${string}`;
 
   useEffect(() => {
     sdk.actions.ready();
   }, []);
 
+  // Move off a game type the owner has disabled
+  useEffect(() => {
+    if (!gameTypes) return;
+    const available = gameTypes.filter((type) => type.enabled && isPlayable(type.id));
+    if (available.length > 0 && !available.some((type) => type.id === gameType)) {
+      setGameType(available[0].id as GameType);
+    }
+  }, [gameTypes, gameType]);
+
   // Handle successful transactions
   useEffect(() => {
     if (isSuccess && hash) {
@@ -81,12 +140,14 @@ export default function Home() {
           await refetchAllowance();
           reset();
           // Directly trigger createGame after approval
-          if (opponent && wagerAmount) {
+          if (opponentAddress && wagerAmount) {
             setStep('create');
             createGame(
-              opponent as `0x${string}`,
-              parseUnits(wagerAmount, DUEL_DECIMALS),
-              gameType
+              opponentAddress,
+              parseUnits(wagerAmount, wagerToken.decimals),
+              gameType,
+              wagerToken.address,
+              bestOf
             );
           }
         };
@@ -108,36 +169,40 @@ export default function Home() {
         setCreatedGameId(gameId);
         setStep('success');
         refetchBalance();
+        refetchDuelBalance();
       }
     }
-  }, [isSuccess, hash, step, opponent, wagerAmount, gameType, refetchAllowance, refetchBalance, createGame, reset, receipt]);
+  }, [isSuccess, hash, step, opponentAddress, wagerAmount, gameType, wagerToken, bestOf, refetchAllowance, refetchBalance, refetchDuelBalance, createGame, reset, receipt]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!opponent || !wagerAmount) return;
+    if (!opponentAddress || !wagerAmount) return;
 
     // Reset any previous transaction state
     reset();
 
-    if (needsApproval) {
+    if (needsApproval && !canPermit) {
       setStep('approve');
-      // Approve the actual cost (wager + edge fee for Player 1)
-      approveTokens(actualCost);
+      // Approve the base wager for Player 1
+      approveTokens(actualCost, wagerToken.address);
+    } else if (needsApproval) {
+      setStep('create');
+      // Sign a permit for the base wager instead of sending a separate approve
+      createGameWithPermit(opponentAddress, wagerBigInt, gameType, wagerToken.address, bestOf);
     } else {
       setStep('create');
-      createGame(
-        opponent as `0x${string}`,
-        wagerBigInt,
-        gameType
-      );
+      createGame(opponentAddress, wagerBigInt, gameType, wagerToken.address, bestOf);
     }
   };
 
   const resetForm = () => {
     setShowCreateModal(false);
     setOpponent('');
+    setIsOpenChallenge(false);
     setWagerAmount('');
     setGameType(GameType.TicTacToe);
+    setWagerToken(WAGER_TOKENS[0]);
+    setBestOf(1);
     setStep('form');
     setCreatedGameId(null);
     setCopied(false);
@@ -151,7 +216,7 @@ export default function Home() {
 
   const copyInviteLink = () => {
     if (createdGameId) {
-      navigator.clipboard.writeText(`${window.location.origin}/games/${createdGameId}`);
+      navigator.clipboard.writeText(inviteLink(window.location.origin, createdGameId, address));
       setCopied(true);
     }
   };
@@ -168,7 +233,7 @@ export default function Home() {
           {isConnected && (
             <div className="text-right">
               <p className="text-xs text-purple-300/70">Balance</p>
-              <p className="font-bold text-white">{Number(formattedBalance).toLocaleString()} DUEL</p>
+              <p className="font-bold text-white">{Number(formattedDuelBalance).toLocaleString()} DUEL</p>
             </div>
           )}
         </div>
@@ -193,7 +258,7 @@ export default function Home() {
         <div className="grid grid-cols-2 gap-4">
           <button
             onClick={() => setShowCreateModal(true)}
-            disabled={!isConnected || isWrongNetwork}
+            disabled={!isConnected || isWrongNetwork || isPaused}
             className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white font-bold py-4 px-6 rounded-xl shadow-lg shadow-purple-500/25 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
           >
             ⚔️ New Game
@@ -204,11 +269,26 @@ export default function Home() {
           >
             🪙 Buy DUEL
           </Link>
+          <Link
+            href="/tournaments"
+            className="bg-gray-800/80 hover:bg-gray-700/80 text-white font-bold py-3 px-6 rounded-xl shadow-lg transition-all text-center border border-purple-500/30"
+          >
+            🏆 Tournaments
+          </Link>
+          <Link
+            href="/leaderboard"
+            className="bg-gray-800/80 hover:bg-gray-700/80 text-white font-bold py-3 px-6 rounded-xl shadow-lg transition-all text-center border border-purple-500/30"
+          >
+            📊 Leaderboard
+          </Link>
         </div>
 
         {/* Pending Games */}
         {isConnected && !isWrongNetwork && <PendingGames />}
 
+        {/* Open Challenges */}
+        {!isWrongNetwork && <OpenChallenges limit={5} />}
+
         {/* Not Connected State */}
         {!isConnected && (
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-purple-500/20 p-8 text-center">
@@ -234,7 +314,9 @@ export default function Home() {
                 <div className="text-6xl mb-4">🎉</div>
                 <h2 className="text-2xl font-bold text-white mb-2">Game Created!</h2>
                 <p className="text-gray-400 mb-6">
-                  Share the link with your opponent or go to the game page.
+                  {isOpenChallenge
+                    ? 'Your challenge is listed in the lobby for anyone to accept.'
+                    : 'Share the link with your opponent or go to the game page.'}
                 </p>
                 
                 {hash && (
@@ -285,50 +367,124 @@ export default function Home() {
                       Game Type
                     </label>
                     <div className="grid grid-cols-2 gap-2">
-                      <button
-                        type="button"
-                        onClick={() => setGameType(GameType.TicTacToe)}
-                        className={`py-3 px-4 rounded-xl border-2 transition-all ${
-                          gameType === GameType.TicTacToe
-                            ? 'border-purple-500 bg-purple-500/20 text-purple-300'
-                            : 'border-gray-700 text-gray-400 hover:border-gray-600'
-                        }`}
-                      >
-                        ⭕ Tic Tac Toe
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => setGameType(GameType.ConnectFour)}
-                        className={`py-3 px-4 rounded-xl border-2 transition-all ${
-                          gameType === GameType.ConnectFour
-                            ? 'border-purple-500 bg-purple-500/20 text-purple-300'
-                            : 'border-gray-700 text-gray-400 hover:border-gray-600'
-                        }`}
-                      >
-                        🔴 Connect Four
-                      </button>
+                      {enabledGameTypes.length === 0 && (
+                        <p className="col-span-2 text-sm text-gray-500">Loading games...</p>
+                      )}
+                      {enabledGameTypes.map((type) => (
+                        // Types this client has no board for yet are listed but not selectable
+                        <button
+                          key={type.id}
+                          type="button"
+                          onClick={() => setGameType(type.id as GameType)}
+                          disabled={!isPlayable(type.id)}
+                          className={`py-3 px-4 rounded-xl border-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                            gameType === type.id
+                              ? 'border-purple-500 bg-purple-500/20 text-purple-300'
+                              : 'border-gray-700 text-gray-400 hover:border-gray-600'
+                          }`}
+                        >
+                          {GAME_TYPE_ICONS[type.id] ?? '🎮'} {type.name}
+                          {!isPlayable(type.id) && ' (coming soon)'}
+                        </button>
+                      ))}
                     </div>
                   </div>
 
+                  {/* Series Length */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">
+                      Match
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {SERIES_OPTIONS.map((option) => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => setBestOf(option)}
+                          className={`py-3 px-4 rounded-xl border-2 transition-all ${
+                            bestOf === option
+                              ? 'border-purple-500 bg-purple-500/20 text-purple-300'
+                              : 'border-gray-700 text-gray-400 hover:border-gray-600'
+                          }`}
+                        >
+                          {option === 1 ? 'Single' : `Best of ${option}`}
+                        </button>
+                      ))}
+                    </div>
+                    {bestOf > 1 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        First to {winsNeeded(bestOf)} wins takes the pot. Players alternate moving first.
+                      </p>
+                    )}
+                  </div>
+
                   {/* Opponent Address */}
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="block text-sm font-medium text-gray-300">
+                        Opponent Address
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={isOpenChallenge}
+                          onChange={(e) => setIsOpenChallenge(e.target.checked)}
+                          className="accent-purple-500"
+                        />
+                        Open challenge
+                      </label>
+                    </div>
+                    {isOpenChallenge ? (
+                      <p className="text-xs text-gray-500">
+                        Anyone can accept this game from the lobby.
+                      </p>
+                    ) : (
+                      <input
+                        type="text"
+                        value={opponent}
+                        onChange={(e) => setOpponent(e.target.value)}
+                        placeholder="0x..."
+                        className="w-full px-4 py-3 border border-gray-700 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all text-white bg-gray-800 placeholder-gray-500"
+                        required
+                      />
+                    )}
+                  </div>
+
+                  {/* Wager Token */}
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Opponent Address
+                      Currency
                     </label>
-                    <input
-                      type="text"
-                      value={opponent}
-                      onChange={(e) => setOpponent(e.target.value)}
-                      placeholder="0x..."
-                      className="w-full px-4 py-3 border border-gray-700 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all text-white bg-gray-800 placeholder-gray-500"
-                      required
-                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      {WAGER_TOKENS.map((token) => (
+                        <button
+                          key={token.address}
+                          type="button"
+                          onClick={() => {
+                            setWagerToken(token);
+                            setWagerAmount('');
+                          }}
+                          className={`py-3 px-4 rounded-xl border-2 transition-all ${
+                            wagerToken.address === token.address
+                              ? 'border-purple-500 bg-purple-500/20 text-purple-300'
+                              : 'border-gray-700 text-gray-400 hover:border-gray-600'
+                          }`}
+                        >
+                          {token.symbol}
+                        </button>
+                      ))}
+                    </div>
+                    {!isTokenAllowed && (
+                      <p className="text-xs text-yellow-400 mt-1">
+                        {wagerToken.symbol} wagers are not enabled right now.
+                      </p>
+                    )}
                   </div>
 
                   {/* Wager Amount */}
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Wager Amount (DUEL)
+                      Wager Amount ({wagerToken.symbol})
                     </label>
                     <input
                       type="number"
@@ -340,13 +496,26 @@ export default function Home() {
                       required
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      Your balance: {Number(formattedBalance).toLocaleString()} DUEL
+                      Your balance: {Number(formattedBalance).toLocaleString()} {wagerToken.symbol}
+                      {tokenAllowance !== undefined && (
+                        <> · Approved: {formatAmount(tokenAllowance)} {wagerToken.symbol}</>
+                      )}
                     </p>
-                    {wagerAmount && player1WagerCost && player1WagerCost > wagerBigInt && (
-                      <p className="text-xs text-purple-400 mt-1">
-                        💡 Your cost: {formatUnits(player1WagerCost, DUEL_DECIMALS)} DUEL (includes 5% edge fee)
+                    {wagerAmount && !isWagerInRange && (
+                      <p className="text-xs text-yellow-400 mt-1">
+                        Wager must be at least {formatAmount(minWager)} {wagerToken.symbol}
+                        {maxWager > BigInt(0) && ` and at most ${formatAmount(maxWager)} ${wagerToken.symbol}`}
                       </p>
                     )}
+                    {wagerAmount && player2Wager !== undefined && winnerPayout !== undefined && (
+                      <div className="text-xs text-purple-400 mt-1 space-y-0.5">
+                        <p>💡 Opponent stakes {formatAmount(player2Wager)} {wagerToken.symbol} (edge for moving second)</p>
+                        <p>
+                          🏆 Winner receives {formatAmount(winnerPayout)} {wagerToken.symbol}
+                          {feePercent ? ` (after ${Number(feePercent) / 100}% fee)` : ''}
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   {/* Error Display */}
@@ -361,9 +530,11 @@ export default function Home() {
                     <div className="bg-yellow-500/20 border border-yellow-500/50 rounded-xl p-3">
                       <p className="text-yellow-300 text-sm">
                         Insufficient balance.{' '}
-                        <Link href="/store" className="text-purple-400 font-medium hover:text-purple-300">
-                          Get more DUEL →
-                        </Link>
+                        {wagerToken.address === CONTRACTS.DUEL_TOKEN && (
+                          <Link href="/store" className="text-purple-400 font-medium hover:text-purple-300">
+                            Get more DUEL →
+                          </Link>
+                        )}
                       </p>
                     </div>
                   )}
@@ -372,25 +543,36 @@ export default function Home() {
                   <button
                     type="submit"
                     disabled={
+                      isSigning ||
                       isPending ||
                       isConfirming ||
                       step === 'creating-after-approve' ||
-                      !opponent ||
+                      isPaused ||
+                      !isGameTypeAvailable ||
+                      !opponentAddress ||
                       !wagerAmount ||
-                      !hasEnoughBalance
+                      !hasEnoughBalance ||
+                      !isTokenAllowed ||
+                      !isWagerInRange
                     }
                     className="w-full py-4 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white font-bold text-lg rounded-xl transition-all shadow-lg shadow-purple-500/25 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                   >
-                    {isPending || isConfirming || step === 'creating-after-approve' ? (
+                    {isSigning || isPending || isConfirming || step === 'creating-after-approve' ? (
                       <>
                         <svg className="animate-spin h-5 w-5" viewBox="0 0 24 24">
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                         </svg>
-                        {step === 'approve' ? 'Approving...' : step === 'creating-after-approve' ? 'Preparing game...' : 'Creating...'}
+                        {isSigning
+                          ? 'Sign in wallet...'
+                          : step === 'approve'
+                            ? 'Approving...'
+                            : step === 'creating-after-approve'
+                              ? 'Preparing game...'
+                              : 'Creating...'}
                       </>
                     ) : needsApproval ? (
-                      '🔓 Approve & Create Game'
+                      canPermit ? '✍️ Sign & Create Game' : '🔓 Approve & Create Game'
                     ) : (
                       '⚔️ Create Game'
                     )}
@@ -0,0 +1,277 @@
+"use client";
+
+import { sdk } from "@farcaster/miniapp-sdk";
+import { useEffect } from "react";
+import { useParams } from "next/navigation";
+import { useAccount, useChainId, useSwitchChain } from "wagmi";
+import { baseSepolia } from "wagmi/chains";
+import { formatUnits, zeroAddress } from "viem";
+import Link from "next/link";
+import {
+  useTournament,
+  usePrizeSplit,
+  useIsRegistered,
+  useTournamentAllowance,
+  useTournamentBracket,
+  useTournamentActions,
+  useTournamentAbandonTimeout,
+  useDuelBalance,
+  tournamentRounds,
+  GameType,
+  TournamentStatus,
+  DUEL_DECIMALS,
+} from "@/app/hooks/useGameContracts";
+import { TournamentBracket, roundName } from "@/app/components/TournamentBracket";
+import { WalletIndicator } from "@/app/components/WalletIndicator";
+
+const STATUS_LABELS = ["Registration open", "In progress", "Completed", "Cancelled"];
+
+/**
+ * Label for a prize tier (0 is the champion, 1 the runner-up, then each
+ * earlier round's losers)
+ */
+function tierLabel(tier: number, totalRounds: number): string {
+  if (tier === 0) return "Champion";
+  if (tier === 1) return "Runner-up";
+  return `Each ${roundName(totalRounds - tier, totalRounds).toLowerCase()} loser`;
+}
+
+export default function TournamentPage() {
+  const params = useParams();
+  const tournamentId = params.id && /^\d+$/.test(params.id as string) ? BigInt(params.id as string) : undefined;
+
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const { switchChain, isPending: isSwitching } = useSwitchChain();
+
+  const isWrongNetwork = chainId !== baseSepolia.id;
+
+  const { data: tournament, isLoading, refetch: refetchTournament } = useTournament(tournamentId);
+  const { data: prizeSplit } = usePrizeSplit(tournamentId);
+  const { data: isRegistered, refetch: refetchRegistered } = useIsRegistered(tournamentId, address);
+  const { data: allowance, refetch: refetchAllowance } = useTournamentAllowance(address);
+  const { data: duelBalance } = useDuelBalance(address);
+  const { rounds, refetch: refetchBracket } = useTournamentBracket(tournamentId, tournament?.size);
+  const { data: abandonTimeout } = useTournamentAbandonTimeout();
+
+  const {
+    approveEntryFee,
+    register,
+    abandonTournament,
+    isPending,
+    isConfirming,
+    isSuccess,
+    error,
+    reset,
+  } = useTournamentActions();
+
+  useEffect(() => {
+    sdk.actions.ready();
+  }, []);
+
+  // Refresh everything once an approve or register transaction lands
+  useEffect(() => {
+    if (!isSuccess) return;
+    refetchAllowance();
+    refetchRegistered();
+    refetchTournament();
+    refetchBracket();
+    reset();
+  }, [isSuccess, refetchAllowance, refetchRegistered, refetchTournament, refetchBracket, reset]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 flex items-center justify-center p-4">
+        <div className="text-center">
+          <div className="animate-spin h-12 w-12 border-4 border-purple-500 border-t-transparent rounded-full mx-auto mb-4" />
+          <p className="text-gray-400">Loading tournament...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (tournamentId === undefined || !tournament || tournament.size === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900 flex items-center justify-center p-4">
+        <div className="bg-gray-800/50 backdrop-blur-sm border border-purple-500/20 rounded-2xl shadow-xl p-8 max-w-md w-full text-center">
+          <h1 className="text-2xl font-bold text-white mb-4">Tournament Not Found</h1>
+          <p className="text-gray-400 mb-6">This tournament doesn&apos;t exist.</p>
+          <Link href="/" className="text-purple-400 hover:text-purple-300 font-medium">
+            ← Back to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const totalRounds = tournamentRounds(tournament.size);
+  const pool = tournament.entryFee * BigInt(tournament.size);
+  const formattedFee = formatUnits(tournament.entryFee, DUEL_DECIMALS);
+  const formattedPool = formatUnits(pool, DUEL_DECIMALS);
+
+  const isRegistration = tournament.status === TournamentStatus.Registration;
+  const needsApproval = allowance !== undefined && allowance < tournament.entryFee;
+  const hasEnoughBalance = duelBalance !== undefined && duelBalance >= tournament.entryFee;
+  const isBusy = isPending || isConfirming;
+
+  // A stalled bracket can be abandoned by its players, refunding the unpaid pool
+  const canAbandon =
+    tournament.status === TournamentStatus.Active &&
+    !!isRegistered &&
+    abandonTimeout !== undefined &&
+    BigInt(Math.floor(Date.now() / 1000)) > tournament.startedAt + abandonTimeout;
+
+  const handleRegister = () => {
+    if (needsApproval) {
+      approveEntryFee(tournament.entryFee);
+    } else {
+      register(tournamentId);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <WalletIndicator />
+
+      <div className="max-w-3xl mx-auto px-4 py-8 pt-16">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+            Tournament #{tournamentId.toString()}
+          </h1>
+          <p className="text-gray-400">
+            {tournament.size}-player knockout ·{" "}
+            {tournament.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four"} ·{" "}
+            {STATUS_LABELS[tournament.status]}
+          </p>
+        </div>
+
+        {/* Entry & Prizes */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20 mb-6">
+          <div className="grid grid-cols-3 gap-4 text-center mb-4">
+            <div>
+              <span className="text-gray-400 text-sm">Entry fee</span>
+              <p className="font-semibold text-white">{Number(formattedFee).toLocaleString()} DUEL</p>
+            </div>
+            <div>
+              <span className="text-gray-400 text-sm">Players</span>
+              <p className="font-semibold text-white">
+                {tournament.playerCount} / {tournament.size}
+              </p>
+            </div>
+            <div>
+              <span className="text-gray-400 text-sm">Prize pool</span>
+              <p className="font-semibold text-green-400">{Number(formattedPool).toLocaleString()} DUEL</p>
+            </div>
+          </div>
+
+          {prizeSplit && (
+            <ul className="space-y-1 text-sm">
+              {prizeSplit.map((bps, tier) =>
+                bps === BigInt(0) ? null : (
+                  <li key={tier} className="flex justify-between text-gray-300">
+                    <span>{tierLabel(tier, totalRounds)}</span>
+                    <span className="text-green-300">
+                      {Number(formatUnits((pool * bps) / BigInt(10000), DUEL_DECIMALS)).toLocaleString()} DUEL
+                    </span>
+                  </li>
+                )
+              )}
+            </ul>
+          )}
+
+          {tournament.champion !== zeroAddress && (
+            <div className="mt-4 bg-green-500/20 border border-green-500/50 rounded-xl p-3 text-center text-green-300 font-semibold">
+              🏆 Champion:{" "}
+              {address && tournament.champion.toLowerCase() === address.toLowerCase()
+                ? "You!"
+                : `${tournament.champion.slice(0, 6)}...${tournament.champion.slice(-4)}`}
+            </div>
+          )}
+        </div>
+
+        {/* Registration */}
+        {isRegistration && (
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20 mb-6 text-center">
+            {!isConnected ? (
+              <p className="text-gray-400">Connect your wallet to register.</p>
+            ) : isWrongNetwork ? (
+              <button
+                onClick={() => switchChain({ chainId: baseSepolia.id })}
+                disabled={isSwitching}
+                className="w-full py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors"
+              >
+                {isSwitching ? "Switching..." : "Switch to Base Sepolia"}
+              </button>
+            ) : isRegistered ? (
+              <p className="text-green-400">✅ You&apos;re registered. The bracket starts when all seats are filled.</p>
+            ) : (
+              <>
+                <button
+                  onClick={handleRegister}
+                  disabled={isBusy || !hasEnoughBalance}
+                  className="w-full py-3 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white font-bold rounded-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isBusy
+                    ? isConfirming
+                      ? "Confirming..."
+                      : "Confirm in wallet..."
+                    : needsApproval
+                      ? `Approve ${Number(formattedFee).toLocaleString()} DUEL`
+                      : `Register for ${Number(formattedFee).toLocaleString()} DUEL`}
+                </button>
+                {!hasEnoughBalance && (
+                  <p className="text-sm text-red-400 mt-2">
+                    Not enough DUEL.{" "}
+                    <Link href="/store" className="text-purple-400 hover:text-purple-300 font-medium">
+                      Buy DUEL
+                    </Link>
+                  </p>
+                )}
+                {error && <p className="text-sm text-red-400 mt-2">{error.message.split("\n")[0]}</p>}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Abandon */}
+        {canAbandon && isConnected && !isWrongNetwork && (
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-yellow-500/20 mb-6 text-center">
+            <p className="text-gray-400 text-sm mb-3">
+              This bracket has stalled. Any player can abandon it and split the unpaid prize pool among the players still in.
+            </p>
+            <button
+              onClick={() => abandonTournament(tournamentId)}
+              disabled={isBusy}
+              className="w-full py-2 bg-yellow-600 hover:bg-yellow-500 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBusy ? (isConfirming ? "Confirming..." : "Confirm in wallet...") : "Abandon tournament"}
+            </button>
+            {error && <p className="text-sm text-red-400 mt-2">{error.message.split("\n")[0]}</p>}
+          </div>
+        )}
+
+        {/* Bracket */}
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl p-6 border border-purple-500/20">
+          <h2 className="font-bold text-white mb-4">Bracket</h2>
+          <TournamentBracket
+            tournamentId={tournamentId}
+            rounds={rounds}
+            viewer={address}
+            isActive={tournament.status === TournamentStatus.Active}
+          />
+        </div>
+
+        {/* Back Link */}
+        <div className="mt-6 text-center">
+          <a
+            href="/"
+            className="text-purple-400 hover:text-purple-300 font-medium hover:underline"
+          >
+            ← Back to Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
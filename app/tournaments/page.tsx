@@ -0,0 +1,103 @@
+"use client";
+
+import { sdk } from "@farcaster/miniapp-sdk";
+import { useEffect } from "react";
+import Link from "next/link";
+import { formatUnits } from "viem";
+import {
+  useNextTournamentId,
+  useTournament,
+  GameType,
+  TournamentStatus,
+  DUEL_DECIMALS,
+} from "@/app/hooks/useGameContracts";
+import { WalletIndicator } from "@/app/components/WalletIndicator";
+
+// Most recent tournaments shown in the list
+const LIST_LIMIT = 20;
+
+function TournamentRow({ tournamentId }: { tournamentId: bigint }) {
+  const { data: tournament } = useTournament(tournamentId);
+
+  if (!tournament || tournament.size === 0) return null;
+
+  const statusLabel = ["Registering", "In progress", "Completed", "Cancelled"][tournament.status];
+  const statusColor =
+    tournament.status === TournamentStatus.Registration
+      ? "text-green-400"
+      : tournament.status === TournamentStatus.Active
+        ? "text-yellow-300"
+        : "text-gray-500";
+
+  return (
+    <Link
+      href={`/tournaments/${tournamentId}`}
+      className="flex items-center justify-between bg-gray-800/50 hover:bg-gray-700/50 border border-purple-500/20 rounded-xl p-4 transition-colors"
+    >
+      <div>
+        <p className="font-semibold text-white">
+          #{tournamentId.toString()} · {tournament.gameType === GameType.TicTacToe ? "Tic Tac Toe" : "Connect Four"}
+        </p>
+        <p className="text-sm text-gray-400">
+          {tournament.playerCount} / {tournament.size} players ·{" "}
+          {Number(formatUnits(tournament.entryFee, DUEL_DECIMALS)).toLocaleString()} DUEL entry
+        </p>
+      </div>
+      <span className={`text-sm font-medium ${statusColor}`}>{statusLabel}</span>
+    </Link>
+  );
+}
+
+export default function TournamentsPage() {
+  const { data: nextTournamentId, isLoading } = useNextTournamentId();
+
+  useEffect(() => {
+    sdk.actions.ready();
+  }, []);
+
+  // Newest first
+  const ids: bigint[] = [];
+  if (nextTournamentId) {
+    for (let id = nextTournamentId - BigInt(1); id >= BigInt(0) && ids.length < LIST_LIMIT; id--) {
+      ids.push(id);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-purple-900 to-gray-900">
+      <WalletIndicator />
+
+      <div className="max-w-lg mx-auto px-4 py-8 pt-16">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-purple-400 to-pink-400 bg-clip-text text-transparent mb-2">
+            Tournaments
+          </h1>
+          <p className="text-gray-400">
+            Knockout brackets with DUEL prize pools
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <p className="text-center text-gray-400">Loading tournaments...</p>
+          ) : ids.length === 0 ? (
+            <p className="text-center text-gray-400">No tournaments yet.</p>
+          ) : (
+            ids.map((id) => <TournamentRow key={id.toString()} tournamentId={id} />)
+          )}
+        </div>
+
+        {/* Back Link */}
+        <div className="mt-6 text-center">
+          <a
+            href="/"
+            className="text-purple-400 hover:text-purple-300 font-medium hover:underline"
+          >
+            ← Back to Home
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Co-signatures from other verifier instances
+ *
+ * GameManager accepts a result once enough signers from its signer set have
+ * signed it. Each verifier instance runs this app with its own
+ * NEXT_PUBLIC_BACKEND_SIGNER_KEY; the instance a player talks to signs the
+ * result itself and collects the rest from the instances listed in
+ * COSIGNER_URLS (comma-separated base URLs, e.g. http://localhost:3001).
+ * Each cosigner re-verifies the result against its own view of the game
+ * state and the chain before signing.
+ */
+
+import { isAddress, isAddressEqual, isHex, recoverAddress } from "viem";
+import { getSignerThreshold, isResultSigner } from "./gameManager";
+
+export type CosignRequest =
+  | { type: "GameResult"; gameId: string; winner: string; deadline: string }
+  | { type: "GameDraw"; gameId: string; deadline: string }
+  | { type: "TournamentMatchResult"; tournamentId: string; round: number; matchIndex: number; deadline: string };
+
+export interface SignerSignature {
+  signer: `0x${string}`;
+  signature: `0x${string}`;
+}
+
+// How long to wait for a cosigner before giving up
+const COSIGN_TIMEOUT_MS = 10_000;
+
+/**
+ * Base URLs of the other verifier instances to collect co-signatures from
+ */
+export function getCosignerUrls(): string[] {
+  return (process.env.COSIGNER_URLS || "")
+    .split(",")
+    .map((url) => url.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Ask one cosigner to sign a result, and check the signature is really from
+ * the signer it claims to be, and that signer is in the GameManager's set
+ */
+async function requestCosignature(
+  url: string,
+  request: CosignRequest,
+  digest: `0x${string}`
+): Promise<SignerSignature> {
+  const res = await fetch(`${url}/api/cosign`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+    signal: AbortSignal.timeout(COSIGN_TIMEOUT_MS),
+  });
+  const data = await res.json();
+
+  if (!res.ok || !data.success) {
+    throw new Error(`Cosigner ${url} refused: ${data.error || res.status}`);
+  }
+  if (!isAddress(data.signer) || !isHex(data.signature)) {
+    throw new Error(`Cosigner ${url} returned a malformed signature`);
+  }
+
+  const recovered = await recoverAddress({ hash: digest, signature: data.signature });
+  if (!isAddressEqual(recovered, data.signer)) {
+    throw new Error(`Cosigner ${url} signature doesn't match its signer ${data.signer}`);
+  }
+  if (!(await isResultSigner(data.signer))) {
+    throw new Error(`Cosigner ${url} signer ${data.signer} isn't a GameManager signer`);
+  }
+
+  return { signer: data.signer, signature: data.signature };
+}
+
+/**
+ * Collect enough co-signatures to meet the GameManager's signer threshold
+ *
+ * Asks every configured cosigner at once and returns as soon as
+ * `signerThreshold - 1` distinct signers (besides this instance) have signed,
+ * so a cosigner that is down or refuses doesn't block the result.
+ *
+ * @param request - The result to sign
+ * @param digest - The result's EIP-712 digest, to check each signature against
+ * @param ownSigner - This instance's signer, which already signed
+ * @returns Verified signatures from distinct cosigners
+ * @throws If too few cosigners sign
+ */
+export async function collectCosignatures(
+  request: CosignRequest,
+  digest: `0x${string}`,
+  ownSigner: `0x${string}`
+): Promise<SignerSignature[]> {
+  const needed = Number(await getSignerThreshold()) - 1;
+  if (needed <= 0) return [];
+
+  // One signature per signer, never counting this instance's own again
+  const collected = new Map<string, SignerSignature>();
+  const failures: string[] = [];
+
+  return new Promise((resolve, reject) => {
+    const requests = getCosignerUrls().map((url) =>
+      requestCosignature(url, request, digest).then(
+        (cosignature) => {
+          const key = cosignature.signer.toLowerCase();
+          if (key !== ownSigner.toLowerCase() && !collected.has(key)) collected.set(key, cosignature);
+          if (collected.size >= needed) resolve(Array.from(collected.values()).slice(0, needed));
+        },
+        (error: Error) => {
+          console.warn(error.message);
+          failures.push(error.message);
+        }
+      )
+    );
+
+    // Once everyone has answered, fail if the quorum still isn't there (a no-op after resolve)
+    Promise.allSettled(requests).then(() =>
+      reject(new Error(`Only ${collected.size} of ${needed} cosignatures: ${failures.join("; ") || "no cosigners configured"}`))
+    );
+  });
+}
+
+/**
+ * Order signatures by signer address, as the contracts require
+ *
+ * @param signatures - Signatures from distinct signers
+ * @returns The signatures alone, ascending by signer
+ */
+export function orderBySigner(signatures: SignerSignature[]): `0x${string}`[] {
+  return [...signatures]
+    .sort((a, b) => {
+      const [x, y] = [BigInt(a.signer), BigInt(b.signer)];
+      return x < y ? -1 : x > y ? 1 : 0;
+    })
+    .map(({ signature }) => signature);
+}
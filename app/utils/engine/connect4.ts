@@ -0,0 +1,84 @@
+import type { GameEngine } from "./types";
+
+const ROWS = 6;
+const COLS = 7;
+
+const DIRECTIONS = [
+  [0, 1],   // horizontal
+  [1, 0],   // vertical
+  [1, 1],   // diagonal down-right
+  [1, -1],  // diagonal down-left
+];
+
+// Lowest empty row in a column, or -1 if the column is full
+function landingRow(board: number[][], col: number): number {
+  for (let row = ROWS - 1; row >= 0; row--) {
+    if (board[row][col] === 0) return row;
+  }
+  return -1;
+}
+
+// Whether the piece at (row, col) starts a line of four in any direction
+function startsLine(board: number[][], row: number, col: number): boolean {
+  const player = board[row][col];
+  if (player === 0) return false;
+
+  return DIRECTIONS.some(([dRow, dCol]) => {
+    for (let i = 1; i < 4; i++) {
+      const r = row + dRow * i;
+      const c = col + dCol * i;
+      if (r < 0 || r >= ROWS || c < 0 || c >= COLS || board[r][c] !== player) {
+        return false;
+      }
+    }
+    return true;
+  });
+}
+
+export const connect4Engine: GameEngine<number[][]> = {
+  gameType: "connect4",
+
+  createInitialBoard() {
+    // 6 rows x 7 columns, all zeros
+    return Array(ROWS).fill(null).map(() => Array(COLS).fill(0));
+  },
+
+  legalMoves(board) {
+    if (this.getOutcome(board).winner) return [];
+    return Array.from({ length: COLS }, (_, col) => col).filter(
+      (col) => board[0][col] === 0
+    );
+  },
+
+  validateMove(board, move) {
+    if (!Number.isInteger(move) || move < 0 || move >= COLS) {
+      return "Invalid column";
+    }
+    if (landingRow(board, move) === -1) {
+      return "Column is full";
+    }
+    return null;
+  },
+
+  applyMove(board, move, player) {
+    const error = this.validateMove(board, move);
+    if (error) throw new Error(error);
+
+    const row = landingRow(board, move);
+    const next = board.map((r) => [...r]);
+    next[row][move] = player;
+    return { board: next, position: { row, col: move } };
+  },
+
+  getOutcome(board) {
+    for (let row = 0; row < ROWS; row++) {
+      for (let col = 0; col < COLS; col++) {
+        if (startsLine(board, row, col)) {
+          return { winner: board[row][col] as 1 | 2, isDraw: false };
+        }
+      }
+    }
+    // Draw once the top row is full
+    return { winner: null, isDraw: board[0].every((cell) => cell !== 0) };
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Game engine registry, keyed by GameState.gameType
+ */
+
+import { GameType } from "@/app/contracts/GameManagerABI";
+import type { Board, GameEngine } from "./types";
+import { ticTacToeEngine } from "./ticTacToe";
+import { connect4Engine } from "./connect4";
+
+export type { Board, GameEngine, Outcome, PlayerNumber, AppliedMove } from "./types";
+export { playerForMove } from "./types";
+export { ticTacToeEngine } from "./ticTacToe";
+export { connect4Engine } from "./connect4";
+
+const engines = new Map<string, GameEngine>();
+
+/**
+ * Register an engine so it can be looked up by its gameType
+ */
+export function registerEngine(engine: GameEngine) {
+  engines.set(engine.gameType, engine);
+}
+
+registerEngine(ticTacToeEngine);
+registerEngine(connect4Engine);
+
+// Engine key for each game type id in GameManager's registry (shared by Tournament)
+const ONCHAIN_GAME_TYPES = new Map<number, "tictactoe" | "connect4">([
+  [GameType.TicTacToe, "tictactoe"],
+  [GameType.ConnectFour, "connect4"],
+]);
+
+/**
+ * Engine key for an on-chain game type id
+ *
+ * @returns The key, or null if no engine plays the game type (e.g. one
+ * registered on-chain that this app doesn't support yet)
+ */
+export function engineGameType(typeId: number): "tictactoe" | "connect4" | null {
+  const gameType = ONCHAIN_GAME_TYPES.get(typeId);
+  return gameType && engines.has(gameType) ? gameType : null;
+}
+
+/**
+ * Look up the engine for a game type
+ *
+ * @throws If no engine is registered for the game type
+ */
+export function getEngine(gameType: "tictactoe"): GameEngine<number[]>;
+export function getEngine(gameType: "connect4"): GameEngine<number[][]>;
+export function getEngine(gameType: string): GameEngine<Board>;
+export function getEngine(gameType: string): GameEngine<Board> {
+  const engine = engines.get(gameType);
+  if (!engine) {
+    throw new Error(`No game engine registered for "${gameType}"`);
+  }
+  return engine;
+}
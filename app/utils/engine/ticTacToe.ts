@@ -0,0 +1,48 @@
+import type { GameEngine } from "./types";
+
+const LINES = [
+  [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
+  [0, 3, 6], [1, 4, 7], [2, 5, 8], // cols
+  [0, 4, 8], [2, 4, 6], // diagonals
+];
+
+export const ticTacToeEngine: GameEngine<number[]> = {
+  gameType: "tictactoe",
+
+  createInitialBoard() {
+    return Array(9).fill(0);
+  },
+
+  legalMoves(board) {
+    if (this.getOutcome(board).winner) return [];
+    return board.flatMap((cell, pos) => (cell === 0 ? [pos] : []));
+  },
+
+  validateMove(board, move) {
+    if (!Number.isInteger(move) || move < 0 || move >= board.length) {
+      return "Invalid position";
+    }
+    if (board[move] !== 0) {
+      return "Cell already occupied";
+    }
+    return null;
+  },
+
+  applyMove(board, move, player) {
+    const error = this.validateMove(board, move);
+    if (error) throw new Error(error);
+
+    const next = [...board];
+    next[move] = player;
+    return { board: next, position: move };
+  },
+
+  getOutcome(board) {
+    for (const [a, b, c] of LINES) {
+      if (board[a] !== 0 && board[a] === board[b] && board[a] === board[c]) {
+        return { winner: board[a] as 1 | 2, isDraw: false };
+      }
+    }
+    return { winner: null, isDraw: board.every((cell) => cell !== 0) };
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * Shared game rules, used by the games API (authoritative) and the board
+ * components (move previews).
+ *
+ * Boards store 0 for empty, 1 for player1 and 2 for player2.
+ */
+
+export type PlayerNumber = 1 | 2;
+
+export type Board = number[] | number[][];
+
+export interface Outcome {
+  winner: PlayerNumber | null;
+  isDraw: boolean;
+}
+
+export interface AppliedMove<TBoard extends Board> {
+  board: TBoard; // New board (the input board is never mutated)
+  position: number | { row: number; col: number }; // Where the piece landed, as recorded in the moves log
+}
+
+export interface GameEngine<TBoard extends Board = Board> {
+  /** Key used in GameState.gameType */
+  readonly gameType: string;
+
+  createInitialBoard(): TBoard;
+
+  /** Moves the player to act could make (cell index or column) */
+  legalMoves(board: TBoard): number[];
+
+  /** Why a move is illegal, or null if it can be played */
+  validateMove(board: TBoard, move: number): string | null;
+
+  /** Apply a legal move; throws if the move is illegal */
+  applyMove(board: TBoard, move: number, player: PlayerNumber): AppliedMove<TBoard>;
+
+  getOutcome(board: TBoard): Outcome;
+}
+
+/**
+ * Which player acts next, given how many moves have been played
+ */
+export function playerForMove(moveCount: number): PlayerNumber {
+  return moveCount % 2 === 0 ? 1 : 2;
+}
@@ -0,0 +1,125 @@
+/**
+ * Server-side reads from the GameManager contract
+ *
+ * API routes use this as the source of truth for who is playing what,
+ * instead of trusting addresses sent by the client.
+ */
+
+import { GAME_MANAGER_ABI, GameStatus } from "@/app/contracts/GameManagerABI";
+import { engineGameType } from "./engine";
+import { publicClient } from "./publicClient";
+
+export const GAME_MANAGER_ADDRESS = (process.env.NEXT_PUBLIC_GAME_MANAGER_ADDRESS ||
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+export interface OnchainGame {
+  player1: `0x${string}`;
+  player2: `0x${string}`;
+  gameType: "tictactoe" | "connect4" | null; // null if no engine plays the on-chain game type
+  bestOf: number; // Games in the series (1 for a single game)
+  status: GameStatus;
+}
+
+/**
+ * Read a game's participants, type, series length and status from GameManager
+ *
+ * @param gameId - The game ID
+ * @returns The game, or null if it doesn't exist
+ */
+export async function getOnchainGame(gameId: bigint): Promise<OnchainGame | null> {
+  const game = await publicClient.readContract({
+    address: GAME_MANAGER_ADDRESS,
+    abi: GAME_MANAGER_ABI,
+    functionName: "getGame",
+    args: [gameId],
+  });
+
+  if (game.player1 === "0x0000000000000000000000000000000000000000") {
+    return null;
+  }
+
+  return {
+    player1: game.player1,
+    player2: game.player2,
+    gameType: engineGameType(game.gameType),
+    bestOf: game.bestOf,
+    status: game.status,
+  };
+}
+
+/**
+ * Check that one game was created as a rematch of another
+ *
+ * A rematch has the same two players, game type, series length, token and
+ * base wager, and was created by `creator` (who becomes player1 and moves first).
+ *
+ * @param rematchGameId - The new game
+ * @param gameId - The finished game
+ * @param creator - The player who created the new game
+ */
+export async function isRematchOf(rematchGameId: bigint, gameId: bigint, creator: string): Promise<boolean> {
+  if (rematchGameId <= gameId) return false;
+
+  const [original, rematch] = await Promise.all(
+    [gameId, rematchGameId].map((id) =>
+      publicClient.readContract({
+        address: GAME_MANAGER_ADDRESS,
+        abi: GAME_MANAGER_ABI,
+        functionName: "getGame",
+        args: [id],
+      })
+    )
+  );
+
+  const players = [original.player1.toLowerCase(), original.player2.toLowerCase()];
+  const rematchPlayer1 = rematch.player1.toLowerCase();
+  const rematchPlayer2 = rematch.player2.toLowerCase();
+
+  return (
+    rematchPlayer1 === creator.toLowerCase() &&
+    players.includes(rematchPlayer1) &&
+    players.includes(rematchPlayer2) &&
+    rematchPlayer1 !== rematchPlayer2 &&
+    rematch.gameType === original.gameType &&
+    rematch.bestOf === original.bestOf &&
+    rematch.token.toLowerCase() === original.token.toLowerCase() &&
+    rematch.wagerAmount === original.wagerAmount &&
+    rematch.status !== GameStatus.Cancelled
+  );
+}
+
+/**
+ * Read the nonce result signatures must currently be signed over
+ *
+ * The owner bumps it to revoke every outstanding signature.
+ */
+export async function getSignatureNonce(): Promise<bigint> {
+  return publicClient.readContract({
+    address: GAME_MANAGER_ADDRESS,
+    abi: GAME_MANAGER_ABI,
+    functionName: "signatureNonce",
+  });
+}
+
+/**
+ * Read how many signers must sign a result for the GameManager to accept it
+ */
+export async function getSignerThreshold(): Promise<bigint> {
+  return publicClient.readContract({
+    address: GAME_MANAGER_ADDRESS,
+    abi: GAME_MANAGER_ABI,
+    functionName: "signerThreshold",
+  });
+}
+
+/**
+ * Check whether an address is in the GameManager's signer set
+ */
+export async function isResultSigner(signer: `0x${string}`): Promise<boolean> {
+  return publicClient.readContract({
+    address: GAME_MANAGER_ADDRESS,
+    abi: GAME_MANAGER_ABI,
+    functionName: "isSigner",
+    args: [signer],
+  });
+}
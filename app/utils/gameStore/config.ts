@@ -0,0 +1,33 @@
+import path from "path";
+import { getRedisConfig } from "@/app/utils/redis";
+
+export type StoreBackend = "file" | "redis" | "memory";
+
+// Key prefix for everything kept in Redis
+export const REDIS_PREFIX = process.env.REDIS_KEY_PREFIX || "duelbase";
+
+/**
+ * The storage backend selected by GAME_STORE (or the default for this environment)
+ */
+export function getStoreBackend(): StoreBackend {
+  const backend = process.env.GAME_STORE || (getRedisConfig() ? "redis" : "file");
+  if (backend !== "file" && backend !== "redis" && backend !== "memory") {
+    throw new Error(`Unknown GAME_STORE "${backend}" (expected "file", "redis" or "memory")`);
+  }
+  return backend;
+}
+
+/**
+ * Path of a file-backed data file: the configured path, or one under .data
+ *
+ * @throws On Vercel without a configured path, where .data is read-only
+ */
+export function localDataPath(configured: string | undefined, fileName: string): string {
+  if (configured) return configured;
+  if (process.env.VERCEL) {
+    throw new Error(
+      `Can't store ${fileName} under .data on a read-only filesystem: set GAME_STORE=redis with UPSTASH_REDIS_REST_URL/TOKEN`
+    );
+  }
+  return path.join(process.cwd(), ".data", fileName);
+}
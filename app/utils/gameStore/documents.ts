@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getRedisClient } from "@/app/utils/redis";
+import { REDIS_PREFIX, getStoreBackend, localDataPath } from "./config";
+
+/**
+ * Whole JSON documents kept on the game store's backend
+ *
+ * For derived state that's rewritten as a unit (ratings snapshot, event
+ * index). With GAME_STORE=memory nothing is persisted and reads return null.
+ *
+ * @param name - Redis key suffix, and the file name under .data
+ * @param filePath - Configured file path for the file backend
+ */
+export async function readStoredDocument<T>(name: string, filePath?: string): Promise<T | null> {
+  const backend = getStoreBackend();
+  if (backend === "memory") return null;
+
+  if (backend === "redis") {
+    const raw = await getRedisClient().command<string | null>("GET", `${REDIS_PREFIX}:${name}`);
+    return raw === null ? null : JSON.parse(raw);
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(localDataPath(filePath, `${name}.json`), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    return null;
+  }
+}
+
+/**
+ * Replace a stored document (see readStoredDocument)
+ */
+export async function writeStoredDocument(name: string, doc: unknown, filePath?: string): Promise<void> {
+  const backend = getStoreBackend();
+  if (backend === "memory") return;
+
+  if (backend === "redis") {
+    await getRedisClient().command("SET", `${REDIS_PREFIX}:${name}`, JSON.stringify(doc));
+    return;
+  }
+
+  // Temp file and rename, as in the file game store
+  const target = localDataPath(filePath, `${name}.json`);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmpPath = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(doc), "utf8");
+  await fs.rename(tmpPath, target);
+}
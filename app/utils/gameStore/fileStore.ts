@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { GameState, GameStore } from "./types";
+import { migrate, type StoreDocument } from "./migrations";
+
+// A lock file older than this was left by a process that died holding it
+const LOCK_STALE_MS = 30 * 1000;
+// Give up waiting for the lock after this long
+const LOCK_TIMEOUT_MS = 10 * 1000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * File-backed JSON store
+ *
+ * Survives restarts and is shared by every process on the same machine.
+ * Writes go to a temp file and are renamed into place so a crash never
+ * leaves a half-written document behind, and hold a lock file next to it
+ * so processes never overwrite each other's changes.
+ */
+export function createFileGameStore(filePath: string): GameStore {
+  const lockPath = `${filePath}.lock`;
+  // Serialize writes within this process (the lock file serializes processes)
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const readDocument = async (): Promise<StoreDocument> => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    return migrate(raw).doc;
+  };
+
+  const writeDocument = async (doc: StoreDocument) => {
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(doc), "utf8");
+    await fs.rename(tmpPath, filePath);
+  };
+
+  const acquireLock = async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const giveUpAt = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        await (await fs.open(lockPath, "wx")).close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+      }
+
+      const lock = await fs.stat(lockPath).catch(() => null);
+      if (lock && Date.now() - lock.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > giveUpAt) {
+        throw new Error(`Timed out waiting for game store lock ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  };
+
+  // Run a read-modify-write of the document holding the lock
+  const locked = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = writeQueue.then(async () => {
+      await acquireLock();
+      try {
+        return await fn();
+      } finally {
+        await fs.rm(lockPath, { force: true });
+      }
+    });
+    // Keep the queue alive even if this write fails
+    writeQueue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    async get(gameId) {
+      await writeQueue;
+      const doc = await readDocument();
+      return doc.games[gameId] ?? null;
+    },
+
+    save(state) {
+      return locked(async () => {
+        const doc = await readDocument();
+        doc.games[state.gameId] = state;
+        await writeDocument(doc);
+      });
+    },
+
+    update(gameId, fn) {
+      return locked(async () => {
+        const doc = await readDocument();
+        const { state, result } = await fn(doc.games[gameId] ?? null);
+        if (state) {
+          doc.games[gameId] = state;
+          await writeDocument(doc);
+        }
+        return result;
+      });
+    },
+
+    async list() {
+      await writeQueue;
+      const doc = await readDocument();
+      return Object.values(doc.games);
+    },
+  };
+}
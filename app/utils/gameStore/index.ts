@@ -0,0 +1,56 @@
+/**
+ * Game state storage
+ *
+ * Select a backend with GAME_STORE:
+ * - "file": JSON file at GAME_STORE_PATH (default .data/game-store.json),
+ *   shared by the processes on one machine
+ * - "redis": Upstash Redis over REST (UPSTASH_REDIS_REST_URL/TOKEN or
+ *   KV_REST_API_URL/TOKEN), for hosted and multi-instance deployments
+ * - "memory": in-process only, for tests
+ *
+ * Without GAME_STORE, Redis is used when it's configured and the file store
+ * otherwise. Deployments with a read-only filesystem (Vercel) must use Redis
+ * or point the file paths somewhere writable.
+ *
+ * Other server-side state (ratings snapshot, event index) is stored with
+ * readStoredDocument/writeStoredDocument on the same backend.
+ */
+
+import { getRedisClient } from "@/app/utils/redis";
+import type { GameStore } from "./types";
+import { REDIS_PREFIX, getStoreBackend, localDataPath } from "./config";
+import { createMemoryGameStore } from "./memoryStore";
+import { createFileGameStore } from "./fileStore";
+import { createRedisGameStore } from "./redisStore";
+
+export type { GameState, GameStore, GameUpdate, Move, SeriesGame, SeriesState } from "./types";
+export { createMemoryGameStore } from "./memoryStore";
+export { createFileGameStore } from "./fileStore";
+export { createRedisGameStore } from "./redisStore";
+export { readStoredDocument, writeStoredDocument } from "./documents";
+export { getStoreBackend, localDataPath, type StoreBackend } from "./config";
+
+let store: GameStore | null = null;
+
+/**
+ * Get the configured game store (created on first use)
+ */
+export function getGameStore(): GameStore {
+  if (!store) {
+    const backend = getStoreBackend();
+    store =
+      backend === "memory"
+        ? createMemoryGameStore()
+        : backend === "redis"
+          ? createRedisGameStore(getRedisClient(), REDIS_PREFIX)
+          : createFileGameStore(localDataPath(process.env.GAME_STORE_PATH, "game-store.json"));
+  }
+  return store;
+}
+
+/**
+ * Replace the game store (e.g. with another database implementation)
+ */
+export function setGameStore(gameStore: GameStore) {
+  store = gameStore;
+}
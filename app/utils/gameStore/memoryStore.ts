@@ -0,0 +1,43 @@
+import type { GameState, GameStore } from "./types";
+
+/**
+ * In-memory store (lost on restart and not shared between instances)
+ *
+ * Useful for tests and quick local runs with GAME_STORE=memory.
+ */
+export function createMemoryGameStore(): GameStore {
+  const games = new Map<string, GameState>();
+  // Tail of each game's queue of updates
+  const locks = new Map<string, Promise<unknown>>();
+
+  return {
+    async get(gameId) {
+      const state = games.get(gameId);
+      return state ? structuredClone(state) : null;
+    },
+
+    async save(state) {
+      games.set(state.gameId, structuredClone(state));
+    },
+
+    update(gameId, fn) {
+      const run = (locks.get(gameId) ?? Promise.resolve()).then(async () => {
+        const current = games.get(gameId);
+        const { state, result } = await fn(current ? structuredClone(current) : null);
+        if (state) games.set(gameId, structuredClone(state));
+        return result;
+      });
+      // Keep the queue alive even if this update fails
+      const tail = run.catch(() => undefined);
+      locks.set(gameId, tail);
+      tail.then(() => {
+        if (locks.get(gameId) === tail) locks.delete(gameId);
+      });
+      return run;
+    },
+
+    async list() {
+      return Array.from(games.values(), (state) => structuredClone(state));
+    },
+  };
+}
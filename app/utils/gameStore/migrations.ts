@@ -0,0 +1,120 @@
+import type { GameState } from "./types";
+
+/**
+ * On-disk document layout for file-backed stores
+ */
+export interface StoreDocument {
+  version: number;
+  games: Record<string, GameState>;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (doc: StoreDocument) => StoreDocument;
+}
+
+/**
+ * Ordered schema migrations. Append new entries; never edit shipped ones.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Initial schema: game states keyed by gameId",
+    up: (doc) => ({ ...doc, games: doc.games ?? {} }),
+  },
+  {
+    version: 2,
+    description: "Add player1/player2 (empty until backfilled from GameManager)",
+    up: (doc) => ({
+      ...doc,
+      games: Object.fromEntries(
+        Object.entries(doc.games).map(([gameId, state]) => [
+          gameId,
+          { ...state, player1: state.player1 ?? "", player2: state.player2 ?? "" },
+        ])
+      ),
+    }),
+  },
+  {
+    version: 3,
+    description: "Add series (existing games become single-game series)",
+    up: (doc) => ({
+      ...doc,
+      games: Object.fromEntries(
+        Object.entries(doc.games).map(([gameId, state]) => {
+          // Timeouts forfeit without finishing the game on the board
+          const finished = (state.winner !== null || state.isDraw) && !state.timeoutLoser;
+          const winner = finished ? state.winner : null;
+          const isWinner = (player: string) =>
+            winner !== null && winner.toLowerCase() === player.toLowerCase();
+          return [
+            gameId,
+            {
+              ...state,
+              series: state.series ?? {
+                bestOf: 1,
+                wins: { player1: isWinner(state.player1) ? 1 : 0, player2: isWinner(state.player2) ? 1 : 0 },
+                games: finished ? [{ winner, moves: state.moves }] : [],
+              },
+            },
+          ];
+        })
+      ),
+    }),
+  },
+  {
+    version: 4,
+    description: "Add resignedBy and drawOfferedBy",
+    up: (doc) => ({
+      ...doc,
+      games: Object.fromEntries(
+        Object.entries(doc.games).map(([gameId, state]) => [
+          gameId,
+          { ...state, resignedBy: state.resignedBy ?? null, drawOfferedBy: state.drawOfferedBy ?? null },
+        ])
+      ),
+    }),
+  },
+  {
+    version: 5,
+    description: "Add rematch",
+    up: (doc) => ({
+      ...doc,
+      games: Object.fromEntries(
+        Object.entries(doc.games).map(([gameId, state]) => [gameId, { ...state, rematch: state.rematch ?? null }])
+      ),
+    }),
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a stored document up to the latest schema version
+ *
+ * @param raw - Parsed file contents (undefined for a new store)
+ * @returns The migrated document and whether anything changed
+ */
+export function migrate(raw: unknown): { doc: StoreDocument; changed: boolean } {
+  let doc: StoreDocument = {
+    version: 0,
+    games: {},
+    ...(raw && typeof raw === "object" ? (raw as Partial<StoreDocument>) : {}),
+  };
+
+  if (doc.version > LATEST_VERSION) {
+    throw new Error(
+      `Game store is at version ${doc.version}, newer than supported version ${LATEST_VERSION}`
+    );
+  }
+
+  const startVersion = doc.version;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > doc.version) {
+      doc = { ...migration.up(doc), version: migration.version };
+    }
+  }
+
+  return { doc, changed: doc.version !== startVersion };
+}
@@ -0,0 +1,85 @@
+import { withRedisLock, type RedisClient } from "@/app/utils/redis";
+import type { GameState, GameStore } from "./types";
+import { LATEST_VERSION, migrate } from "./migrations";
+
+// A lock outlives its holder by at most this long
+const LOCK_TTL_MS = 30 * 1000;
+// Give up waiting for a game's lock after this long
+const LOCK_TIMEOUT_MS = 10 * 1000;
+// Keys fetched per MGET when listing
+const LIST_BATCH_SIZE = 100;
+
+/**
+ * Stored value of a game key: the state and the schema version it was saved at
+ */
+interface StoredGame {
+  version: number;
+  state: GameState;
+}
+
+/**
+ * Redis-backed store (Upstash REST), for hosted and multi-instance deployments
+ *
+ * Each game is its own key, so updates to different games never contend;
+ * updates to the same game hold a per-game lock key. A set of game IDs
+ * backs list().
+ */
+export function createRedisGameStore(redis: RedisClient, prefix = "duelbase"): GameStore {
+  const gameKey = (gameId: string) => `${prefix}:game:${gameId}`;
+  const lockKey = (gameId: string) => `${prefix}:lock:${gameId}`;
+  const indexKey = `${prefix}:games`;
+
+  // Stored games are migrated one at a time, as a single-game document
+  const parse = (gameId: string, raw: string | null): GameState | null => {
+    if (raw === null) return null;
+    const { version, state } = JSON.parse(raw) as StoredGame;
+    return migrate({ version, games: { [gameId]: state } }).doc.games[gameId] ?? null;
+  };
+
+  const write = async (state: GameState) => {
+    const stored: StoredGame = { version: LATEST_VERSION, state };
+    await redis.command("SET", gameKey(state.gameId), JSON.stringify(stored));
+    await redis.command("SADD", indexKey, state.gameId);
+  };
+
+  return {
+    async get(gameId) {
+      return parse(gameId, await redis.command<string | null>("GET", gameKey(gameId)));
+    },
+
+    save(state) {
+      return withRedisLock(redis, lockKey(state.gameId), () => write(state), {
+        ttlMs: LOCK_TTL_MS,
+        timeoutMs: LOCK_TIMEOUT_MS,
+      });
+    },
+
+    update(gameId, fn) {
+      return withRedisLock(
+        redis,
+        lockKey(gameId),
+        async () => {
+          const current = parse(gameId, await redis.command<string | null>("GET", gameKey(gameId)));
+          const { state, result } = await fn(current);
+          if (state) await write(state);
+          return result;
+        },
+        { ttlMs: LOCK_TTL_MS, timeoutMs: LOCK_TIMEOUT_MS }
+      );
+    },
+
+    async list() {
+      const gameIds = await redis.command<string[]>("SMEMBERS", indexKey);
+      const games: GameState[] = [];
+      for (let i = 0; i < gameIds.length; i += LIST_BATCH_SIZE) {
+        const batch = gameIds.slice(i, i + LIST_BATCH_SIZE);
+        const values = await redis.command<(string | null)[]>("MGET", ...batch.map(gameKey));
+        batch.forEach((gameId, j) => {
+          const state = parse(gameId, values[j]);
+          if (state) games.push(state);
+        });
+      }
+      return games;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Off-chain game state shared by the games and complete-game APIs
+ */
+
+export interface GameState {
+  gameId: string;
+  gameType: "tictactoe" | "connect4";
+  player1: string; // from GameManager, moves first in odd-numbered games of a series
+  player2: string; // from GameManager
+  board: number[][] | number[]; // 2D for connect4, 1D for tictactoe (current game of the series)
+  currentTurn: string; // address of whose turn it is
+  moves: Move[]; // current game of the series
+  winner: string | null; // series winner
+  isDraw: boolean; // series drawn
+  lastUpdated: number;
+  turnStartTime: number; // timestamp when current turn started
+  timeoutLoser: string | null; // address of player who timed out (if any), forfeiting the series
+  resignedBy: string | null; // address of player who conceded (if any), forfeiting the series
+  drawOfferedBy: string | null; // address of player with an open draw offer (if any)
+  series: SeriesState;
+  rematch: RematchState | null; // proposed or created once the series is over
+}
+
+/**
+ * A rematch of a finished game
+ *
+ * The player moving first creates the new GameManager game (as player1, so
+ * they stake the full wager) and the other player joins it.
+ */
+export interface RematchState {
+  proposedBy: string;
+  firstMover: string;
+  gameId: string | null; // the new game, once created on-chain
+}
+
+/**
+ * Best-of-N series played for a single GameManager escrow
+ *
+ * A single game is a series with bestOf 1. winner/isDraw on the GameState
+ * are only set once the series is decided.
+ */
+export interface SeriesState {
+  bestOf: number; // from GameManager
+  replayDraws?: boolean; // Drawn games don't count toward bestOf (knockout matches need a winner)
+  wins: { player1: number; player2: number };
+  games: SeriesGame[]; // finished games, oldest first
+}
+
+export interface SeriesGame {
+  winner: string | null; // null for a drawn game
+  moves: Move[];
+}
+
+export interface Move {
+  player: string;
+  position: number | { row: number; col: number };
+  timestamp: number;
+}
+
+/**
+ * What an update() callback decided: the state to save (omit it to leave the
+ * game unchanged) and the value update() resolves with
+ */
+export interface GameUpdate<T> {
+  state?: GameState;
+  result: T;
+}
+
+/**
+ * Storage backend for game state
+ *
+ * Implementations must persist the full state, including the moves log.
+ * Returned states are copies: mutate them freely, then call save().
+ *
+ * update() is the only safe way to change an existing game: it holds a lock
+ * on the game (shared by every process using the same storage) from reading
+ * it to saving, so concurrent requests can't overwrite each other's moves.
+ */
+export interface GameStore {
+  get(gameId: string): Promise<GameState | null>;
+  save(state: GameState): Promise<void>;
+  update<T>(
+    gameId: string,
+    fn: (state: GameState | null) => Promise<GameUpdate<T>> | GameUpdate<T>
+  ): Promise<T>;
+  list(): Promise<GameState[]>;
+}
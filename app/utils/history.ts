@@ -0,0 +1,75 @@
+/**
+ * A player's profit and loss per game, from indexed GameManager and TicTacToeGame games
+ *
+ * Amounts are in the game's wager token's base units. Player1 stakes the edge
+ * (their first-mover premium, wagerAmount - player2Wager) on top of player2's
+ * wager. The winner is paid both wagers less the protocol fee, so the fee
+ * counts against the winner; draws, cancellations and abandoned games refund
+ * each stake, edge included.
+ */
+
+import { zeroAddress } from "viem";
+import type { IndexedGame } from "@/app/utils/indexer";
+
+export type GameOutcome = "won" | "lost" | "drawn" | "refunded" | "pending";
+
+export interface GamePnl {
+  game: IndexedGame;
+  opponent: string | null; // null for an open challenge nobody joined
+  outcome: GameOutcome;
+  stake: bigint;
+  edgePaid: bigint; // first-mover premium, player1 only
+  feePaid: bigint; // protocol fee, winner only
+  payout: bigint; // winnings or refund
+  net: bigint;
+}
+
+/**
+ * Work out what a player staked, paid and got back in a game
+ *
+ * @param player - The player's address (lowercase)
+ */
+export function gamePnl(game: IndexedGame, player: string): GamePnl {
+  const isPlayer1 = game.player1 === player;
+  const opponentAddress = isPlayer1 ? game.player2 : game.player1;
+  const opponent = opponentAddress === zeroAddress ? null : opponentAddress;
+  const stake = BigInt(isPlayer1 ? game.wagerAmount : game.player2Wager);
+  const zero = BigInt(0);
+  // Only a game played to a result keeps the edge; refunds hand it back
+  const edge = isPlayer1 ? BigInt(game.wagerAmount) - BigInt(game.player2Wager) : zero;
+
+  switch (game.status) {
+    case "won": {
+      if (game.winner !== player) {
+        return { game, opponent, outcome: "lost", stake, edgePaid: edge, feePaid: zero, payout: zero, net: -stake };
+      }
+      const payout = BigInt(game.payout ?? 0);
+      const pot = BigInt(game.wagerAmount) + BigInt(game.player2Wager);
+      return {
+        game,
+        opponent,
+        outcome: "won",
+        stake,
+        edgePaid: edge,
+        feePaid: pot - payout,
+        payout,
+        net: payout - stake,
+      };
+    }
+    case "drawn":
+      return { game, opponent, outcome: "drawn", stake, edgePaid: zero, feePaid: zero, payout: stake, net: zero };
+    case "cancelled":
+    case "abandoned":
+      return { game, opponent, outcome: "refunded", stake, edgePaid: zero, feePaid: zero, payout: stake, net: zero };
+    default:
+      // Stakes are still in escrow
+      return { game, opponent, outcome: "pending", stake, edgePaid: zero, feePaid: zero, payout: zero, net: zero };
+  }
+}
+
+/**
+ * Serialize rows as CSV, quoting every field
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map((field) => `"${String(field).replace(/"/g, '""')}"`).join(",")).join("\n");
+}
@@ -0,0 +1,130 @@
+/**
+ * Events the indexer follows, and how each one updates the indexed tables
+ */
+
+import { parseAbi, zeroAddress } from "viem";
+import type { IndexDocument, IndexedEvent, IndexedGame } from "./types";
+
+export const GAME_MANAGER_EVENTS = parseAbi([
+  "event GameCreated(uint256 indexed gameId, address indexed player1, address indexed player2, address token, uint256 wagerAmount, uint256 player2Wager, uint8 gameType)",
+  "event GameJoined(uint256 indexed gameId, address indexed player2)",
+  "event GameCompleted(uint256 indexed gameId, address indexed winner, uint256 totalPayout)",
+  "event GameDrawn(uint256 indexed gameId, uint256 player1Refund, uint256 player2Refund)",
+  "event GameCancelled(uint256 indexed gameId, address indexed canceller)",
+  "event GameAbandoned(uint256 indexed gameId, address indexed caller, uint256 player1Refund, uint256 player2Refund)",
+]);
+
+export const TIC_TAC_TOE_EVENTS = parseAbi([
+  "event GameCreated(uint256 indexed gameId, address indexed player1, address indexed player2, uint256 wagerAmount)",
+  "event GameJoined(uint256 indexed gameId, address indexed player2)",
+  "event MoveMade(uint256 indexed gameId, address indexed player, uint8 position, uint8 cellState)",
+  "event GameCompleted(uint256 indexed gameId, address indexed winner, bool isDraw, uint256 payout)",
+  "event GameForfeited(uint256 indexed gameId, address indexed winner, address indexed loser, uint256 payout)",
+  "event GameCancelled(uint256 indexed gameId, address indexed canceller)",
+]);
+
+export const TOKEN_STORE_EVENTS = parseAbi([
+  "event TokensPurchased(address indexed buyer, uint256 duelAmount, uint256 usdcPaid)",
+]);
+
+/**
+ * Empty tables for a fresh index, or for replaying events after a reorg
+ */
+export function emptyTables(): Pick<IndexDocument, "games" | "moves" | "purchases"> {
+  return { games: {}, moves: {}, purchases: [] };
+}
+
+/**
+ * Apply one event to the tables (events must be applied in chain order)
+ */
+export function applyEvent(doc: Pick<IndexDocument, "games" | "moves" | "purchases">, event: IndexedEvent) {
+  const { source, eventName, args } = event;
+
+  if (source === "tokenStore") {
+    if (eventName === "TokensPurchased") {
+      doc.purchases.push({
+        buyer: String(args.buyer),
+        duelAmount: String(args.duelAmount),
+        usdcPaid: String(args.usdcPaid),
+        timestamp: event.timestamp,
+        txHash: event.txHash,
+      });
+    }
+    return;
+  }
+
+  const gameId = String(args.gameId);
+  const key = `${source}:${gameId}`;
+
+  if (eventName === "GameCreated") {
+    doc.games[key] = {
+      source,
+      gameId,
+      gameType: source === "gameManager" ? Number(args.gameType) : 0,
+      token: source === "gameManager" ? String(args.token) : null,
+      player1: String(args.player1),
+      player2: String(args.player2),
+      wagerAmount: String(args.wagerAmount),
+      // TicTacToeGame players always stake the same
+      player2Wager: String(args.player2Wager ?? args.wagerAmount),
+      status: "created",
+      winner: null,
+      payout: null,
+      createdAt: event.timestamp,
+      settledAt: null,
+      createdTx: event.txHash,
+      settledTx: null,
+    };
+    return;
+  }
+
+  const game = doc.games[key];
+  if (!game) return;
+
+  if (eventName === "MoveMade") {
+    (doc.moves[gameId] ??= []).push({
+      gameId,
+      player: String(args.player),
+      position: Number(args.position),
+      cellState: Number(args.cellState),
+      timestamp: event.timestamp,
+      txHash: event.txHash,
+    });
+    return;
+  }
+
+  const settle = (status: IndexedGame["status"], winner: string | null = null, payout: string | null = null) => {
+    game.status = status;
+    game.winner = winner;
+    game.payout = payout;
+    game.settledAt = event.timestamp;
+    game.settledTx = event.txHash;
+  };
+
+  switch (eventName) {
+    case "GameJoined":
+      // Open challenges learn their opponent here
+      if (game.player2 === zeroAddress) game.player2 = String(args.player2);
+      game.status = "active";
+      break;
+    case "GameCompleted":
+      if (args.isDraw) {
+        settle("drawn");
+      } else {
+        settle("won", String(args.winner), String(args.totalPayout ?? args.payout));
+      }
+      break;
+    case "GameForfeited":
+      settle("won", String(args.winner), String(args.payout));
+      break;
+    case "GameDrawn":
+      settle("drawn");
+      break;
+    case "GameCancelled":
+      settle("cancelled");
+      break;
+    case "GameAbandoned":
+      settle("abandoned");
+      break;
+  }
+}
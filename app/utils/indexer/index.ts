@@ -0,0 +1,432 @@
+/**
+ * Contract event indexer
+ *
+ * Follows GameManager, TicTacToeGame and TokenStore events from
+ * INDEXER_RPC_URL (default BASE_SEPOLIA_RPC_URL) into a JSON database kept on
+ * the game store's backend (INDEXER_DB_PATH with the file store, default
+ * .data/index.json), so history and stats can be queried without scanning
+ * the chain.
+ *
+ * Each sync resumes from the checkpoint. If the checkpoint's block hash no
+ * longer matches the chain, a reorg replaced it: the index rewinds to the
+ * newest recent block still on the chain (or starts over if the reorg is
+ * deeper than INDEXER_REORG_DEPTH), drops the orphaned events and rebuilds
+ * its tables from the rest.
+ */
+
+import { createPublicClient, http, zeroAddress } from "viem";
+import { GAME_MANAGER_ADDRESS } from "@/app/utils/gameManager";
+import { readStoredDocument, writeStoredDocument } from "@/app/utils/gameStore";
+import { GAME_MANAGER_EVENTS, TIC_TAC_TOE_EVENTS, TOKEN_STORE_EVENTS, applyEvent, emptyTables } from "./events";
+import type {
+  BlockRef,
+  IndexDocument,
+  IndexedEvent,
+  IndexedGame,
+  IndexedGameStatus,
+  IndexedMove,
+  IndexedPurchase,
+  IndexedSource,
+} from "./types";
+
+export type {
+  IndexedGame,
+  IndexedGameStatus,
+  IndexedMove,
+  IndexedPurchase,
+} from "./types";
+
+const INDEX_VERSION = 1;
+
+const TIC_TAC_TOE_ADDRESS = (process.env.NEXT_PUBLIC_TICTACTOE_CONTRACT_ADDRESS ||
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+const TOKEN_STORE_ADDRESS = (process.env.NEXT_PUBLIC_TOKEN_STORE_ADDRESS ||
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+const START_BLOCK = Number(process.env.INDEXER_START_BLOCK || 0);
+// Blocks behind the head left unindexed (reorgs above them are still handled)
+const CONFIRMATIONS = Number(process.env.INDEXER_CONFIRMATIONS || 0);
+// Blocks per eth_getLogs request
+const BATCH_SIZE = Number(process.env.INDEXER_BATCH_SIZE || 2000);
+// Deepest reorg the index can rewind; anything deeper reindexes from scratch
+const REORG_DEPTH = Number(process.env.INDEXER_REORG_DEPTH || 64);
+// Batches per sync, so a request never waits on a long backfill
+const MAX_BATCHES_PER_SYNC = 20;
+// Reads sync first if the index is older than this
+const SYNC_INTERVAL_MS = 15 * 1000;
+
+const client = createPublicClient({
+  transport: http(process.env.INDEXER_RPC_URL || process.env.BASE_SEPOLIA_RPC_URL),
+  cacheTime: 0, // Always index up to the real head
+});
+
+export interface IndexStatus {
+  checkpoint: BlockRef | null;
+  head: number | null; // null if the RPC couldn't be reached
+  events: number;
+  lastSyncedAt: number | null;
+}
+
+let cachedDoc: IndexDocument | null = null;
+let syncing: Promise<IndexDocument> | null = null;
+let lastSyncedAt: number | null = null;
+let lastHead: number | null = null;
+
+// ============ Storage ============
+
+function emptyDocument(configKey: string): IndexDocument {
+  return { version: INDEX_VERSION, configKey, checkpoint: null, recentBlocks: [], events: [], ...emptyTables() };
+}
+
+async function readDocument(): Promise<IndexDocument | null> {
+  if (cachedDoc) return cachedDoc;
+
+  // An in-memory game store gets an in-memory index to match (nothing stored)
+  const doc = await readStoredDocument<IndexDocument>("index", process.env.INDEXER_DB_PATH);
+  // Older layouts are cheaper to reindex than to migrate
+  cachedDoc = doc?.version === INDEX_VERSION ? doc : null;
+  return cachedDoc;
+}
+
+async function writeDocument(doc: IndexDocument) {
+  cachedDoc = doc;
+  await writeStoredDocument("index", doc, process.env.INDEXER_DB_PATH);
+}
+
+// ============ Sync ============
+
+/**
+ * Drop everything after a block and rebuild the tables from the events before it
+ */
+function rewind(doc: IndexDocument, to: BlockRef | null): IndexDocument {
+  const keep = (blockNumber: number) => to !== null && blockNumber <= to.number;
+  const events = doc.events.filter((event) => keep(event.blockNumber));
+  const tables = emptyTables();
+  for (const event of events) applyEvent(tables, event);
+
+  return {
+    ...doc,
+    checkpoint: to,
+    recentBlocks: doc.recentBlocks.filter((block) => keep(block.number)),
+    events,
+    ...tables,
+  };
+}
+
+/**
+ * Rewind past any indexed blocks a reorg replaced
+ */
+async function handleReorg(doc: IndexDocument): Promise<IndexDocument> {
+  if (!doc.checkpoint) return doc;
+
+  // A block hash commits to every ancestor, so an intact checkpoint means nothing below it changed
+  const isCanonical = async (ref: BlockRef) =>
+    (await client.getBlock({ blockNumber: BigInt(ref.number) })).hash === ref.hash;
+
+  if (await isCanonical(doc.checkpoint)) return doc;
+
+  for (const ref of [...doc.recentBlocks].reverse()) {
+    if (ref.number < doc.checkpoint.number && (await isCanonical(ref))) {
+      console.warn(`Indexer: reorg detected, rewinding to block ${ref.number}`);
+      return rewind(doc, ref);
+    }
+  }
+
+  console.warn("Indexer: reorg deeper than the recent blocks kept, reindexing");
+  return rewind(doc, null);
+}
+
+// The parts of a decoded viem log the index keeps
+interface DecodedLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+}
+
+function toIndexedEvent(source: IndexedSource, log: DecodedLog, timestamp: number): IndexedEvent {
+  const args: IndexedEvent["args"] = {};
+  for (const [name, value] of Object.entries(log.args)) {
+    args[name] =
+      typeof value === "bigint"
+        ? value.toString()
+        : typeof value === "string"
+          ? value.toLowerCase()
+          : (value as number | boolean);
+  }
+
+  return {
+    source,
+    eventName: log.eventName,
+    args,
+    blockNumber: Number(log.blockNumber),
+    blockHash: log.blockHash,
+    logIndex: log.logIndex,
+    txHash: log.transactionHash,
+    timestamp,
+  };
+}
+
+/**
+ * Index one block range
+ *
+ * @returns The updated document, or null if the range changed under us (retried next sync)
+ */
+async function indexRange(doc: IndexDocument, fromBlock: number, toBlock: number): Promise<IndexDocument | null> {
+  const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+
+  // The checkpoint's header is read before the logs: if a reorg lands in
+  // between, the checkpoint names the replaced chain and the next sync rewinds
+  // it. Read afterwards, it could vouch for logs from a chain it isn't on.
+  const toHeader = await client.getBlock({ blockNumber: BigInt(toBlock) });
+
+  // Contracts that aren't configured (zero address) are skipped
+  const [gameManagerLogs, ticTacToeLogs, tokenStoreLogs] = await Promise.all([
+    GAME_MANAGER_ADDRESS === zeroAddress
+      ? []
+      : client.getLogs({ address: GAME_MANAGER_ADDRESS, events: GAME_MANAGER_EVENTS, ...range }),
+    TIC_TAC_TOE_ADDRESS === zeroAddress
+      ? []
+      : client.getLogs({ address: TIC_TAC_TOE_ADDRESS, events: TIC_TAC_TOE_EVENTS, ...range }),
+    TOKEN_STORE_ADDRESS === zeroAddress
+      ? []
+      : client.getLogs({ address: TOKEN_STORE_ADDRESS, events: TOKEN_STORE_EVENTS, ...range }),
+  ]);
+
+  const logs = [
+    ...gameManagerLogs.map((log): [IndexedSource, DecodedLog] => ["gameManager", log]),
+    ...ticTacToeLogs.map((log): [IndexedSource, DecodedLog] => ["ticTacToe", log]),
+    ...tokenStoreLogs.map((log): [IndexedSource, DecodedLog] => ["tokenStore", log]),
+  ].sort(([, a], [, b]) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex);
+
+  // Headers for timestamps, and to check every log came from the same chain as the checkpoint
+  const blocks = new Map<number, { hash: string; timestamp: number }>([
+    [toBlock, { hash: toHeader.hash, timestamp: Number(toHeader.timestamp) }],
+  ]);
+  for (const blockNumber of new Set(logs.map(([, log]) => Number(log.blockNumber)))) {
+    if (blocks.has(blockNumber)) continue;
+    const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+    blocks.set(blockNumber, { hash: block.hash, timestamp: Number(block.timestamp) });
+  }
+
+  const events: IndexedEvent[] = [];
+  for (const [source, log] of logs) {
+    const block = blocks.get(Number(log.blockNumber))!;
+    if (log.blockHash !== block.hash) return null;
+    events.push(toIndexedEvent(source, log, block.timestamp));
+  }
+
+  const checkpoint = { number: toBlock, hash: blocks.get(toBlock)!.hash };
+  const eventBlocks = Array.from(new Set(events.map((event) => event.blockNumber)), (number) => ({
+    number,
+    hash: blocks.get(number)!.hash,
+  }));
+
+  // Applied to a copy, so a failed sync never leaves the cached tables ahead of the checkpoint
+  const tables = structuredClone({ games: doc.games, moves: doc.moves, purchases: doc.purchases });
+  for (const event of events) applyEvent(tables, event);
+
+  return {
+    ...doc,
+    ...tables,
+    checkpoint,
+    // Keep the checkpoint at the least, so the next sync can always check it
+    recentBlocks: [...doc.recentBlocks, ...eventBlocks.filter((b) => b.number !== toBlock), checkpoint].filter(
+      (block) => block.number > toBlock - REORG_DEPTH
+    ),
+    events: [...doc.events, ...events],
+  };
+}
+
+async function runSync(): Promise<IndexDocument> {
+  const chainId = await client.getChainId();
+  const configKey = [chainId, GAME_MANAGER_ADDRESS, TIC_TAC_TOE_ADDRESS, TOKEN_STORE_ADDRESS, START_BLOCK]
+    .join(":")
+    .toLowerCase();
+
+  let doc = await readDocument();
+  if (!doc || doc.configKey !== configKey) doc = emptyDocument(configKey);
+
+  doc = await handleReorg(doc);
+
+  const head = Number(await client.getBlockNumber());
+  lastHead = head;
+  const target = head - CONFIRMATIONS;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_SYNC; batch++) {
+    const fromBlock = doc.checkpoint ? doc.checkpoint.number + 1 : START_BLOCK;
+    if (fromBlock > target) break;
+
+    const next = await indexRange(doc, fromBlock, Math.min(fromBlock + BATCH_SIZE - 1, target));
+    if (!next) break;
+    doc = next;
+  }
+
+  await writeDocument(doc);
+  lastSyncedAt = Date.now();
+  return doc;
+}
+
+/**
+ * Bring the index up to date with the chain (one sync at a time per process)
+ */
+export function syncIndex(): Promise<IndexDocument> {
+  if (!syncing) {
+    syncing = runSync().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+/**
+ * The index, synced first if it's stale
+ *
+ * If the RPC is unreachable the last indexed state is served rather than failing.
+ */
+async function getIndex(): Promise<IndexDocument> {
+  if (lastSyncedAt === null || Date.now() - lastSyncedAt > SYNC_INTERVAL_MS) {
+    try {
+      return await syncIndex();
+    } catch (error) {
+      console.error("Indexer sync failed:", error);
+    }
+  }
+  return (await readDocument()) ?? emptyDocument("");
+}
+
+// ============ Queries ============
+
+export async function getIndexStatus(): Promise<IndexStatus> {
+  const doc = await getIndex();
+  return { checkpoint: doc.checkpoint, head: lastHead, events: doc.events.length, lastSyncedAt };
+}
+
+const isPlayerOf = (game: IndexedGame, player: string) => game.player1 === player || game.player2 === player;
+
+/**
+ * Indexed games, newest first
+ *
+ * @param filter.player - Only games this address played (any case)
+ * @param filter.before - Only games created before this unix timestamp (for paging)
+ */
+export async function getIndexedGames(filter: {
+  player?: string;
+  source?: IndexedGame["source"];
+  status?: IndexedGameStatus;
+  before?: number;
+  limit?: number;
+}): Promise<IndexedGame[]> {
+  const doc = await getIndex();
+  const player = filter.player?.toLowerCase();
+
+  const games = Object.values(doc.games)
+    .filter(
+      (game) =>
+        (!player || isPlayerOf(game, player)) &&
+        (!filter.source || game.source === filter.source) &&
+        (!filter.status || game.status === filter.status) &&
+        (filter.before === undefined || game.createdAt < filter.before)
+    )
+    .sort((a, b) => b.createdAt - a.createdAt || Number(BigInt(b.gameId) - BigInt(a.gameId)));
+
+  return filter.limit === undefined ? games : games.slice(0, filter.limit);
+}
+
+/**
+ * One indexed game, with its on-chain moves for TicTacToeGame games
+ */
+export async function getIndexedGame(
+  source: IndexedGame["source"],
+  gameId: string
+): Promise<{ game: IndexedGame; moves: IndexedMove[] } | null> {
+  const doc = await getIndex();
+  const game = doc.games[`${source}:${gameId}`];
+  if (!game) return null;
+
+  return { game, moves: source === "ticTacToe" ? (doc.moves[gameId] ?? []) : [] };
+}
+
+/**
+ * DUEL purchases from the TokenStore, newest first
+ */
+export async function getPurchases(filter: { buyer?: string; limit?: number }): Promise<IndexedPurchase[]> {
+  const doc = await getIndex();
+  const buyer = filter.buyer?.toLowerCase();
+
+  const purchases = doc.purchases.filter((purchase) => !buyer || purchase.buyer === buyer).reverse();
+  return filter.limit === undefined ? purchases : purchases.slice(0, filter.limit);
+}
+
+/**
+ * Totals across every indexed game and purchase, or one player's
+ *
+ * Amounts are keyed by wager token ("duel" for TicTacToeGame, which only takes DUEL).
+ */
+export async function getIndexStats(playerAddress?: string) {
+  const doc = await getIndex();
+  const player = playerAddress?.toLowerCase();
+
+  const games = Object.values(doc.games).filter((game) => !player || isPlayerOf(game, player));
+  const purchases = doc.purchases.filter((purchase) => !player || purchase.buyer === player);
+
+  const byStatus: Record<IndexedGameStatus, number> = {
+    created: 0,
+    active: 0,
+    won: 0,
+    drawn: 0,
+    cancelled: 0,
+    abandoned: 0,
+  };
+  const wagered: Record<string, bigint> = {};
+  const paidOut: Record<string, bigint> = {};
+  const fees: Record<string, bigint> = {};
+  const players = new Set<string>();
+  let wins = 0;
+  let losses = 0;
+
+  const add = (totals: Record<string, bigint>, token: string, amount: bigint) => {
+    totals[token] = (totals[token] ?? BigInt(0)) + amount;
+  };
+
+  for (const game of games) {
+    const token = game.token ?? "duel";
+    byStatus[game.status]++;
+    players.add(game.player1).add(game.player2);
+
+    // Wagered counts games that were played out: won, drawn or abandoned
+    const stake = player
+      ? BigInt(player === game.player1 ? game.wagerAmount : game.player2Wager)
+      : BigInt(game.wagerAmount) + BigInt(game.player2Wager);
+
+    if (game.status === "won" && game.payout) {
+      add(wagered, token, stake);
+      const pot = BigInt(game.wagerAmount) + BigInt(game.player2Wager);
+      if (!player || game.winner === player) add(paidOut, token, BigInt(game.payout));
+      if (!player) add(fees, token, pot - BigInt(game.payout));
+      if (player) game.winner === player ? wins++ : losses++;
+    } else if (game.status === "drawn" || game.status === "abandoned") {
+      add(wagered, token, stake);
+    }
+  }
+
+  const toStrings = (totals: Record<string, bigint>) =>
+    Object.fromEntries(Object.entries(totals).map(([token, amount]) => [token, amount.toString()]));
+
+  players.delete(zeroAddress);
+
+  return {
+    games: games.length,
+    byStatus,
+    ...(player ? { wins, losses } : { players: players.size }),
+    wagered: toStrings(wagered),
+    paidOut: toStrings(paidOut),
+    ...(player ? {} : { fees: toStrings(fees) }),
+    purchases: purchases.length,
+    duelPurchased: purchases.reduce((total, p) => total + BigInt(p.duelAmount), BigInt(0)).toString(),
+    usdcSpent: purchases.reduce((total, p) => total + BigInt(p.usdcPaid), BigInt(0)).toString(),
+    checkpoint: doc.checkpoint,
+  };
+}
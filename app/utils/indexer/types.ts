@@ -0,0 +1,76 @@
+/**
+ * Indexed contract history, stored as a single JSON document
+ *
+ * Amounts are decimal strings (JSON has no bigint) and addresses are
+ * lowercase. The decoded events are the source of truth; games, moves and
+ * purchases are rebuilt from them whenever a reorg rewinds the index.
+ */
+
+export type IndexedSource = "gameManager" | "ticTacToe" | "tokenStore";
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface IndexedEvent {
+  source: IndexedSource;
+  eventName: string;
+  args: Record<string, string | number | boolean>; // bigints as decimal strings
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  timestamp: number; // block timestamp, unix seconds
+}
+
+export type IndexedGameStatus = "created" | "active" | "won" | "drawn" | "cancelled" | "abandoned";
+
+/**
+ * A GameManager or TicTacToeGame game, as its events describe it
+ */
+export interface IndexedGame {
+  source: "gameManager" | "ticTacToe";
+  gameId: string;
+  gameType: number; // GameManager registry ID (TicTacToeGame games are always 0, Tic-Tac-Toe)
+  token: string | null; // wager token, null for TicTacToeGame (always DUEL)
+  player1: string;
+  player2: string; // zero address for an open challenge until someone joins
+  wagerAmount: string;
+  player2Wager: string;
+  status: IndexedGameStatus;
+  winner: string | null;
+  payout: string | null; // paid to the winner (both wagers less the protocol fee)
+  createdAt: number;
+  settledAt: number | null;
+  createdTx: string;
+  settledTx: string | null;
+}
+
+export interface IndexedMove {
+  gameId: string; // TicTacToeGame game ID
+  player: string;
+  position: number;
+  cellState: number; // 1 = X, 2 = O
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IndexedPurchase {
+  buyer: string;
+  duelAmount: string;
+  usdcPaid: string;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IndexDocument {
+  version: number;
+  configKey: string; // chain and contracts indexed; a change starts a fresh index
+  checkpoint: BlockRef | null; // last block fully indexed
+  recentBlocks: BlockRef[]; // recent indexed blocks, oldest first, to find where a reorg forked
+  events: IndexedEvent[];
+  games: Record<string, IndexedGame>; // by `${source}:${gameId}`
+  moves: Record<string, IndexedMove[]>; // by TicTacToeGame game ID
+  purchases: IndexedPurchase[];
+}
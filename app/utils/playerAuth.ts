@@ -0,0 +1,111 @@
+/**
+ * Player Action Signatures
+ *
+ * Every write to /api/games/[gameId] carries an EIP-712 signature from the
+ * acting player's wallet. Messages include the current move count so each
+ * signature is only good for one action. Inits, moves and timeout claims may
+ * send a session token (see playerSession.ts) instead.
+ */
+
+import { baseSepolia } from "viem/chains";
+import { publicClient } from "./publicClient";
+
+// EIP-712 Domain (off-chain only, so no verifyingContract)
+export const PLAYER_AUTH_DOMAIN = {
+  name: "DuelBase",
+  version: "1",
+  chainId: baseSepolia.id,
+} as const;
+
+// EIP-712 Types
+export const PLAYER_AUTH_TYPES = {
+  GameInit: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+  ],
+  GameMove: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+    { name: "moveIndex", type: "uint256" },
+    { name: "position", type: "uint256" },
+  ],
+  TimeoutClaim: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+    { name: "timedOutPlayer", type: "address" },
+    { name: "moveIndex", type: "uint256" },
+  ],
+  Resignation: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+    { name: "moveIndex", type: "uint256" },
+  ],
+  DrawOffer: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+    { name: "moveIndex", type: "uint256" },
+  ],
+  DrawOfferWithdrawal: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+    { name: "moveIndex", type: "uint256" },
+  ],
+  RematchOffer: [
+    { name: "gameId", type: "uint256" },
+    { name: "player", type: "address" },
+    { name: "firstMover", type: "address" },
+  ],
+} as const;
+
+export interface PlayerAuthMessages {
+  GameInit: { gameId: bigint; player: `0x${string}` };
+  GameMove: {
+    gameId: bigint;
+    player: `0x${string}`;
+    moveIndex: bigint;
+    position: bigint;
+  };
+  TimeoutClaim: {
+    gameId: bigint;
+    player: `0x${string}`;
+    timedOutPlayer: `0x${string}`;
+    moveIndex: bigint;
+  };
+  Resignation: { gameId: bigint; player: `0x${string}`; moveIndex: bigint };
+  DrawOffer: { gameId: bigint; player: `0x${string}`; moveIndex: bigint };
+  DrawOfferWithdrawal: { gameId: bigint; player: `0x${string}`; moveIndex: bigint };
+  RematchOffer: { gameId: bigint; player: `0x${string}`; firstMover: `0x${string}` };
+}
+
+/**
+ * Verify that `message.player` signed a player action
+ *
+ * Uses the chain client so smart contract wallets (ERC-1271/6492) verify too.
+ *
+ * @param primaryType - The action being authorized
+ * @param message - The message the player should have signed
+ * @param signature - The signature from the request body
+ * @returns Whether the signature is valid for `message.player`
+ */
+export async function verifyPlayerSignature<T extends keyof PlayerAuthMessages>(
+  primaryType: T,
+  message: PlayerAuthMessages[T],
+  signature: unknown
+): Promise<boolean> {
+  if (typeof signature !== "string" || !signature.startsWith("0x")) {
+    return false;
+  }
+
+  try {
+    return await publicClient.verifyTypedData({
+      address: message.player,
+      domain: PLAYER_AUTH_DOMAIN,
+      types: PLAYER_AUTH_TYPES,
+      primaryType,
+      message,
+      signature: signature as `0x${string}`,
+    } as Parameters<typeof publicClient.verifyTypedData>[0]);
+  } catch {
+    return false;
+  }
+}
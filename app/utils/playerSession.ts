@@ -0,0 +1,100 @@
+/**
+ * Player Sessions
+ *
+ * A player signs one Sign-In With Ethereum message and gets back a
+ * short-lived token that stands in for the per-action EIP-712 signature on
+ * routine writes (init, moves and timeout claims), so playing a game doesn't
+ * open a wallet prompt for every move.
+ *
+ * Tokens are stateless: `<address>.<expiry>.<hmac>`, keyed with
+ * SESSION_SECRET. Without it each server process makes up its own secret and
+ * sessions end when it restarts.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { parseSiweMessage } from "viem/siwe";
+import { baseSepolia } from "viem/chains";
+import { publicClient } from "./publicClient";
+
+// How long a session lasts
+export const SESSION_TTL_SECONDS = 60 * 60;
+
+// How old a sign-in message may be when it's exchanged for a token
+const SIGN_IN_MAX_AGE_MS = 5 * 60 * 1000;
+
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Issue a session token for a player
+ *
+ * @param player - The signed-in player's address
+ * @returns The token and its expiry (unix seconds)
+ */
+export function createSessionToken(player: `0x${string}`): { token: string; expiresAt: number } {
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const payload = `${player.toLowerCase()}.${expiresAt}`;
+  return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+/**
+ * Check a session token from a request body belongs to `player` and hasn't expired
+ */
+export function verifySessionToken(token: unknown, player: string): boolean {
+  if (typeof token !== "string") return false;
+
+  const [address, expiresAt, mac] = token.split(".");
+  if (!address || !expiresAt || !mac || address !== player.toLowerCase()) return false;
+  if (!/^\d+$/.test(expiresAt) || Number(expiresAt) <= Date.now() / 1000) return false;
+
+  const expected = Buffer.from(sign(`${address}.${expiresAt}`));
+  const actual = Buffer.from(mac);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Verify a sign-in message and its signature
+ *
+ * The message must be for this site's domain and Base Sepolia, and freshly
+ * issued, so a leaked sign-in can't be exchanged for a session later.
+ *
+ * @param message - The EIP-4361 message the player signed
+ * @param signature - The player's signature
+ * @param domain - The host the request was made to
+ * @returns The signed-in address, or null if the sign-in isn't valid
+ */
+export async function verifySignIn(
+  message: unknown,
+  signature: unknown,
+  domain: string
+): Promise<`0x${string}` | null> {
+  if (typeof message !== "string" || typeof signature !== "string" || !signature.startsWith("0x")) {
+    return null;
+  }
+
+  const fields = parseSiweMessage(message);
+  const issuedAt = fields.issuedAt?.getTime();
+  if (
+    !fields.address ||
+    fields.chainId !== baseSepolia.id ||
+    issuedAt === undefined ||
+    Math.abs(Date.now() - issuedAt) > SIGN_IN_MAX_AGE_MS
+  ) {
+    return null;
+  }
+
+  try {
+    // Also checks the domain and any expiration time in the message
+    const isValid = await publicClient.verifySiweMessage({
+      message,
+      signature: signature as `0x${string}`,
+      domain,
+    });
+    return isValid ? fields.address : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Server-side viem client for reading chain state in API routes
+ */
+
+import { createPublicClient, http } from "viem";
+import { baseSepolia } from "viem/chains";
+
+export const publicClient = createPublicClient({
+  chain: baseSepolia,
+  transport: http(process.env.BASE_SEPOLIA_RPC_URL),
+});
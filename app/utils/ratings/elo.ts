@@ -0,0 +1,97 @@
+/**
+ * Elo rating math
+ *
+ * Every player starts at INITIAL_RATING. Each rated result moves both
+ * players by K times the difference between the actual and expected score,
+ * so beating a stronger player gains more than beating a weaker one.
+ */
+
+export const INITIAL_RATING = 1200;
+
+// Maximum rating change from a single result
+export const K_FACTOR = 32;
+
+/**
+ * A finished game between two players, in the order it should be rated
+ */
+export interface RatedResult {
+  gameId: string;
+  gameType: "tictactoe" | "connect4";
+  player1: string; // lowercase
+  player2: string; // lowercase
+  winner: string | null; // lowercase, null for a draw
+  finishedAt: number;
+}
+
+export interface PlayerRating {
+  address: string; // lowercase
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  lastPlayedAt: number;
+}
+
+/**
+ * A rated result with both players' rating changes
+ */
+export interface RatingChange {
+  gameId: string;
+  player1Delta: number;
+  player2Delta: number;
+}
+
+/**
+ * Expected score of a player against an opponent (0 to 1)
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+/**
+ * Replay results oldest first and return every player's rating
+ *
+ * @param results - Results of a single game type, sorted by finishedAt
+ * @returns Ratings keyed by lowercase address, and each result's rating changes
+ */
+export function rateResults(results: RatedResult[]): {
+  ratings: Map<string, PlayerRating>;
+  changes: RatingChange[];
+} {
+  const ratings = new Map<string, PlayerRating>();
+  const changes: RatingChange[] = [];
+
+  const playerRating = (address: string) => {
+    let entry = ratings.get(address);
+    if (!entry) {
+      entry = { address, rating: INITIAL_RATING, games: 0, wins: 0, losses: 0, draws: 0, lastPlayedAt: 0 };
+      ratings.set(address, entry);
+    }
+    return entry;
+  };
+
+  for (const result of results) {
+    const p1 = playerRating(result.player1);
+    const p2 = playerRating(result.player2);
+
+    const score1 = result.winner === null ? 0.5 : result.winner === result.player1 ? 1 : 0;
+    const delta = Math.round(K_FACTOR * (score1 - expectedScore(p1.rating, p2.rating)));
+
+    // Zero-sum, so ratings can't drift upward as more games are played
+    p1.rating += delta;
+    p2.rating -= delta;
+
+    for (const [entry, score] of [[p1, score1], [p2, 1 - score1]] as const) {
+      entry.games++;
+      if (score === 1) entry.wins++;
+      else if (score === 0) entry.losses++;
+      else entry.draws++;
+      entry.lastPlayedAt = result.finishedAt;
+    }
+
+    changes.push({ gameId: result.gameId, player1Delta: delta, player2Delta: -delta });
+  }
+
+  return { ratings, changes };
+}
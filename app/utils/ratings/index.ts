@@ -0,0 +1,202 @@
+/**
+ * Player ratings and leaderboards
+ *
+ * Ratings are Elo per game type, replayed from the finished results in the
+ * game store: one result per GameManager game, so a best-of-N series counts
+ * once, just like its escrow. Those are the same results the backend signs
+ * for GameManager (including timeouts, resignations and agreed draws).
+ *
+ * All-time ratings are persisted on the game store's backend (RATINGS_PATH
+ * with the file store, default .data/ratings.json) and only recomputed when
+ * new results come in. Ratings for a time window
+ * are replayed on request from the results inside it, everyone starting at
+ * the initial rating.
+ */
+
+import {
+  getGameStore,
+  readStoredDocument,
+  writeStoredDocument,
+  type GameState,
+} from "@/app/utils/gameStore";
+import { rateResults, type PlayerRating, type RatedResult, type RatingChange } from "./elo";
+
+export { INITIAL_RATING } from "./elo";
+export type { PlayerRating } from "./elo";
+
+export type RatedGameType = RatedResult["gameType"];
+
+export const RATED_GAME_TYPES: RatedGameType[] = ["tictactoe", "connect4"];
+
+// Leaderboard time windows
+export const RATING_WINDOWS = {
+  all: null,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+export type RatingWindow = keyof typeof RATING_WINDOWS;
+
+// Results shown on a player's profile
+const RECENT_RESULTS_LIMIT = 10;
+
+export interface RankedPlayer extends PlayerRating {
+  rank: number;
+}
+
+export interface PlayerResult {
+  gameId: string;
+  gameType: RatedGameType;
+  opponent: string;
+  outcome: "win" | "loss" | "draw";
+  ratingChange: number;
+  finishedAt: number;
+}
+
+interface RatingsSnapshot {
+  fingerprint: string; // identifies the results the snapshot was computed from
+  computedAt: number;
+  ratings: Record<RatedGameType, PlayerRating[]>;
+  changes: Record<string, RatingChange>; // by gameId
+}
+
+let snapshot: RatingsSnapshot | null = null;
+
+/**
+ * When a finished game's result was decided
+ *
+ * Rematch offers touch lastUpdated after the result, so games finished on
+ * the board use their final move; forfeits only have lastUpdated.
+ */
+function finishedAt(state: GameState): number {
+  if (state.timeoutLoser || state.resignedBy) return state.lastUpdated;
+
+  const lastMove = [...state.series.games.flatMap((game) => game.moves), ...state.moves].reduce(
+    (latest, move) => Math.max(latest, move.timestamp),
+    0
+  );
+  return lastMove || state.lastUpdated;
+}
+
+/**
+ * Every finished game in the store as a rated result, oldest first
+ */
+async function loadResults(): Promise<RatedResult[]> {
+  const games = await getGameStore().list();
+
+  return games
+    .filter((state) => (state.winner !== null || state.isDraw) && state.player1 && state.player2)
+    .map((state) => ({
+      gameId: state.gameId,
+      gameType: state.gameType,
+      player1: state.player1.toLowerCase(),
+      player2: state.player2.toLowerCase(),
+      winner: state.winner?.toLowerCase() ?? null,
+      finishedAt: finishedAt(state),
+    }))
+    .sort((a, b) => a.finishedAt - b.finishedAt || Number(BigInt(a.gameId) - BigInt(b.gameId)));
+}
+
+function rate(results: RatedResult[]) {
+  const ratings = {} as Record<RatedGameType, PlayerRating[]>;
+  const changes: Record<string, RatingChange> = {};
+
+  for (const gameType of RATED_GAME_TYPES) {
+    const rated = rateResults(results.filter((result) => result.gameType === gameType));
+    ratings[gameType] = Array.from(rated.ratings.values());
+    for (const change of rated.changes) changes[change.gameId] = change;
+  }
+
+  return { ratings, changes };
+}
+
+// An in-memory game store gets in-memory ratings to match
+function readSnapshot(): Promise<RatingsSnapshot | null> {
+  return readStoredDocument<RatingsSnapshot>("ratings", process.env.RATINGS_PATH);
+}
+
+function writeSnapshot(doc: RatingsSnapshot): Promise<void> {
+  return writeStoredDocument("ratings", doc, process.env.RATINGS_PATH);
+}
+
+/**
+ * Get the all-time ratings, recomputing them if results came in since the last snapshot
+ */
+async function getSnapshot(results: RatedResult[]): Promise<RatingsSnapshot> {
+  // Finished results never change, so new ones always move the count or latest time
+  const fingerprint = `${results.length}:${results.at(-1)?.finishedAt ?? 0}`;
+
+  if (!snapshot) snapshot = await readSnapshot();
+  if (snapshot?.fingerprint === fingerprint) return snapshot;
+
+  snapshot = { fingerprint, computedAt: Date.now(), ...rate(results) };
+  await writeSnapshot(snapshot);
+  return snapshot;
+}
+
+function rank(ratings: PlayerRating[]): RankedPlayer[] {
+  return [...ratings]
+    .sort((a, b) => b.rating - a.rating || b.games - a.games)
+    .map((entry, i) => ({ ...entry, rank: i + 1 }));
+}
+
+/**
+ * Ranked ratings for a game type, all-time or within a time window
+ */
+export async function getLeaderboard(
+  gameType: RatedGameType,
+  window: RatingWindow = "all"
+): Promise<{ players: RankedPlayer[]; updatedAt: number }> {
+  const results = await loadResults();
+  const windowMs = RATING_WINDOWS[window];
+
+  if (windowMs === null) {
+    const { ratings, computedAt } = await getSnapshot(results);
+    return { players: rank(ratings[gameType]), updatedAt: computedAt };
+  }
+
+  const since = Date.now() - windowMs;
+  const windowed = rateResults(
+    results.filter((result) => result.gameType === gameType && result.finishedAt >= since)
+  );
+  return { players: rank(Array.from(windowed.ratings.values())), updatedAt: Date.now() };
+}
+
+/**
+ * A player's all-time rating and rank per game type, and their latest results
+ *
+ * @param address - The player's address (any case)
+ */
+export async function getPlayerRatings(address: string): Promise<{
+  address: string;
+  ratings: Record<RatedGameType, RankedPlayer | null>;
+  recentResults: PlayerResult[];
+}> {
+  const player = address.toLowerCase();
+  const results = await loadResults();
+  const { ratings, changes } = await getSnapshot(results);
+
+  const playerRatings = {} as Record<RatedGameType, RankedPlayer | null>;
+  for (const gameType of RATED_GAME_TYPES) {
+    playerRatings[gameType] = rank(ratings[gameType]).find((entry) => entry.address === player) ?? null;
+  }
+
+  const recentResults = results
+    .filter((result) => result.player1 === player || result.player2 === player)
+    .slice(-RECENT_RESULTS_LIMIT)
+    .reverse()
+    .map((result): PlayerResult => {
+      const isPlayer1 = result.player1 === player;
+      const change = changes[result.gameId];
+      return {
+        gameId: result.gameId,
+        gameType: result.gameType,
+        opponent: isPlayer1 ? result.player2 : result.player1,
+        outcome: result.winner === null ? "draw" : result.winner === player ? "win" : "loss",
+        ratingChange: (isPlayer1 ? change?.player1Delta : change?.player2Delta) ?? 0,
+        finishedAt: result.finishedAt,
+      };
+    });
+
+  return { address: player, ratings: playerRatings, recentResults };
+}
@@ -0,0 +1,97 @@
+/**
+ * Minimal Redis client over the Upstash REST API
+ *
+ * Works from serverless functions (no persistent connection), which is why
+ * hosted deployments keep game state, ratings and the event index here.
+ * Configured with UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN, or the
+ * KV_REST_API_URL / KV_REST_API_TOKEN pair set by Vercel's integration.
+ */
+
+export type RedisValue = string | number | null | RedisValue[];
+
+export interface RedisClient {
+  command<T extends RedisValue = RedisValue>(...args: (string | number)[]): Promise<T>;
+}
+
+// Deletes a lock only if it still holds our token, so an expired lock taken over by someone else is left alone
+const RELEASE_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+// How often to retry a held lock
+const LOCK_RETRY_MS = 25;
+
+/**
+ * REST endpoint and token from the environment, or null if Redis isn't configured
+ */
+export function getRedisConfig(): { url: string; token: string } | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+  return url && token ? { url, token } : null;
+}
+
+export function createRedisClient(url: string, token: string): RedisClient {
+  return {
+    async command<T extends RedisValue>(...args: (string | number)[]) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(args),
+        cache: "no-store",
+      });
+      const data = (await res.json().catch(() => ({}))) as { result?: T; error?: string };
+      if (!res.ok || data.error) {
+        throw new Error(`Redis ${args[0]} failed: ${data.error ?? res.statusText}`);
+      }
+      return data.result as T;
+    },
+  };
+}
+
+let client: RedisClient | null = null;
+
+/**
+ * The configured Redis client (throws if Redis isn't configured)
+ */
+export function getRedisClient(): RedisClient {
+  if (!client) {
+    const config = getRedisConfig();
+    if (!config) {
+      throw new Error("Redis is not configured: set UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN");
+    }
+    client = createRedisClient(config.url, config.token);
+  }
+  return client;
+}
+
+/**
+ * Run fn holding a lock key, shared by every instance using the same Redis
+ *
+ * The lock expires after ttlMs in case its holder dies; fn must finish well
+ * within it.
+ *
+ * @throws If the lock can't be taken within timeoutMs
+ */
+export async function withRedisLock<T>(
+  redis: RedisClient,
+  key: string,
+  fn: () => Promise<T>,
+  { ttlMs, timeoutMs }: { ttlMs: number; timeoutMs: number }
+): Promise<T> {
+  const token = crypto.randomUUID();
+  const giveUpAt = Date.now() + timeoutMs;
+
+  while ((await redis.command("SET", key, token, "NX", "PX", ttlMs)) !== "OK") {
+    if (Date.now() > giveUpAt) {
+      throw new Error(`Timed out waiting for lock ${key}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await redis.command("EVAL", RELEASE_LOCK_SCRIPT, 1, key, token).catch((error) => {
+      // It expires on its own
+      console.error(`Failed to release lock ${key}:`, error);
+    });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Referral invite links
+ *
+ * Invite links carry the sharing player as `?ref=`. The join page passes it to
+ * GameManager.joinGame, which records it as the joiner's referrer if this is
+ * their first game.
+ */
+
+import { isAddress } from "viem";
+
+/**
+ * Link that invites someone to join a game, crediting the sharing player
+ */
+export function inviteLink(origin: string, gameId: bigint | string, inviter?: string): string {
+  const link = `${origin}/join/${gameId}`;
+  return inviter ? `${link}?ref=${inviter}` : link;
+}
+
+/**
+ * Read the referrer from an invite link's `ref` param, ignoring invalid and self referrals
+ */
+export function parseReferrer(ref: string | null, joiner: string | undefined): `0x${string}` | undefined {
+  if (!ref || !isAddress(ref)) return undefined;
+  if (joiner && ref.toLowerCase() === joiner.toLowerCase()) return undefined;
+  return ref;
+}
@@ -0,0 +1,101 @@
+/**
+ * Checks a result must pass before any backend signer signs it
+ *
+ * Shared by the signing routes and the cosign route, so every verifier
+ * instance independently checks the stored game state against the chain.
+ */
+
+import { GameStatus } from "@/app/contracts/GameManagerABI";
+import { getGameStore } from "./gameStore";
+import { getOnchainGame } from "./gameManager";
+import { getOnchainMatchGame, tournamentMatchGameId, type TournamentMatchRef } from "./tournament";
+
+export interface VerificationError {
+  error: string;
+  status: number;
+}
+
+/**
+ * Verify a GameManager game ended with the given winner, or in a draw
+ *
+ * @param gameId - The game ID
+ * @param result - The claimed winner, or isDraw for a draw
+ * @returns null if the result may be signed, otherwise why not
+ */
+export async function verifyGameResult(
+  gameId: string,
+  result: { winner?: string; isDraw?: boolean }
+): Promise<VerificationError | null> {
+  // Verify against the stored game state
+  const gameState = await getGameStore().get(gameId);
+
+  if (!gameState) {
+    return { error: "Game not found", status: 404 };
+  }
+
+  // Only sign for games still awaiting a result on-chain
+  const onchainGame = await getOnchainGame(BigInt(gameId));
+
+  if (!onchainGame || onchainGame.status !== GameStatus.Active) {
+    return { error: "Game is not active on-chain", status: 400 };
+  }
+
+  if (result.isDraw) {
+    if (!gameState.isDraw) {
+      return { error: "Game did not end in a draw", status: 400 };
+    }
+    return null;
+  }
+
+  // Verify the winner matches our game state
+  if (gameState.isDraw) {
+    return { error: "Game ended in a draw - reclaim your stake instead", status: 400 };
+  }
+
+  if (!gameState.winner) {
+    return { error: "Game is not finished yet", status: 400 };
+  }
+
+  const winner = result.winner?.toLowerCase();
+
+  if (gameState.winner.toLowerCase() !== winner) {
+    return { error: "Invalid winner - does not match game result", status: 400 };
+  }
+
+  if (winner !== onchainGame.player1.toLowerCase() && winner !== onchainGame.player2.toLowerCase()) {
+    return { error: "Invalid winner - not a player in this game", status: 400 };
+  }
+
+  return null;
+}
+
+/**
+ * Verify a bracket match is finished and find its winner
+ *
+ * @param match - The bracket match
+ * @returns The winner, or why the match can't be signed
+ */
+export async function verifyTournamentMatchResult(
+  match: TournamentMatchRef
+): Promise<{ winner: `0x${string}` } | VerificationError> {
+  // Only sign for matches still awaiting a result on-chain
+  const onchainMatch = await getOnchainMatchGame(match);
+
+  if (!onchainMatch || onchainMatch.status !== GameStatus.Active) {
+    return { error: "Match is not active on-chain", status: 400 };
+  }
+
+  // Verify against the stored game state for the match
+  const gameState = await getGameStore().get(tournamentMatchGameId(match).toString());
+
+  if (!gameState?.winner) {
+    return { error: "Match is not finished yet", status: 400 };
+  }
+
+  const winner = gameState.winner.toLowerCase();
+  if (winner !== onchainMatch.player1.toLowerCase() && winner !== onchainMatch.player2.toLowerCase()) {
+    return { error: "Invalid winner - not a player in this match", status: 400 };
+  }
+
+  return { winner: gameState.winner as `0x${string}` };
+}
@@ -0,0 +1,79 @@
+/**
+ * Best-of-N series rules, shared by the games API and the game pages
+ *
+ * Draws count as games played, unless the series replays draws. Once every
+ * game is played the player with more wins takes the series; equal wins is
+ * a drawn series.
+ */
+
+import type { Move, SeriesState } from "./gameStore/types";
+
+// Pause between games of a series before the next game accepts moves
+export const SERIES_INTERMISSION_MS = 5 * 1000;
+
+interface SeriesPlayers {
+  player1: string;
+  player2: string;
+  moves: Move[];
+  series: SeriesState;
+}
+
+/**
+ * Create the series record for a new game
+ */
+export function createSeries(bestOf: number, replayDraws = false): SeriesState {
+  return { bestOf, replayDraws, wins: { player1: 0, player2: 0 }, games: [] };
+}
+
+/**
+ * Wins needed to take a series outright
+ */
+export function winsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * Who moves first in a game of the series (alternates, starting with player1)
+ *
+ * @param gameIndex - Zero-based index of the game within the series
+ */
+export function firstMover(state: SeriesPlayers, gameIndex: number): string {
+  return gameIndex % 2 === 0 ? state.player1 : state.player2;
+}
+
+/**
+ * Index of the next move across the whole series
+ *
+ * Signed moves commit to this rather than the current game's move count, so
+ * a move signed in one game can't be replayed in the next.
+ */
+export function seriesMoveIndex(state: Pick<SeriesPlayers, "moves" | "series">): number {
+  return state.series.games.reduce((total, game) => total + game.moves.length, state.moves.length);
+}
+
+/**
+ * Record a finished game and work out whether the series is decided
+ *
+ * @param winner - The game's winner, or null for a drawn game
+ * @returns The series winner (null for a drawn series), or undefined while it continues
+ */
+export function recordSeriesGame(state: SeriesPlayers, winner: string | null): string | null | undefined {
+  const { series } = state;
+  series.games.push({ winner, moves: state.moves });
+  if (winner !== null) {
+    if (winner.toLowerCase() === state.player1.toLowerCase()) {
+      series.wins.player1++;
+    } else {
+      series.wins.player2++;
+    }
+  }
+
+  // Decided once the trailing player can't catch up in the games left
+  const played = series.replayDraws ? series.wins.player1 + series.wins.player2 : series.games.length;
+  const remaining = series.bestOf - played;
+  const { player1: wins1, player2: wins2 } = series.wins;
+  if (wins1 > wins2 + remaining) return state.player1;
+  if (wins2 > wins1 + remaining) return state.player2;
+  if (remaining === 0) return null;
+  return undefined;
+}
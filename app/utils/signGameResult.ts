@@ -5,18 +5,18 @@
  * The backend holds the private key and signs game results.
  */
 
+import { hashTypedData } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { baseSepolia } from "viem/chains";
-
-// Contract address (must match deployed GameManager)
-const GAME_MANAGER_ADDRESS = "0xA40b4539d79ed767C8603e7f2E8F12D873174294";
+import { GAME_MANAGER_ADDRESS, getSignatureNonce } from "./gameManager";
+import type { TournamentMatchRef } from "./tournament";
 
 // EIP-712 Domain
 const domain = {
   name: "DuelBase",
   version: "1",
   chainId: baseSepolia.id, // 84532 for Base Sepolia
-  verifyingContract: GAME_MANAGER_ADDRESS as `0x${string}`,
+  verifyingContract: GAME_MANAGER_ADDRESS, // Same deployment the chain reads go to
 } as const;
 
 // EIP-712 Types
@@ -24,29 +24,61 @@ const types = {
   GameResult: [
     { name: "gameId", type: "uint256" },
     { name: "winner", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  GameDraw: [
+    { name: "gameId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+  TournamentMatchResult: [
+    { name: "tournamentId", type: "uint256" },
+    { name: "round", type: "uint8" },
+    { name: "matchIndex", type: "uint8" },
+    { name: "winner", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
   ],
 } as const;
 
+// How long a signed result stays valid; a leaked signature expires with it
+export const SIGNATURE_TTL_SECONDS = 15 * 60;
+
+/**
+ * Deadline for a signature issued now
+ */
+export function signatureDeadline(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + SIGNATURE_TTL_SECONDS);
+}
+
 /**
  * Sign a game result with the backend signer key
  * 
  * @param gameId - The game ID
  * @param winner - The winner's address
+ * @param nonce - The GameManager's current `signatureNonce`
+ * @param deadline - Timestamp after which the contract rejects the signature
  * @param privateKey - The backend signer's private key (KEEP SECRET!)
  * @returns The signature as a hex string
  * 
  * @example
  * // On your backend API endpoint:
+ * const deadline = signatureDeadline();
  * const signature = await signGameResult(
  *   BigInt(gameId),
  *   winnerAddress,
+ *   await getSignatureNonce(),
+ *   deadline,
  *   process.env.NEXT_PUBLIC_BACKEND_SIGNER_KEY
  * );
- * return { signature };
+ * return { signature, deadline: deadline.toString() };
  */
 export async function signGameResult(
   gameId: bigint,
   winner: `0x${string}`,
+  nonce: bigint,
+  deadline: bigint,
   privateKey: `0x${string}`
 ): Promise<`0x${string}`> {
   const account = privateKeyToAccount(privateKey);
@@ -58,12 +90,123 @@ export async function signGameResult(
     message: {
       gameId,
       winner,
+      nonce,
+      deadline,
+    },
+  });
+
+  return signature;
+}
+
+/**
+ * Sign a draw result with the backend signer key
+ * 
+ * Lets either player call `completeGameAsDraw` on the GameManager, which
+ * refunds both players' escrowed wagers.
+ * 
+ * @param gameId - The game ID
+ * @param nonce - The GameManager's current `signatureNonce`
+ * @param deadline - Timestamp after which the contract rejects the signature
+ * @param privateKey - The backend signer's private key (KEEP SECRET!)
+ * @returns The signature as a hex string
+ */
+export async function signGameDraw(
+  gameId: bigint,
+  nonce: bigint,
+  deadline: bigint,
+  privateKey: `0x${string}`
+): Promise<`0x${string}`> {
+  const account = privateKeyToAccount(privateKey);
+
+  const signature = await account.signTypedData({
+    domain,
+    types,
+    primaryType: "GameDraw",
+    message: {
+      gameId,
+      nonce,
+      deadline,
+    },
+  });
+
+  return signature;
+}
+
+/**
+ * Sign a tournament bracket match result with the backend signer key
+ * 
+ * The Tournament contract verifies it in the GameManager's domain, against
+ * the GameManager's signer set.
+ * 
+ * @param match - The bracket match
+ * @param winner - The match winner's address
+ * @param nonce - The GameManager's current `signatureNonce`
+ * @param deadline - Timestamp after which the contract rejects the signature
+ * @param privateKey - The backend signer's private key (KEEP SECRET!)
+ * @returns The signature as a hex string
+ */
+export async function signTournamentMatchResult(
+  match: TournamentMatchRef,
+  winner: `0x${string}`,
+  nonce: bigint,
+  deadline: bigint,
+  privateKey: `0x${string}`
+): Promise<`0x${string}`> {
+  const account = privateKeyToAccount(privateKey);
+
+  const signature = await account.signTypedData({
+    domain,
+    types,
+    primaryType: "TournamentMatchResult",
+    message: {
+      tournamentId: match.tournamentId,
+      round: match.round,
+      matchIndex: match.matchIndex,
+      winner,
+      nonce,
+      deadline,
     },
   });
 
   return signature;
 }
 
+/**
+ * EIP-712 digest of a game result, for checking who signed it
+ */
+export function hashGameResult(
+  gameId: bigint,
+  winner: `0x${string}`,
+  nonce: bigint,
+  deadline: bigint
+): `0x${string}` {
+  return hashTypedData({ domain, types, primaryType: "GameResult", message: { gameId, winner, nonce, deadline } });
+}
+
+/**
+ * EIP-712 digest of a draw result, for checking who signed it
+ */
+export function hashGameDraw(gameId: bigint, nonce: bigint, deadline: bigint): `0x${string}` {
+  return hashTypedData({ domain, types, primaryType: "GameDraw", message: { gameId, nonce, deadline } });
+}
+
+/**
+ * EIP-712 digest of a tournament match result, for checking who signed it
+ */
+export function hashTournamentMatchResult(
+  match: TournamentMatchRef,
+  winner: `0x${string}`,
+  nonce: bigint,
+  deadline: bigint
+): `0x${string}` {
+  return hashTypedData({
+    domain,
+    types,
+    primaryType: "TournamentMatchResult",
+    message: { tournamentId: match.tournamentId, round: match.round, matchIndex: match.matchIndex, winner, nonce, deadline },
+  });
+}
+
 /**
  * Example backend API handler (e.g., Next.js API route)
  * 
@@ -75,16 +218,17 @@ export async function signGameResult(
 export async function exampleApiHandler(request: Request) {
   const { gameId, winner } = await request.json();
 
-  // TODO: Verify the game actually exists and this is the correct winner
-  // You should validate the game state before signing!
-
+  const deadline = signatureDeadline();
   const signature = await signGameResult(
     BigInt(gameId),
     winner as `0x${string}`,
+    await getSignatureNonce(),
+    deadline,
     process.env.NEXT_PUBLIC_BACKEND_SIGNER_KEY as `0x${string}`
   );
 
-  return Response.json({ signature });
+  // Add cosignatures from the other verifiers when the threshold is above 1
+  return Response.json({ signatures: [signature], deadline: deadline.toString() });
 }
 
 /**
@@ -98,8 +242,8 @@ export async function exampleApiHandler(request: Request) {
  *   method: 'POST',
  *   body: JSON.stringify({ gameId, winner }),
  * });
- * const { signature } = await res.json();
+ * const { signatures, deadline } = await res.json();
  * 
- * // 3. Frontend (or anyone) submits to contract
- * completeGame(BigInt(gameId), winner, signature);
+ * // 3. Frontend (or anyone) submits to contract before the deadline
+ * completeGame(BigInt(gameId), winner, BigInt(deadline), signatures);
  */
@@ -0,0 +1,98 @@
+/**
+ * Tournament bracket matches as games
+ *
+ * Bracket matches are played through the games API like any other game.
+ * They get their own game IDs, with the top bit set so they can never clash
+ * with GameManager game IDs, and their players come from the Tournament
+ * contract instead of GameManager.
+ */
+
+import { GameStatus } from "@/app/contracts/GameManagerABI";
+import { TOURNAMENT_ABI, TournamentStatus } from "@/app/contracts/TournamentABI";
+import { engineGameType } from "./engine";
+import type { OnchainGame } from "./gameManager";
+import { publicClient } from "./publicClient";
+
+export const TOURNAMENT_ADDRESS = (process.env.NEXT_PUBLIC_TOURNAMENT_ADDRESS ||
+  "0x0000000000000000000000000000000000000000") as `0x${string}`;
+
+const MATCH_GAME_ID_FLAG = BigInt(1) << BigInt(255);
+
+export interface TournamentMatchRef {
+  tournamentId: bigint;
+  round: number;
+  matchIndex: number;
+}
+
+/**
+ * Game ID a bracket match is played under
+ */
+export function tournamentMatchGameId({ tournamentId, round, matchIndex }: TournamentMatchRef): bigint {
+  return MATCH_GAME_ID_FLAG | (tournamentId << BigInt(16)) | (BigInt(round) << BigInt(8)) | BigInt(matchIndex);
+}
+
+/**
+ * Decode a bracket match game ID
+ *
+ * @returns The match, or null for a GameManager game ID
+ */
+export function parseTournamentMatchGameId(gameId: bigint): TournamentMatchRef | null {
+  if ((gameId & MATCH_GAME_ID_FLAG) === BigInt(0)) return null;
+
+  return {
+    tournamentId: (gameId & ~MATCH_GAME_ID_FLAG) >> BigInt(16),
+    round: Number((gameId >> BigInt(8)) & BigInt(0xff)),
+    matchIndex: Number(gameId & BigInt(0xff)),
+  };
+}
+
+/**
+ * Read a bracket match's players as a game, mirroring getOnchainGame
+ *
+ * A match is Active once both players are known and the tournament is
+ * running, and Completed once its result is reported.
+ *
+ * @param match - The bracket match
+ * @returns The match as a game, or null if it doesn't exist
+ */
+export async function getOnchainMatchGame(match: TournamentMatchRef): Promise<OnchainGame | null> {
+  const tournament = await publicClient.readContract({
+    address: TOURNAMENT_ADDRESS,
+    abi: TOURNAMENT_ABI,
+    functionName: "getTournament",
+    args: [match.tournamentId],
+  });
+
+  if (tournament.size === 0) {
+    return null;
+  }
+
+  let player1: `0x${string}`, player2: `0x${string}`, winner: `0x${string}`;
+  try {
+    [player1, player2, winner] = await publicClient.readContract({
+      address: TOURNAMENT_ADDRESS,
+      abi: TOURNAMENT_ABI,
+      functionName: "getMatch",
+      args: [match.tournamentId, match.round, match.matchIndex],
+    });
+  } catch {
+    // Reverts with InvalidMatch for rounds or indexes outside the bracket
+    return null;
+  }
+
+  const zero = "0x0000000000000000000000000000000000000000";
+  const status =
+    winner !== zero
+      ? GameStatus.Completed
+      : player1 !== zero && player2 !== zero && tournament.status === TournamentStatus.Active
+        ? GameStatus.Active
+        : GameStatus.Created;
+
+  return {
+    player1,
+    player2,
+    gameType: engineGameType(tournament.gameType),
+    bestOf: 1,
+    status,
+  };
+}
@@ -0,0 +1,2 @@
+// Turn timer duration in milliseconds (60 seconds)
+export const TURN_TIME_LIMIT_MS = 60 * 1000;
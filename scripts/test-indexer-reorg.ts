@@ -0,0 +1,175 @@
+/**
+ * Indexer reorg test
+ *
+ * Starts a local anvil chain, deploys DUEL and GameManager from the Foundry
+ * artifacts, indexes a game, then replaces the block it was created in (an
+ * evm_snapshot/evm_revert reorg) with one creating a different game under
+ * the same ID. The index must drop the orphaned game and follow the new
+ * chain.
+ *
+ * Needs anvil on PATH and the contracts built (cd smart-contracts && forge build).
+ *
+ *   yarn test:indexer
+ */
+
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  erc20Abi,
+  http,
+  parseEther,
+  type Abi,
+  type Hex,
+} from "viem";
+import { foundry } from "viem/chains";
+import { GAME_MANAGER_ABI, GameType } from "@/app/contracts/GameManagerABI";
+
+const PORT = Number(process.env.ANVIL_PORT || 8546);
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+const ARTIFACTS_DIR = path.join(process.cwd(), "smart-contracts", "out");
+
+const WAGER = parseEther("100");
+
+function artifact(name: string): { abi: Abi; bytecode: Hex } {
+  const file = path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+  const json = JSON.parse(readFileSync(file, "utf8"));
+  return { abi: json.abi, bytecode: json.bytecode.object };
+}
+
+async function waitForRpc(publicClient: ReturnType<typeof createPublicClient>) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      await publicClient.getChainId();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error(`anvil didn't start on ${RPC_URL}`);
+}
+
+async function main() {
+  const anvil = spawn("anvil", ["--port", String(PORT), "--silent"], { stdio: "inherit" });
+  const anvilExited = new Promise((_, reject) =>
+    anvil.on("exit", (code) => reject(new Error(`anvil exited with code ${code}`)))
+  );
+
+  try {
+    await Promise.race([run(), anvilExited]);
+  } finally {
+    anvil.removeAllListeners("exit");
+    anvil.kill();
+  }
+}
+
+async function run() {
+  const transport = http(RPC_URL);
+  const publicClient = createPublicClient({ chain: foundry, transport, cacheTime: 0 });
+  const walletClient = createWalletClient({ chain: foundry, transport });
+  const testClient = createTestClient({ chain: foundry, transport, mode: "anvil" });
+  await waitForRpc(publicClient);
+
+  // anvil's unlocked dev accounts
+  const [deployer, alice, bob] = await walletClient.getAddresses();
+
+  const send = async (hash: Promise<Hex>) => {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: await hash });
+    assert.equal(receipt.status, "success");
+    return receipt;
+  };
+
+  const token = artifact("DuelBaseToken");
+  const tokenAddress = (
+    await send(
+      walletClient.deployContract({ ...token, account: deployer, args: [parseEther("1000000")] })
+    )
+  ).contractAddress!;
+  const manager = artifact("GameManager");
+  const gameManagerAddress = (
+    await send(
+      walletClient.deployContract({ ...manager, account: deployer, args: [tokenAddress, deployer] })
+    )
+  ).contractAddress!;
+
+  for (const player of [alice, bob]) {
+    await send(
+      walletClient.writeContract({
+        address: tokenAddress,
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [player, WAGER * BigInt(10)],
+        account: deployer,
+      })
+    );
+    await send(
+      walletClient.writeContract({
+        address: tokenAddress,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [gameManagerAddress, WAGER * BigInt(10)],
+        account: player,
+      })
+    );
+  }
+
+  const createGame = (player: `0x${string}`, opponent: `0x${string}`) =>
+    send(
+      walletClient.writeContract({
+        address: gameManagerAddress,
+        abi: GAME_MANAGER_ABI,
+        functionName: "createGame",
+        args: [opponent, WAGER, GameType.TicTacToe],
+        account: player,
+      })
+    );
+
+  // The indexer reads its configuration on import
+  process.env.INDEXER_RPC_URL = RPC_URL;
+  process.env.NEXT_PUBLIC_GAME_MANAGER_ADDRESS = gameManagerAddress;
+  process.env.GAME_STORE = "memory";
+  const { getIndexedGames, syncIndex } = await import("@/app/utils/indexer");
+
+  // Game 0 stays on the chain throughout
+  await createGame(alice, bob);
+  await syncIndex();
+  assert.deepEqual(
+    (await getIndexedGames({})).map((game) => [game.gameId, game.player1]),
+    [["0", alice.toLowerCase()]]
+  );
+
+  // Game 1 is created by alice, indexed, then reorged out
+  const snapshot = await testClient.snapshot();
+  await createGame(alice, bob);
+  await testClient.mine({ blocks: 2 });
+  const orphaned = await syncIndex();
+  assert.equal(orphaned.games["gameManager:1"]?.player1, alice.toLowerCase());
+
+  await testClient.revert({ id: snapshot });
+
+  // The replacement chain creates a different game 1 (bob's) and grows past the old head
+  await createGame(bob, alice);
+  await testClient.mine({ blocks: 4 });
+
+  const doc = await syncIndex();
+  const head = await publicClient.getBlock();
+
+  assert.deepEqual(doc.checkpoint, { number: Number(head.number), hash: head.hash });
+  assert.equal(doc.games["gameManager:1"]?.player1, bob.toLowerCase());
+  assert.equal(doc.events.filter((event) => event.eventName === "GameCreated").length, 2);
+  for (const event of doc.events) {
+    const block = await publicClient.getBlock({ blockNumber: BigInt(event.blockNumber) });
+    assert.equal(event.blockHash, block.hash, `event in block ${event.blockNumber} is from the orphaned chain`);
+  }
+
+  console.log("Indexer reorg test passed");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
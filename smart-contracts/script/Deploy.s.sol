@@ -6,6 +6,8 @@ import {DuelBaseToken} from "../src/DuelBaseToken.sol";
 import {GameManager} from "../src/GameManager.sol";
 import {TokenStore} from "../src/TokenStore.sol";
 import {TicTacToeGame} from "../src/TicTacToeGame.sol";
+import {Tournament} from "../src/Tournament.sol";
+import {SidePool} from "../src/SidePool.sol";
 
 /**
  * @title DeployDuelBase
@@ -33,17 +35,30 @@ contract DeployDuelBase is Script {
     // Base Sepolia USDC address (mock for testing)
     address public constant BASE_SEPOLIA_USDC = 0x036CbD53842c5426634e7929541eC2318f3dCF7e;
 
+    // USDC wager limits: 1 to 1,000 USDC
+    uint256 public constant USDC_MIN_WAGER = 1e6;
+    uint256 public constant USDC_MAX_WAGER = 1_000 * 1e6;
+
+    // Protocol fee on won games: 2.5% of the pot, for each launch game type
+    uint256 public constant PROTOCOL_FEE = 250;
+
+    // Referrers earn 20% of the protocol fee on won games their referred players played
+    uint256 public constant REFERRAL_SHARE = 2000;
+
     // ============ Deployed Contracts ============
 
     DuelBaseToken public duelToken;
     GameManager public gameManager;
     TokenStore public tokenStore;
     TicTacToeGame public ticTacToeGame;
+    Tournament public tournament;
+    SidePool public sidePool;
 
     function run() external {
         // Get deployment configuration from environment
         uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
         address backendSigner = vm.envAddress("BACKEND_SIGNER");
+        address cosigner = vm.envOr("COSIGNER", address(0));
         address airdropWallet = vm.envOr("AIRDROP_WALLET", msg.sender);
 
         // Determine USDC address based on chain
@@ -52,6 +67,7 @@ contract DeployDuelBase is Script {
         console.log("Deploying DuelBase contracts...");
         console.log("Chain ID:", block.chainid);
         console.log("Backend Signer:", backendSigner);
+        console.log("Cosigner:", cosigner);
         console.log("USDC Address:", usdcAddress);
         console.log("Airdrop Wallet:", airdropWallet);
 
@@ -65,6 +81,27 @@ contract DeployDuelBase is Script {
         gameManager = new GameManager(address(duelToken), backendSigner);
         console.log("GameManager deployed at:", address(gameManager));
 
+        // Require a second verifier's signature on every result when one is configured
+        if (cosigner != address(0)) {
+            gameManager.addSigner(cosigner);
+            gameManager.setSignerThreshold(2);
+            console.log("Added cosigner, results need 2 of 2 signatures");
+        }
+
+        // Allow USDC wagers alongside DUEL
+        gameManager.setTokenConfig(usdcAddress, true, USDC_MIN_WAGER, USDC_MAX_WAGER);
+        console.log("Allowlisted USDC for wagers");
+
+        // Take a fee on wins (referral rewards are paid out of it)
+        for (uint8 gameType = 0; gameType < gameManager.gameTypeCount(); gameType++) {
+            gameManager.setFeePercent(gameType, PROTOCOL_FEE);
+        }
+        console.log("Protocol fee (bps of pot):", PROTOCOL_FEE);
+
+        // Reward players for inviting new players
+        gameManager.setReferralShare(REFERRAL_SHARE);
+        console.log("Referral share (bps of protocol fee):", REFERRAL_SHARE);
+
         // 3. Deploy TokenStore
         tokenStore = new TokenStore(address(duelToken), usdcAddress, INITIAL_PRICE);
         console.log("TokenStore deployed at:", address(tokenStore));
@@ -73,11 +110,19 @@ contract DeployDuelBase is Script {
         ticTacToeGame = new TicTacToeGame(address(duelToken));
         console.log("TicTacToeGame deployed at:", address(ticTacToeGame));
 
-        // 6. Transfer tokens to TokenStore
+        // 5. Deploy Tournament (shares the GameManager's backend signers)
+        tournament = new Tournament(address(duelToken), address(gameManager));
+        console.log("Tournament deployed at:", address(tournament));
+
+        // 6. Deploy SidePool (settles from the GameManager's games and signers)
+        sidePool = new SidePool(address(duelToken), address(gameManager));
+        console.log("SidePool deployed at:", address(sidePool));
+
+        // 7. Transfer tokens to TokenStore
         duelToken.transfer(address(tokenStore), STORE_INVENTORY);
         console.log("Transferred", STORE_INVENTORY / 1e18, "DUEL to TokenStore");
 
-        // 7. Transfer tokens to airdrop wallet
+        // 8. Transfer tokens to airdrop wallet
         duelToken.transfer(airdropWallet, AIRDROP_POOL);
         console.log("Transferred", AIRDROP_POOL / 1e18, "DUEL to airdrop wallet");
 
@@ -89,6 +134,8 @@ contract DeployDuelBase is Script {
         console.log("GameManager:", address(gameManager));
         console.log("TokenStore:", address(tokenStore));
         console.log("TicTacToeGame:", address(ticTacToeGame));
+        console.log("Tournament:", address(tournament));
+        console.log("SidePool:", address(sidePool));
         console.log("\nToken Distribution:");
         console.log("- Store Inventory:", STORE_INVENTORY / 1e18, "DUEL");
         console.log("- Airdrop Pool:", AIRDROP_POOL / 1e18, "DUEL");
@@ -135,6 +182,7 @@ contract DeployDuelBaseLocal is Script {
         // Deploy GameManager with deployer as backend signer for testing
         GameManager gameManager = new GameManager(address(duelToken), msg.sender);
         console.log("GameManager deployed at:", address(gameManager));
+        gameManager.setTokenConfig(address(mockUsdc), true, 1e6, 1_000 * 1e6);
 
         // Deploy TokenStore
         TokenStore tokenStore = new TokenStore(address(duelToken), address(mockUsdc), INITIAL_PRICE);
@@ -144,6 +192,14 @@ contract DeployDuelBaseLocal is Script {
         TicTacToeGame ticTacToeGame = new TicTacToeGame(address(duelToken));
         console.log("TicTacToeGame deployed at:", address(ticTacToeGame));
 
+        // Deploy Tournament
+        Tournament tournament = new Tournament(address(duelToken), address(gameManager));
+        console.log("Tournament deployed at:", address(tournament));
+
+        // Deploy SidePool
+        SidePool sidePool = new SidePool(address(duelToken), address(gameManager));
+        console.log("SidePool deployed at:", address(sidePool));
+
         // Transfer tokens to TokenStore
         duelToken.transfer(address(tokenStore), STORE_INVENTORY);
         console.log("Transferred", STORE_INVENTORY / 1e18, "DUEL to TokenStore");
@@ -2,14 +2,15 @@
 pragma solidity ^0.8.24;
 
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
  * @title DuelBaseToken
  * @notice ERC-20 token used for wagering in DuelBase games
- * @dev Standard ERC-20 with owner-controlled minting capability
+ * @dev Standard ERC-20 with owner-controlled minting and EIP-2612 permit approvals
  */
-contract DuelBaseToken is ERC20, Ownable {
+contract DuelBaseToken is ERC20, ERC20Permit, Ownable {
     /**
      * @notice Emitted when tokens are minted
      * @param to The address receiving the minted tokens
@@ -21,7 +22,9 @@ contract DuelBaseToken is ERC20, Ownable {
      * @notice Creates a new DuelBase Token with an initial supply
      * @param initialSupply The initial supply of tokens to mint to the deployer
      */
-    constructor(uint256 initialSupply) ERC20("DuelBase Token", "DUEL") Ownable(msg.sender) {
+    constructor(
+        uint256 initialSupply
+    ) ERC20("DuelBase Token", "DUEL") ERC20Permit("DuelBase Token") Ownable(msg.sender) {
         _mint(msg.sender, initialSupply);
     }
 
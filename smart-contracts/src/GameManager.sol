@@ -2,29 +2,28 @@
 pragma solidity ^0.8.24;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {GuardianPausable} from "./GuardianPausable.sol";
 
 /**
  * @title GameManager
  * @notice Manages game creation, joining, and wager distribution for DuelBase games
- * @dev Uses EIP-712 typed data for backend signature verification
+ * @dev Uses EIP-712 typed data for backend signature verification. While
+ *      paused, no games can be created or joined, but escrowed games can still
+ *      be completed, drawn, cancelled and abandoned.
  */
-contract GameManager is Ownable, ReentrancyGuard {
+contract GameManager is GuardianPausable, ReentrancyGuard {
     using SafeERC20 for IERC20;
     using ECDSA for bytes32;
     using MessageHashUtils for bytes32;
 
     // ============ Enums ============
 
-    enum GameType {
-        TicTacToe,
-        ConnectFour
-    }
-
     enum GameStatus {
         Created,
         Active,
@@ -37,51 +36,136 @@ contract GameManager is Ownable, ReentrancyGuard {
     struct Game {
         uint256 id;
         address player1;
-        address player2;
+        address player2; // address(0) for an open challenge until someone joins
+        address token; // ERC-20 both wagers are escrowed in
         uint256 wagerAmount; // Base wager (what player1 pays)
         uint256 player2Wager; // wager - edge (reduced for second player disadvantage)
-        GameType gameType;
+        uint256 protocolFee; // Taken from the pot on a win (fixed at creation)
+        uint8 gameType; // ID in the game type registry
+        uint8 bestOf; // Games in the series (1 for a single game); escrow settles on the series result
         GameStatus status;
         uint256 createdAt;
+        uint256 startedAt; // When player2 joined (0 until the game is Active)
         address winner;
     }
 
+    struct GameTypeConfig {
+        uint8 id;
+        bool enabled; // Whether new games may be created as this type
+        string name;
+        uint256 edgePercent; // Player2's wager reduction (in basis points, e.g., 500 = 5%)
+        uint256 minWager;
+        uint256 maxWager; // 0 for no maximum
+    }
+
+    struct TokenConfig {
+        bool allowed;
+        uint256 minWager;
+        uint256 maxWager; // 0 for no maximum
+    }
+
     // ============ State Variables ============
 
-    /// @notice The DUEL token used for wagering
+    /// @notice The DUEL token, used by createGame and allowlisted at deployment
     IERC20 public immutable duelToken;
 
-    /// @notice The backend signer address for winner verification
-    address public backendSigner;
+    /// @notice Allowlist and wager limits for each wager token
+    mapping(address => TokenConfig) public tokenConfigs;
+
+    /// @notice Whether an address is in the backend signer set
+    mapping(address => bool) public isSigner;
+
+    /// @notice The backend signer set (independent verifier instances)
+    address[] internal signers;
+
+    /// @notice Distinct signers a result needs before it is accepted (M of N)
+    uint256 public signerThreshold;
 
     /// @notice Timeout duration after which a game can be cancelled (default: 24 hours)
     uint256 public cancelTimeout = 24 hours;
 
+    /// @notice Time after a game starts with no result before both players can be refunded (default: 7 days)
+    uint256 public abandonTimeout = 7 days;
+
     /// @notice Counter for game IDs
     uint256 public nextGameId;
 
     /// @notice Mapping of game ID to Game struct
-    mapping(uint256 => Game) public games;
+    /// @dev Internal because the struct is too wide for an auto-generated getter; read it through getGame
+    mapping(uint256 => Game) internal games;
+
+    /// @notice IDs of the games each address created, joined or was invited to, oldest first
+    /// @dev Read through getGamesByPlayer and getGamesByPlayerWithStatus
+    mapping(address => uint256[]) internal playerGames;
+
+    /// @notice Player with an open draw offer on each Active game (address(0) if none)
+    mapping(uint256 => address) public drawOfferedBy;
+
+    /// @notice Registered game types, by ID
+    /// @dev Read through getGameType and getGameTypes. Player2's wager is
+    ///      reduced by the type's edge to compensate player1 for going first
+    mapping(uint8 => GameTypeConfig) internal gameTypes;
+
+    /// @notice Number of registered game types (IDs are 0 to gameTypeCount - 1)
+    uint8 public gameTypeCount;
+
+    /// @notice Protocol fee per game type (in basis points of the total pot)
+    mapping(uint8 => uint256) public feePercent;
+
+    /// @notice Player who referred each player (address(0) if none)
+    /// @dev Recorded when a player joins their first game with a referrer
+    mapping(address => address) public referrerOf;
 
-    /// @notice Edge percentage per game type (in basis points, e.g., 500 = 5%)
-    /// @dev Player2's wager is reduced by this percentage to compensate player1 for going first
-    mapping(GameType => uint256) public edgePercent;
+    /// @notice Whether each address has created or joined a game
+    /// @dev Games a player was only invited to don't count, so an invite
+    ///      still earns its referrer when the player first joins
+    mapping(address => bool) public hasPlayed;
+
+    /// @notice Share of a won game's protocol fee paid to each player's referrer (in basis points)
+    uint256 public referralShare;
+
+    /// @notice Referral rewards each referrer can claim, per token
+    mapping(address => mapping(address => uint256)) public referralEarnings;
+
+    /// @notice Address that receives withdrawn protocol fees
+    address public treasury;
+
+    /// @notice Protocol fees collected from completed games per token, not yet withdrawn
+    mapping(address => uint256) public accruedFees;
 
     /// @notice Mapping to track used signatures (prevents replay)
     mapping(bytes32 => bool) public usedSignatures;
 
+    /// @notice Nonce every result signature must be signed over
+    /// @dev Bumped by invalidateSignatures to revoke all outstanding signatures
+    uint256 public signatureNonce;
+
     // ============ Constants ============
 
     /// @notice Maximum edge percentage (50%)
     uint256 public constant MAX_EDGE_PERCENT = 5000;
 
+    /// @notice Maximum protocol fee (10%)
+    uint256 public constant MAX_FEE_PERCENT = 1000;
+
+    /// @notice Maximum referral share per referred player (50%, so two referrers can take the whole fee)
+    uint256 public constant MAX_REFERRAL_SHARE = 5000;
+
     /// @notice Basis points denominator
     uint256 public constant BASIS_POINTS = 10000;
 
+    /// @notice Longest series a game can be created as
+    uint8 public constant MAX_BEST_OF = 9;
+
     // ============ EIP-712 Constants ============
 
     bytes32 public constant GAME_RESULT_TYPEHASH =
-        keccak256("GameResult(uint256 gameId,address winner)");
+        keccak256(
+            "GameResult(uint256 gameId,address winner,uint256 nonce,uint256 deadline)"
+        );
+
+    bytes32 public constant GAME_DRAW_TYPEHASH =
+        keccak256("GameDraw(uint256 gameId,uint256 nonce,uint256 deadline)");
 
     bytes32 public immutable DOMAIN_SEPARATOR;
 
@@ -91,9 +175,10 @@ contract GameManager is Ownable, ReentrancyGuard {
         uint256 indexed gameId,
         address indexed player1,
         address indexed player2,
+        address token,
         uint256 wagerAmount,
         uint256 player2Wager,
-        GameType gameType
+        uint8 gameType
     );
 
     event GameJoined(uint256 indexed gameId, address indexed player2);
@@ -104,17 +189,94 @@ contract GameManager is Ownable, ReentrancyGuard {
         uint256 totalPayout
     );
 
+    event GameDrawn(
+        uint256 indexed gameId,
+        uint256 player1Refund,
+        uint256 player2Refund
+    );
+
+    event GameResigned(uint256 indexed gameId, address indexed player);
+
+    event DrawOffered(uint256 indexed gameId, address indexed player);
+
+    event DrawOfferWithdrawn(uint256 indexed gameId, address indexed player);
+
     event GameCancelled(uint256 indexed gameId, address indexed canceller);
 
-    event BackendSignerUpdated(
-        address indexed oldSigner,
-        address indexed newSigner
+    event GameAbandoned(
+        uint256 indexed gameId,
+        address indexed caller,
+        uint256 player1Refund,
+        uint256 player2Refund
+    );
+
+    event SignerAdded(address indexed signer);
+
+    event SignerRemoved(address indexed signer);
+
+    event SignerThresholdUpdated(uint256 oldThreshold, uint256 newThreshold);
+
+    event GameTypeAdded(
+        uint8 indexed gameTypeId,
+        string name,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    );
+
+    event GameTypeUpdated(
+        uint8 indexed gameTypeId,
+        bool enabled,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    );
+
+    event FeePercentUpdated(uint8 indexed gameType, uint256 newFeePercent);
+
+    event TreasuryUpdated(
+        address indexed oldTreasury,
+        address indexed newTreasury
+    );
+
+    event FeesAccrued(uint256 indexed gameId, uint256 amount);
+
+    event FeesWithdrawn(
+        address indexed token,
+        address indexed treasury,
+        uint256 amount
+    );
+
+    event TokenConfigUpdated(
+        address indexed token,
+        bool allowed,
+        uint256 minWager,
+        uint256 maxWager
     );
 
-    event EdgePercentUpdated(GameType indexed gameType, uint256 newEdgePercent);
+    event ReferrerSet(address indexed player, address indexed referrer);
+
+    event ReferralShareUpdated(uint256 oldShare, uint256 newShare);
+
+    event ReferralRewardAccrued(
+        uint256 indexed gameId,
+        address indexed referrer,
+        address indexed player,
+        uint256 amount
+    );
+
+    event ReferralEarningsClaimed(
+        address indexed referrer,
+        address indexed token,
+        uint256 amount
+    );
 
     event CancelTimeoutUpdated(uint256 oldTimeout, uint256 newTimeout);
 
+    event AbandonTimeoutUpdated(uint256 oldTimeout, uint256 newTimeout);
+
+    event SignaturesInvalidated(uint256 newNonce);
+
     // ============ Errors ============
 
     error InvalidAddress();
@@ -125,16 +287,31 @@ contract GameManager is Ownable, ReentrancyGuard {
     error InvalidWinner();
     error NotPlayer();
     error NotPlayer2();
+    error CannotJoinOwnGame();
     error TimeoutNotReached();
     error EdgePercentTooHigh();
+    error FeePercentTooHigh();
+    error ReferralShareTooHigh();
     error SignatureAlreadyUsed();
+    error SignatureExpired();
+    error InsufficientSignatures();
+    error SignerAlreadyAdded();
+    error NotSigner();
+    error InvalidThreshold();
+    error TokenNotAllowed();
+    error WagerOutOfRange();
+    error InvalidBestOf();
+    error NoDrawOffer();
+    error UnknownGameType();
+    error GameTypeDisabled();
+    error EmptyName();
 
     // ============ Constructor ============
 
     /**
      * @notice Creates a new GameManager contract
      * @param _duelToken The DUEL token address
-     * @param _backendSigner The backend signer address for winner verification
+     * @param _backendSigner The initial backend signer (threshold starts at 1)
      */
     constructor(address _duelToken, address _backendSigner) Ownable(msg.sender) {
         if (_duelToken == address(0) || _backendSigner == address(0)) {
@@ -142,12 +319,17 @@ contract GameManager is Ownable, ReentrancyGuard {
         }
 
         duelToken = IERC20(_duelToken);
-        backendSigner = _backendSigner;
+        isSigner[_backendSigner] = true;
+        signers.push(_backendSigner);
+        signerThreshold = 1;
+        treasury = msg.sender;
 
-        // Set default edge percentages (in basis points)
-        // Player2's wager is reduced by this percentage
-        edgePercent[GameType.TicTacToe] = 500; // 5% reduction for player2
-        edgePercent[GameType.ConnectFour] = 300; // 3% reduction for player2
+        // DUEL is allowlisted from the start, with no wager limits
+        tokenConfigs[_duelToken].allowed = true;
+
+        // Register the launch game types; player2's wager is reduced by the edge
+        _addGameType("Tic-Tac-Toe", 500, 0, 0); // 5% reduction for player2
+        _addGameType("Connect Four", 300, 0, 0); // 3% reduction for player2
 
         // Build EIP-712 domain separator
         DOMAIN_SEPARATOR = keccak256(
@@ -166,8 +348,8 @@ contract GameManager is Ownable, ReentrancyGuard {
     // ============ External Functions ============
 
     /**
-     * @notice Creates a new game with a wager
-     * @param opponent The address of the opponent (player2)
+     * @notice Creates a new game with a DUEL wager
+     * @param opponent The address of the opponent (player2), or address(0) for an open challenge
      * @param wagerAmount The base wager amount (what player1 will pay)
      * @param gameType The type of game to play
      * @return gameId The ID of the created game
@@ -175,83 +357,153 @@ contract GameManager is Ownable, ReentrancyGuard {
     function createGame(
         address opponent,
         uint256 wagerAmount,
-        GameType gameType
-    ) external nonReentrant returns (uint256 gameId) {
-        if (opponent == address(0) || opponent == msg.sender) {
-            revert InvalidAddress();
-        }
-        if (wagerAmount == 0) {
-            revert InvalidAmount();
-        }
+        uint8 gameType
+    ) external nonReentrant whenNotPaused returns (uint256 gameId) {
+        return
+            _createGame(
+                opponent,
+                address(duelToken),
+                wagerAmount,
+                gameType,
+                1
+            );
+    }
 
-        gameId = nextGameId++;
+    /**
+     * @notice Creates a new game or best-of-N series with a wager in an allowlisted token
+     * @param opponent The address of the opponent (player2), or address(0) for an open challenge
+     * @param token The allowlisted ERC-20 both players wager in
+     * @param wagerAmount The base wager amount (what player1 will pay)
+     * @param gameType The type of game to play
+     * @param bestOf Games in the series (odd, 1 for a single game)
+     * @return gameId The ID of the created game
+     */
+    function createGameWithToken(
+        address opponent,
+        address token,
+        uint256 wagerAmount,
+        uint8 gameType,
+        uint8 bestOf
+    ) external nonReentrant whenNotPaused returns (uint256 gameId) {
+        return _createGame(opponent, token, wagerAmount, gameType, bestOf);
+    }
 
-        // Calculate player2's reduced wager (edge compensates for second-mover disadvantage)
-        uint256 edge = (wagerAmount * edgePercent[gameType]) / BASIS_POINTS;
-        uint256 player2Wager = wagerAmount - edge;
+    /**
+     * @notice Creates a new game, approving the wager with an EIP-2612 permit
+     * @param opponent The address of the opponent (player2), or address(0) for an open challenge
+     * @param token The allowlisted ERC-20 both players wager in (must support EIP-2612)
+     * @param wagerAmount The base wager amount (what player1 will pay)
+     * @param gameType The type of game to play
+     * @param bestOf Games in the series (odd, 1 for a single game)
+     * @param deadline The permit deadline
+     * @param v The permit signature's recovery byte
+     * @param r The permit signature's r value
+     * @param s The permit signature's s value
+     * @return gameId The ID of the created game
+     */
+    function createGameWithPermit(
+        address opponent,
+        address token,
+        uint256 wagerAmount,
+        uint8 gameType,
+        uint8 bestOf,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused returns (uint256 gameId) {
+        _permit(token, wagerAmount, deadline, v, r, s);
+        return _createGame(opponent, token, wagerAmount, gameType, bestOf);
+    }
 
-        // Create the game
-        games[gameId] = Game({
-            id: gameId,
-            player1: msg.sender,
-            player2: opponent,
-            wagerAmount: wagerAmount,
-            player2Wager: player2Wager,
-            gameType: gameType,
-            status: GameStatus.Created,
-            createdAt: block.timestamp,
-            winner: address(0)
-        });
+    /**
+     * @notice Joins an existing game
+     * @dev Open challenges are claimed by the first caller other than player1
+     * @param gameId The ID of the game to join
+     */
+    function joinGame(uint256 gameId) external nonReentrant whenNotPaused {
+        _joinGame(gameId, address(0));
+    }
 
-        // Transfer player1's wager to the contract (full wager amount)
-        duelToken.safeTransferFrom(msg.sender, address(this), wagerAmount);
+    /**
+     * @notice Joins an existing game, crediting the player who invited the caller
+     * @dev The referrer is only recorded if this is the caller's first game
+     * @param gameId The ID of the game to join
+     * @param referrer The inviting player, paid a share of the caller's protocol fees
+     */
+    function joinGame(
+        uint256 gameId,
+        address referrer
+    ) external nonReentrant whenNotPaused {
+        _joinGame(gameId, referrer);
+    }
 
-        emit GameCreated(
-            gameId,
-            msg.sender,
-            opponent,
-            wagerAmount,
-            player2Wager,
-            gameType
-        );
+    /**
+     * @notice Joins an existing game, approving the stake with an EIP-2612 permit
+     * @param gameId The ID of the game to join
+     * @param deadline The permit deadline
+     * @param v The permit signature's recovery byte
+     * @param r The permit signature's r value
+     * @param s The permit signature's s value
+     */
+    function joinGameWithPermit(
+        uint256 gameId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        _joinGameWithPermit(gameId, address(0), deadline, v, r, s);
     }
 
     /**
-     * @notice Joins an existing game
+     * @notice Joins an existing game with a permit, crediting the player who invited the caller
      * @param gameId The ID of the game to join
+     * @param referrer The inviting player (only recorded on the caller's first game)
+     * @param deadline The permit deadline
+     * @param v The permit signature's recovery byte
+     * @param r The permit signature's r value
+     * @param s The permit signature's s value
      */
-    function joinGame(uint256 gameId) external nonReentrant {
-        Game storage game = games[gameId];
+    function joinGameWithPermit(
+        uint256 gameId,
+        address referrer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
+        _joinGameWithPermit(gameId, referrer, deadline, v, r, s);
+    }
 
-        if (game.player1 == address(0)) {
-            revert InvalidGameId();
-        }
-        if (game.status != GameStatus.Created) {
-            revert InvalidGameStatus();
-        }
-        if (msg.sender != game.player2) {
-            revert NotPlayer2();
+    /**
+     * @notice Sends the caller's accrued referral rewards in a token
+     * @param token The token to claim rewards in
+     */
+    function claimReferralEarnings(address token) external nonReentrant {
+        uint256 amount = referralEarnings[msg.sender][token];
+        if (amount == 0) {
+            revert InvalidAmount();
         }
 
-        // Update game status
-        game.status = GameStatus.Active;
-
-        // Transfer player2's reduced wager to the contract
-        duelToken.safeTransferFrom(msg.sender, address(this), game.player2Wager);
+        referralEarnings[msg.sender][token] = 0;
+        IERC20(token).safeTransfer(msg.sender, amount);
 
-        emit GameJoined(gameId, msg.sender);
+        emit ReferralEarningsClaimed(msg.sender, token, amount);
     }
 
     /**
      * @notice Completes a game with a backend-signed result
      * @param gameId The ID of the game to complete
      * @param winner The address of the winner
-     * @param signature The backend signature proving the winner
+     * @param deadline Timestamp after which the signatures are no longer accepted
+     * @param signatures Backend signatures proving the winner, ordered by signer address
      */
     function completeGame(
         uint256 gameId,
         address winner,
-        bytes calldata signature
+        uint256 deadline,
+        bytes[] calldata signatures
     ) external nonReentrant {
         Game storage game = games[gameId];
 
@@ -265,36 +517,122 @@ contract GameManager is Ownable, ReentrancyGuard {
             revert InvalidWinner();
         }
 
-        // Verify the backend signature
-        bytes32 structHash = keccak256(
-            abi.encode(GAME_RESULT_TYPEHASH, gameId, winner)
+        // Verify the backend signatures
+        _useSignatures(
+            keccak256(
+                abi.encode(
+                    GAME_RESULT_TYPEHASH,
+                    gameId,
+                    winner,
+                    signatureNonce,
+                    deadline
+                )
+            ),
+            deadline,
+            signatures
         );
-        bytes32 digest = keccak256(
-            abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash)
+
+        _settleWin(game, winner);
+    }
+
+    /**
+     * @notice Settles a drawn game with a backend-signed draw result
+     * @dev Refunds each player exactly what they escrowed
+     * @param gameId The ID of the game to settle
+     * @param deadline Timestamp after which the signatures are no longer accepted
+     * @param signatures Backend signatures proving the draw, ordered by signer address
+     */
+    function completeGameAsDraw(
+        uint256 gameId,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external nonReentrant {
+        Game storage game = games[gameId];
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+        if (game.status != GameStatus.Active) {
+            revert InvalidGameStatus();
+        }
+
+        // Verify the backend signatures
+        _useSignatures(
+            keccak256(
+                abi.encode(GAME_DRAW_TYPEHASH, gameId, signatureNonce, deadline)
+            ),
+            deadline,
+            signatures
         );
 
-        // Check for signature replay
-        if (usedSignatures[digest]) {
-            revert SignatureAlreadyUsed();
+        _settleDraw(game);
+    }
+
+    /**
+     * @notice Concedes an Active game, paying the opponent immediately
+     * @dev Needs no backend signature: only the loser can give up their stake.
+     *      In a series this concedes the whole series.
+     * @param gameId The ID of the game to resign
+     */
+    function resign(uint256 gameId) external nonReentrant {
+        Game storage game = _activeGameOf(gameId, msg.sender);
+        address winner = msg.sender == game.player1
+            ? game.player2
+            : game.player1;
+
+        emit GameResigned(gameId, msg.sender);
+
+        _settleWin(game, winner);
+    }
+
+    /**
+     * @notice Offers the opponent a draw on an Active game
+     * @dev The offer stands until it is withdrawn, accepted, or the game is
+     *      settled. If the opponent already has an offer open, this accepts it.
+     * @param gameId The ID of the game
+     */
+    function offerDraw(uint256 gameId) external nonReentrant {
+        Game storage game = _activeGameOf(gameId, msg.sender);
+        address offeredBy = drawOfferedBy[gameId];
+
+        if (offeredBy != address(0) && offeredBy != msg.sender) {
+            _settleDraw(game);
+            return;
         }
-        usedSignatures[digest] = true;
 
-        address recoveredSigner = digest.recover(signature);
-        if (recoveredSigner != backendSigner) {
-            revert InvalidSignature();
+        drawOfferedBy[gameId] = msg.sender;
+
+        emit DrawOffered(gameId, msg.sender);
+    }
+
+    /**
+     * @notice Accepts the opponent's draw offer, refunding both players
+     * @dev Needs no backend signature since both players have agreed
+     * @param gameId The ID of the game
+     */
+    function acceptDraw(uint256 gameId) external nonReentrant {
+        Game storage game = _activeGameOf(gameId, msg.sender);
+        address offeredBy = drawOfferedBy[gameId];
+
+        if (offeredBy == address(0) || offeredBy == msg.sender) {
+            revert NoDrawOffer();
         }
 
-        // Update game status
-        game.status = GameStatus.Completed;
-        game.winner = winner;
+        _settleDraw(game);
+    }
 
-        // Calculate total payout (player1's full wager + player2's reduced wager)
-        uint256 totalPayout = game.wagerAmount + game.player2Wager;
+    /**
+     * @notice Withdraws the caller's open draw offer
+     * @param gameId The ID of the game
+     */
+    function withdrawDrawOffer(uint256 gameId) external {
+        if (drawOfferedBy[gameId] != msg.sender) {
+            revert NoDrawOffer();
+        }
 
-        // Transfer winnings to the winner
-        duelToken.safeTransfer(winner, totalPayout);
+        delete drawOfferedBy[gameId];
 
-        emit GameCompleted(gameId, winner, totalPayout);
+        emit DrawOfferWithdrawn(gameId, msg.sender);
     }
 
     /**
@@ -321,102 +659,993 @@ contract GameManager is Ownable, ReentrancyGuard {
         game.status = GameStatus.Cancelled;
 
         // Refund player1's full wager
-        duelToken.safeTransfer(game.player1, game.wagerAmount);
+        IERC20(game.token).safeTransfer(game.player1, game.wagerAmount);
 
         emit GameCancelled(gameId, msg.sender);
     }
 
+    /**
+     * @notice Refunds both players of an Active game that never received a result
+     * @dev Escape hatch for when the backend signer is unavailable
+     * @param gameId The ID of the game to abandon
+     */
+    function abandonGame(uint256 gameId) external nonReentrant {
+        Game storage game = games[gameId];
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+        if (game.status != GameStatus.Active) {
+            revert InvalidGameStatus();
+        }
+        if (msg.sender != game.player1 && msg.sender != game.player2) {
+            revert NotPlayer();
+        }
+        if (block.timestamp < game.startedAt + abandonTimeout) {
+            revert TimeoutNotReached();
+        }
+
+        // Update game status
+        game.status = GameStatus.Cancelled;
+
+        // Refund both players' escrowed wagers
+        IERC20(game.token).safeTransfer(game.player1, game.wagerAmount);
+        IERC20(game.token).safeTransfer(game.player2, game.player2Wager);
+
+        emit GameAbandoned(
+            gameId,
+            msg.sender,
+            game.wagerAmount,
+            game.player2Wager
+        );
+    }
+
     // ============ Admin Functions ============
 
     /**
-     * @notice Updates the backend signer address
-     * @param newSigner The new backend signer address
+     * @notice Adds a backend signer to the signer set
+     * @param signer The signer address to add
      */
-    function setBackendSigner(address newSigner) external onlyOwner {
-        if (newSigner == address(0)) {
+    function addSigner(address signer) external onlyOwner {
+        if (signer == address(0)) {
             revert InvalidAddress();
         }
+        if (isSigner[signer]) {
+            revert SignerAlreadyAdded();
+        }
 
-        address oldSigner = backendSigner;
-        backendSigner = newSigner;
+        isSigner[signer] = true;
+        signers.push(signer);
 
-        emit BackendSignerUpdated(oldSigner, newSigner);
+        emit SignerAdded(signer);
     }
 
     /**
-     * @notice Updates the edge percentage for a game type
-     * @param gameType The game type to update
-     * @param newEdgePercent The new edge percentage (in basis points)
+     * @notice Removes a backend signer from the signer set
+     * @dev Reverts if the set would shrink below the threshold; lower it first
+     * @param signer The signer address to remove
      */
-    function setEdgePercent(
-        GameType gameType,
-        uint256 newEdgePercent
-    ) external onlyOwner {
-        if (newEdgePercent > MAX_EDGE_PERCENT) {
-            revert EdgePercentTooHigh();
+    function removeSigner(address signer) external onlyOwner {
+        if (!isSigner[signer]) {
+            revert NotSigner();
+        }
+        if (signers.length - 1 < signerThreshold) {
+            revert InvalidThreshold();
         }
 
-        edgePercent[gameType] = newEdgePercent;
+        isSigner[signer] = false;
+        for (uint256 i = 0; i < signers.length; i++) {
+            if (signers[i] == signer) {
+                signers[i] = signers[signers.length - 1];
+                signers.pop();
+                break;
+            }
+        }
 
-        emit EdgePercentUpdated(gameType, newEdgePercent);
+        emit SignerRemoved(signer);
     }
 
     /**
-     * @notice Updates the cancel timeout duration
-     * @param newTimeout The new timeout duration in seconds
+     * @notice Updates how many distinct signers a result needs
+     * @param newThreshold The new threshold (1 to the signer set size)
      */
-    function setCancelTimeout(uint256 newTimeout) external onlyOwner {
-        uint256 oldTimeout = cancelTimeout;
-        cancelTimeout = newTimeout;
+    function setSignerThreshold(uint256 newThreshold) external onlyOwner {
+        if (newThreshold == 0 || newThreshold > signers.length) {
+            revert InvalidThreshold();
+        }
 
-        emit CancelTimeoutUpdated(oldTimeout, newTimeout);
-    }
+        uint256 oldThreshold = signerThreshold;
+        signerThreshold = newThreshold;
 
-    // ============ View Functions ============
+        emit SignerThresholdUpdated(oldThreshold, newThreshold);
+    }
 
     /**
-     * @notice Gets the details of a game
-     * @param gameId The ID of the game
-     * @return The Game struct
+     * @notice Revokes every outstanding result and draw signature
+     * @dev The backend must sign new results over the bumped nonce
      */
-    function getGame(uint256 gameId) external view returns (Game memory) {
-        return games[gameId];
+    function invalidateSignatures() external onlyOwner {
+        signatureNonce++;
+
+        emit SignaturesInvalidated(signatureNonce);
     }
 
     /**
-     * @notice Calculates the player2 wager for a given base wager and game type
-     * @param wagerAmount The base wager amount (what player1 pays)
-     * @param gameType The game type
-     * @return The player2 wager amount (reduced by edge)
+     * @notice Registers a new game type, enabled for new games
+     * @param name Display name for the game type
+     * @param edgePercent Player2's wager reduction (in basis points)
+     * @param minWager The minimum base wager
+     * @param maxWager The maximum base wager (0 for no maximum)
+     * @return gameTypeId The ID of the registered game type
      */
-    function calculatePlayer2Wager(
-        uint256 wagerAmount,
-        GameType gameType
-    ) external view returns (uint256) {
-        uint256 edge = (wagerAmount * edgePercent[gameType]) / BASIS_POINTS;
-        return wagerAmount - edge;
+    function addGameType(
+        string calldata name,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    ) external onlyOwner returns (uint8 gameTypeId) {
+        return _addGameType(name, edgePercent, minWager, maxWager);
     }
 
     /**
-     * @notice Verifies a game result signature without executing
-     * @param gameId The game ID
-     * @param winner The winner address
-     * @param signature The signature to verify
-     * @return True if the signature is valid
+     * @notice Enables or disables a game type, or updates its edge and wager limits
+     * @dev Disabling a game type only blocks new games; existing games still
+     *      settle. Edge changes only apply to games created after the update
+     * @param gameTypeId The game type to update
+     * @param enabled Whether new games may be created as this type
+     * @param edgePercent Player2's wager reduction (in basis points)
+     * @param minWager The minimum base wager
+     * @param maxWager The maximum base wager (0 for no maximum)
      */
-    function verifySignature(
-        uint256 gameId,
-        address winner,
-        bytes calldata signature
-    ) external view returns (bool) {
-        bytes32 structHash = keccak256(
-            abi.encode(GAME_RESULT_TYPEHASH, gameId, winner)
-        );
-        bytes32 digest = keccak256(
-            abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash)
+    function updateGameType(
+        uint8 gameTypeId,
+        bool enabled,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    ) external onlyOwner {
+        GameTypeConfig storage config = _gameType(gameTypeId);
+        _validateGameTypeTerms(edgePercent, minWager, maxWager);
+
+        config.enabled = enabled;
+        config.edgePercent = edgePercent;
+        config.minWager = minWager;
+        config.maxWager = maxWager;
+
+        emit GameTypeUpdated(
+            gameTypeId,
+            enabled,
+            edgePercent,
+            minWager,
+            maxWager
         );
+    }
+
+    /**
+     * @notice Updates the protocol fee for a game type
+     * @dev Only applies to games created after the update
+     * @param gameType The game type to update
+     * @param newFeePercent The new fee (in basis points of the total pot)
+     */
+    function setFeePercent(
+        uint8 gameType,
+        uint256 newFeePercent
+    ) external onlyOwner {
+        _gameType(gameType);
+        if (newFeePercent > MAX_FEE_PERCENT) {
+            revert FeePercentTooHigh();
+        }
+
+        feePercent[gameType] = newFeePercent;
+
+        emit FeePercentUpdated(gameType, newFeePercent);
+    }
+
+    /**
+     * @notice Updates the share of protocol fees paid to referrers
+     * @dev Applies to games settled after the update
+     * @param newShare The new share per referred player (in basis points of the protocol fee)
+     */
+    function setReferralShare(uint256 newShare) external onlyOwner {
+        if (newShare > MAX_REFERRAL_SHARE) {
+            revert ReferralShareTooHigh();
+        }
+
+        uint256 oldShare = referralShare;
+        referralShare = newShare;
+
+        emit ReferralShareUpdated(oldShare, newShare);
+    }
+
+    /**
+     * @notice Updates the treasury address that receives protocol fees
+     * @param newTreasury The new treasury address
+     */
+    function setTreasury(address newTreasury) external onlyOwner {
+        if (newTreasury == address(0)) {
+            revert InvalidAddress();
+        }
+
+        address oldTreasury = treasury;
+        treasury = newTreasury;
+
+        emit TreasuryUpdated(oldTreasury, newTreasury);
+    }
+
+    /**
+     * @notice Sends all accrued protocol fees in a token to the treasury
+     * @param token The token to withdraw fees in
+     */
+    function withdrawFees(address token) external onlyOwner nonReentrant {
+        uint256 amount = accruedFees[token];
+        if (amount == 0) {
+            revert InvalidAmount();
+        }
+
+        accruedFees[token] = 0;
+        IERC20(token).safeTransfer(treasury, amount);
+
+        emit FeesWithdrawn(token, treasury, amount);
+    }
+
+    /**
+     * @notice Allowlists a wager token or updates its wager limits
+     * @dev Delisting a token only blocks new games; existing games still settle in it
+     * @param token The ERC-20 to configure
+     * @param allowed Whether new games may be created in the token
+     * @param minWager The minimum base wager
+     * @param maxWager The maximum base wager (0 for no maximum)
+     */
+    function setTokenConfig(
+        address token,
+        bool allowed,
+        uint256 minWager,
+        uint256 maxWager
+    ) external onlyOwner {
+        if (token == address(0)) {
+            revert InvalidAddress();
+        }
+        if (maxWager != 0 && minWager > maxWager) {
+            revert InvalidAmount();
+        }
+
+        tokenConfigs[token] = TokenConfig({
+            allowed: allowed,
+            minWager: minWager,
+            maxWager: maxWager
+        });
+
+        emit TokenConfigUpdated(token, allowed, minWager, maxWager);
+    }
+
+    /**
+     * @notice Updates the cancel timeout duration
+     * @param newTimeout The new timeout duration in seconds
+     */
+    function setCancelTimeout(uint256 newTimeout) external onlyOwner {
+        uint256 oldTimeout = cancelTimeout;
+        cancelTimeout = newTimeout;
+
+        emit CancelTimeoutUpdated(oldTimeout, newTimeout);
+    }
+
+    /**
+     * @notice Updates the abandon timeout duration for Active games
+     * @param newTimeout The new timeout duration in seconds
+     */
+    function setAbandonTimeout(uint256 newTimeout) external onlyOwner {
+        uint256 oldTimeout = abandonTimeout;
+        abandonTimeout = newTimeout;
+
+        emit AbandonTimeoutUpdated(oldTimeout, newTimeout);
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Gets the details of a game
+     * @param gameId The ID of the game
+     * @return The Game struct
+     */
+    function getGame(uint256 gameId) external view returns (Game memory) {
+        return games[gameId];
+    }
+
+    /**
+     * @notice Gets a registered game type
+     * @param gameTypeId The ID of the game type
+     * @return The game type's config
+     */
+    function getGameType(
+        uint8 gameTypeId
+    ) external view returns (GameTypeConfig memory) {
+        return _gameType(gameTypeId);
+    }
+
+    /**
+     * @notice Gets every registered game type, enabled or not, in ID order
+     * @return types The game type configs
+     */
+    function getGameTypes()
+        external
+        view
+        returns (GameTypeConfig[] memory types)
+    {
+        types = new GameTypeConfig[](gameTypeCount);
+        for (uint8 i = 0; i < gameTypeCount; i++) {
+            types[i] = gameTypes[i];
+        }
+    }
+
+    /**
+     * @notice Calculates the player2 wager for a given base wager and game type
+     * @param wagerAmount The base wager amount (what player1 pays)
+     * @param gameType The game type
+     * @return The player2 wager amount (reduced by edge)
+     */
+    function calculatePlayer2Wager(
+        uint256 wagerAmount,
+        uint8 gameType
+    ) external view returns (uint256) {
+        uint256 edge = (wagerAmount * _gameType(gameType).edgePercent) /
+            BASIS_POINTS;
+        return wagerAmount - edge;
+    }
+
+    /**
+     * @notice Calculates what the winner receives for a given base wager and game type
+     * @param wagerAmount The base wager amount (what player1 pays)
+     * @param gameType The game type
+     * @return The winner's payout (both wagers less the protocol fee)
+     */
+    function calculateWinnerPayout(
+        uint256 wagerAmount,
+        uint8 gameType
+    ) external view returns (uint256) {
+        uint256 edge = (wagerAmount * _gameType(gameType).edgePercent) /
+            BASIS_POINTS;
+        uint256 pot = wagerAmount + (wagerAmount - edge);
+        return pot - (pot * feePercent[gameType]) / BASIS_POINTS;
+    }
+
+    /**
+     * @notice Verifies a game result signature without executing
+     * @param gameId The game ID
+     * @param winner The winner address
+     * @param deadline The signature deadline
+     * @param signatures The signatures to verify, ordered by signer address
+     * @return True if the signatures meet the threshold and are unused
+     */
+    function verifySignature(
+        uint256 gameId,
+        address winner,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external view returns (bool) {
+        return
+            _isValidSignature(
+                keccak256(
+                    abi.encode(
+                        GAME_RESULT_TYPEHASH,
+                        gameId,
+                        winner,
+                        signatureNonce,
+                        deadline
+                    )
+                ),
+                deadline,
+                signatures
+            );
+    }
+
+    /**
+     * @notice Verifies a draw signature without executing
+     * @param gameId The game ID
+     * @param deadline The signature deadline
+     * @param signatures The signatures to verify, ordered by signer address
+     * @return True if the signatures meet the threshold and are unused
+     */
+    function verifyDrawSignature(
+        uint256 gameId,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external view returns (bool) {
+        return
+            _isValidSignature(
+                keccak256(
+                    abi.encode(
+                        GAME_DRAW_TYPEHASH,
+                        gameId,
+                        signatureNonce,
+                        deadline
+                    )
+                ),
+                deadline,
+                signatures
+            );
+    }
+
+    /**
+     * @notice Gets the backend signer set
+     * @return The signer addresses
+     */
+    function getSigners() external view returns (address[] memory) {
+        return signers;
+    }
+
+    /**
+     * @notice Checks that an EIP-712 digest in this domain is signed by enough signers
+     * @dev Lets other DuelBase contracts share this signer set and threshold
+     * @param digest The EIP-712 digest
+     * @param signatures The signatures to check, ordered by signer address
+     * @return True if the signatures meet the threshold
+     */
+    function hasSignerQuorum(
+        bytes32 digest,
+        bytes[] calldata signatures
+    ) external view returns (bool) {
+        return _hasSignerQuorum(digest, signatures);
+    }
+
+    /**
+     * @notice Gets how many games a player has created, joined or been invited to
+     * @param player The player's address
+     * @return The number of games in the player's index
+     */
+    function getPlayerGameCount(
+        address player
+    ) external view returns (uint256) {
+        return playerGames[player].length;
+    }
+
+    /**
+     * @notice Gets a page of a player's games, newest first
+     * @param player The player's address
+     * @param offset Number of games to skip, counting from the newest
+     * @param limit Maximum number of games to return
+     * @return page The games
+     */
+    function getGamesByPlayer(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Game[] memory page) {
+        (page, ) = _getGamesByPlayer(player, type(uint256).max, offset, limit);
+    }
+
+    /**
+     * @notice Gets a page of a player's games in the given statuses, newest first
+     * @dev Skipped games still count towards the offset, so page through with
+     *      the returned nextOffset rather than adding up page lengths
+     * @param player The player's address
+     * @param statusMask Bit `1 << status` set for each GameStatus to include
+     * @param offset Number of games to skip, counting from the newest
+     * @param limit Maximum number of games to return
+     * @return page The matching games
+     * @return nextOffset Offset to continue from (the player's game count once exhausted)
+     */
+    function getGamesByPlayerWithStatus(
+        address player,
+        uint256 statusMask,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Game[] memory page, uint256 nextOffset) {
+        return _getGamesByPlayer(player, statusMask, offset, limit);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Registers a new game type under the next ID, enabled
+     * @param name Display name for the game type
+     * @param edgePercent Player2's wager reduction (in basis points)
+     * @param minWager The minimum base wager
+     * @param maxWager The maximum base wager (0 for no maximum)
+     * @return gameTypeId The ID of the registered game type
+     */
+    function _addGameType(
+        string memory name,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    ) internal returns (uint8 gameTypeId) {
+        if (bytes(name).length == 0) {
+            revert EmptyName();
+        }
+        _validateGameTypeTerms(edgePercent, minWager, maxWager);
+
+        gameTypeId = gameTypeCount++;
+
+        gameTypes[gameTypeId] = GameTypeConfig({
+            id: gameTypeId,
+            enabled: true,
+            name: name,
+            edgePercent: edgePercent,
+            minWager: minWager,
+            maxWager: maxWager
+        });
+
+        emit GameTypeAdded(gameTypeId, name, edgePercent, minWager, maxWager);
+    }
+
+    /**
+     * @notice Checks a game type's edge and wager limits
+     * @param edgePercent Player2's wager reduction (in basis points)
+     * @param minWager The minimum base wager
+     * @param maxWager The maximum base wager (0 for no maximum)
+     */
+    function _validateGameTypeTerms(
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    ) internal pure {
+        if (edgePercent > MAX_EDGE_PERCENT) {
+            revert EdgePercentTooHigh();
+        }
+        if (maxWager != 0 && minWager > maxWager) {
+            revert InvalidAmount();
+        }
+    }
+
+    /**
+     * @notice Gets a registered game type's config
+     * @param gameTypeId The ID of the game type
+     * @return The game type's config
+     */
+    function _gameType(
+        uint8 gameTypeId
+    ) internal view returns (GameTypeConfig storage) {
+        if (gameTypeId >= gameTypeCount) {
+            revert UnknownGameType();
+        }
+        return gameTypes[gameTypeId];
+    }
+
+    /**
+     * @notice Validates and escrows a new game's wager
+     * @param opponent The address of the opponent, or address(0) for an open challenge
+     * @param token The ERC-20 both players wager in
+     * @param wagerAmount The base wager amount (what player1 will pay)
+     * @param gameType The registered, enabled game type to play
+     * @param bestOf Games in the series (odd, so a series always has a majority winner or is drawn)
+     * @return gameId The ID of the created game
+     */
+    function _createGame(
+        address opponent,
+        address token,
+        uint256 wagerAmount,
+        uint8 gameType,
+        uint8 bestOf
+    ) internal returns (uint256 gameId) {
+        if (opponent == msg.sender) {
+            revert InvalidAddress();
+        }
+        if (wagerAmount == 0) {
+            revert InvalidAmount();
+        }
+        if (bestOf == 0 || bestOf > MAX_BEST_OF || bestOf % 2 == 0) {
+            revert InvalidBestOf();
+        }
+
+        TokenConfig memory config = tokenConfigs[token];
+        if (!config.allowed) {
+            revert TokenNotAllowed();
+        }
+        if (
+            wagerAmount < config.minWager ||
+            (config.maxWager != 0 && wagerAmount > config.maxWager)
+        ) {
+            revert WagerOutOfRange();
+        }
+
+        GameTypeConfig storage typeConfig = _gameType(gameType);
+        if (!typeConfig.enabled) {
+            revert GameTypeDisabled();
+        }
+        if (
+            wagerAmount < typeConfig.minWager ||
+            (typeConfig.maxWager != 0 && wagerAmount > typeConfig.maxWager)
+        ) {
+            revert WagerOutOfRange();
+        }
+
+        gameId = nextGameId++;
+
+        // Calculate player2's reduced wager (edge compensates for second-mover disadvantage)
+        uint256 edge = (wagerAmount * typeConfig.edgePercent) / BASIS_POINTS;
+        uint256 player2Wager = wagerAmount - edge;
+
+        // Lock in the protocol fee so later fee changes don't affect this game
+        uint256 protocolFee = ((wagerAmount + player2Wager) *
+            feePercent[gameType]) / BASIS_POINTS;
+
+        // Create the game
+        games[gameId] = Game({
+            id: gameId,
+            player1: msg.sender,
+            player2: opponent,
+            token: token,
+            wagerAmount: wagerAmount,
+            player2Wager: player2Wager,
+            protocolFee: protocolFee,
+            gameType: gameType,
+            bestOf: bestOf,
+            status: GameStatus.Created,
+            createdAt: block.timestamp,
+            startedAt: 0,
+            winner: address(0)
+        });
+
+        // Index the game for both players (open challenges get player2 on join)
+        hasPlayed[msg.sender] = true;
+        playerGames[msg.sender].push(gameId);
+        if (opponent != address(0)) {
+            playerGames[opponent].push(gameId);
+        }
+
+        // Transfer player1's wager to the contract (full wager amount)
+        IERC20(token).safeTransferFrom(msg.sender, address(this), wagerAmount);
+
+        emit GameCreated(
+            gameId,
+            msg.sender,
+            opponent,
+            token,
+            wagerAmount,
+            player2Wager,
+            gameType
+        );
+    }
+
+    /**
+     * @notice Approves player2's stake with a permit, then joins the game
+     * @param gameId The ID of the game to join
+     * @param referrer The inviting player, or address(0)
+     * @param deadline The permit deadline
+     * @param v The permit signature's recovery byte
+     * @param r The permit signature's r value
+     * @param s The permit signature's s value
+     */
+    function _joinGameWithPermit(
+        uint256 gameId,
+        address referrer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal {
+        Game storage game = games[gameId];
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+
+        _permit(game.token, game.player2Wager, deadline, v, r, s);
+        _joinGame(gameId, referrer);
+    }
+
+    /**
+     * @notice Activates a game and escrows player2's stake
+     * @dev Ineligible referrers are ignored rather than reverting, so a stale
+     *      invite link never blocks a join
+     * @param gameId The ID of the game to join
+     * @param referrer The inviting player, or address(0)
+     */
+    function _joinGame(uint256 gameId, address referrer) internal {
+        Game storage game = games[gameId];
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+        if (game.status != GameStatus.Created) {
+            revert InvalidGameStatus();
+        }
+        if (game.player2 == address(0)) {
+            if (msg.sender == game.player1) {
+                revert CannotJoinOwnGame();
+            }
+            // Claim the open challenge
+            game.player2 = msg.sender;
+            playerGames[msg.sender].push(gameId);
+        } else if (msg.sender != game.player2) {
+            revert NotPlayer2();
+        }
+
+        // Credit the referrer of a player joining their first game
+        if (
+            referrer != address(0) &&
+            referrer != msg.sender &&
+            referrerOf[msg.sender] == address(0) &&
+            !hasPlayed[msg.sender]
+        ) {
+            referrerOf[msg.sender] = referrer;
+
+            emit ReferrerSet(msg.sender, referrer);
+        }
+        hasPlayed[msg.sender] = true;
+
+        // Update game status and start the abandon clock
+        game.status = GameStatus.Active;
+        game.startedAt = block.timestamp;
+
+        // Transfer player2's reduced wager to the contract
+        IERC20(game.token).safeTransferFrom(
+            msg.sender,
+            address(this),
+            game.player2Wager
+        );
+
+        emit GameJoined(gameId, msg.sender);
+    }
+
+    /**
+     * @notice Loads an Active game the caller is playing in
+     * @param gameId The ID of the game
+     * @param player The address that must be one of the game's players
+     * @return game The game
+     */
+    function _activeGameOf(
+        uint256 gameId,
+        address player
+    ) internal view returns (Game storage game) {
+        game = games[gameId];
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+        if (game.status != GameStatus.Active) {
+            revert InvalidGameStatus();
+        }
+        if (player != game.player1 && player != game.player2) {
+            revert NotPlayer();
+        }
+    }
+
+    /**
+     * @notice Pays out a won game, accruing its protocol fee
+     * @param game The Active game to settle
+     * @param winner The winning player
+     */
+    function _settleWin(Game storage game, address winner) internal {
+        // Update game status
+        game.status = GameStatus.Completed;
+        game.winner = winner;
+        delete drawOfferedBy[game.id];
+
+        // Calculate total payout (both wagers, less the protocol fee)
+        uint256 totalPayout = game.wagerAmount +
+            game.player2Wager -
+            game.protocolFee;
+
+        if (game.protocolFee > 0) {
+            // Referrers' shares come out of the fee before it reaches the treasury
+            uint256 fee = game.protocolFee -
+                _accrueReferralReward(game, game.player1) -
+                _accrueReferralReward(game, game.player2);
+
+            accruedFees[game.token] += fee;
+            emit FeesAccrued(game.id, fee);
+        }
+
+        // Transfer winnings to the winner
+        IERC20(game.token).safeTransfer(winner, totalPayout);
+
+        emit GameCompleted(game.id, winner, totalPayout);
+    }
+
+    /**
+     * @notice Credits a player's referrer with their share of a game's protocol fee
+     * @param game The game being settled
+     * @param player One of the game's players
+     * @return reward The amount credited (0 if the player has no referrer)
+     */
+    function _accrueReferralReward(
+        Game storage game,
+        address player
+    ) internal returns (uint256 reward) {
+        address referrer = referrerOf[player];
+        if (referrer == address(0)) {
+            return 0;
+        }
+
+        reward = (game.protocolFee * referralShare) / BASIS_POINTS;
+        if (reward > 0) {
+            referralEarnings[referrer][game.token] += reward;
+
+            emit ReferralRewardAccrued(game.id, referrer, player, reward);
+        }
+    }
+
+    /**
+     * @notice Refunds both players of a drawn game
+     * @param game The Active game to settle
+     */
+    function _settleDraw(Game storage game) internal {
+        // Update game status (winner stays address(0) for a draw)
+        game.status = GameStatus.Completed;
+        delete drawOfferedBy[game.id];
+
+        // Refund both players' escrowed wagers
+        IERC20(game.token).safeTransfer(game.player1, game.wagerAmount);
+        IERC20(game.token).safeTransfer(game.player2, game.player2Wager);
+
+        emit GameDrawn(game.id, game.wagerAmount, game.player2Wager);
+    }
+
+    /**
+     * @notice Collects a page of a player's games, newest first
+     * @param player The player's address
+     * @param statusMask Bit `1 << status` set for each GameStatus to include
+     * @param offset Number of games to skip, counting from the newest
+     * @param limit Maximum number of games to return
+     * @return page The matching games
+     * @return nextOffset Offset to continue from
+     */
+    function _getGamesByPlayer(
+        address player,
+        uint256 statusMask,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (Game[] memory page, uint256 nextOffset) {
+        uint256[] storage ids = playerGames[player];
+        uint256 count = ids.length;
+        if (offset >= count) {
+            return (new Game[](0), count);
+        }
+
+        if (limit > count - offset) {
+            limit = count - offset;
+        }
+
+        Game[] memory found = new Game[](limit);
+        uint256 matches;
+        nextOffset = offset;
+
+        while (nextOffset < count && matches < limit) {
+            Game storage game = games[ids[count - 1 - nextOffset]];
+            nextOffset++;
+
+            if (statusMask & (1 << uint8(game.status)) != 0) {
+                found[matches++] = game;
+            }
+        }
+
+        // Trim slots left empty by filtered-out games
+        page = new Game[](matches);
+        for (uint256 i = 0; i < matches; i++) {
+            page[i] = found[i];
+        }
+    }
+
+    /**
+     * @notice Approves this contract to pull a wager using an EIP-2612 permit
+     * @dev A failed permit is ignored so a front-run permit can't block the call;
+     *      the transfer that follows still reverts without enough allowance
+     * @param token The token to permit
+     * @param amount The amount to approve
+     * @param deadline The permit deadline
+     * @param v The permit signature's recovery byte
+     * @param r The permit signature's r value
+     * @param s The permit signature's s value
+     */
+    function _permit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal {
+        try
+            IERC20Permit(token).permit(
+                msg.sender,
+                address(this),
+                amount,
+                deadline,
+                v,
+                r,
+                s
+            )
+        {} catch {}
+    }
+
+    /**
+     * @notice Builds the EIP-712 digest for a struct hash
+     * @param structHash The hash of the typed data struct
+     * @return The digest to be signed by the backend
+     */
+    function _hashTypedData(
+        bytes32 structHash
+    ) internal view returns (bytes32) {
+        return
+            keccak256(
+                abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash)
+            );
+    }
+
+    /**
+     * @notice Verifies a bundle of backend signatures and marks the result as used
+     * @param structHash The hash of the signed typed data struct
+     * @param deadline The signature deadline included in the struct
+     * @param signatures The backend signatures, ordered by signer address
+     */
+    function _useSignatures(
+        bytes32 structHash,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) internal {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired();
+        }
+
+        bytes32 digest = _hashTypedData(structHash);
+
+        // Check for signature replay
+        if (usedSignatures[digest]) {
+            revert SignatureAlreadyUsed();
+        }
+        usedSignatures[digest] = true;
+
+        if (signatures.length < signerThreshold) {
+            revert InsufficientSignatures();
+        }
+        if (!_hasSignerQuorum(digest, signatures)) {
+            revert InvalidSignature();
+        }
+    }
+
+    /**
+     * @notice Checks a bundle of backend signatures without consuming it
+     * @param structHash The hash of the signed typed data struct
+     * @param deadline The signature deadline included in the struct
+     * @param signatures The backend signatures, ordered by signer address
+     * @return True if the signatures meet the threshold, are unused and unexpired
+     */
+    function _isValidSignature(
+        bytes32 structHash,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) internal view returns (bool) {
+        if (block.timestamp > deadline) {
+            return false;
+        }
+
+        bytes32 digest = _hashTypedData(structHash);
+
+        return
+            !usedSignatures[digest] && _hasSignerQuorum(digest, signatures);
+    }
+
+    /**
+     * @notice Checks that a digest is signed by at least the threshold of signers
+     * @dev Signers must be strictly ascending, so no signer can be counted twice
+     * @param digest The EIP-712 digest
+     * @param signatures The backend signatures, ordered by signer address
+     * @return True if every signature is from a distinct signer in the set
+     */
+    function _hasSignerQuorum(
+        bytes32 digest,
+        bytes[] calldata signatures
+    ) internal view returns (bool) {
+        if (signatures.length < signerThreshold) {
+            return false;
+        }
+
+        address lastSigner;
+        for (uint256 i = 0; i < signatures.length; i++) {
+            (address signer, ECDSA.RecoverError err, ) = digest.tryRecover(
+                signatures[i]
+            );
+            if (
+                err != ECDSA.RecoverError.NoError ||
+                !isSigner[signer] ||
+                signer <= lastSigner
+            ) {
+                return false;
+            }
+            lastSigner = signer;
+        }
 
-        address recoveredSigner = digest.recover(signature);
-        return recoveredSigner == backendSigner && !usedSignatures[digest];
+        return true;
     }
 }
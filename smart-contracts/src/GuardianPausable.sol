@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Pausable} from "@openzeppelin/contracts/utils/Pausable.sol";
+
+/**
+ * @title GuardianPausable
+ * @notice Emergency pause for DuelBase contracts, triggerable by guardians
+ * @dev Guardians are set by the owner and can only pause; unpausing is left
+ *      to the owner so a guardian key can stop the contract but never restart
+ *      it. Inheriting contracts choose which entry points are `whenNotPaused`.
+ */
+abstract contract GuardianPausable is Ownable, Pausable {
+    // ============ State Variables ============
+
+    /// @notice Addresses allowed to pause the contract (besides the owner)
+    mapping(address => bool) public isGuardian;
+
+    // ============ Events ============
+
+    event GuardianUpdated(address indexed guardian, bool enabled);
+
+    // ============ Errors ============
+
+    error NotGuardian();
+
+    // ============ Guardian Functions ============
+
+    /**
+     * @notice Pauses new activity
+     * @dev Callable by any guardian or the owner
+     */
+    function pause() external {
+        if (!isGuardian[msg.sender] && msg.sender != owner()) {
+            revert NotGuardian();
+        }
+
+        _pause();
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Resumes activity after a pause
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    /**
+     * @notice Grants or revokes the guardian role
+     * @param guardian The address to update
+     * @param enabled Whether the address can pause
+     */
+    function setGuardian(address guardian, bool enabled) external onlyOwner {
+        isGuardian[guardian] = enabled;
+
+        emit GuardianUpdated(guardian, enabled);
+    }
+}
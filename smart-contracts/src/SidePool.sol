@@ -0,0 +1,372 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {GameManager} from "./GameManager.sol";
+
+/**
+ * @title SidePool
+ * @notice Parimutuel DUEL betting for spectators on GameManager games
+ * @dev Each game has one pool split into a player1 and a player2 side. The
+ *      winning side shares the whole pool pro rata to stake; draws, cancelled
+ *      games and pools nobody backed the winner in are refunded. Moves are
+ *      played off-chain, so betting closes when player2 joins (the earliest a
+ *      first move can be made). Results come from the GameManager, either its
+ *      settled game or the same backend-signed GameResult before it is claimed.
+ */
+contract SidePool is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // ============ Enums ============
+
+    enum Side {
+        Player1,
+        Player2
+    }
+
+    enum PoolStatus {
+        Open,
+        Settled,
+        Refunded
+    }
+
+    // ============ Structs ============
+
+    struct Pool {
+        uint256 player1Total; // DUEL backing player1
+        uint256 player2Total; // DUEL backing player2
+        PoolStatus status;
+        Side winningSide; // Only meaningful once Settled
+    }
+
+    // ============ State Variables ============
+
+    /// @notice The DUEL token bets are placed and paid in
+    IERC20 public immutable duelToken;
+
+    /// @notice GameManager whose games are bet on and whose signers sign results
+    GameManager public immutable gameManager;
+
+    /// @notice Pool per GameManager game ID
+    mapping(uint256 => Pool) public pools;
+
+    /// @notice DUEL each bettor has on player1, per game
+    mapping(uint256 => mapping(address => uint256)) public player1Bets;
+
+    /// @notice DUEL each bettor has on player2, per game
+    mapping(uint256 => mapping(address => uint256)) public player2Bets;
+
+    /// @notice Whether a bettor has collected their payout or refund, per game
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+
+    // ============ EIP-712 Constants ============
+
+    /// @notice The GameManager's domain separator, shared for game results
+    bytes32 public immutable DOMAIN_SEPARATOR;
+
+    // ============ Events ============
+
+    event BetPlaced(
+        uint256 indexed gameId,
+        address indexed bettor,
+        Side side,
+        uint256 amount
+    );
+
+    event PoolSettled(uint256 indexed gameId, Side winningSide);
+
+    event PoolRefunded(uint256 indexed gameId);
+
+    event Claimed(
+        uint256 indexed gameId,
+        address indexed bettor,
+        uint256 amount
+    );
+
+    // ============ Errors ============
+
+    error InvalidAddress();
+    error InvalidAmount();
+    error InvalidGameId();
+    error InvalidWinner();
+    error InvalidSignature();
+    error SignatureExpired();
+    error BettingClosed();
+    error OpenChallenge();
+    error PlayerCannotBet();
+    error PoolAlreadyClosed();
+    error GameNotFinished();
+    error PoolNotClosed();
+    error AlreadyClaimed();
+    error NothingToClaim();
+
+    // ============ Constructor ============
+
+    /**
+     * @notice Creates a new SidePool contract
+     * @param _duelToken The DUEL token address
+     * @param _gameManager The GameManager whose games are bet on
+     */
+    constructor(address _duelToken, address _gameManager) {
+        if (_duelToken == address(0) || _gameManager == address(0)) {
+            revert InvalidAddress();
+        }
+
+        duelToken = IERC20(_duelToken);
+        gameManager = GameManager(_gameManager);
+        DOMAIN_SEPARATOR = gameManager.DOMAIN_SEPARATOR();
+    }
+
+    // ============ External Functions ============
+
+    /**
+     * @notice Bets DUEL on one player of a game that hasn't started yet
+     * @dev Only games with a known opponent can be bet on, and never by
+     *      their players, so nobody can back one side and then throw the game
+     * @param gameId The GameManager game ID
+     * @param side The player to back
+     * @param amount The DUEL to bet
+     */
+    function placeBet(
+        uint256 gameId,
+        Side side,
+        uint256 amount
+    ) external nonReentrant {
+        if (amount == 0) {
+            revert InvalidAmount();
+        }
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+        if (game.status != GameManager.GameStatus.Created) {
+            revert BettingClosed();
+        }
+        if (game.player2 == address(0)) {
+            revert OpenChallenge();
+        }
+        if (msg.sender == game.player1 || msg.sender == game.player2) {
+            revert PlayerCannotBet();
+        }
+
+        Pool storage pool = pools[gameId];
+        if (side == Side.Player1) {
+            pool.player1Total += amount;
+            player1Bets[gameId][msg.sender] += amount;
+        } else {
+            pool.player2Total += amount;
+            player2Bets[gameId][msg.sender] += amount;
+        }
+
+        duelToken.safeTransferFrom(msg.sender, address(this), amount);
+
+        emit BetPlaced(gameId, msg.sender, side, amount);
+    }
+
+    /**
+     * @notice Settles a pool from its game's outcome in the GameManager
+     * @dev A won game settles to the winner's side (however it was won,
+     *      including resignations); a draw or cancelled game refunds the pool
+     * @param gameId The GameManager game ID
+     */
+    function settle(uint256 gameId) external {
+        GameManager.Game memory game = gameManager.getGame(gameId);
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+
+        if (game.status == GameManager.GameStatus.Completed) {
+            _close(gameId, game, game.winner);
+        } else if (game.status == GameManager.GameStatus.Cancelled) {
+            _close(gameId, game, address(0));
+        } else {
+            revert GameNotFinished();
+        }
+    }
+
+    /**
+     * @notice Settles a pool with the backend-signed result of an Active game
+     * @dev Takes the same GameResult signatures the winner submits to
+     *      GameManager.completeGame (which stay usable there), so spectators
+     *      don't have to wait for the winner to claim
+     * @param gameId The GameManager game ID
+     * @param winner The address of the winner
+     * @param deadline Timestamp after which the signatures expire
+     * @param signatures Backend signatures proving the winner, ordered by signer address
+     */
+    function settleWithSignature(
+        uint256 gameId,
+        address winner,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external {
+        GameManager.Game memory game = gameManager.getGame(gameId);
+
+        if (game.player1 == address(0)) {
+            revert InvalidGameId();
+        }
+        if (game.status != GameManager.GameStatus.Active) {
+            revert GameNotFinished();
+        }
+        if (winner != game.player1 && winner != game.player2) {
+            revert InvalidWinner();
+        }
+        if (block.timestamp > deadline) {
+            revert SignatureExpired();
+        }
+
+        bytes32 digest = _hashGameResult(gameId, winner, deadline);
+        if (!gameManager.hasSignerQuorum(digest, signatures)) {
+            revert InvalidSignature();
+        }
+
+        _close(gameId, game, winner);
+    }
+
+    /**
+     * @notice Collects the caller's payout (or refund) from a closed pool
+     * @param gameId The GameManager game ID
+     */
+    function claim(uint256 gameId) external nonReentrant {
+        if (pools[gameId].status == PoolStatus.Open) {
+            revert PoolNotClosed();
+        }
+        if (hasClaimed[gameId][msg.sender]) {
+            revert AlreadyClaimed();
+        }
+
+        uint256 amount = _payout(gameId, msg.sender);
+        if (amount == 0) {
+            revert NothingToClaim();
+        }
+
+        hasClaimed[gameId][msg.sender] = true;
+        duelToken.safeTransfer(msg.sender, amount);
+
+        emit Claimed(gameId, msg.sender, amount);
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Gets a game's pool
+     * @param gameId The GameManager game ID
+     * @return The Pool struct
+     */
+    function getPool(uint256 gameId) external view returns (Pool memory) {
+        return pools[gameId];
+    }
+
+    /**
+     * @notice Calculates what a bettor can claim from a closed pool
+     * @param gameId The GameManager game ID
+     * @param bettor The bettor's address
+     * @return The DUEL claimable (0 while the pool is Open or once claimed)
+     */
+    function claimableAmount(
+        uint256 gameId,
+        address bettor
+    ) external view returns (uint256) {
+        if (
+            pools[gameId].status == PoolStatus.Open ||
+            hasClaimed[gameId][bettor]
+        ) {
+            return 0;
+        }
+        return _payout(gameId, bettor);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Closes a pool, settling it to the winner's side or refunding it
+     * @param gameId The GameManager game ID
+     * @param game The game the pool is on
+     * @param winner The winner, or address(0) to refund the pool
+     */
+    function _close(
+        uint256 gameId,
+        GameManager.Game memory game,
+        address winner
+    ) internal {
+        Pool storage pool = pools[gameId];
+
+        if (pool.status != PoolStatus.Open) {
+            revert PoolAlreadyClosed();
+        }
+
+        Side winningSide = winner == game.player1 ? Side.Player1 : Side.Player2;
+        uint256 winningTotal = winningSide == Side.Player1
+            ? pool.player1Total
+            : pool.player2Total;
+
+        // With nobody backing the winner there's no one to pay, so refund everyone
+        if (winner == address(0) || winningTotal == 0) {
+            pool.status = PoolStatus.Refunded;
+
+            emit PoolRefunded(gameId);
+        } else {
+            pool.status = PoolStatus.Settled;
+            pool.winningSide = winningSide;
+
+            emit PoolSettled(gameId, winningSide);
+        }
+    }
+
+    /**
+     * @notice Calculates a bettor's share of a closed pool
+     * @dev Winning bets share the whole pool pro rata (rounding down)
+     * @param gameId The GameManager game ID
+     * @param bettor The bettor's address
+     * @return The DUEL owed to the bettor
+     */
+    function _payout(
+        uint256 gameId,
+        address bettor
+    ) internal view returns (uint256) {
+        Pool memory pool = pools[gameId];
+        uint256 onPlayer1 = player1Bets[gameId][bettor];
+        uint256 onPlayer2 = player2Bets[gameId][bettor];
+
+        if (pool.status == PoolStatus.Refunded) {
+            return onPlayer1 + onPlayer2;
+        }
+
+        uint256 total = pool.player1Total + pool.player2Total;
+        if (pool.winningSide == Side.Player1) {
+            return (onPlayer1 * total) / pool.player1Total;
+        }
+        return (onPlayer2 * total) / pool.player2Total;
+    }
+
+    /**
+     * @notice Builds the GameManager's EIP-712 digest for a game result
+     * @dev Signed over the GameManager's current nonce, so results it has
+     *      revoked are rejected here too
+     * @return The digest signed by the backend
+     */
+    function _hashGameResult(
+        uint256 gameId,
+        address winner,
+        uint256 deadline
+    ) internal view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                gameManager.GAME_RESULT_TYPEHASH(),
+                gameId,
+                winner,
+                gameManager.signatureNonce(),
+                deadline
+            )
+        );
+        return
+            keccak256(
+                abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash)
+            );
+    }
+}
@@ -5,13 +5,15 @@ import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {GuardianPausable} from "./GuardianPausable.sol";
 
 /**
  * @title TicTacToeGame
  * @notice On-chain Tic Tac Toe game with wagers and timeout forfeit
  * @dev Players can make moves on-chain. If a player doesn't move within 2 minutes, they forfeit.
+ *      Pausing stops new games and joins; games in progress can still be finished.
  */
-contract TicTacToeGame is Ownable, ReentrancyGuard {
+contract TicTacToeGame is GuardianPausable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
     // ============ Enums ============
@@ -62,6 +64,9 @@ contract TicTacToeGame is Ownable, ReentrancyGuard {
     /// @notice Mapping of game ID to Game struct
     mapping(uint256 => Game) public games;
 
+    /// @notice IDs of the games each address created or was invited to, oldest first
+    mapping(address => uint256[]) internal playerGames;
+
     // ============ Events ============
 
     event GameCreated(
@@ -135,7 +140,7 @@ contract TicTacToeGame is Ownable, ReentrancyGuard {
     function createGame(
         address opponent,
         uint256 wagerAmount
-    ) external nonReentrant returns (uint256 gameId) {
+    ) external nonReentrant whenNotPaused returns (uint256 gameId) {
         if (opponent == address(0) || opponent == msg.sender) {
             revert InvalidAddress();
         }
@@ -162,6 +167,10 @@ contract TicTacToeGame is Ownable, ReentrancyGuard {
             isDraw: false
         });
 
+        // Index the game for both players
+        playerGames[msg.sender].push(gameId);
+        playerGames[opponent].push(gameId);
+
         // Transfer player1's wager to the contract
         duelToken.safeTransferFrom(msg.sender, address(this), wagerAmount);
 
@@ -172,7 +181,7 @@ contract TicTacToeGame is Ownable, ReentrancyGuard {
      * @notice Joins an existing game
      * @param gameId The ID of the game to join
      */
-    function joinGame(uint256 gameId) external nonReentrant {
+    function joinGame(uint256 gameId) external nonReentrant whenNotPaused {
         Game storage game = games[gameId];
 
         if (game.player1 == address(0)) {
@@ -384,6 +393,49 @@ contract TicTacToeGame is Ownable, ReentrancyGuard {
         return deadline - block.timestamp;
     }
 
+    /**
+     * @notice Gets how many games a player has created or been invited to
+     * @param player The player's address
+     * @return The number of games in the player's index
+     */
+    function getPlayerGameCount(address player) external view returns (uint256) {
+        return playerGames[player].length;
+    }
+
+    /**
+     * @notice Gets a page of a player's games, newest first
+     * @param player The player's address
+     * @param offset Number of games to skip, counting from the newest
+     * @param limit Maximum number of games to return
+     * @return page The games
+     */
+    function getGamesByPlayer(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Game[] memory page) {
+        (page, ) = _getGamesByPlayer(player, type(uint256).max, offset, limit);
+    }
+
+    /**
+     * @notice Gets a page of a player's games in the given statuses, newest first
+     * @dev Skipped games still count towards the offset; continue from nextOffset
+     * @param player The player's address
+     * @param statusMask Bit `1 << status` set for each GameStatus to include
+     * @param offset Number of games to skip, counting from the newest
+     * @param limit Maximum number of games to return
+     * @return page The matching games
+     * @return nextOffset Offset to continue from (the player's game count once exhausted)
+     */
+    function getGamesByPlayerWithStatus(
+        address player,
+        uint256 statusMask,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (Game[] memory page, uint256 nextOffset) {
+        return _getGamesByPlayer(player, statusMask, offset, limit);
+    }
+
     // ============ Admin Functions ============
 
     /**
@@ -396,6 +448,51 @@ contract TicTacToeGame is Ownable, ReentrancyGuard {
 
     // ============ Internal Functions ============
 
+    /**
+     * @notice Collects a page of a player's games, newest first
+     * @param player The player's address
+     * @param statusMask Bit `1 << status` set for each GameStatus to include
+     * @param offset Number of games to skip, counting from the newest
+     * @param limit Maximum number of games to return
+     * @return page The matching games
+     * @return nextOffset Offset to continue from
+     */
+    function _getGamesByPlayer(
+        address player,
+        uint256 statusMask,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (Game[] memory page, uint256 nextOffset) {
+        uint256[] storage ids = playerGames[player];
+        uint256 count = ids.length;
+        if (offset >= count) {
+            return (new Game[](0), count);
+        }
+
+        if (limit > count - offset) {
+            limit = count - offset;
+        }
+
+        Game[] memory found = new Game[](limit);
+        uint256 matches;
+        nextOffset = offset;
+
+        while (nextOffset < count && matches < limit) {
+            Game storage game = games[ids[count - 1 - nextOffset]];
+            nextOffset++;
+
+            if (statusMask & (1 << uint8(game.status)) != 0) {
+                found[matches++] = game;
+            }
+        }
+
+        // Trim slots left empty by filtered-out games
+        page = new Game[](matches);
+        for (uint256 i = 0; i < matches; i++) {
+            page[i] = found[i];
+        }
+    }
+
     /**
      * @notice Checks if a player has won
      * @param board The current board state
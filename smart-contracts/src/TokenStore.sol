@@ -2,16 +2,19 @@
 pragma solidity ^0.8.24;
 
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {GuardianPausable} from "./GuardianPausable.sol";
 
 /**
  * @title TokenStore
  * @notice Allows users to purchase DUEL tokens with USDC
- * @dev Simple token swap contract with owner-configurable pricing
+ * @dev Simple token swap contract with owner-configurable pricing. Pausing
+ *      stops purchases; owner withdrawals still work.
  */
-contract TokenStore is Ownable, ReentrancyGuard {
+contract TokenStore is GuardianPausable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
     // ============ State Variables ============
@@ -96,36 +99,43 @@ contract TokenStore is Ownable, ReentrancyGuard {
      * @notice Purchases DUEL tokens with USDC
      * @param duelAmount The amount of DUEL tokens to purchase (18 decimals)
      */
-    function buyTokens(uint256 duelAmount) external nonReentrant {
-        if (!isOpen) {
-            revert StoreClosed();
-        }
-        if (duelAmount == 0) {
-            revert InvalidAmount();
-        }
+    function buyTokens(
+        uint256 duelAmount
+    ) external nonReentrant whenNotPaused {
+        _buyTokens(duelAmount);
+    }
 
-        // Calculate USDC cost
-        // Formula: (duelAmount * pricePerToken) / 10^18
-        // pricePerToken is in USDC (6 decimals) per 1 DUEL (18 decimals)
+    /**
+     * @notice Purchases DUEL tokens, approving the USDC cost with an EIP-2612 permit
+     * @dev A failed permit is ignored so a front-run permit can't block the purchase
+     * @param duelAmount The amount of DUEL tokens to purchase (18 decimals)
+     * @param deadline The permit deadline
+     * @param v The permit signature's recovery byte
+     * @param r The permit signature's r value
+     * @param s The permit signature's s value
+     */
+    function buyTokensWithPermit(
+        uint256 duelAmount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant whenNotPaused {
         uint256 usdcCost = (duelAmount * pricePerToken) / (10 ** DUEL_DECIMALS);
 
-        if (usdcCost == 0) {
-            revert InvalidAmount();
-        }
-
-        // Check inventory
-        uint256 inventory = duelToken.balanceOf(address(this));
-        if (inventory < duelAmount) {
-            revert InsufficientInventory();
-        }
-
-        // Transfer USDC from buyer
-        usdc.safeTransferFrom(msg.sender, address(this), usdcCost);
-
-        // Transfer DUEL to buyer
-        duelToken.safeTransfer(msg.sender, duelAmount);
-
-        emit TokensPurchased(msg.sender, duelAmount, usdcCost);
+        try
+            IERC20Permit(address(usdc)).permit(
+                msg.sender,
+                address(this),
+                usdcCost,
+                deadline,
+                v,
+                r,
+                s
+            )
+        {} catch {}
+
+        _buyTokens(duelAmount);
     }
 
     // ============ Admin Functions ============
@@ -246,4 +256,42 @@ contract TokenStore is Ownable, ReentrancyGuard {
     ) external view returns (uint256) {
         return (usdcAmount * (10 ** DUEL_DECIMALS)) / pricePerToken;
     }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Sells DUEL to the caller for USDC at the current price
+     * @param duelAmount The amount of DUEL tokens to purchase (18 decimals)
+     */
+    function _buyTokens(uint256 duelAmount) internal {
+        if (!isOpen) {
+            revert StoreClosed();
+        }
+        if (duelAmount == 0) {
+            revert InvalidAmount();
+        }
+
+        // Calculate USDC cost
+        // Formula: (duelAmount * pricePerToken) / 10^18
+        // pricePerToken is in USDC (6 decimals) per 1 DUEL (18 decimals)
+        uint256 usdcCost = (duelAmount * pricePerToken) / (10 ** DUEL_DECIMALS);
+
+        if (usdcCost == 0) {
+            revert InvalidAmount();
+        }
+
+        // Check inventory
+        uint256 inventory = duelToken.balanceOf(address(this));
+        if (inventory < duelAmount) {
+            revert InsufficientInventory();
+        }
+
+        // Transfer USDC from buyer
+        usdc.safeTransferFrom(msg.sender, address(this), usdcCost);
+
+        // Transfer DUEL to buyer
+        duelToken.safeTransfer(msg.sender, duelAmount);
+
+        emit TokensPurchased(msg.sender, duelAmount, usdcCost);
+    }
 }
@@ -0,0 +1,753 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {GameManager} from "./GameManager.sol";
+
+/**
+ * @title Tournament
+ * @notice Single-elimination DUEL tournaments for 4, 8 or 16 players
+ * @dev Match results are signed by the GameManager's backend signer set in
+ *      the GameManager's EIP-712 domain, over its signature nonce, so one
+ *      set, threshold and invalidateSignatures call serve both contracts
+ */
+contract Tournament is Ownable, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // ============ Enums ============
+
+    enum TournamentStatus {
+        Registration,
+        Active,
+        Completed,
+        Cancelled
+    }
+
+    // ============ Structs ============
+
+    struct TournamentInfo {
+        uint256 id;
+        uint256 entryFee; // DUEL paid by each player at registration
+        uint8 size; // Number of players (4, 8 or 16)
+        uint8 playerCount; // Players registered so far
+        uint8 gameType; // ID in the GameManager's game type registry
+        TournamentStatus status;
+        uint256 createdAt;
+        uint256 startedAt; // When the bracket filled (0 until Active)
+        uint256 prizePaid; // Prizes paid out so far
+        address champion;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice The DUEL token entry fees and prizes are paid in
+    IERC20 public immutable duelToken;
+
+    /// @notice GameManager whose backend signers and EIP-712 domain sign match results
+    GameManager public immutable gameManager;
+
+    /// @notice Counter for tournament IDs
+    uint256 public nextTournamentId;
+
+    /// @notice Mapping of tournament ID to TournamentInfo struct
+    mapping(uint256 => TournamentInfo) internal tournaments;
+
+    /// @notice Prize split per tournament, in basis points of the prize pool
+    /// @dev Index 0 is the champion, 1 the runner-up, then each player knocked out
+    ///      in the semifinals, quarterfinals and so on
+    mapping(uint256 => uint256[]) internal prizeSplits;
+
+    /// @notice Bracket slots per tournament, keyed by _slotKey(round, position)
+    /// @dev Round 0 holds the entrants in registration order; the winner of
+    ///      match m in round r moves to position m of round r + 1
+    mapping(uint256 => mapping(uint256 => address)) internal slots;
+
+    /// @notice Whether an address has registered for a tournament
+    mapping(uint256 => mapping(address => bool)) public isRegistered;
+
+    /// @notice Time after an Active tournament starts before its players can abandon it
+    uint256 public abandonTimeout = 7 days;
+
+    // ============ Constants ============
+
+    /// @notice Basis points denominator
+    uint256 public constant BASIS_POINTS = 10000;
+
+    // ============ EIP-712 Constants ============
+
+    bytes32 public constant MATCH_RESULT_TYPEHASH =
+        keccak256(
+            "TournamentMatchResult(uint256 tournamentId,uint8 round,uint8 matchIndex,address winner,uint256 nonce,uint256 deadline)"
+        );
+
+    /// @notice The GameManager's domain separator, shared for match results
+    bytes32 public immutable DOMAIN_SEPARATOR;
+
+    // ============ Events ============
+
+    event TournamentCreated(
+        uint256 indexed tournamentId,
+        uint8 size,
+        uint256 entryFee,
+        uint8 gameType,
+        uint256[] prizeSplit
+    );
+
+    event PlayerRegistered(
+        uint256 indexed tournamentId,
+        address indexed player,
+        uint8 position
+    );
+
+    event TournamentStarted(uint256 indexed tournamentId);
+
+    event MatchReported(
+        uint256 indexed tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address indexed winner,
+        address indexed loser
+    );
+
+    event PrizePaid(
+        uint256 indexed tournamentId,
+        address indexed player,
+        uint256 amount
+    );
+
+    event TournamentCompleted(
+        uint256 indexed tournamentId,
+        address indexed champion
+    );
+
+    event TournamentCancelled(uint256 indexed tournamentId);
+
+    event TournamentAbandoned(
+        uint256 indexed tournamentId,
+        address indexed caller,
+        uint256 refundPerPlayer
+    );
+
+    event AbandonTimeoutUpdated(uint256 oldTimeout, uint256 newTimeout);
+
+    // ============ Errors ============
+
+    error InvalidAddress();
+    error InvalidAmount();
+    error InvalidSize();
+    error InvalidPrizeSplit();
+    error InvalidGameType();
+    error GameTypeDisabled();
+    error InvalidTournamentId();
+    error InvalidTournamentStatus();
+    error InvalidMatch();
+    error InvalidWinner();
+    error InvalidSignature();
+    error SignatureExpired();
+    error AlreadyRegistered();
+    error MatchNotReady();
+    error MatchAlreadyReported();
+    error NotPlayer();
+    error TimeoutNotReached();
+
+    // ============ Constructor ============
+
+    /**
+     * @notice Creates a new Tournament contract
+     * @param _duelToken The DUEL token address
+     * @param _gameManager The GameManager whose backend signers verify match results
+     */
+    constructor(
+        address _duelToken,
+        address _gameManager
+    ) Ownable(msg.sender) {
+        if (_duelToken == address(0) || _gameManager == address(0)) {
+            revert InvalidAddress();
+        }
+
+        duelToken = IERC20(_duelToken);
+        gameManager = GameManager(_gameManager);
+        DOMAIN_SEPARATOR = gameManager.DOMAIN_SEPARATOR();
+    }
+
+    // ============ External Functions ============
+
+    /**
+     * @notice Registers the caller for a tournament, paying the entry fee
+     * @dev The bracket starts as soon as the last seat is taken
+     * @param tournamentId The ID of the tournament to enter
+     */
+    function register(uint256 tournamentId) external nonReentrant {
+        TournamentInfo storage tournament = tournaments[tournamentId];
+
+        if (tournament.size == 0) {
+            revert InvalidTournamentId();
+        }
+        if (tournament.status != TournamentStatus.Registration) {
+            revert InvalidTournamentStatus();
+        }
+        if (isRegistered[tournamentId][msg.sender]) {
+            revert AlreadyRegistered();
+        }
+
+        uint8 position = tournament.playerCount++;
+        isRegistered[tournamentId][msg.sender] = true;
+        slots[tournamentId][_slotKey(0, position)] = msg.sender;
+
+        duelToken.safeTransferFrom(
+            msg.sender,
+            address(this),
+            tournament.entryFee
+        );
+
+        emit PlayerRegistered(tournamentId, msg.sender, position);
+
+        if (tournament.playerCount == tournament.size) {
+            tournament.status = TournamentStatus.Active;
+            tournament.startedAt = block.timestamp;
+
+            emit TournamentStarted(tournamentId);
+        }
+    }
+
+    /**
+     * @notice Advances the winner of a bracket match with a backend-signed result
+     * @dev Pays the loser's prize (if any); the final also pays the champion
+     * @param tournamentId The tournament ID
+     * @param round The round of the match (0 is the first round)
+     * @param matchIndex The match's index within the round
+     * @param winner The address of the match winner
+     * @param deadline Timestamp after which the signatures are no longer accepted
+     * @param signatures Backend signatures proving the winner, ordered by signer address
+     */
+    function reportResult(
+        uint256 tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address winner,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external nonReentrant {
+        TournamentInfo storage tournament = tournaments[tournamentId];
+
+        if (tournament.size == 0) {
+            revert InvalidTournamentId();
+        }
+        if (tournament.status != TournamentStatus.Active) {
+            revert InvalidTournamentStatus();
+        }
+
+        uint8 totalRounds = _totalRounds(tournament.size);
+        address loser = _matchLoser(
+            tournamentId,
+            tournament.size,
+            round,
+            matchIndex,
+            winner
+        );
+
+        // Verify the backend signatures (each match can only be reported once)
+        if (block.timestamp > deadline) {
+            revert SignatureExpired();
+        }
+        bytes32 digest = _hashMatchResult(
+            tournamentId,
+            round,
+            matchIndex,
+            winner,
+            deadline
+        );
+        if (!gameManager.hasSignerQuorum(digest, signatures)) {
+            revert InvalidSignature();
+        }
+
+        emit MatchReported(tournamentId, round, matchIndex, winner, loser);
+
+        // Losing the final is tier 1, the semifinals tier 2, and so on
+        _payPrize(tournamentId, loser, totalRounds - round);
+
+        if (round == totalRounds - 1) {
+            _completeTournament(tournamentId, winner);
+        } else {
+            slots[tournamentId][_slotKey(round + 1, matchIndex)] = winner;
+        }
+    }
+
+    /**
+     * @notice Refunds the players still in an Active tournament that stalled
+     * @dev Escape hatch for when match results stop coming (e.g. the backend
+     *      signers are unavailable). What's left of the pool after prizes
+     *      already paid is split evenly between the players not yet knocked
+     *      out, so nobody has been eliminated refunds everyone's entry fee.
+     * @param tournamentId The ID of the tournament to abandon
+     */
+    function abandonTournament(uint256 tournamentId) external nonReentrant {
+        TournamentInfo storage tournament = tournaments[tournamentId];
+
+        if (tournament.size == 0) {
+            revert InvalidTournamentId();
+        }
+        if (tournament.status != TournamentStatus.Active) {
+            revert InvalidTournamentStatus();
+        }
+        if (!isRegistered[tournamentId][msg.sender]) {
+            revert NotPlayer();
+        }
+        if (block.timestamp < tournament.startedAt + abandonTimeout) {
+            revert TimeoutNotReached();
+        }
+
+        tournament.status = TournamentStatus.Cancelled;
+
+        address[] memory remaining = _remainingPlayers(
+            tournamentId,
+            tournament.size
+        );
+        uint256 pool = tournament.entryFee * tournament.size;
+        uint256 unpaid = pool - tournament.prizePaid;
+        uint256 refund = unpaid / remaining.length;
+        tournament.prizePaid = pool;
+
+        // Rounding dust goes to the first remaining player
+        duelToken.safeTransfer(
+            remaining[0],
+            unpaid - refund * (remaining.length - 1)
+        );
+        for (uint256 i = 1; i < remaining.length; i++) {
+            duelToken.safeTransfer(remaining[i], refund);
+        }
+
+        emit TournamentAbandoned(tournamentId, msg.sender, refund);
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Opens registration for a new tournament
+     * @param size Number of players (4, 8 or 16)
+     * @param entryFee DUEL paid by each player
+     * @param gameType The registered game type every bracket match is played as
+     * @param prizeSplit Basis points of the pool paid to each player per finishing tier
+     *        (champion, runner-up, each semifinal loser, ...); must account for the whole pool
+     * @return tournamentId The ID of the created tournament
+     */
+    function createTournament(
+        uint8 size,
+        uint256 entryFee,
+        uint8 gameType,
+        uint256[] calldata prizeSplit
+    ) external onlyOwner returns (uint256 tournamentId) {
+        if (size != 4 && size != 8 && size != 16) {
+            revert InvalidSize();
+        }
+        if (entryFee == 0) {
+            revert InvalidAmount();
+        }
+        if (gameType >= gameManager.gameTypeCount()) {
+            revert InvalidGameType();
+        }
+        if (!gameManager.getGameType(gameType).enabled) {
+            revert GameTypeDisabled();
+        }
+        _validatePrizeSplit(size, prizeSplit);
+
+        tournamentId = nextTournamentId++;
+
+        tournaments[tournamentId] = TournamentInfo({
+            id: tournamentId,
+            entryFee: entryFee,
+            size: size,
+            playerCount: 0,
+            gameType: gameType,
+            status: TournamentStatus.Registration,
+            createdAt: block.timestamp,
+            startedAt: 0,
+            prizePaid: 0,
+            champion: address(0)
+        });
+        prizeSplits[tournamentId] = prizeSplit;
+
+        emit TournamentCreated(
+            tournamentId,
+            size,
+            entryFee,
+            gameType,
+            prizeSplit
+        );
+    }
+
+    /**
+     * @notice Cancels a tournament that hasn't filled, refunding every entrant
+     * @param tournamentId The ID of the tournament to cancel
+     */
+    function cancelTournament(
+        uint256 tournamentId
+    ) external onlyOwner nonReentrant {
+        TournamentInfo storage tournament = tournaments[tournamentId];
+
+        if (tournament.size == 0) {
+            revert InvalidTournamentId();
+        }
+        if (tournament.status != TournamentStatus.Registration) {
+            revert InvalidTournamentStatus();
+        }
+
+        tournament.status = TournamentStatus.Cancelled;
+
+        for (uint8 i = 0; i < tournament.playerCount; i++) {
+            duelToken.safeTransfer(
+                slots[tournamentId][_slotKey(0, i)],
+                tournament.entryFee
+            );
+        }
+
+        emit TournamentCancelled(tournamentId);
+    }
+
+    /**
+     * @notice Updates the abandon timeout duration for Active tournaments
+     * @param newTimeout The new timeout duration in seconds
+     */
+    function setAbandonTimeout(uint256 newTimeout) external onlyOwner {
+        uint256 oldTimeout = abandonTimeout;
+        abandonTimeout = newTimeout;
+
+        emit AbandonTimeoutUpdated(oldTimeout, newTimeout);
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Gets the details of a tournament
+     * @param tournamentId The ID of the tournament
+     * @return The TournamentInfo struct
+     */
+    function getTournament(
+        uint256 tournamentId
+    ) external view returns (TournamentInfo memory) {
+        return tournaments[tournamentId];
+    }
+
+    /**
+     * @notice Gets a tournament's prize split
+     * @param tournamentId The ID of the tournament
+     * @return Basis points of the pool per finishing tier
+     */
+    function getPrizeSplit(
+        uint256 tournamentId
+    ) external view returns (uint256[] memory) {
+        return prizeSplits[tournamentId];
+    }
+
+    /**
+     * @notice Gets a tournament's entrants in registration (seeding) order
+     * @param tournamentId The ID of the tournament
+     * @return players The registered players
+     */
+    function getEntrants(
+        uint256 tournamentId
+    ) external view returns (address[] memory players) {
+        TournamentInfo storage tournament = tournaments[tournamentId];
+        players = new address[](tournament.playerCount);
+        for (uint8 i = 0; i < tournament.playerCount; i++) {
+            players[i] = slots[tournamentId][_slotKey(0, i)];
+        }
+    }
+
+    /**
+     * @notice Gets a bracket match
+     * @param tournamentId The tournament ID
+     * @param round The round of the match (0 is the first round)
+     * @param matchIndex The match's index within the round
+     * @return player1 The first player (address(0) until decided)
+     * @return player2 The second player (address(0) until decided)
+     * @return winner The reported winner (address(0) until reported)
+     */
+    function getMatch(
+        uint256 tournamentId,
+        uint8 round,
+        uint8 matchIndex
+    )
+        external
+        view
+        returns (address player1, address player2, address winner)
+    {
+        uint8 size = tournaments[tournamentId].size;
+        if (
+            size == 0 ||
+            round >= _totalRounds(size) ||
+            matchIndex >= (size >> round) / 2
+        ) {
+            revert InvalidMatch();
+        }
+        return _getMatch(tournamentId, size, round, matchIndex);
+    }
+
+    /**
+     * @notice Verifies a match result signature without executing
+     * @param tournamentId The tournament ID
+     * @param round The round of the match
+     * @param matchIndex The match's index within the round
+     * @param winner The winner address
+     * @param deadline The signature deadline
+     * @param signatures The signatures to verify, ordered by signer address
+     * @return True if the signatures are unexpired and meet the GameManager's threshold
+     */
+    function verifyResultSignature(
+        uint256 tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address winner,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external view returns (bool) {
+        if (block.timestamp > deadline) {
+            return false;
+        }
+        bytes32 digest = _hashMatchResult(
+            tournamentId,
+            round,
+            matchIndex,
+            winner,
+            deadline
+        );
+        return gameManager.hasSignerQuorum(digest, signatures);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @notice Builds the EIP-712 digest for a match result
+     * @dev Signed over the GameManager's current signature nonce, so its
+     *      invalidateSignatures revokes outstanding match results too
+     * @return The digest to be signed by the backend
+     */
+    function _hashMatchResult(
+        uint256 tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address winner,
+        uint256 deadline
+    ) internal view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                MATCH_RESULT_TYPEHASH,
+                tournamentId,
+                round,
+                matchIndex,
+                winner,
+                gameManager.signatureNonce(),
+                deadline
+            )
+        );
+        return
+            keccak256(
+                abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR, structHash)
+            );
+    }
+
+    /**
+     * @notice Reads a match's players and winner from the bracket
+     */
+    function _getMatch(
+        uint256 tournamentId,
+        uint8 size,
+        uint8 round,
+        uint8 matchIndex
+    )
+        internal
+        view
+        returns (address player1, address player2, address winner)
+    {
+        player1 = slots[tournamentId][_slotKey(round, matchIndex * 2)];
+        player2 = slots[tournamentId][_slotKey(round, matchIndex * 2 + 1)];
+
+        if (round == _totalRounds(size) - 1) {
+            winner = tournaments[tournamentId].champion;
+        } else {
+            winner = slots[tournamentId][_slotKey(round + 1, matchIndex)];
+        }
+    }
+
+    /**
+     * @notice Gets the players not yet knocked out of an Active tournament
+     * @dev A player is still in if nobody has taken their place in the next
+     *      round: they haven't played their match yet, or are waiting for
+     *      their next opponent
+     */
+    function _remainingPlayers(
+        uint256 tournamentId,
+        uint8 size
+    ) internal view returns (address[] memory players) {
+        uint8 totalRounds = _totalRounds(size);
+        uint256 count;
+        for (uint8 round = 0; round < totalRounds; round++) {
+            for (uint256 position = 0; position < size >> round; position++) {
+                if (_isStillIn(tournamentId, round, position)) {
+                    count++;
+                }
+            }
+        }
+
+        players = new address[](count);
+        uint256 i;
+        for (uint8 round = 0; round < totalRounds; round++) {
+            for (uint256 position = 0; position < size >> round; position++) {
+                if (_isStillIn(tournamentId, round, position)) {
+                    players[i++] = slots[tournamentId][
+                        _slotKey(round, position)
+                    ];
+                }
+            }
+        }
+    }
+
+    /**
+     * @notice Whether the player in a bracket slot hasn't been replaced in the next round
+     */
+    function _isStillIn(
+        uint256 tournamentId,
+        uint8 round,
+        uint256 position
+    ) internal view returns (bool) {
+        return
+            slots[tournamentId][_slotKey(round, position)] != address(0) &&
+            slots[tournamentId][_slotKey(round + 1, position / 2)] ==
+            address(0);
+    }
+
+    /**
+     * @notice Checks a reported match is ready, unreported and won by one of its players
+     * @return loser The other player in the match
+     */
+    function _matchLoser(
+        uint256 tournamentId,
+        uint8 size,
+        uint8 round,
+        uint8 matchIndex,
+        address winner
+    ) internal view returns (address loser) {
+        if (round >= _totalRounds(size) || matchIndex >= (size >> round) / 2) {
+            revert InvalidMatch();
+        }
+
+        (address player1, address player2, address reported) = _getMatch(
+            tournamentId,
+            size,
+            round,
+            matchIndex
+        );
+        if (player1 == address(0) || player2 == address(0)) {
+            revert MatchNotReady();
+        }
+        if (reported != address(0)) {
+            revert MatchAlreadyReported();
+        }
+        if (winner != player1 && winner != player2) {
+            revert InvalidWinner();
+        }
+
+        return winner == player1 ? player2 : player1;
+    }
+
+    /**
+     * @notice Crowns the champion and pays them the rest of the pool
+     * @dev The remainder includes any rounding dust from earlier prizes
+     * @param tournamentId The tournament ID
+     * @param champion The winner of the final
+     */
+    function _completeTournament(
+        uint256 tournamentId,
+        address champion
+    ) internal {
+        TournamentInfo storage tournament = tournaments[tournamentId];
+        tournament.status = TournamentStatus.Completed;
+        tournament.champion = champion;
+
+        uint256 pool = tournament.entryFee * tournament.size;
+        uint256 championPrize = pool - tournament.prizePaid;
+        tournament.prizePaid = pool;
+        if (championPrize > 0) {
+            duelToken.safeTransfer(champion, championPrize);
+            emit PrizePaid(tournamentId, champion, championPrize);
+        }
+
+        emit TournamentCompleted(tournamentId, champion);
+    }
+
+    /**
+     * @notice Pays a knocked-out player the prize for their finishing tier
+     * @param tournamentId The tournament ID
+     * @param player The knocked-out player
+     * @param tier 1 for the runner-up, 2 for semifinal losers, and so on
+     */
+    function _payPrize(
+        uint256 tournamentId,
+        address player,
+        uint256 tier
+    ) internal {
+        uint256[] storage split = prizeSplits[tournamentId];
+        if (tier >= split.length || split[tier] == 0) {
+            return;
+        }
+
+        TournamentInfo storage tournament = tournaments[tournamentId];
+        uint256 prize = (tournament.entryFee * tournament.size * split[tier]) /
+            BASIS_POINTS;
+        tournament.prizePaid += prize;
+
+        duelToken.safeTransfer(player, prize);
+
+        emit PrizePaid(tournamentId, player, prize);
+    }
+
+    /**
+     * @notice Checks that a prize split pays out exactly the whole pool
+     * @param size Number of players
+     * @param prizeSplit Basis points per finishing tier
+     */
+    function _validatePrizeSplit(
+        uint8 size,
+        uint256[] calldata prizeSplit
+    ) internal pure {
+        // Tiers: champion, runner-up, then one per earlier round
+        if (
+            prizeSplit.length == 0 ||
+            prizeSplit.length > _totalRounds(size) + 1
+        ) {
+            revert InvalidPrizeSplit();
+        }
+
+        uint256 total = prizeSplit[0];
+        for (uint256 tier = 1; tier < prizeSplit.length; tier++) {
+            // Tier k (k >= 1) has 2^(k-1) players
+            total += prizeSplit[tier] << (tier - 1);
+        }
+        if (total != BASIS_POINTS) {
+            revert InvalidPrizeSplit();
+        }
+    }
+
+    /**
+     * @notice Number of rounds in a bracket of the given size
+     */
+    function _totalRounds(uint8 size) internal pure returns (uint8 rounds) {
+        while (size > 1) {
+            size >>= 1;
+            rounds++;
+        }
+    }
+
+    /**
+     * @notice Storage key for a bracket slot
+     */
+    function _slotKey(
+        uint256 round,
+        uint256 position
+    ) internal pure returns (uint256) {
+        return (round << 8) | position;
+    }
+}
@@ -228,6 +228,87 @@ contract DuelBaseTokenTest is Test {
         token.transferFrom(owner, bob, 100 * 1e18);
     }
 
+    // ============ Permit Tests ============
+
+    function test_permit_setsAllowanceFromSignature() public {
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        uint256 amount = 500 * 1e18;
+        uint256 deadline = block.timestamp + 1 hours;
+
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            signerKey,
+            signer,
+            alice,
+            amount,
+            deadline
+        );
+
+        vm.prank(bob); // Anyone can submit the permit
+        token.permit(signer, alice, amount, deadline, v, r, s);
+
+        assertEq(token.allowance(signer, alice), amount);
+        assertEq(token.nonces(signer), 1);
+    }
+
+    function test_permit_revertsWhenExpired() public {
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        uint256 deadline = block.timestamp + 1 hours;
+
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            signerKey,
+            signer,
+            alice,
+            100 * 1e18,
+            deadline
+        );
+
+        vm.warp(deadline + 1);
+        vm.expectRevert();
+        token.permit(signer, alice, 100 * 1e18, deadline, v, r, s);
+    }
+
+    function test_permit_revertsOnReplay() public {
+        (address signer, uint256 signerKey) = makeAddrAndKey("signer");
+        uint256 deadline = block.timestamp + 1 hours;
+
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            signerKey,
+            signer,
+            alice,
+            100 * 1e18,
+            deadline
+        );
+        token.permit(signer, alice, 100 * 1e18, deadline, v, r, s);
+
+        vm.expectRevert();
+        token.permit(signer, alice, 100 * 1e18, deadline, v, r, s);
+    }
+
+    function _signPermit(
+        uint256 privateKey,
+        address tokenOwner,
+        address spender,
+        uint256 value,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256(
+                    "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+                ),
+                tokenOwner,
+                spender,
+                value,
+                token.nonces(tokenOwner),
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(
+            abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash)
+        );
+        return vm.sign(privateKey, digest);
+    }
+
     // ============ Ownership Tests ============
 
     function test_transferOwnership_transfersOwnership() public {
@@ -3,11 +3,27 @@ pragma solidity ^0.8.24;
 
 import {Test} from "forge-std/Test.sol";
 import {GameManager} from "../src/GameManager.sol";
+import {GuardianPausable} from "../src/GuardianPausable.sol";
 import {DuelBaseToken} from "../src/DuelBaseToken.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// Mock USDC with 6 decimals
+contract MockUSDC is ERC20 {
+    constructor() ERC20("USD Coin", "USDC") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
 
 contract GameManagerTest is Test {
     GameManager public gameManager;
     DuelBaseToken public token;
+    MockUSDC public usdc;
 
     address public owner = address(this);
     uint256 public backendSignerPrivateKey = 0xBEEF;
@@ -18,14 +34,21 @@ contract GameManagerTest is Test {
 
     uint256 public constant INITIAL_SUPPLY = 1_000_000_000 * 1e18;
     uint256 public constant PLAYER_BALANCE = 10_000 * 1e18;
+    uint256 public constant PLAYER_USDC = 10_000 * 1e6;
+    uint256 public constant SIGNATURE_TTL = 1 hours;
+    uint256 public constant COSIGNER_KEY = 0xC0FFEE;
+    uint256 public constant THIRD_SIGNER_KEY = 0xFACE;
+    uint8 public constant TIC_TAC_TOE = 0;
+    uint8 public constant CONNECT_FOUR = 1;
 
     event GameCreated(
         uint256 indexed gameId,
         address indexed player1,
         address indexed player2,
+        address token,
         uint256 wagerAmount,
         uint256 player2Wager,
-        GameManager.GameType gameType
+        uint8 gameType
     );
     event GameJoined(uint256 indexed gameId, address indexed player2);
     event GameCompleted(
@@ -33,16 +56,70 @@ contract GameManagerTest is Test {
         address indexed winner,
         uint256 totalPayout
     );
+    event GameDrawn(
+        uint256 indexed gameId,
+        uint256 player1Refund,
+        uint256 player2Refund
+    );
+    event GameResigned(uint256 indexed gameId, address indexed player);
+    event DrawOffered(uint256 indexed gameId, address indexed player);
+    event DrawOfferWithdrawn(uint256 indexed gameId, address indexed player);
     event GameCancelled(uint256 indexed gameId, address indexed canceller);
-    event BackendSignerUpdated(
-        address indexed oldSigner,
-        address indexed newSigner
+    event SignerAdded(address indexed signer);
+    event SignerRemoved(address indexed signer);
+    event SignerThresholdUpdated(uint256 oldThreshold, uint256 newThreshold);
+    event GameTypeAdded(
+        uint8 indexed gameTypeId,
+        string name,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
     );
-    event EdgePercentUpdated(
-        GameManager.GameType indexed gameType,
-        uint256 newEdgePercent
+    event GameTypeUpdated(
+        uint8 indexed gameTypeId,
+        bool enabled,
+        uint256 edgePercent,
+        uint256 minWager,
+        uint256 maxWager
+    );
+    event ReferrerSet(address indexed player, address indexed referrer);
+    event ReferralShareUpdated(uint256 oldShare, uint256 newShare);
+    event ReferralRewardAccrued(
+        uint256 indexed gameId,
+        address indexed referrer,
+        address indexed player,
+        uint256 amount
     );
     event CancelTimeoutUpdated(uint256 oldTimeout, uint256 newTimeout);
+    event GameAbandoned(
+        uint256 indexed gameId,
+        address indexed caller,
+        uint256 player1Refund,
+        uint256 player2Refund
+    );
+    event AbandonTimeoutUpdated(uint256 oldTimeout, uint256 newTimeout);
+    event SignaturesInvalidated(uint256 newNonce);
+    event GuardianUpdated(address indexed guardian, bool enabled);
+    event FeePercentUpdated(
+        uint8 indexed gameType,
+        uint256 newFeePercent
+    );
+    event TreasuryUpdated(
+        address indexed oldTreasury,
+        address indexed newTreasury
+    );
+    event FeesAccrued(uint256 indexed gameId, uint256 amount);
+    event FeesWithdrawn(
+        address indexed token,
+        address indexed treasury,
+        uint256 amount
+    );
+    event TokenConfigUpdated(
+        address indexed token,
+        bool allowed,
+        uint256 minWager,
+        uint256 maxWager
+    );
 
     function setUp() public {
         token = new DuelBaseToken(INITIAL_SUPPLY);
@@ -60,17 +137,65 @@ contract GameManagerTest is Test {
         token.approve(address(gameManager), type(uint256).max);
         vm.prank(charlie);
         token.approve(address(gameManager), type(uint256).max);
+
+        // Fund and approve USDC for multi-token games
+        usdc = new MockUSDC();
+        usdc.mint(alice, PLAYER_USDC);
+        usdc.mint(bob, PLAYER_USDC);
+        vm.prank(alice);
+        usdc.approve(address(gameManager), type(uint256).max);
+        vm.prank(bob);
+        usdc.approve(address(gameManager), type(uint256).max);
     }
 
     // ============ Helper Functions ============
 
+    function _deadline() internal view returns (uint256) {
+        return block.timestamp + SIGNATURE_TTL;
+    }
+
     function _signGameResult(
         uint256 gameId,
         address winner
-    ) internal view returns (bytes memory) {
+    ) internal view returns (bytes[] memory) {
+        return _signGameResult(gameId, winner, _deadline());
+    }
+
+    function _signGameResult(
+        uint256 gameId,
+        address winner,
+        uint256 deadline
+    ) internal view returns (bytes[] memory) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                gameManager.GAME_RESULT_TYPEHASH(),
+                gameId,
+                winner,
+                gameManager.signatureNonce(),
+                deadline
+            )
+        );
+        return _bundle(_signDigest(backendSignerPrivateKey, structHash));
+    }
+
+    function _signGameDraw(
+        uint256 gameId
+    ) internal view returns (bytes[] memory) {
         bytes32 structHash = keccak256(
-            abi.encode(gameManager.GAME_RESULT_TYPEHASH(), gameId, winner)
+            abi.encode(
+                gameManager.GAME_DRAW_TYPEHASH(),
+                gameId,
+                gameManager.signatureNonce(),
+                _deadline()
+            )
         );
+        return _bundle(_signDigest(backendSignerPrivateKey, structHash));
+    }
+
+    function _signDigest(
+        uint256 privateKey,
+        bytes32 structHash
+    ) internal view returns (bytes memory) {
         bytes32 digest = keccak256(
             abi.encodePacked(
                 "\x19\x01",
@@ -79,23 +204,90 @@ contract GameManagerTest is Test {
             )
         );
 
-        (uint8 v, bytes32 r, bytes32 s) = vm.sign(
-            backendSignerPrivateKey,
-            digest
-        );
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(privateKey, digest);
         return abi.encodePacked(r, s, v);
     }
 
+    function _signGameResultWith(
+        uint256[] memory privateKeys,
+        uint256 gameId,
+        address winner
+    ) internal view returns (bytes[] memory signatures) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                gameManager.GAME_RESULT_TYPEHASH(),
+                gameId,
+                winner,
+                gameManager.signatureNonce(),
+                _deadline()
+            )
+        );
+
+        signatures = new bytes[](privateKeys.length);
+        for (uint256 i = 0; i < privateKeys.length; i++) {
+            signatures[i] = _signDigest(privateKeys[i], structHash);
+        }
+    }
+
+    // Signer keys ordered by address, as completeGame expects
+    function _orderedKeys(
+        uint256 keyA,
+        uint256 keyB
+    ) internal pure returns (uint256[] memory keys) {
+        keys = new uint256[](2);
+        (keys[0], keys[1]) = vm.addr(keyA) < vm.addr(keyB)
+            ? (keyA, keyB)
+            : (keyB, keyA);
+    }
+
+    // Adds two more signers and requires 2 of the 3
+    function _useTwoOfThreeSigners() internal {
+        gameManager.addSigner(vm.addr(COSIGNER_KEY));
+        gameManager.addSigner(vm.addr(THIRD_SIGNER_KEY));
+        gameManager.setSignerThreshold(2);
+    }
+
+    function _bundle(
+        bytes memory signature
+    ) internal pure returns (bytes[] memory signatures) {
+        signatures = new bytes[](1);
+        signatures[0] = signature;
+    }
+
     function _createGame(
         address player1,
         address player2,
         uint256 wagerAmount,
-        GameManager.GameType gameType
+        uint8 gameType
     ) internal returns (uint256) {
         vm.prank(player1);
         return gameManager.createGame(player2, wagerAmount, gameType);
     }
 
+    function _signPermit(
+        uint256 privateKey,
+        address tokenOwner,
+        uint256 value,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256(
+                    "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+                ),
+                tokenOwner,
+                address(gameManager),
+                value,
+                token.nonces(tokenOwner),
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(
+            abi.encodePacked("\x19\x01", token.DOMAIN_SEPARATOR(), structHash)
+        );
+        return vm.sign(privateKey, digest);
+    }
+
     function _joinGame(address player, uint256 gameId) internal {
         vm.prank(player);
         gameManager.joinGame(gameId);
@@ -108,28 +300,60 @@ contract GameManagerTest is Test {
     }
 
     function test_constructor_setsBackendSigner() public view {
-        assertEq(gameManager.backendSigner(), backendSigner);
+        assertTrue(gameManager.isSigner(backendSigner));
+        assertEq(gameManager.getSigners().length, 1);
+        assertEq(gameManager.signerThreshold(), 1);
     }
 
     function test_constructor_setsOwner() public view {
         assertEq(gameManager.owner(), owner);
     }
 
-    function test_constructor_setsDefaultEdgePercents() public view {
-        assertEq(
-            gameManager.edgePercent(GameManager.GameType.TicTacToe),
-            500
-        ); // 5%
-        assertEq(
-            gameManager.edgePercent(GameManager.GameType.ConnectFour),
-            300
-        ); // 3%
+    function test_constructor_registersDefaultGameTypes() public view {
+        assertEq(gameManager.gameTypeCount(), 2);
+
+        GameManager.GameTypeConfig memory ticTacToe = gameManager.getGameType(
+            TIC_TAC_TOE
+        );
+        assertEq(ticTacToe.id, TIC_TAC_TOE);
+        assertEq(ticTacToe.name, "Tic-Tac-Toe");
+        assertTrue(ticTacToe.enabled);
+        assertEq(ticTacToe.edgePercent, 500); // 5%
+
+        GameManager.GameTypeConfig memory connectFour = gameManager
+            .getGameType(CONNECT_FOUR);
+        assertEq(connectFour.id, CONNECT_FOUR);
+        assertEq(connectFour.name, "Connect Four");
+        assertTrue(connectFour.enabled);
+        assertEq(connectFour.edgePercent, 300); // 3%
     }
 
     function test_constructor_setsDefaultCancelTimeout() public view {
         assertEq(gameManager.cancelTimeout(), 24 hours);
     }
 
+    function test_constructor_setsDefaultAbandonTimeout() public view {
+        assertEq(gameManager.abandonTimeout(), 7 days);
+    }
+
+    function test_constructor_setsTreasuryToOwner() public view {
+        assertEq(gameManager.treasury(), owner);
+    }
+
+    function test_constructor_setsZeroFees() public view {
+        assertEq(gameManager.feePercent(TIC_TAC_TOE), 0);
+        assertEq(gameManager.feePercent(CONNECT_FOUR), 0);
+        assertEq(gameManager.accruedFees(address(token)), 0);
+    }
+
+    function test_constructor_allowlistsDuelToken() public view {
+        (bool allowed, uint256 minWager, uint256 maxWager) = gameManager
+            .tokenConfigs(address(token));
+        assertTrue(allowed);
+        assertEq(minWager, 0);
+        assertEq(maxWager, 0);
+    }
+
     function test_constructor_revertsWithZeroTokenAddress() public {
         vm.expectRevert(GameManager.InvalidAddress.selector);
         new GameManager(address(0), backendSigner);
@@ -149,7 +373,7 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         GameManager.Game memory game = gameManager.getGame(gameId);
@@ -157,9 +381,10 @@ contract GameManagerTest is Test {
         assertEq(game.id, 0);
         assertEq(game.player1, alice);
         assertEq(game.player2, bob);
+        assertEq(game.token, address(token));
         assertEq(game.wagerAmount, wagerAmount);
         assertEq(game.player2Wager, (wagerAmount * 9500) / 10000); // 5% reduction for player2
-        assertEq(uint256(game.gameType), uint256(GameManager.GameType.TicTacToe));
+        assertEq(game.gameType, TIC_TAC_TOE);
         assertEq(uint256(game.status), uint256(GameManager.GameStatus.Created));
         assertEq(game.winner, address(0));
     }
@@ -169,7 +394,7 @@ contract GameManagerTest is Test {
 
         uint256 balanceBefore = token.balanceOf(alice);
 
-        _createGame(alice, bob, wagerAmount, GameManager.GameType.TicTacToe);
+        _createGame(alice, bob, wagerAmount, TIC_TAC_TOE);
 
         // Player1 pays the full wager amount (no edge added)
         assertEq(token.balanceOf(alice), balanceBefore - wagerAmount);
@@ -185,12 +410,13 @@ contract GameManagerTest is Test {
             0,
             alice,
             bob,
+            address(token),
             wagerAmount,
             player2Wager,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
-        _createGame(alice, bob, wagerAmount, GameManager.GameType.TicTacToe);
+        _createGame(alice, bob, wagerAmount, TIC_TAC_TOE);
     }
 
     function test_createGame_incrementsGameId() public {
@@ -198,27 +424,31 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         uint256 gameId2 = _createGame(
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         assertEq(gameId1, 0);
         assertEq(gameId2, 1);
     }
 
-    function test_createGame_revertsWithZeroOpponent() public {
-        vm.prank(alice);
-        vm.expectRevert(GameManager.InvalidAddress.selector);
-        gameManager.createGame(
+    function test_createGame_allowsOpenChallenge() public {
+        uint256 gameId = _createGame(
+            alice,
             address(0),
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.player1, alice);
+        assertEq(game.player2, address(0));
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Created));
     }
 
     function test_createGame_revertsWithSelfAsOpponent() public {
@@ -227,14 +457,14 @@ contract GameManagerTest is Test {
         gameManager.createGame(
             alice,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
     }
 
     function test_createGame_revertsWithZeroWager() public {
         vm.prank(alice);
         vm.expectRevert(GameManager.InvalidAmount.selector);
-        gameManager.createGame(bob, 0, GameManager.GameType.TicTacToe);
+        gameManager.createGame(bob, 0, TIC_TAC_TOE);
     }
 
     function test_createGame_connectFourHasDifferentEdge() public {
@@ -245,7 +475,7 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.ConnectFour
+            CONNECT_FOUR
         );
 
         GameManager.Game memory game = gameManager.getGame(gameId);
@@ -259,7 +489,7 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         _joinGame(bob, gameId);
@@ -275,7 +505,7 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         uint256 balanceBefore = token.balanceOf(bob);
@@ -285,12 +515,27 @@ contract GameManagerTest is Test {
         assertEq(token.balanceOf(bob), balanceBefore - player2Wager);
     }
 
+    function test_joinGame_setsStartedAt() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.warp(block.timestamp + 1 hours);
+        _joinGame(bob, gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.startedAt, block.timestamp);
+    }
+
     function test_joinGame_emitsGameJoinedEvent() public {
         uint256 gameId = _createGame(
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         vm.expectEmit(true, true, false, true);
@@ -310,7 +555,7 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         vm.prank(charlie);
@@ -323,7 +568,7 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
@@ -332,6 +577,88 @@ contract GameManagerTest is Test {
         gameManager.joinGame(gameId);
     }
 
+    // ============ Open Challenge Tests ============
+
+    function test_joinGame_openChallengeClaimedByFirstJoiner() public {
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        uint256 balanceBefore = token.balanceOf(charlie);
+        _joinGame(charlie, gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.player2, charlie);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Active));
+        assertEq(token.balanceOf(charlie), balanceBefore - game.player2Wager);
+    }
+
+    function test_joinGame_openChallengeEmitsGameJoinedEvent() public {
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.expectEmit(true, true, false, false);
+        emit GameJoined(gameId, bob);
+
+        _joinGame(bob, gameId);
+    }
+
+    function test_joinGame_openChallengeRevertsForCreator() public {
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.CannotJoinOwnGame.selector);
+        gameManager.joinGame(gameId);
+    }
+
+    function test_joinGame_openChallengeRevertsForSecondJoiner() public {
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(charlie);
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.joinGame(gameId);
+    }
+
+    function test_completeGame_openChallengePaysClaimant() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(charlie, gameId);
+
+        uint256 player2Wager = gameManager.getGame(gameId).player2Wager;
+        uint256 balanceBefore = token.balanceOf(charlie);
+
+        bytes[] memory signatures = _signGameResult(gameId, charlie);
+        gameManager.completeGame(gameId, charlie, _deadline(), signatures);
+
+        assertEq(
+            token.balanceOf(charlie),
+            balanceBefore + wagerAmount + player2Wager
+        );
+    }
+
     // ============ CompleteGame Tests ============
 
     function test_completeGame_player1Wins() public {
@@ -343,14 +670,14 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
         uint256 aliceBalanceBefore = token.balanceOf(alice);
-        bytes memory signature = _signGameResult(gameId, alice);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
 
-        gameManager.completeGame(gameId, alice, signature);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
 
         assertEq(token.balanceOf(alice), aliceBalanceBefore + totalPayout);
 
@@ -368,14 +695,14 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
         uint256 bobBalanceBefore = token.balanceOf(bob);
-        bytes memory signature = _signGameResult(gameId, bob);
+        bytes[] memory signatures = _signGameResult(gameId, bob);
 
-        gameManager.completeGame(gameId, bob, signature);
+        gameManager.completeGame(gameId, bob, _deadline(), signatures);
 
         assertEq(token.balanceOf(bob), bobBalanceBefore + totalPayout);
     }
@@ -389,23 +716,23 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
-        bytes memory signature = _signGameResult(gameId, alice);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
 
         vm.expectEmit(true, true, false, true);
         emit GameCompleted(gameId, alice, totalPayout);
 
-        gameManager.completeGame(gameId, alice, signature);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
     }
 
     function test_completeGame_revertsWithInvalidGameId() public {
-        bytes memory signature = _signGameResult(999, alice);
+        bytes[] memory signatures = _signGameResult(999, alice);
 
         vm.expectRevert(GameManager.InvalidGameId.selector);
-        gameManager.completeGame(999, alice, signature);
+        gameManager.completeGame(999, alice, _deadline(), signatures);
     }
 
     function test_completeGame_revertsIfGameNotActive() public {
@@ -413,14 +740,14 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         // Don't join - game is still Created
 
-        bytes memory signature = _signGameResult(gameId, alice);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
 
         vm.expectRevert(GameManager.InvalidGameStatus.selector);
-        gameManager.completeGame(gameId, alice, signature);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
     }
 
     function test_completeGame_revertsWithInvalidWinner() public {
@@ -428,14 +755,14 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
-        bytes memory signature = _signGameResult(gameId, charlie);
+        bytes[] memory signatures = _signGameResult(gameId, charlie);
 
         vm.expectRevert(GameManager.InvalidWinner.selector);
-        gameManager.completeGame(gameId, charlie, signature);
+        gameManager.completeGame(gameId, charlie, _deadline(), signatures);
     }
 
     function test_completeGame_revertsWithInvalidSignature() public {
@@ -443,14 +770,20 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
         // Sign with wrong key
         uint256 wrongKey = 0xDEAD;
         bytes32 structHash = keccak256(
-            abi.encode(gameManager.GAME_RESULT_TYPEHASH(), gameId, alice)
+            abi.encode(
+                gameManager.GAME_RESULT_TYPEHASH(),
+                gameId,
+                alice,
+                gameManager.signatureNonce(),
+                _deadline()
+            )
         );
         bytes32 digest = keccak256(
             abi.encodePacked(
@@ -463,7 +796,12 @@ contract GameManagerTest is Test {
         bytes memory wrongSignature = abi.encodePacked(r, s, v);
 
         vm.expectRevert(GameManager.InvalidSignature.selector);
-        gameManager.completeGame(gameId, alice, wrongSignature);
+        gameManager.completeGame(
+            gameId,
+            alice,
+            _deadline(),
+            _bundle(wrongSignature)
+        );
     }
 
     function test_completeGame_revertsWithReusedSignature() public {
@@ -472,17 +810,17 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
-        bytes memory signature = _signGameResult(gameId, alice);
-        gameManager.completeGame(gameId, alice, signature);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
 
         // Trying to complete already completed game fails with InvalidGameStatus
         // (status check happens before signature check)
         vm.expectRevert(GameManager.InvalidGameStatus.selector);
-        gameManager.completeGame(gameId, alice, signature);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
     }
 
     function test_signatureReplayProtection_marksSignatureAsUsed() public {
@@ -491,197 +829,2328 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
-        bytes memory signature = _signGameResult(gameId, alice);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
         
         // Verify signature is valid before use
-        assertTrue(gameManager.verifySignature(gameId, alice, signature));
+        assertTrue(
+            gameManager.verifySignature(gameId, alice, _deadline(), signatures)
+        );
         
-        gameManager.completeGame(gameId, alice, signature);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
         
         // Verify signature is marked as used after
-        assertFalse(gameManager.verifySignature(gameId, alice, signature));
+        assertFalse(
+            gameManager.verifySignature(gameId, alice, _deadline(), signatures)
+        );
     }
 
-    // ============ CancelGame Tests ============
-
-    function test_cancelGame_refundsPlayer1() public {
-        uint256 wagerAmount = 100 * 1e18;
-
+    function test_completeGame_revertsWithExpiredSignature() public {
         uint256 gameId = _createGame(
             alice,
             bob,
-            wagerAmount,
-            GameManager.GameType.TicTacToe
+            100 * 1e18,
+            TIC_TAC_TOE
         );
+        _joinGame(bob, gameId);
 
-        uint256 aliceBalanceBefore = token.balanceOf(alice);
-
-        // Fast forward past timeout
-        vm.warp(block.timestamp + 25 hours);
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, alice, deadline);
 
-        vm.prank(alice);
-        gameManager.cancelGame(gameId);
+        vm.warp(deadline + 1);
 
-        // Player1 gets refunded their full wager
-        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+        vm.expectRevert(GameManager.SignatureExpired.selector);
+        gameManager.completeGame(gameId, alice, deadline, signatures);
     }
 
-    function test_cancelGame_updatesStatus() public {
+    function test_completeGame_acceptsSignatureAtDeadline() public {
         uint256 gameId = _createGame(
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
+        _joinGame(bob, gameId);
 
-        vm.warp(block.timestamp + 25 hours);
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, alice, deadline);
 
-        vm.prank(alice);
-        gameManager.cancelGame(gameId);
+        vm.warp(deadline);
+        gameManager.completeGame(gameId, alice, deadline, signatures);
 
-        GameManager.Game memory game = gameManager.getGame(gameId);
-        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Cancelled));
+        assertEq(gameManager.getGame(gameId).winner, alice);
     }
 
-    function test_cancelGame_emitsGameCancelledEvent() public {
+    function test_completeGame_revertsWithTamperedDeadline() public {
         uint256 gameId = _createGame(
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
+        _joinGame(bob, gameId);
 
-        vm.warp(block.timestamp + 25 hours);
-
-        vm.expectEmit(true, true, false, true);
-        emit GameCancelled(gameId, alice);
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, alice, deadline);
 
-        vm.prank(alice);
-        gameManager.cancelGame(gameId);
+        // Extending the deadline changes the signed struct
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGame(gameId, alice, deadline + 1 days, signatures);
     }
 
-    function test_cancelGame_revertsIfNotPlayer1() public {
+    function test_completeGame_revertsAfterSignaturesInvalidated() public {
         uint256 gameId = _createGame(
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
+        _joinGame(bob, gameId);
 
-        vm.warp(block.timestamp + 25 hours);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
 
-        vm.prank(bob);
-        vm.expectRevert(GameManager.NotPlayer.selector);
-        gameManager.cancelGame(gameId);
+        gameManager.invalidateSignatures();
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+
+        // A fresh signature over the new nonce is accepted
+        gameManager.completeGame(
+            gameId,
+            bob,
+            _deadline(),
+            _signGameResult(gameId, bob)
+        );
+        assertEq(gameManager.getGame(gameId).winner, bob);
     }
 
-    function test_cancelGame_revertsIfTimeoutNotReached() public {
+    // ============ CompleteGameAsDraw Tests ============
+
+    function test_completeGameAsDraw_refundsBothPlayers() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000; // 5% reduction
+
         uint256 gameId = _createGame(
             alice,
             bob,
-            100 * 1e18,
-            GameManager.GameType.TicTacToe
+            wagerAmount,
+            TIC_TAC_TOE
         );
+        _joinGame(bob, gameId);
 
-        vm.prank(alice);
-        vm.expectRevert(GameManager.TimeoutNotReached.selector);
-        gameManager.cancelGame(gameId);
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+        uint256 bobBalanceBefore = token.balanceOf(bob);
+
+        gameManager.completeGameAsDraw(gameId, _deadline(), _signGameDraw(gameId));
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+        assertEq(token.balanceOf(bob), bobBalanceBefore + player2Wager);
+        assertEq(token.balanceOf(address(gameManager)), 0);
     }
 
-    function test_cancelGame_revertsIfGameActive() public {
+    function test_completeGameAsDraw_updatesStatusWithoutWinner() public {
         uint256 gameId = _createGame(
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            CONNECT_FOUR
         );
         _joinGame(bob, gameId);
 
-        vm.warp(block.timestamp + 25 hours);
+        gameManager.completeGameAsDraw(gameId, _deadline(), _signGameDraw(gameId));
 
-        vm.prank(alice);
-        vm.expectRevert(GameManager.InvalidGameStatus.selector);
-        gameManager.cancelGame(gameId);
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Completed));
+        assertEq(game.winner, address(0));
     }
 
-    // ============ Admin Functions Tests ============
-
-    function test_setBackendSigner_updatesSigner() public {
-        address newSigner = makeAddr("newSigner");
+    function test_completeGameAsDraw_emitsGameDrawnEvent() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000; // 5% reduction
 
-        vm.expectEmit(true, true, false, true);
-        emit BackendSignerUpdated(backendSigner, newSigner);
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
 
-        gameManager.setBackendSigner(newSigner);
+        bytes[] memory signatures = _signGameDraw(gameId);
 
-        assertEq(gameManager.backendSigner(), newSigner);
-    }
+        vm.expectEmit(true, false, false, true);
+        emit GameDrawn(gameId, wagerAmount, player2Wager);
 
-    function test_setBackendSigner_revertsWithZeroAddress() public {
-        vm.expectRevert(GameManager.InvalidAddress.selector);
-        gameManager.setBackendSigner(address(0));
+        gameManager.completeGameAsDraw(gameId, _deadline(), signatures);
     }
 
-    function test_setBackendSigner_revertsIfNotOwner() public {
-        vm.prank(alice);
-        vm.expectRevert(
-            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+    function test_completeGameAsDraw_revertsIfGameNotActive() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
         );
-        gameManager.setBackendSigner(makeAddr("newSigner"));
-    }
-
-    function test_setEdgePercent_updatesEdge() public {
-        uint256 newEdge = 1000; // 10%
-
-        vm.expectEmit(true, false, false, true);
-        emit EdgePercentUpdated(GameManager.GameType.TicTacToe, newEdge);
 
-        gameManager.setEdgePercent(GameManager.GameType.TicTacToe, newEdge);
+        bytes[] memory signatures = _signGameDraw(gameId);
 
-        assertEq(
-            gameManager.edgePercent(GameManager.GameType.TicTacToe),
-            newEdge
-        );
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.completeGameAsDraw(gameId, _deadline(), signatures);
     }
 
-    function test_setEdgePercent_revertsIfTooHigh() public {
-        vm.expectRevert(GameManager.EdgePercentTooHigh.selector);
-        gameManager.setEdgePercent(GameManager.GameType.TicTacToe, 5001);
+    function test_completeGameAsDraw_revertsWithInvalidGameId() public {
+        bytes[] memory signatures = _signGameDraw(999);
+
+        vm.expectRevert(GameManager.InvalidGameId.selector);
+        gameManager.completeGameAsDraw(999, _deadline(), signatures);
     }
 
-    function test_setEdgePercent_revertsIfNotOwner() public {
-        vm.prank(alice);
-        vm.expectRevert(
-            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+    function test_completeGameAsDraw_revertsWithWinnerSignature() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        // A signed win must not be usable to settle a draw
+        bytes[] memory signatures = _signGameResult(gameId, alice);
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGameAsDraw(gameId, _deadline(), signatures);
+    }
+
+    function test_completeGameAsDraw_revertsWithExpiredSignature() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameDraw(gameId);
+
+        vm.warp(deadline + 1);
+
+        vm.expectRevert(GameManager.SignatureExpired.selector);
+        gameManager.completeGameAsDraw(gameId, deadline, signatures);
+    }
+
+    function test_completeGameAsDraw_revertsAfterSignaturesInvalidated()
+        public
+    {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameDraw(gameId);
+
+        gameManager.invalidateSignatures();
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGameAsDraw(gameId, _deadline(), signatures);
+    }
+
+    function test_completeGameAsDraw_revertsIfAlreadyCompleted() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        gameManager.completeGame(
+            gameId,
+            alice,
+            _deadline(),
+            _signGameResult(gameId, alice)
+        );
+
+        bytes[] memory signatures = _signGameDraw(gameId);
+
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.completeGameAsDraw(gameId, _deadline(), signatures);
+    }
+
+    // ============ CancelGame Tests ============
+
+    function test_cancelGame_refundsPlayer1() public {
+        uint256 wagerAmount = 100 * 1e18;
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+
+        // Fast forward past timeout
+        vm.warp(block.timestamp + 25 hours);
+
+        vm.prank(alice);
+        gameManager.cancelGame(gameId);
+
+        // Player1 gets refunded their full wager
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+    }
+
+    function test_cancelGame_updatesStatus() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.warp(block.timestamp + 25 hours);
+
+        vm.prank(alice);
+        gameManager.cancelGame(gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Cancelled));
+    }
+
+    function test_cancelGame_emitsGameCancelledEvent() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.warp(block.timestamp + 25 hours);
+
+        vm.expectEmit(true, true, false, true);
+        emit GameCancelled(gameId, alice);
+
+        vm.prank(alice);
+        gameManager.cancelGame(gameId);
+    }
+
+    function test_cancelGame_revertsIfNotPlayer1() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.warp(block.timestamp + 25 hours);
+
+        vm.prank(bob);
+        vm.expectRevert(GameManager.NotPlayer.selector);
+        gameManager.cancelGame(gameId);
+    }
+
+    function test_cancelGame_revertsIfTimeoutNotReached() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.TimeoutNotReached.selector);
+        gameManager.cancelGame(gameId);
+    }
+
+    function test_cancelGame_revertsIfGameActive() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.warp(block.timestamp + 25 hours);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.cancelGame(gameId);
+    }
+
+    // ============ AbandonGame Tests ============
+
+    function test_abandonGame_refundsBothPlayers() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000; // 5% reduction
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+        uint256 bobBalanceBefore = token.balanceOf(bob);
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(bob);
+        gameManager.abandonGame(gameId);
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+        assertEq(token.balanceOf(bob), bobBalanceBefore + player2Wager);
+        assertEq(token.balanceOf(address(gameManager)), 0);
+    }
+
+    function test_abandonGame_updatesStatus() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(alice);
+        gameManager.abandonGame(gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Cancelled));
+        assertEq(game.winner, address(0));
+    }
+
+    function test_abandonGame_emitsGameAbandonedEvent() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000; // 5% reduction
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.expectEmit(true, true, false, true);
+        emit GameAbandoned(gameId, alice, wagerAmount, player2Wager);
+
+        vm.prank(alice);
+        gameManager.abandonGame(gameId);
+    }
+
+    function test_abandonGame_timeoutCountsFromJoin() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        // Opponent joins late; the clock starts at join, not creation
+        vm.warp(block.timestamp + 3 days);
+        _joinGame(bob, gameId);
+        vm.warp(block.timestamp + 5 days);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.TimeoutNotReached.selector);
+        gameManager.abandonGame(gameId);
+    }
+
+    function test_abandonGame_revertsIfTimeoutNotReached() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.warp(block.timestamp + 7 days - 1);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.TimeoutNotReached.selector);
+        gameManager.abandonGame(gameId);
+    }
+
+    function test_abandonGame_revertsIfNotPlayer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(charlie);
+        vm.expectRevert(GameManager.NotPlayer.selector);
+        gameManager.abandonGame(gameId);
+    }
+
+    function test_abandonGame_revertsIfGameNotActive() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.abandonGame(gameId);
+    }
+
+    function test_abandonGame_revertsIfCompleted() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+        gameManager.completeGame(
+            gameId,
+            alice,
+            _deadline(),
+            _signGameResult(gameId, alice)
+        );
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(bob);
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.abandonGame(gameId);
+    }
+
+    function test_completeGame_stillWorksAfterAbandonTimeout() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.warp(block.timestamp + 30 days);
+
+        gameManager.completeGame(
+            gameId,
+            bob,
+            _deadline(),
+            _signGameResult(gameId, bob)
+        );
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.winner, bob);
+    }
+
+    // ============ Admin Functions Tests ============
+
+    function test_addSigner_addsToSet() public {
+        address newSigner = makeAddr("newSigner");
+
+        vm.expectEmit(true, false, false, true);
+        emit SignerAdded(newSigner);
+
+        gameManager.addSigner(newSigner);
+
+        assertTrue(gameManager.isSigner(newSigner));
+        assertEq(gameManager.getSigners().length, 2);
+    }
+
+    function test_addSigner_revertsWithZeroAddress() public {
+        vm.expectRevert(GameManager.InvalidAddress.selector);
+        gameManager.addSigner(address(0));
+    }
+
+    function test_addSigner_revertsIfAlreadySigner() public {
+        vm.expectRevert(GameManager.SignerAlreadyAdded.selector);
+        gameManager.addSigner(backendSigner);
+    }
+
+    function test_addSigner_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.addSigner(makeAddr("newSigner"));
+    }
+
+    function test_removeSigner_removesFromSet() public {
+        address newSigner = makeAddr("newSigner");
+        gameManager.addSigner(newSigner);
+
+        vm.expectEmit(true, false, false, true);
+        emit SignerRemoved(backendSigner);
+
+        gameManager.removeSigner(backendSigner);
+
+        assertFalse(gameManager.isSigner(backendSigner));
+        address[] memory signers = gameManager.getSigners();
+        assertEq(signers.length, 1);
+        assertEq(signers[0], newSigner);
+    }
+
+    function test_removeSigner_revertsIfNotSigner() public {
+        vm.expectRevert(GameManager.NotSigner.selector);
+        gameManager.removeSigner(alice);
+    }
+
+    function test_removeSigner_revertsBelowThreshold() public {
+        vm.expectRevert(GameManager.InvalidThreshold.selector);
+        gameManager.removeSigner(backendSigner);
+    }
+
+    function test_setSignerThreshold_updatesThreshold() public {
+        gameManager.addSigner(makeAddr("newSigner"));
+
+        vm.expectEmit(false, false, false, true);
+        emit SignerThresholdUpdated(1, 2);
+
+        gameManager.setSignerThreshold(2);
+
+        assertEq(gameManager.signerThreshold(), 2);
+    }
+
+    function test_setSignerThreshold_revertsWithZero() public {
+        vm.expectRevert(GameManager.InvalidThreshold.selector);
+        gameManager.setSignerThreshold(0);
+    }
+
+    function test_setSignerThreshold_revertsAboveSignerCount() public {
+        vm.expectRevert(GameManager.InvalidThreshold.selector);
+        gameManager.setSignerThreshold(2);
+    }
+
+    function test_setSignerThreshold_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setSignerThreshold(1);
+    }
+
+    function test_invalidateSignatures_bumpsNonce() public {
+        vm.expectEmit(false, false, false, true);
+        emit SignaturesInvalidated(1);
+
+        gameManager.invalidateSignatures();
+
+        assertEq(gameManager.signatureNonce(), 1);
+    }
+
+    function test_invalidateSignatures_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.invalidateSignatures();
+    }
+
+    function test_updateGameType_updatesEdge() public {
+        uint256 newEdge = 1000; // 10%
+
+        vm.expectEmit(true, false, false, true);
+        emit GameTypeUpdated(TIC_TAC_TOE, true, newEdge, 0, 0);
+
+        gameManager.updateGameType(TIC_TAC_TOE, true, newEdge, 0, 0);
+
+        assertEq(gameManager.getGameType(TIC_TAC_TOE).edgePercent, newEdge);
+    }
+
+    function test_updateGameType_revertsIfTooHigh() public {
+        vm.expectRevert(GameManager.EdgePercentTooHigh.selector);
+        gameManager.updateGameType(TIC_TAC_TOE, true, 5001, 0, 0);
+    }
+
+    function test_updateGameType_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.updateGameType(TIC_TAC_TOE, true, 1000, 0, 0);
+    }
+
+    function test_setCancelTimeout_updatesTimeout() public {
+        uint256 newTimeout = 48 hours;
+
+        vm.expectEmit(false, false, false, true);
+        emit CancelTimeoutUpdated(24 hours, newTimeout);
+
+        gameManager.setCancelTimeout(newTimeout);
+
+        assertEq(gameManager.cancelTimeout(), newTimeout);
+    }
+
+    function test_setCancelTimeout_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setCancelTimeout(48 hours);
+    }
+
+    function test_setAbandonTimeout_updatesTimeout() public {
+        uint256 newTimeout = 14 days;
+
+        vm.expectEmit(false, false, false, true);
+        emit AbandonTimeoutUpdated(7 days, newTimeout);
+
+        gameManager.setAbandonTimeout(newTimeout);
+
+        assertEq(gameManager.abandonTimeout(), newTimeout);
+    }
+
+    function test_setAbandonTimeout_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setAbandonTimeout(14 days);
+    }
+
+    // ============ Game Type Registry Tests ============
+
+    function test_addGameType_registersEnabledType() public {
+        vm.expectEmit(true, false, false, true);
+        emit GameTypeAdded(2, "Chess", 200, 10 * 1e18, 1_000 * 1e18);
+
+        uint8 gameTypeId = gameManager.addGameType(
+            "Chess",
+            200,
+            10 * 1e18,
+            1_000 * 1e18
+        );
+
+        assertEq(gameTypeId, 2);
+        assertEq(gameManager.gameTypeCount(), 3);
+
+        GameManager.GameTypeConfig memory config = gameManager.getGameType(
+            gameTypeId
+        );
+        assertEq(config.id, 2);
+        assertEq(config.name, "Chess");
+        assertTrue(config.enabled);
+        assertEq(config.edgePercent, 200);
+        assertEq(config.minWager, 10 * 1e18);
+        assertEq(config.maxWager, 1_000 * 1e18);
+    }
+
+    function test_addGameType_newTypeCanBePlayed() public {
+        uint8 gameTypeId = gameManager.addGameType("Chess", 200, 0, 0);
+
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, gameTypeId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.gameType, gameTypeId);
+        assertEq(game.player2Wager, 98 * 1e18); // 2% edge
+    }
+
+    function test_addGameType_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.addGameType("Chess", 200, 0, 0);
+    }
+
+    function test_addGameType_revertsIfNameEmpty() public {
+        vm.expectRevert(GameManager.EmptyName.selector);
+        gameManager.addGameType("", 200, 0, 0);
+    }
+
+    function test_addGameType_revertsIfEdgeTooHigh() public {
+        vm.expectRevert(GameManager.EdgePercentTooHigh.selector);
+        gameManager.addGameType("Chess", 5001, 0, 0);
+    }
+
+    function test_addGameType_revertsIfMinAboveMax() public {
+        vm.expectRevert(GameManager.InvalidAmount.selector);
+        gameManager.addGameType("Chess", 200, 100, 50);
+    }
+
+    function test_updateGameType_revertsIfUnknown() public {
+        vm.expectRevert(GameManager.UnknownGameType.selector);
+        gameManager.updateGameType(2, true, 200, 0, 0);
+    }
+
+    function test_getGameType_revertsIfUnknown() public {
+        vm.expectRevert(GameManager.UnknownGameType.selector);
+        gameManager.getGameType(2);
+    }
+
+    function test_getGameTypes_returnsAllTypesInIdOrder() public {
+        gameManager.addGameType("Chess", 200, 0, 0);
+        gameManager.updateGameType(CONNECT_FOUR, false, 300, 0, 0);
+
+        GameManager.GameTypeConfig[] memory types = gameManager.getGameTypes();
+
+        assertEq(types.length, 3);
+        assertEq(types[0].name, "Tic-Tac-Toe");
+        assertTrue(types[0].enabled);
+        assertEq(types[1].name, "Connect Four");
+        assertFalse(types[1].enabled);
+        assertEq(types[2].name, "Chess");
+        assertEq(types[2].id, 2);
+    }
+
+    function test_createGame_revertsIfGameTypeUnknown() public {
+        vm.prank(alice);
+        vm.expectRevert(GameManager.UnknownGameType.selector);
+        gameManager.createGame(bob, 100 * 1e18, 2);
+    }
+
+    function test_createGame_revertsIfGameTypeDisabled() public {
+        gameManager.updateGameType(CONNECT_FOUR, false, 300, 0, 0);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.GameTypeDisabled.selector);
+        gameManager.createGame(bob, 100 * 1e18, CONNECT_FOUR);
+    }
+
+    function test_createGame_revertsIfOutsideGameTypeWagerLimits() public {
+        gameManager.updateGameType(
+            TIC_TAC_TOE,
+            true,
+            500,
+            10 * 1e18,
+            100 * 1e18
+        );
+
+        vm.startPrank(alice);
+        vm.expectRevert(GameManager.WagerOutOfRange.selector);
+        gameManager.createGame(bob, 5 * 1e18, TIC_TAC_TOE);
+
+        vm.expectRevert(GameManager.WagerOutOfRange.selector);
+        gameManager.createGame(bob, 101 * 1e18, TIC_TAC_TOE);
+
+        gameManager.createGame(bob, 100 * 1e18, TIC_TAC_TOE);
+        vm.stopPrank();
+    }
+
+    function test_disablingGameType_stillSettlesExistingGames() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 gameId = _createGame(alice, bob, wagerAmount, CONNECT_FOUR);
+        gameManager.updateGameType(CONNECT_FOUR, false, 300, 0, 0);
+
+        _joinGame(bob, gameId);
+        uint256 deadline = _deadline();
+        gameManager.completeGame(
+            gameId,
+            alice,
+            deadline,
+            _signGameResult(gameId, alice)
+        );
+
+        assertEq(
+            uint256(gameManager.getGame(gameId).status),
+            uint256(GameManager.GameStatus.Completed)
+        );
+    }
+
+    function test_setFeePercent_revertsIfGameTypeUnknown() public {
+        vm.expectRevert(GameManager.UnknownGameType.selector);
+        gameManager.setFeePercent(2, 250);
+    }
+
+    // ============ Protocol Fee Tests ============
+
+    function test_setFeePercent_updatesFee() public {
+        vm.expectEmit(true, false, false, true);
+        emit FeePercentUpdated(TIC_TAC_TOE, 250);
+
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        assertEq(gameManager.feePercent(TIC_TAC_TOE), 250);
+    }
+
+    function test_setFeePercent_revertsIfTooHigh() public {
+        vm.expectRevert(GameManager.FeePercentTooHigh.selector);
+        gameManager.setFeePercent(TIC_TAC_TOE, 1001);
+    }
+
+    function test_setFeePercent_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+    }
+
+    function test_createGame_locksInProtocolFee() public {
+        uint256 wagerAmount = 100 * 1e18;
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+
+        // Later fee changes don't affect existing games
+        gameManager.setFeePercent(TIC_TAC_TOE, 1000);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        uint256 expectedFee = ((wagerAmount + game.player2Wager) * 250) /
+            10000;
+        assertEq(game.protocolFee, expectedFee);
+    }
+
+    function test_completeGame_deductsFeeAndAccrues() public {
+        uint256 wagerAmount = 100 * 1e18;
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        uint256 pot = wagerAmount + game.player2Wager;
+        uint256 balanceBefore = token.balanceOf(alice);
+
+        bytes[] memory signatures = _signGameResult(gameId, alice);
+
+        vm.expectEmit(true, false, false, true);
+        emit FeesAccrued(gameId, game.protocolFee);
+        vm.expectEmit(true, true, false, true);
+        emit GameCompleted(gameId, alice, pot - game.protocolFee);
+
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+
+        assertEq(token.balanceOf(alice), balanceBefore + pot - game.protocolFee);
+        assertEq(gameManager.accruedFees(address(token)), game.protocolFee);
+        assertEq(token.balanceOf(address(gameManager)), game.protocolFee);
+    }
+
+    function test_completeGameAsDraw_chargesNoFee() public {
+        uint256 wagerAmount = 100 * 1e18;
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        gameManager.completeGameAsDraw(gameId, _deadline(), _signGameDraw(gameId));
+
+        assertEq(token.balanceOf(alice), PLAYER_BALANCE);
+        assertEq(token.balanceOf(bob), PLAYER_BALANCE);
+        assertEq(gameManager.accruedFees(address(token)), 0);
+    }
+
+    function test_withdrawFees_sendsToTreasury() public {
+        address treasury = makeAddr("treasury");
+        gameManager.setTreasury(treasury);
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+        gameManager.completeGame(
+            gameId,
+            alice,
+            _deadline(),
+            _signGameResult(gameId, alice)
+        );
+
+        uint256 fees = gameManager.accruedFees(address(token));
+
+        vm.expectEmit(true, true, false, true);
+        emit FeesWithdrawn(address(token), treasury, fees);
+
+        gameManager.withdrawFees(address(token));
+
+        assertEq(token.balanceOf(treasury), fees);
+        assertEq(gameManager.accruedFees(address(token)), 0);
+    }
+
+    function test_withdrawFees_revertsIfNothingAccrued() public {
+        vm.expectRevert(GameManager.InvalidAmount.selector);
+        gameManager.withdrawFees(address(token));
+    }
+
+    function test_withdrawFees_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.withdrawFees(address(token));
+    }
+
+    function test_setTreasury_updatesTreasury() public {
+        address treasury = makeAddr("treasury");
+
+        vm.expectEmit(true, true, false, false);
+        emit TreasuryUpdated(owner, treasury);
+
+        gameManager.setTreasury(treasury);
+
+        assertEq(gameManager.treasury(), treasury);
+    }
+
+    function test_setTreasury_revertsWithZeroAddress() public {
+        vm.expectRevert(GameManager.InvalidAddress.selector);
+        gameManager.setTreasury(address(0));
+    }
+
+    function test_setTreasury_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setTreasury(alice);
+    }
+
+    // ============ Multi-Token Tests ============
+
+    function test_createGameWithToken_escrowsInChosenToken() public {
+        uint256 wagerAmount = 100 * 1e6;
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            wagerAmount,
+            TIC_TAC_TOE,
+            1
+        );
+        _joinGame(bob, gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.token, address(usdc));
+        assertEq(usdc.balanceOf(alice), PLAYER_USDC - wagerAmount);
+        assertEq(usdc.balanceOf(bob), PLAYER_USDC - game.player2Wager);
+        assertEq(
+            usdc.balanceOf(address(gameManager)),
+            wagerAmount + game.player2Wager
+        );
+
+        // DUEL balances are untouched
+        assertEq(token.balanceOf(alice), PLAYER_BALANCE);
+        assertEq(token.balanceOf(bob), PLAYER_BALANCE);
+    }
+
+    function test_createGameWithToken_emitsToken() public {
+        uint256 wagerAmount = 100 * 1e6;
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+
+        vm.expectEmit(true, true, true, true);
+        emit GameCreated(
+            0,
+            alice,
+            bob,
+            address(usdc),
+            wagerAmount,
+            (wagerAmount * 9500) / 10000,
+            TIC_TAC_TOE
+        );
+
+        vm.prank(alice);
+        gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            wagerAmount,
+            TIC_TAC_TOE,
+            1
+        );
+    }
+
+    function test_createGameWithToken_revertsIfTokenNotAllowed() public {
+        vm.prank(alice);
+        vm.expectRevert(GameManager.TokenNotAllowed.selector);
+        gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            100 * 1e6,
+            TIC_TAC_TOE,
+            1
+        );
+    }
+
+    function test_createGameWithToken_revertsBelowMinWager() public {
+        gameManager.setTokenConfig(address(usdc), true, 5 * 1e6, 500 * 1e6);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.WagerOutOfRange.selector);
+        gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            5 * 1e6 - 1,
+            TIC_TAC_TOE,
+            1
+        );
+    }
+
+    function test_createGameWithToken_revertsAboveMaxWager() public {
+        gameManager.setTokenConfig(address(usdc), true, 5 * 1e6, 500 * 1e6);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.WagerOutOfRange.selector);
+        gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            500 * 1e6 + 1,
+            TIC_TAC_TOE,
+            1
+        );
+    }
+
+    function test_createGameWithToken_allowsWagerAtLimits() public {
+        gameManager.setTokenConfig(address(usdc), true, 5 * 1e6, 500 * 1e6);
+
+        vm.startPrank(alice);
+        gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            5 * 1e6,
+            TIC_TAC_TOE,
+            1
+        );
+        gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            500 * 1e6,
+            TIC_TAC_TOE,
+            1
+        );
+        vm.stopPrank();
+
+        assertEq(gameManager.nextGameId(), 2);
+    }
+
+    function test_createGame_revertsIfDuelDelisted() public {
+        gameManager.setTokenConfig(address(token), false, 0, 0);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.TokenNotAllowed.selector);
+        gameManager.createGame(bob, 100 * 1e18, TIC_TAC_TOE);
+    }
+
+    function test_completeGame_paysOutInGameToken() public {
+        uint256 wagerAmount = 100 * 1e6;
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            wagerAmount,
+            TIC_TAC_TOE,
+            1
+        );
+        _joinGame(bob, gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        uint256 payout = wagerAmount + game.player2Wager - game.protocolFee;
+
+        gameManager.completeGame(
+            gameId,
+            bob,
+            _deadline(),
+            _signGameResult(gameId, bob)
+        );
+
+        assertEq(
+            usdc.balanceOf(bob),
+            PLAYER_USDC - game.player2Wager + payout
+        );
+        assertEq(gameManager.accruedFees(address(usdc)), game.protocolFee);
+        assertEq(gameManager.accruedFees(address(token)), 0);
+    }
+
+    function test_withdrawFees_isPerToken() public {
+        address treasury = makeAddr("treasury");
+        gameManager.setTreasury(treasury);
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            100 * 1e6,
+            TIC_TAC_TOE,
+            1
+        );
+        _joinGame(bob, gameId);
+        gameManager.completeGame(
+            gameId,
+            alice,
+            _deadline(),
+            _signGameResult(gameId, alice)
+        );
+
+        // Nothing accrued in DUEL
+        vm.expectRevert(GameManager.InvalidAmount.selector);
+        gameManager.withdrawFees(address(token));
+
+        uint256 fees = gameManager.accruedFees(address(usdc));
+        gameManager.withdrawFees(address(usdc));
+
+        assertEq(usdc.balanceOf(treasury), fees);
+        assertEq(gameManager.accruedFees(address(usdc)), 0);
+    }
+
+    function test_cancelGame_refundsInGameToken() public {
+        uint256 wagerAmount = 100 * 1e6;
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            wagerAmount,
+            TIC_TAC_TOE,
+            1
+        );
+
+        vm.warp(block.timestamp + 24 hours);
+        vm.prank(alice);
+        gameManager.cancelGame(gameId);
+
+        assertEq(usdc.balanceOf(alice), PLAYER_USDC);
+    }
+
+    function test_delistedToken_existingGamesStillSettle() public {
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(usdc),
+            100 * 1e6,
+            TIC_TAC_TOE,
+            1
+        );
+
+        gameManager.setTokenConfig(address(usdc), false, 0, 0);
+
+        _joinGame(bob, gameId);
+        gameManager.completeGameAsDraw(gameId, _deadline(), _signGameDraw(gameId));
+
+        assertEq(usdc.balanceOf(alice), PLAYER_USDC);
+        assertEq(usdc.balanceOf(bob), PLAYER_USDC);
+    }
+
+    function test_setTokenConfig_updatesConfig() public {
+        vm.expectEmit(true, false, false, true);
+        emit TokenConfigUpdated(address(usdc), true, 1e6, 1000 * 1e6);
+
+        gameManager.setTokenConfig(address(usdc), true, 1e6, 1000 * 1e6);
+
+        (bool allowed, uint256 minWager, uint256 maxWager) = gameManager
+            .tokenConfigs(address(usdc));
+        assertTrue(allowed);
+        assertEq(minWager, 1e6);
+        assertEq(maxWager, 1000 * 1e6);
+    }
+
+    function test_setTokenConfig_revertsWithZeroAddress() public {
+        vm.expectRevert(GameManager.InvalidAddress.selector);
+        gameManager.setTokenConfig(address(0), true, 0, 0);
+    }
+
+    function test_setTokenConfig_revertsIfMinAboveMax() public {
+        vm.expectRevert(GameManager.InvalidAmount.selector);
+        gameManager.setTokenConfig(address(usdc), true, 10 * 1e6, 1e6);
+    }
+
+    function test_setTokenConfig_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setTokenConfig(address(usdc), true, 0, 0);
+    }
+
+    // ============ Permit Tests ============
+
+    function test_createGameWithPermit_createsWithoutPriorApproval() public {
+        (address dave, uint256 daveKey) = makeAddrAndKey("dave");
+        token.transfer(dave, PLAYER_BALANCE);
+
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            daveKey,
+            dave,
+            wagerAmount,
+            deadline
+        );
+
+        vm.prank(dave);
+        uint256 gameId = gameManager.createGameWithPermit(
+            bob,
+            address(token),
+            wagerAmount,
+            TIC_TAC_TOE,
+            1,
+            deadline,
+            v,
+            r,
+            s
+        );
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(game.player1, dave);
+        assertEq(token.balanceOf(dave), PLAYER_BALANCE - wagerAmount);
+        assertEq(token.allowance(dave, address(gameManager)), 0);
+    }
+
+    function test_joinGameWithPermit_joinsWithoutPriorApproval() public {
+        (address dave, uint256 daveKey) = makeAddrAndKey("dave");
+        token.transfer(dave, PLAYER_BALANCE);
+
+        uint256 gameId = _createGame(
+            alice,
+            dave,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        uint256 player2Wager = gameManager.getGame(gameId).player2Wager;
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            daveKey,
+            dave,
+            player2Wager,
+            deadline
+        );
+
+        vm.prank(dave);
+        gameManager.joinGameWithPermit(gameId, deadline, v, r, s);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Active));
+        assertEq(token.balanceOf(dave), PLAYER_BALANCE - player2Wager);
+    }
+
+    function test_joinGameWithPermit_succeedsIfPermitAlreadyUsed() public {
+        (address dave, uint256 daveKey) = makeAddrAndKey("dave");
+        token.transfer(dave, PLAYER_BALANCE);
+
+        uint256 gameId = _createGame(
+            alice,
+            dave,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        uint256 player2Wager = gameManager.getGame(gameId).player2Wager;
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            daveKey,
+            dave,
+            player2Wager,
+            deadline
+        );
+
+        // Someone front-runs the permit
+        token.permit(dave, address(gameManager), player2Wager, deadline, v, r, s);
+
+        vm.prank(dave);
+        gameManager.joinGameWithPermit(gameId, deadline, v, r, s);
+
+        assertEq(
+            uint256(gameManager.getGame(gameId).status),
+            uint256(GameManager.GameStatus.Active)
+        );
+    }
+
+    function test_createGameWithPermit_revertsWithInvalidPermit() public {
+        (address dave, ) = makeAddrAndKey("dave");
+        token.transfer(dave, PLAYER_BALANCE);
+
+        uint256 deadline = block.timestamp + 1 hours;
+        // Signed by the wrong key
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            0xBAD,
+            dave,
+            100 * 1e18,
+            deadline
+        );
+
+        vm.prank(dave);
+        vm.expectRevert();
+        gameManager.createGameWithPermit(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            1,
+            deadline,
+            v,
+            r,
+            s
+        );
+    }
+
+    function test_joinGameWithPermit_revertsWithInvalidGameId() public {
+        vm.prank(bob);
+        vm.expectRevert(GameManager.InvalidGameId.selector);
+        gameManager.joinGameWithPermit(999, block.timestamp, 0, 0, 0);
+    }
+
+    // ============ Signer Threshold Tests ============
+
+    function test_completeGame_acceptsThresholdOfSignatures() public {
+        _useTwoOfThreeSigners();
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameResultWith(
+            _orderedKeys(backendSignerPrivateKey, COSIGNER_KEY),
+            gameId,
+            alice
+        );
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+
+        assertEq(gameManager.getGame(gameId).winner, alice);
+    }
+
+    function test_completeGame_revertsBelowThreshold() public {
+        _useTwoOfThreeSigners();
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameResult(gameId, alice);
+
+        vm.expectRevert(GameManager.InsufficientSignatures.selector);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+    }
+
+    function test_completeGame_revertsWithDuplicateSigner() public {
+        _useTwoOfThreeSigners();
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = new bytes[](2);
+        signatures[0] = _signGameResult(gameId, alice)[0];
+        signatures[1] = signatures[0];
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+    }
+
+    function test_completeGame_revertsWithUnorderedSignatures() public {
+        _useTwoOfThreeSigners();
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        uint256[] memory keys = _orderedKeys(
+            backendSignerPrivateKey,
+            COSIGNER_KEY
+        );
+        (keys[0], keys[1]) = (keys[1], keys[0]);
+        bytes[] memory signatures = _signGameResultWith(keys, gameId, alice);
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+    }
+
+    function test_completeGame_revertsWithNonSignerInBundle() public {
+        _useTwoOfThreeSigners();
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameResultWith(
+            _orderedKeys(backendSignerPrivateKey, 0xDEAD),
+            gameId,
+            alice
+        );
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+    }
+
+    function test_completeGame_revertsWithRemovedSigner() public {
+        _useTwoOfThreeSigners();
+        gameManager.removeSigner(vm.addr(COSIGNER_KEY));
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameResultWith(
+            _orderedKeys(backendSignerPrivateKey, COSIGNER_KEY),
+            gameId,
+            alice
+        );
+
+        vm.expectRevert(GameManager.InvalidSignature.selector);
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
+    }
+
+    function test_verifySignature_followsThreshold() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameResult(gameId, alice);
+        assertTrue(
+            gameManager.verifySignature(gameId, alice, _deadline(), signatures)
+        );
+
+        _useTwoOfThreeSigners();
+        assertFalse(
+            gameManager.verifySignature(gameId, alice, _deadline(), signatures)
+        );
+    }
+
+    // ============ Referral Tests ============
+
+    function test_joinGame_recordsReferrerOnFirstGame() public {
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+
+        vm.expectEmit(true, true, false, false);
+        emit ReferrerSet(bob, alice);
+
+        vm.prank(bob);
+        gameManager.joinGame(gameId, alice);
+
+        assertEq(gameManager.referrerOf(bob), alice);
+        assertEq(
+            uint256(gameManager.getGame(gameId).status),
+            uint256(GameManager.GameStatus.Active)
+        );
+    }
+
+    function test_joinGame_recordsReferrerForOpenChallenge() public {
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.prank(bob);
+        gameManager.joinGame(gameId, charlie);
+
+        assertEq(gameManager.referrerOf(bob), charlie);
+    }
+
+    function test_joinGame_ignoresReferrerForReturningPlayer() public {
+        uint256 firstGameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        _joinGame(bob, firstGameId);
+
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        vm.prank(bob);
+        gameManager.joinGame(gameId, alice);
+
+        assertEq(gameManager.referrerOf(bob), address(0));
+    }
+
+    function test_joinGame_recordsReferrerWhenInvitedToOtherGames() public {
+        // Invites already sit in bob's game index before he plays any of them
+        _createGame(charlie, bob, 100 * 1e18, TIC_TAC_TOE);
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        assertEq(gameManager.getPlayerGameCount(bob), 2);
+
+        vm.prank(bob);
+        gameManager.joinGame(gameId, alice);
+
+        assertEq(gameManager.referrerOf(bob), alice);
+        assertTrue(gameManager.hasPlayed(bob));
+    }
+
+    function test_joinGame_ignoresReferrerForPlayerWhoCreatedAGame() public {
+        _createGame(bob, charlie, 100 * 1e18, TIC_TAC_TOE);
+        assertTrue(gameManager.hasPlayed(bob));
+
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        vm.prank(bob);
+        gameManager.joinGame(gameId, alice);
+
+        assertEq(gameManager.referrerOf(bob), address(0));
+    }
+
+    function test_joinGame_ignoresSelfReferral() public {
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+
+        vm.prank(bob);
+        gameManager.joinGame(gameId, bob);
+
+        assertEq(gameManager.referrerOf(bob), address(0));
+    }
+
+    function test_joinGameWithPermit_recordsReferrer() public {
+        (address dave, uint256 daveKey) = makeAddrAndKey("dave");
+        token.transfer(dave, PLAYER_BALANCE);
+
+        uint256 gameId = _createGame(alice, dave, 100 * 1e18, TIC_TAC_TOE);
+        uint256 player2Wager = gameManager.getGame(gameId).player2Wager;
+
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            daveKey,
+            dave,
+            player2Wager,
+            deadline
+        );
+
+        vm.prank(dave);
+        gameManager.joinGameWithPermit(gameId, alice, deadline, v, r, s);
+
+        assertEq(gameManager.referrerOf(dave), alice);
+    }
+
+    function test_completeGame_paysReferrerShareOfFee() public {
+        gameManager.setFeePercent(TIC_TAC_TOE, 500); // 5%
+        gameManager.setReferralShare(2000); // 20% of the fee
+
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        vm.prank(bob);
+        gameManager.joinGame(gameId, charlie);
+
+        uint256 protocolFee = gameManager.getGame(gameId).protocolFee;
+        uint256 reward = (protocolFee * 2000) / 10000;
+
+        vm.expectEmit(true, true, true, true);
+        emit ReferralRewardAccrued(gameId, charlie, bob, reward);
+
+        uint256 deadline = _deadline();
+        gameManager.completeGame(
+            gameId,
+            alice,
+            deadline,
+            _signGameResult(gameId, alice)
+        );
+
+        assertEq(gameManager.referralEarnings(charlie, address(token)), reward);
+        assertEq(
+            gameManager.accruedFees(address(token)),
+            protocolFee - reward
+        );
+
+        uint256 balanceBefore = token.balanceOf(charlie);
+        vm.prank(charlie);
+        gameManager.claimReferralEarnings(address(token));
+
+        assertEq(token.balanceOf(charlie), balanceBefore + reward);
+        assertEq(gameManager.referralEarnings(charlie, address(token)), 0);
+    }
+
+    function test_resign_paysReferrerShareOfFee() public {
+        gameManager.setFeePercent(TIC_TAC_TOE, 500);
+        gameManager.setReferralShare(5000);
+
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        vm.prank(bob);
+        gameManager.joinGame(gameId, alice);
+
+        vm.prank(bob);
+        gameManager.resign(gameId);
+
+        uint256 protocolFee = gameManager.getGame(gameId).protocolFee;
+        assertEq(
+            gameManager.referralEarnings(alice, address(token)),
+            protocolFee / 2
+        );
+        assertEq(
+            gameManager.accruedFees(address(token)),
+            protocolFee - protocolFee / 2
+        );
+    }
+
+    function test_completeGameAsDraw_paysNoReferralReward() public {
+        gameManager.setFeePercent(TIC_TAC_TOE, 500);
+        gameManager.setReferralShare(2000);
+
+        uint256 gameId = _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+        vm.prank(bob);
+        gameManager.joinGame(gameId, charlie);
+
+        uint256 deadline = _deadline();
+        gameManager.completeGameAsDraw(
+            gameId,
+            deadline,
+            _signGameDraw(gameId)
+        );
+
+        assertEq(gameManager.referralEarnings(charlie, address(token)), 0);
+    }
+
+    function test_claimReferralEarnings_revertsIfNothingEarned() public {
+        vm.prank(charlie);
+        vm.expectRevert(GameManager.InvalidAmount.selector);
+        gameManager.claimReferralEarnings(address(token));
+    }
+
+    function test_setReferralShare_updatesShare() public {
+        vm.expectEmit(false, false, false, true);
+        emit ReferralShareUpdated(0, 2500);
+
+        gameManager.setReferralShare(2500);
+
+        assertEq(gameManager.referralShare(), 2500);
+    }
+
+    function test_setReferralShare_revertsIfTooHigh() public {
+        vm.expectRevert(GameManager.ReferralShareTooHigh.selector);
+        gameManager.setReferralShare(5001);
+    }
+
+    function test_setReferralShare_revertsIfNotOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        gameManager.setReferralShare(2500);
+    }
+
+    // ============ Resign Tests ============
+
+    function test_resign_paysOpponent() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000;
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        uint256 bobBalanceBefore = token.balanceOf(bob);
+
+        vm.expectEmit(true, true, false, false);
+        emit GameResigned(gameId, alice);
+        vm.expectEmit(true, true, false, true);
+        emit GameCompleted(gameId, bob, wagerAmount + player2Wager);
+
+        vm.prank(alice);
+        gameManager.resign(gameId);
+
+        assertEq(
+            token.balanceOf(bob),
+            bobBalanceBefore + wagerAmount + player2Wager
+        );
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Completed));
+        assertEq(game.winner, bob);
+    }
+
+    function test_resign_accruesProtocolFee() public {
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+        uint256 protocolFee = gameManager.getGame(gameId).protocolFee;
+
+        vm.prank(bob);
+        gameManager.resign(gameId);
+
+        assertEq(gameManager.accruedFees(address(token)), protocolFee);
+    }
+
+    function test_resign_revertsForNonPlayer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(charlie);
+        vm.expectRevert(GameManager.NotPlayer.selector);
+        gameManager.resign(gameId);
+    }
+
+    function test_resign_revertsIfNotActive() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.InvalidGameStatus.selector);
+        gameManager.resign(gameId);
+    }
+
+    function test_resign_revertsWithInvalidGameId() public {
+        vm.prank(alice);
+        vm.expectRevert(GameManager.InvalidGameId.selector);
+        gameManager.resign(999);
+    }
+
+    // ============ Draw Offer Tests ============
+
+    function test_offerDraw_recordsOffer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.expectEmit(true, true, false, false);
+        emit DrawOffered(gameId, alice);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        assertEq(gameManager.drawOfferedBy(gameId), alice);
+    }
+
+    function test_acceptDraw_refundsBothPlayers() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000;
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+        uint256 bobBalanceBefore = token.balanceOf(bob);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        vm.expectEmit(true, false, false, true);
+        emit GameDrawn(gameId, wagerAmount, player2Wager);
+
+        vm.prank(bob);
+        gameManager.acceptDraw(gameId);
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+        assertEq(token.balanceOf(bob), bobBalanceBefore + player2Wager);
+        assertEq(gameManager.drawOfferedBy(gameId), address(0));
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Completed));
+        assertEq(game.winner, address(0));
+    }
+
+    function test_offerDraw_acceptsOpponentsOpenOffer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(bob);
+        gameManager.offerDraw(gameId);
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Completed));
+        assertEq(token.balanceOf(address(gameManager)), 0);
+    }
+
+    function test_acceptDraw_revertsWithoutOffer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(bob);
+        vm.expectRevert(GameManager.NoDrawOffer.selector);
+        gameManager.acceptDraw(gameId);
+    }
+
+    function test_acceptDraw_revertsForOwnOffer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        vm.prank(alice);
+        vm.expectRevert(GameManager.NoDrawOffer.selector);
+        gameManager.acceptDraw(gameId);
+    }
+
+    function test_acceptDraw_revertsForNonPlayer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        vm.prank(charlie);
+        vm.expectRevert(GameManager.NotPlayer.selector);
+        gameManager.acceptDraw(gameId);
+    }
+
+    function test_withdrawDrawOffer_clearsOffer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        vm.expectEmit(true, true, false, false);
+        emit DrawOfferWithdrawn(gameId, alice);
+
+        vm.prank(alice);
+        gameManager.withdrawDrawOffer(gameId);
+
+        assertEq(gameManager.drawOfferedBy(gameId), address(0));
+
+        vm.prank(bob);
+        vm.expectRevert(GameManager.NoDrawOffer.selector);
+        gameManager.acceptDraw(gameId);
+    }
+
+    function test_withdrawDrawOffer_revertsForOpponent() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+
+        vm.prank(bob);
+        vm.expectRevert(GameManager.NoDrawOffer.selector);
+        gameManager.withdrawDrawOffer(gameId);
+    }
+
+    function test_completeGame_clearsDrawOffer() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+        gameManager.completeGame(
+            gameId,
+            bob,
+            _deadline(),
+            _signGameResult(gameId, bob)
+        );
+
+        assertEq(gameManager.drawOfferedBy(gameId), address(0));
+    }
+
+    // ============ Pause Tests ============
+
+    function test_pause_byGuardian() public {
+        gameManager.setGuardian(charlie, true);
+
+        vm.prank(charlie);
+        gameManager.pause();
+
+        assertTrue(gameManager.paused());
+    }
+
+    function test_pause_byOwner() public {
+        gameManager.pause();
+
+        assertTrue(gameManager.paused());
+    }
+
+    function test_pause_revertsForNonGuardian() public {
+        vm.prank(alice);
+        vm.expectRevert(GuardianPausable.NotGuardian.selector);
+        gameManager.pause();
+    }
+
+    function test_pause_revertsForRevokedGuardian() public {
+        gameManager.setGuardian(charlie, true);
+        gameManager.setGuardian(charlie, false);
+
+        vm.prank(charlie);
+        vm.expectRevert(GuardianPausable.NotGuardian.selector);
+        gameManager.pause();
+    }
+
+    function test_unpause_resumesGameCreation() public {
+        gameManager.pause();
+        gameManager.unpause();
+
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        assertEq(gameManager.getGame(gameId).player1, alice);
+    }
+
+    function test_unpause_revertsForGuardian() public {
+        gameManager.setGuardian(charlie, true);
+        vm.prank(charlie);
+        gameManager.pause();
+
+        vm.prank(charlie);
+        vm.expectRevert(
+            abi.encodeWithSignature(
+                "OwnableUnauthorizedAccount(address)",
+                charlie
+            )
+        );
+        gameManager.unpause();
+    }
+
+    function test_setGuardian_emitsEvent() public {
+        vm.expectEmit(true, false, false, true);
+        emit GuardianUpdated(charlie, true);
+
+        gameManager.setGuardian(charlie, true);
+
+        assertTrue(gameManager.isGuardian(charlie));
+    }
+
+    function test_setGuardian_revertsForNonOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
         );
-        gameManager.setEdgePercent(GameManager.GameType.TicTacToe, 1000);
+        gameManager.setGuardian(alice, true);
     }
 
-    function test_setCancelTimeout_updatesTimeout() public {
-        uint256 newTimeout = 48 hours;
+    function test_createGame_revertsWhenPaused() public {
+        gameManager.pause();
 
-        vm.expectEmit(false, false, false, true);
-        emit CancelTimeoutUpdated(24 hours, newTimeout);
+        vm.prank(alice);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        gameManager.createGame(bob, 100 * 1e18, TIC_TAC_TOE);
+    }
 
-        gameManager.setCancelTimeout(newTimeout);
+    function test_createGameWithPermit_revertsWhenPaused() public {
+        gameManager.pause();
 
-        assertEq(gameManager.cancelTimeout(), newTimeout);
+        vm.prank(alice);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        gameManager.createGameWithPermit(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            1,
+            block.timestamp,
+            0,
+            0,
+            0
+        );
     }
 
-    function test_setCancelTimeout_revertsIfNotOwner() public {
+    function test_joinGame_revertsWhenPaused() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        gameManager.pause();
+
+        vm.prank(bob);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        gameManager.joinGame(gameId);
+    }
+
+    function test_completeGame_worksWhenPaused() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+        gameManager.pause();
+
+        gameManager.completeGame(
+            gameId,
+            alice,
+            _deadline(),
+            _signGameResult(gameId, alice)
+        );
+
+        GameManager.Game memory game = gameManager.getGame(gameId);
+        assertEq(uint256(game.status), uint256(GameManager.GameStatus.Completed));
+    }
+
+    function test_completeGameAsDraw_worksWhenPaused() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+        gameManager.pause();
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+
+        gameManager.completeGameAsDraw(gameId, _deadline(), _signGameDraw(gameId));
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+    }
+
+    function test_cancelGame_worksWhenPaused() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
+        );
+        gameManager.pause();
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+        vm.warp(block.timestamp + 25 hours);
+
         vm.prank(alice);
-        vm.expectRevert(
-            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        gameManager.cancelGame(gameId);
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+    }
+
+    function test_abandonGame_worksWhenPaused() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            wagerAmount,
+            TIC_TAC_TOE
         );
-        gameManager.setCancelTimeout(48 hours);
+        _joinGame(bob, gameId);
+        gameManager.pause();
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(bob);
+        gameManager.abandonGame(gameId);
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + wagerAmount);
+    }
+
+    // ============ Series Tests ============
+
+    function test_createGame_isSingleGameSeries() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        assertEq(gameManager.getGame(gameId).bestOf, 1);
+    }
+
+    function test_createGameWithToken_storesBestOf() public {
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            5
+        );
+
+        assertEq(gameManager.getGame(gameId).bestOf, 5);
+    }
+
+    function test_createGameWithToken_revertsWithEvenBestOf() public {
+        vm.prank(alice);
+        vm.expectRevert(GameManager.InvalidBestOf.selector);
+        gameManager.createGameWithToken(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            4
+        );
+    }
+
+    function test_createGameWithToken_revertsWithZeroBestOf() public {
+        vm.prank(alice);
+        vm.expectRevert(GameManager.InvalidBestOf.selector);
+        gameManager.createGameWithToken(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            0
+        );
+    }
+
+    function test_createGameWithToken_revertsAboveMaxBestOf() public {
+        uint8 maxBestOf = gameManager.MAX_BEST_OF();
+
+        vm.startPrank(alice);
+        gameManager.createGameWithToken(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            maxBestOf
+        );
+
+        vm.expectRevert(GameManager.InvalidBestOf.selector);
+        gameManager.createGameWithToken(
+            bob,
+            address(token),
+            100 * 1e18,
+            TIC_TAC_TOE,
+            maxBestOf + 2
+        );
+        vm.stopPrank();
+    }
+
+    function test_completeGame_settlesSeriesOnce() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 player2Wager = (wagerAmount * 9500) / 10000;
+
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGameWithToken(
+            bob,
+            address(token),
+            wagerAmount,
+            TIC_TAC_TOE,
+            3
+        );
+        _joinGame(bob, gameId);
+
+        uint256 bobBalanceBefore = token.balanceOf(bob);
+
+        // The backend signs only the series winner, and the escrow pays out once
+        gameManager.completeGame(
+            gameId,
+            bob,
+            _deadline(),
+            _signGameResult(gameId, bob)
+        );
+
+        assertEq(
+            token.balanceOf(bob),
+            bobBalanceBefore + wagerAmount + player2Wager
+        );
+        assertEq(token.balanceOf(address(gameManager)), 0);
     }
 
     // ============ View Functions Tests ============
 
+    function test_calculateWinnerPayout() public {
+        uint256 wagerAmount = 100 * 1e18;
+        uint256 pot = wagerAmount + (wagerAmount * 9500) / 10000;
+
+        assertEq(
+            gameManager.calculateWinnerPayout(
+                wagerAmount,
+                TIC_TAC_TOE
+            ),
+            pot
+        );
+
+        gameManager.setFeePercent(TIC_TAC_TOE, 250);
+
+        assertEq(
+            gameManager.calculateWinnerPayout(
+                wagerAmount,
+                TIC_TAC_TOE
+            ),
+            pot - (pot * 250) / 10000
+        );
+    }
+
     function test_calculatePlayer2Wager() public view {
         uint256 wagerAmount = 100 * 1e18;
         uint256 expectedTicTacToe = (wagerAmount * 9500) / 10000; // 5% reduction
@@ -690,14 +3159,14 @@ contract GameManagerTest is Test {
         assertEq(
             gameManager.calculatePlayer2Wager(
                 wagerAmount,
-                GameManager.GameType.TicTacToe
+                TIC_TAC_TOE
             ),
             expectedTicTacToe
         );
         assertEq(
             gameManager.calculatePlayer2Wager(
                 wagerAmount,
-                GameManager.GameType.ConnectFour
+                CONNECT_FOUR
             ),
             expectedConnectFour
         );
@@ -708,13 +3177,15 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
-        bytes memory signature = _signGameResult(gameId, alice);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
 
-        assertTrue(gameManager.verifySignature(gameId, alice, signature));
+        assertTrue(
+            gameManager.verifySignature(gameId, alice, _deadline(), signatures)
+        );
     }
 
     function test_verifySignature_returnsFalseForInvalidSignature() public {
@@ -722,14 +3193,20 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
         // Sign with wrong key
         uint256 wrongKey = 0xDEAD;
         bytes32 structHash = keccak256(
-            abi.encode(gameManager.GAME_RESULT_TYPEHASH(), gameId, alice)
+            abi.encode(
+                gameManager.GAME_RESULT_TYPEHASH(),
+                gameId,
+                alice,
+                gameManager.signatureNonce(),
+                _deadline()
+            )
         );
         bytes32 digest = keccak256(
             abi.encodePacked(
@@ -741,7 +3218,14 @@ contract GameManagerTest is Test {
         (uint8 v, bytes32 r, bytes32 s) = vm.sign(wrongKey, digest);
         bytes memory wrongSignature = abi.encodePacked(r, s, v);
 
-        assertFalse(gameManager.verifySignature(gameId, alice, wrongSignature));
+        assertFalse(
+            gameManager.verifySignature(
+                gameId,
+                alice,
+                _deadline(),
+                _bundle(wrongSignature)
+            )
+        );
     }
 
     function test_verifySignature_returnsFalseForUsedSignature() public {
@@ -749,17 +3233,213 @@ contract GameManagerTest is Test {
             alice,
             bob,
             100 * 1e18,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
         _joinGame(bob, gameId);
 
-        bytes memory signature = _signGameResult(gameId, alice);
+        bytes[] memory signatures = _signGameResult(gameId, alice);
 
-        // Complete the game (uses the signature)
-        gameManager.completeGame(gameId, alice, signature);
+        // Complete the game (uses the signatures)
+        gameManager.completeGame(gameId, alice, _deadline(), signatures);
 
         // Signature should now be invalid
-        assertFalse(gameManager.verifySignature(gameId, alice, signature));
+        assertFalse(
+            gameManager.verifySignature(gameId, alice, _deadline(), signatures)
+        );
+    }
+
+    function test_verifySignature_returnsFalseForExpiredSignature() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, alice, deadline);
+
+        vm.warp(deadline + 1);
+
+        assertFalse(
+            gameManager.verifySignature(gameId, alice, deadline, signatures)
+        );
+    }
+
+    function test_verifyDrawSignature_returnsTrueForValidSignature() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameDraw(gameId);
+
+        assertTrue(
+            gameManager.verifyDrawSignature(gameId, _deadline(), signatures)
+        );
+    }
+
+    function test_verifyDrawSignature_returnsFalseForUsedSignature() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, gameId);
+
+        bytes[] memory signatures = _signGameDraw(gameId);
+        gameManager.completeGameAsDraw(gameId, _deadline(), signatures);
+
+        assertFalse(
+            gameManager.verifyDrawSignature(gameId, _deadline(), signatures)
+        );
+    }
+
+    // ============ Player Index Tests ============
+
+    function test_getGamesByPlayer_indexesBothPlayers() public {
+        uint256 gameId = _createGame(
+            alice,
+            bob,
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        assertEq(gameManager.getPlayerGameCount(alice), 1);
+        assertEq(gameManager.getPlayerGameCount(bob), 1);
+        assertEq(gameManager.getPlayerGameCount(charlie), 0);
+        assertEq(gameManager.getGamesByPlayer(bob, 0, 10)[0].id, gameId);
+    }
+
+    function test_getGamesByPlayer_indexesOpenChallengeOnJoin() public {
+        uint256 gameId = _createGame(
+            alice,
+            address(0),
+            100 * 1e18,
+            TIC_TAC_TOE
+        );
+        assertEq(gameManager.getPlayerGameCount(charlie), 0);
+
+        _joinGame(charlie, gameId);
+
+        assertEq(gameManager.getPlayerGameCount(alice), 1);
+        assertEq(gameManager.getPlayerGameCount(charlie), 1);
+        assertEq(gameManager.getGamesByPlayer(charlie, 0, 10)[0].id, gameId);
+    }
+
+    function test_getGamesByPlayer_paginatesNewestFirst() public {
+        for (uint256 i = 0; i < 5; i++) {
+            _createGame(alice, bob, 10 * 1e18, TIC_TAC_TOE);
+        }
+
+        GameManager.Game[] memory firstPage = gameManager.getGamesByPlayer(
+            alice,
+            0,
+            2
+        );
+        GameManager.Game[] memory lastPage = gameManager.getGamesByPlayer(
+            alice,
+            4,
+            2
+        );
+
+        assertEq(firstPage.length, 2);
+        assertEq(firstPage[0].id, 4);
+        assertEq(firstPage[1].id, 3);
+        assertEq(lastPage.length, 1);
+        assertEq(lastPage[0].id, 0);
+    }
+
+    function test_getGamesByPlayer_returnsEmptyPastEnd() public {
+        _createGame(alice, bob, 100 * 1e18, TIC_TAC_TOE);
+
+        assertEq(gameManager.getGamesByPlayer(alice, 1, 10).length, 0);
+        assertEq(gameManager.getGamesByPlayer(charlie, 0, 10).length, 0);
+    }
+
+    function test_getGamesByPlayerWithStatus_filtersByStatus() public {
+        uint256 activeId = _createGame(
+            alice,
+            bob,
+            10 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, activeId);
+        uint256 completedId = _createGame(
+            alice,
+            bob,
+            10 * 1e18,
+            TIC_TAC_TOE
+        );
+        _joinGame(bob, completedId);
+        gameManager.completeGame(
+            completedId,
+            alice,
+            _deadline(),
+            _signGameResult(completedId, alice)
+        );
+        uint256 createdId = _createGame(
+            alice,
+            bob,
+            10 * 1e18,
+            TIC_TAC_TOE
+        );
+
+        uint256 pendingMask = (1 << uint8(GameManager.GameStatus.Created)) |
+            (1 << uint8(GameManager.GameStatus.Active));
+        (GameManager.Game[] memory page, uint256 nextOffset) = gameManager
+            .getGamesByPlayerWithStatus(alice, pendingMask, 0, 10);
+
+        assertEq(page.length, 2);
+        assertEq(page[0].id, createdId);
+        assertEq(page[1].id, activeId);
+        assertEq(nextOffset, 3);
+    }
+
+    function test_getGamesByPlayerWithStatus_resumesFromNextOffset() public {
+        uint256 firstId = _createGame(
+            alice,
+            bob,
+            10 * 1e18,
+            TIC_TAC_TOE
+        );
+        uint256 cancelledId = _createGame(
+            alice,
+            bob,
+            10 * 1e18,
+            TIC_TAC_TOE
+        );
+        uint256 lastId = _createGame(
+            alice,
+            bob,
+            10 * 1e18,
+            TIC_TAC_TOE
+        );
+        vm.warp(block.timestamp + 25 hours);
+        vm.prank(alice);
+        gameManager.cancelGame(cancelledId);
+
+        uint256 createdMask = 1 << uint8(GameManager.GameStatus.Created);
+        (GameManager.Game[] memory page, uint256 nextOffset) = gameManager
+            .getGamesByPlayerWithStatus(alice, createdMask, 0, 1);
+        assertEq(page.length, 1);
+        assertEq(page[0].id, lastId);
+        assertEq(nextOffset, 1);
+
+        (page, nextOffset) = gameManager.getGamesByPlayerWithStatus(
+            alice,
+            createdMask,
+            nextOffset,
+            1
+        );
+        assertEq(page.length, 1);
+        assertEq(page[0].id, firstId);
+        assertEq(nextOffset, 3);
     }
 
     // ============ Fuzz Tests ============
@@ -772,19 +3452,21 @@ contract GameManagerTest is Test {
             alice,
             bob,
             wagerAmount,
-            GameManager.GameType.TicTacToe
+            TIC_TAC_TOE
         );
 
         GameManager.Game memory game = gameManager.getGame(gameId);
         assertEq(game.wagerAmount, wagerAmount);
     }
 
-    function testFuzz_setEdgePercent_validRange(uint256 edgePercent_) public {
+    function testFuzz_updateGameType_validEdgeRange(
+        uint256 edgePercent_
+    ) public {
         vm.assume(edgePercent_ <= 5000);
 
-        gameManager.setEdgePercent(GameManager.GameType.TicTacToe, edgePercent_);
+        gameManager.updateGameType(TIC_TAC_TOE, true, edgePercent_, 0, 0);
         assertEq(
-            gameManager.edgePercent(GameManager.GameType.TicTacToe),
+            gameManager.getGameType(TIC_TAC_TOE).edgePercent,
             edgePercent_
         );
     }
@@ -0,0 +1,436 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {SidePool} from "../src/SidePool.sol";
+import {GameManager} from "../src/GameManager.sol";
+import {DuelBaseToken} from "../src/DuelBaseToken.sol";
+
+contract SidePoolTest is Test {
+    SidePool public sidePool;
+    GameManager public gameManager;
+    DuelBaseToken public token;
+
+    uint256 public backendSignerPrivateKey = 0xBEEF;
+    address public backendSigner = vm.addr(backendSignerPrivateKey);
+    address public alice = makeAddr("alice");
+    address public bob = makeAddr("bob");
+    address public charlie = makeAddr("charlie");
+    address public dave = makeAddr("dave");
+    address public eve = makeAddr("eve");
+
+    uint256 public constant INITIAL_SUPPLY = 1_000_000_000 * 1e18;
+    uint256 public constant PLAYER_BALANCE = 10_000 * 1e18;
+    uint256 public constant WAGER = 100 * 1e18;
+    uint256 public constant SIGNATURE_TTL = 1 hours;
+    uint8 public constant TIC_TAC_TOE = 0;
+
+    event BetPlaced(
+        uint256 indexed gameId,
+        address indexed bettor,
+        SidePool.Side side,
+        uint256 amount
+    );
+    event PoolSettled(uint256 indexed gameId, SidePool.Side winningSide);
+    event PoolRefunded(uint256 indexed gameId);
+    event Claimed(
+        uint256 indexed gameId,
+        address indexed bettor,
+        uint256 amount
+    );
+
+    function setUp() public {
+        token = new DuelBaseToken(INITIAL_SUPPLY);
+        gameManager = new GameManager(address(token), backendSigner);
+        sidePool = new SidePool(address(token), address(gameManager));
+
+        // Fund and approve players and spectators for both contracts
+        address[5] memory accounts = [alice, bob, charlie, dave, eve];
+        for (uint256 i = 0; i < accounts.length; i++) {
+            token.transfer(accounts[i], PLAYER_BALANCE);
+            vm.startPrank(accounts[i]);
+            token.approve(address(gameManager), type(uint256).max);
+            token.approve(address(sidePool), type(uint256).max);
+            vm.stopPrank();
+        }
+    }
+
+    // ============ Helper Functions ============
+
+    function _deadline() internal view returns (uint256) {
+        return block.timestamp + SIGNATURE_TTL;
+    }
+
+    function _signGameResult(
+        uint256 gameId,
+        address winner,
+        uint256 deadline
+    ) internal view returns (bytes[] memory signatures) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                gameManager.GAME_RESULT_TYPEHASH(),
+                gameId,
+                winner,
+                gameManager.signatureNonce(),
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(
+            abi.encodePacked(
+                "\x19\x01",
+                gameManager.DOMAIN_SEPARATOR(),
+                structHash
+            )
+        );
+
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(
+            backendSignerPrivateKey,
+            digest
+        );
+        signatures = new bytes[](1);
+        signatures[0] = abi.encodePacked(r, s, v);
+    }
+
+    // Creates a game between alice (player1) and bob (player2) that bob hasn't joined yet
+    function _createGame() internal returns (uint256) {
+        vm.prank(alice);
+        return gameManager.createGame(bob, WAGER, TIC_TAC_TOE);
+    }
+
+    function _joinGame(uint256 gameId) internal {
+        vm.prank(bob);
+        gameManager.joinGame(gameId);
+    }
+
+    function _bet(
+        address bettor,
+        uint256 gameId,
+        SidePool.Side side,
+        uint256 amount
+    ) internal {
+        vm.prank(bettor);
+        sidePool.placeBet(gameId, side, amount);
+    }
+
+    function _completeGame(uint256 gameId, address winner) internal {
+        uint256 deadline = _deadline();
+        gameManager.completeGame(
+            gameId,
+            winner,
+            deadline,
+            _signGameResult(gameId, winner, deadline)
+        );
+    }
+
+    // Creates a game with charlie and eve backing alice (100 and 300) and dave backing bob (200)
+    function _createBackedGame() internal returns (uint256 gameId) {
+        gameId = _createGame();
+        _bet(charlie, gameId, SidePool.Side.Player1, 100 * 1e18);
+        _bet(eve, gameId, SidePool.Side.Player1, 300 * 1e18);
+        _bet(dave, gameId, SidePool.Side.Player2, 200 * 1e18);
+    }
+
+    // ============ Constructor Tests ============
+
+    function test_constructor_setsContracts() public view {
+        assertEq(address(sidePool.duelToken()), address(token));
+        assertEq(address(sidePool.gameManager()), address(gameManager));
+        assertEq(sidePool.DOMAIN_SEPARATOR(), gameManager.DOMAIN_SEPARATOR());
+    }
+
+    function test_constructor_revertsWithZeroAddress() public {
+        vm.expectRevert(SidePool.InvalidAddress.selector);
+        new SidePool(address(0), address(gameManager));
+
+        vm.expectRevert(SidePool.InvalidAddress.selector);
+        new SidePool(address(token), address(0));
+    }
+
+    // ============ PlaceBet Tests ============
+
+    function test_placeBet_recordsBetAndEscrows() public {
+        uint256 gameId = _createGame();
+
+        vm.expectEmit(true, true, false, true);
+        emit BetPlaced(gameId, charlie, SidePool.Side.Player2, 50 * 1e18);
+
+        _bet(charlie, gameId, SidePool.Side.Player2, 50 * 1e18);
+        _bet(charlie, gameId, SidePool.Side.Player2, 25 * 1e18);
+
+        SidePool.Pool memory pool = sidePool.getPool(gameId);
+        assertEq(pool.player1Total, 0);
+        assertEq(pool.player2Total, 75 * 1e18);
+        assertEq(sidePool.player2Bets(gameId, charlie), 75 * 1e18);
+        assertEq(token.balanceOf(address(sidePool)), 75 * 1e18);
+        assertEq(token.balanceOf(charlie), PLAYER_BALANCE - 75 * 1e18);
+    }
+
+    function test_placeBet_revertsWithZeroAmount() public {
+        uint256 gameId = _createGame();
+
+        vm.prank(charlie);
+        vm.expectRevert(SidePool.InvalidAmount.selector);
+        sidePool.placeBet(gameId, SidePool.Side.Player1, 0);
+    }
+
+    function test_placeBet_revertsIfGameDoesNotExist() public {
+        vm.prank(charlie);
+        vm.expectRevert(SidePool.InvalidGameId.selector);
+        sidePool.placeBet(999, SidePool.Side.Player1, 1e18);
+    }
+
+    function test_placeBet_revertsOnceGameStarted() public {
+        uint256 gameId = _createGame();
+        _joinGame(gameId);
+
+        vm.prank(charlie);
+        vm.expectRevert(SidePool.BettingClosed.selector);
+        sidePool.placeBet(gameId, SidePool.Side.Player1, 1e18);
+    }
+
+    function test_placeBet_revertsOnOpenChallenge() public {
+        vm.prank(alice);
+        uint256 gameId = gameManager.createGame(
+            address(0),
+            WAGER,
+            TIC_TAC_TOE
+        );
+
+        vm.prank(charlie);
+        vm.expectRevert(SidePool.OpenChallenge.selector);
+        sidePool.placeBet(gameId, SidePool.Side.Player1, 1e18);
+    }
+
+    function test_placeBet_revertsIfPlayer() public {
+        uint256 gameId = _createGame();
+
+        vm.prank(alice);
+        vm.expectRevert(SidePool.PlayerCannotBet.selector);
+        sidePool.placeBet(gameId, SidePool.Side.Player2, 1e18);
+
+        vm.prank(bob);
+        vm.expectRevert(SidePool.PlayerCannotBet.selector);
+        sidePool.placeBet(gameId, SidePool.Side.Player1, 1e18);
+    }
+
+    // ============ Settle Tests ============
+
+    function test_settle_paysWinningSideProRata() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+        _completeGame(gameId, alice);
+
+        vm.expectEmit(true, false, false, true);
+        emit PoolSettled(gameId, SidePool.Side.Player1);
+
+        sidePool.settle(gameId);
+
+        // The 600 DUEL pool is shared 1:3 between charlie and eve
+        assertEq(sidePool.claimableAmount(gameId, charlie), 150 * 1e18);
+        assertEq(sidePool.claimableAmount(gameId, eve), 450 * 1e18);
+        assertEq(sidePool.claimableAmount(gameId, dave), 0);
+
+        vm.expectEmit(true, true, false, true);
+        emit Claimed(gameId, charlie, 150 * 1e18);
+
+        vm.prank(charlie);
+        sidePool.claim(gameId);
+        vm.prank(eve);
+        sidePool.claim(gameId);
+
+        assertEq(token.balanceOf(charlie), PLAYER_BALANCE + 50 * 1e18);
+        assertEq(token.balanceOf(eve), PLAYER_BALANCE + 150 * 1e18);
+        assertEq(token.balanceOf(address(sidePool)), 0);
+    }
+
+    function test_settle_followsResignation() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        vm.prank(alice);
+        gameManager.resign(gameId);
+
+        sidePool.settle(gameId);
+
+        SidePool.Pool memory pool = sidePool.getPool(gameId);
+        assertEq(uint256(pool.status), uint256(SidePool.PoolStatus.Settled));
+        assertEq(uint256(pool.winningSide), uint256(SidePool.Side.Player2));
+        assertEq(sidePool.claimableAmount(gameId, dave), 600 * 1e18);
+    }
+
+    function test_settle_refundsOnDraw() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        vm.prank(alice);
+        gameManager.offerDraw(gameId);
+        vm.prank(bob);
+        gameManager.acceptDraw(gameId);
+
+        vm.expectEmit(true, false, false, false);
+        emit PoolRefunded(gameId);
+
+        sidePool.settle(gameId);
+
+        assertEq(sidePool.claimableAmount(gameId, charlie), 100 * 1e18);
+        assertEq(sidePool.claimableAmount(gameId, dave), 200 * 1e18);
+        assertEq(sidePool.claimableAmount(gameId, eve), 300 * 1e18);
+    }
+
+    function test_settle_refundsOnCancel() public {
+        uint256 gameId = _createBackedGame();
+
+        vm.warp(block.timestamp + gameManager.cancelTimeout() + 1);
+        vm.prank(alice);
+        gameManager.cancelGame(gameId);
+
+        sidePool.settle(gameId);
+
+        vm.prank(dave);
+        sidePool.claim(gameId);
+        assertEq(token.balanceOf(dave), PLAYER_BALANCE);
+    }
+
+    function test_settle_refundsIfNobodyBackedWinner() public {
+        uint256 gameId = _createGame();
+        _bet(charlie, gameId, SidePool.Side.Player1, 100 * 1e18);
+        _joinGame(gameId);
+        _completeGame(gameId, bob);
+
+        sidePool.settle(gameId);
+
+        assertEq(
+            uint256(sidePool.getPool(gameId).status),
+            uint256(SidePool.PoolStatus.Refunded)
+        );
+        assertEq(sidePool.claimableAmount(gameId, charlie), 100 * 1e18);
+    }
+
+    function test_settle_revertsIfGameNotFinished() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        vm.expectRevert(SidePool.GameNotFinished.selector);
+        sidePool.settle(gameId);
+    }
+
+    function test_settle_revertsIfAlreadyClosed() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+        _completeGame(gameId, alice);
+        sidePool.settle(gameId);
+
+        vm.expectRevert(SidePool.PoolAlreadyClosed.selector);
+        sidePool.settle(gameId);
+    }
+
+    // ============ SettleWithSignature Tests ============
+
+    function test_settleWithSignature_settlesBeforeWinnerClaims() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, bob, deadline);
+        sidePool.settleWithSignature(gameId, bob, deadline, signatures);
+
+        assertEq(sidePool.claimableAmount(gameId, dave), 600 * 1e18);
+
+        // The winner can still claim with the same signatures
+        gameManager.completeGame(gameId, bob, deadline, signatures);
+        assertEq(gameManager.getGame(gameId).winner, bob);
+    }
+
+    function test_settleWithSignature_revertsIfNotSignedForWinner() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, alice, deadline);
+
+        vm.expectRevert(SidePool.InvalidSignature.selector);
+        sidePool.settleWithSignature(gameId, bob, deadline, signatures);
+    }
+
+    function test_settleWithSignature_revertsIfRevoked() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, bob, deadline);
+        gameManager.invalidateSignatures();
+
+        vm.expectRevert(SidePool.InvalidSignature.selector);
+        sidePool.settleWithSignature(gameId, bob, deadline, signatures);
+    }
+
+    function test_settleWithSignature_revertsIfExpired() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, bob, deadline);
+        vm.warp(deadline + 1);
+
+        vm.expectRevert(SidePool.SignatureExpired.selector);
+        sidePool.settleWithSignature(gameId, bob, deadline, signatures);
+    }
+
+    function test_settleWithSignature_revertsIfWinnerNotPlayer() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, charlie, deadline);
+
+        vm.expectRevert(SidePool.InvalidWinner.selector);
+        sidePool.settleWithSignature(gameId, charlie, deadline, signatures);
+    }
+
+    function test_settleWithSignature_revertsIfGameNotActive() public {
+        uint256 gameId = _createBackedGame();
+
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signGameResult(gameId, bob, deadline);
+
+        vm.expectRevert(SidePool.GameNotFinished.selector);
+        sidePool.settleWithSignature(gameId, bob, deadline, signatures);
+    }
+
+    // ============ Claim Tests ============
+
+    function test_claim_revertsWhilePoolOpen() public {
+        uint256 gameId = _createBackedGame();
+
+        vm.prank(charlie);
+        vm.expectRevert(SidePool.PoolNotClosed.selector);
+        sidePool.claim(gameId);
+    }
+
+    function test_claim_revertsIfAlreadyClaimed() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+        _completeGame(gameId, alice);
+        sidePool.settle(gameId);
+
+        vm.startPrank(charlie);
+        sidePool.claim(gameId);
+
+        vm.expectRevert(SidePool.AlreadyClaimed.selector);
+        sidePool.claim(gameId);
+        vm.stopPrank();
+
+        assertEq(sidePool.claimableAmount(gameId, charlie), 0);
+    }
+
+    function test_claim_revertsForLosingSide() public {
+        uint256 gameId = _createBackedGame();
+        _joinGame(gameId);
+        _completeGame(gameId, alice);
+        sidePool.settle(gameId);
+
+        vm.prank(dave);
+        vm.expectRevert(SidePool.NothingToClaim.selector);
+        sidePool.claim(gameId);
+    }
+}
@@ -0,0 +1,282 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {TicTacToeGame} from "../src/TicTacToeGame.sol";
+import {GuardianPausable} from "../src/GuardianPausable.sol";
+import {DuelBaseToken} from "../src/DuelBaseToken.sol";
+
+contract TicTacToeGameTest is Test {
+    TicTacToeGame public ticTacToe;
+    DuelBaseToken public token;
+
+    address public owner = address(this);
+    address public alice = makeAddr("alice");
+    address public bob = makeAddr("bob");
+    address public charlie = makeAddr("charlie");
+
+    uint256 public constant INITIAL_SUPPLY = 1_000_000_000 * 1e18;
+    uint256 public constant PLAYER_BALANCE = 10_000 * 1e18;
+    uint256 public constant WAGER = 100 * 1e18;
+
+    event GuardianUpdated(address indexed guardian, bool enabled);
+
+    function setUp() public {
+        token = new DuelBaseToken(INITIAL_SUPPLY);
+        ticTacToe = new TicTacToeGame(address(token));
+
+        // Fund players and approve the game contract
+        address[3] memory players = [alice, bob, charlie];
+        for (uint256 i = 0; i < players.length; i++) {
+            token.transfer(players[i], PLAYER_BALANCE);
+            vm.prank(players[i]);
+            token.approve(address(ticTacToe), type(uint256).max);
+        }
+    }
+
+    // ============ Helper Functions ============
+
+    function _createGame(
+        address player1,
+        address player2
+    ) internal returns (uint256) {
+        vm.prank(player1);
+        return ticTacToe.createGame(player2, WAGER);
+    }
+
+    function _joinGame(address player, uint256 gameId) internal {
+        vm.prank(player);
+        ticTacToe.joinGame(gameId);
+    }
+
+    function _move(address player, uint256 gameId, uint8 position) internal {
+        vm.prank(player);
+        ticTacToe.makeMove(gameId, position);
+    }
+
+    // ============ Pause Tests ============
+
+    function test_pause_byGuardian() public {
+        ticTacToe.setGuardian(charlie, true);
+
+        vm.prank(charlie);
+        ticTacToe.pause();
+
+        assertTrue(ticTacToe.paused());
+    }
+
+    function test_pause_byOwner() public {
+        ticTacToe.pause();
+
+        assertTrue(ticTacToe.paused());
+    }
+
+    function test_pause_revertsForNonGuardian() public {
+        vm.prank(alice);
+        vm.expectRevert(GuardianPausable.NotGuardian.selector);
+        ticTacToe.pause();
+    }
+
+    function test_pause_revertsForRevokedGuardian() public {
+        ticTacToe.setGuardian(charlie, true);
+        ticTacToe.setGuardian(charlie, false);
+
+        vm.prank(charlie);
+        vm.expectRevert(GuardianPausable.NotGuardian.selector);
+        ticTacToe.pause();
+    }
+
+    function test_unpause_resumesGameCreation() public {
+        ticTacToe.pause();
+        ticTacToe.unpause();
+
+        uint256 gameId = _createGame(alice, bob);
+
+        assertEq(ticTacToe.getGame(gameId).player1, alice);
+    }
+
+    function test_unpause_revertsForGuardian() public {
+        ticTacToe.setGuardian(charlie, true);
+        vm.prank(charlie);
+        ticTacToe.pause();
+
+        vm.prank(charlie);
+        vm.expectRevert(
+            abi.encodeWithSignature(
+                "OwnableUnauthorizedAccount(address)",
+                charlie
+            )
+        );
+        ticTacToe.unpause();
+    }
+
+    function test_setGuardian_emitsEvent() public {
+        vm.expectEmit(true, false, false, true);
+        emit GuardianUpdated(charlie, true);
+
+        ticTacToe.setGuardian(charlie, true);
+
+        assertTrue(ticTacToe.isGuardian(charlie));
+    }
+
+    function test_setGuardian_revertsForNonOwner() public {
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        ticTacToe.setGuardian(alice, true);
+    }
+
+    function test_createGame_revertsWhenPaused() public {
+        ticTacToe.pause();
+
+        vm.prank(alice);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        ticTacToe.createGame(bob, WAGER);
+    }
+
+    function test_joinGame_revertsWhenPaused() public {
+        uint256 gameId = _createGame(alice, bob);
+        ticTacToe.pause();
+
+        vm.prank(bob);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        ticTacToe.joinGame(gameId);
+    }
+
+    function test_makeMove_worksWhenPaused() public {
+        uint256 gameId = _createGame(alice, bob);
+        _joinGame(bob, gameId);
+        ticTacToe.pause();
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+
+        // X takes the top row
+        _move(alice, gameId, 0);
+        _move(bob, gameId, 3);
+        _move(alice, gameId, 1);
+        _move(bob, gameId, 4);
+        _move(alice, gameId, 2);
+
+        TicTacToeGame.Game memory game = ticTacToe.getGame(gameId);
+        assertEq(uint256(game.status), uint256(TicTacToeGame.GameStatus.Completed));
+        assertEq(game.winner, alice);
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + WAGER * 2);
+    }
+
+    function test_claimTimeoutWin_worksWhenPaused() public {
+        uint256 gameId = _createGame(alice, bob);
+        _joinGame(bob, gameId);
+        ticTacToe.pause();
+
+        uint256 bobBalanceBefore = token.balanceOf(bob);
+        vm.warp(block.timestamp + ticTacToe.MOVE_TIMEOUT());
+
+        vm.prank(bob);
+        ticTacToe.claimTimeoutWin(gameId);
+
+        assertEq(ticTacToe.getGame(gameId).winner, bob);
+        assertEq(token.balanceOf(bob), bobBalanceBefore + WAGER * 2);
+    }
+
+    function test_cancelGame_worksWhenPaused() public {
+        uint256 gameId = _createGame(alice, bob);
+        ticTacToe.pause();
+
+        uint256 aliceBalanceBefore = token.balanceOf(alice);
+        vm.warp(block.timestamp + 25 hours);
+
+        vm.prank(alice);
+        ticTacToe.cancelGame(gameId);
+
+        assertEq(token.balanceOf(alice), aliceBalanceBefore + WAGER);
+    }
+
+    // ============ Player Index Tests ============
+
+    function test_getGamesByPlayer_indexesBothPlayers() public {
+        uint256 gameId = _createGame(alice, bob);
+
+        assertEq(ticTacToe.getPlayerGameCount(alice), 1);
+        assertEq(ticTacToe.getPlayerGameCount(bob), 1);
+        assertEq(ticTacToe.getPlayerGameCount(charlie), 0);
+        assertEq(ticTacToe.getGamesByPlayer(bob, 0, 10)[0].id, gameId);
+    }
+
+    function test_getGamesByPlayer_paginatesNewestFirst() public {
+        for (uint256 i = 0; i < 5; i++) {
+            _createGame(alice, bob);
+        }
+
+        TicTacToeGame.Game[] memory firstPage = ticTacToe.getGamesByPlayer(
+            alice,
+            0,
+            2
+        );
+        TicTacToeGame.Game[] memory lastPage = ticTacToe.getGamesByPlayer(
+            alice,
+            4,
+            2
+        );
+
+        assertEq(firstPage.length, 2);
+        assertEq(firstPage[0].id, 4);
+        assertEq(firstPage[1].id, 3);
+        assertEq(lastPage.length, 1);
+        assertEq(lastPage[0].id, 0);
+    }
+
+    function test_getGamesByPlayer_returnsEmptyPastEnd() public {
+        _createGame(alice, bob);
+
+        assertEq(ticTacToe.getGamesByPlayer(alice, 1, 10).length, 0);
+        assertEq(ticTacToe.getGamesByPlayer(charlie, 0, 10).length, 0);
+    }
+
+    function test_getGamesByPlayerWithStatus_filtersByStatus() public {
+        uint256 activeId = _createGame(alice, bob);
+        _joinGame(bob, activeId);
+        uint256 completedId = _createGame(alice, bob);
+        _joinGame(bob, completedId);
+        vm.warp(block.timestamp + ticTacToe.MOVE_TIMEOUT());
+        vm.prank(bob);
+        ticTacToe.claimTimeoutWin(completedId);
+        uint256 createdId = _createGame(alice, bob);
+
+        uint256 pendingMask = (1 << uint8(TicTacToeGame.GameStatus.Created)) |
+            (1 << uint8(TicTacToeGame.GameStatus.Active));
+        (TicTacToeGame.Game[] memory page, uint256 nextOffset) = ticTacToe
+            .getGamesByPlayerWithStatus(alice, pendingMask, 0, 10);
+
+        assertEq(page.length, 2);
+        assertEq(page[0].id, createdId);
+        assertEq(page[1].id, activeId);
+        assertEq(nextOffset, 3);
+    }
+
+    function test_getGamesByPlayerWithStatus_resumesFromNextOffset() public {
+        uint256 firstId = _createGame(alice, bob);
+        uint256 cancelledId = _createGame(alice, bob);
+        uint256 lastId = _createGame(alice, bob);
+        vm.warp(block.timestamp + 25 hours);
+        vm.prank(alice);
+        ticTacToe.cancelGame(cancelledId);
+
+        uint256 createdMask = 1 << uint8(TicTacToeGame.GameStatus.Created);
+        (TicTacToeGame.Game[] memory page, uint256 nextOffset) = ticTacToe
+            .getGamesByPlayerWithStatus(alice, createdMask, 0, 1);
+        assertEq(page.length, 1);
+        assertEq(page[0].id, lastId);
+        assertEq(nextOffset, 1);
+
+        (page, nextOffset) = ticTacToe.getGamesByPlayerWithStatus(
+            alice,
+            createdMask,
+            nextOffset,
+            1
+        );
+        assertEq(page.length, 1);
+        assertEq(page[0].id, firstId);
+        assertEq(nextOffset, 3);
+    }
+}
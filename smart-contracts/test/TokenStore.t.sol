@@ -3,12 +3,14 @@ pragma solidity ^0.8.24;
 
 import {Test} from "forge-std/Test.sol";
 import {TokenStore} from "../src/TokenStore.sol";
+import {GuardianPausable} from "../src/GuardianPausable.sol";
 import {DuelBaseToken} from "../src/DuelBaseToken.sol";
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
-// Mock USDC with 6 decimals
-contract MockUSDC is ERC20 {
-    constructor() ERC20("USD Coin", "USDC") {}
+// Mock USDC with 6 decimals and EIP-2612 permit
+contract MockUSDC is ERC20, ERC20Permit {
+    constructor() ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {}
 
     function decimals() public pure override returns (uint8) {
         return 6;
@@ -180,6 +182,97 @@ contract TokenStoreTest is Test {
         store.buyTokens(1e13); // This should result in 0 USDC cost
     }
 
+    // ============ BuyTokensWithPermit Tests ============
+
+    function test_buyTokensWithPermit_buysWithoutPriorApproval() public {
+        (address buyer, uint256 buyerKey) = makeAddrAndKey("buyer");
+        usdc.mint(buyer, ALICE_USDC);
+
+        uint256 duelAmount = 1000 * 1e18;
+        uint256 usdcCost = (duelAmount * INITIAL_PRICE) / 1e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            buyerKey,
+            buyer,
+            usdcCost,
+            deadline
+        );
+
+        vm.prank(buyer);
+        store.buyTokensWithPermit(duelAmount, deadline, v, r, s);
+
+        assertEq(duelToken.balanceOf(buyer), duelAmount);
+        assertEq(usdc.balanceOf(buyer), ALICE_USDC - usdcCost);
+        assertEq(usdc.allowance(buyer, address(store)), 0);
+    }
+
+    function test_buyTokensWithPermit_succeedsIfPermitAlreadyUsed() public {
+        (address buyer, uint256 buyerKey) = makeAddrAndKey("buyer");
+        usdc.mint(buyer, ALICE_USDC);
+
+        uint256 duelAmount = 1000 * 1e18;
+        uint256 usdcCost = (duelAmount * INITIAL_PRICE) / 1e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            buyerKey,
+            buyer,
+            usdcCost,
+            deadline
+        );
+
+        // Someone front-runs the permit
+        usdc.permit(buyer, address(store), usdcCost, deadline, v, r, s);
+
+        vm.prank(buyer);
+        store.buyTokensWithPermit(duelAmount, deadline, v, r, s);
+
+        assertEq(duelToken.balanceOf(buyer), duelAmount);
+    }
+
+    function test_buyTokensWithPermit_revertsWithInvalidPermit() public {
+        (address buyer, ) = makeAddrAndKey("buyer");
+        usdc.mint(buyer, ALICE_USDC);
+
+        uint256 duelAmount = 1000 * 1e18;
+        uint256 usdcCost = (duelAmount * INITIAL_PRICE) / 1e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        // Signed by the wrong key
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            0xBAD,
+            buyer,
+            usdcCost,
+            deadline
+        );
+
+        vm.prank(buyer);
+        vm.expectRevert();
+        store.buyTokensWithPermit(duelAmount, deadline, v, r, s);
+    }
+
+    function _signPermit(
+        uint256 privateKey,
+        address tokenOwner,
+        uint256 value,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256(
+                    "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+                ),
+                tokenOwner,
+                address(store),
+                value,
+                usdc.nonces(tokenOwner),
+                deadline
+            )
+        );
+        bytes32 digest = keccak256(
+            abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash)
+        );
+        return vm.sign(privateKey, digest);
+    }
+
     // ============ Admin Functions Tests ============
 
     function test_setPrice_updatesPrice() public {
@@ -349,6 +442,72 @@ contract TokenStoreTest is Test {
         store.withdrawAllUsdc(bob);
     }
 
+    // ============ Pause Tests ============
+
+    function test_pause_byGuardian() public {
+        store.setGuardian(bob, true);
+
+        vm.prank(bob);
+        store.pause();
+
+        assertTrue(store.paused());
+    }
+
+    function test_pause_revertsForNonGuardian() public {
+        vm.prank(alice);
+        vm.expectRevert(GuardianPausable.NotGuardian.selector);
+        store.pause();
+    }
+
+    function test_unpause_revertsIfNotOwner() public {
+        store.setGuardian(bob, true);
+        vm.prank(bob);
+        store.pause();
+
+        vm.prank(bob);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", bob)
+        );
+        store.unpause();
+    }
+
+    function test_buyTokens_revertsWhenPaused() public {
+        store.pause();
+
+        vm.prank(alice);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        store.buyTokens(1000 * 1e18);
+    }
+
+    function test_buyTokensWithPermit_revertsWhenPaused() public {
+        store.pause();
+
+        vm.prank(alice);
+        vm.expectRevert(abi.encodeWithSignature("EnforcedPause()"));
+        store.buyTokensWithPermit(1000 * 1e18, block.timestamp, 0, 0, 0);
+    }
+
+    function test_buyTokens_worksAfterUnpause() public {
+        store.pause();
+        store.unpause();
+
+        vm.prank(alice);
+        store.buyTokens(1000 * 1e18);
+
+        assertEq(duelToken.balanceOf(alice), 1000 * 1e18);
+    }
+
+    function test_withdrawUsdc_worksWhenPaused() public {
+        vm.prank(alice);
+        store.buyTokens(1000 * 1e18);
+        store.pause();
+
+        uint256 totalUsdc = usdc.balanceOf(address(store));
+        store.withdrawAllUsdc(bob);
+
+        assertEq(usdc.balanceOf(bob), totalUsdc);
+    }
+
     // ============ View Functions Tests ============
 
     function test_getInventory_returnsCorrectAmount() public view {
@@ -0,0 +1,866 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Test} from "forge-std/Test.sol";
+import {Tournament} from "../src/Tournament.sol";
+import {GameManager} from "../src/GameManager.sol";
+import {DuelBaseToken} from "../src/DuelBaseToken.sol";
+
+contract TournamentTest is Test {
+    Tournament public tournament;
+    GameManager public gameManager;
+    DuelBaseToken public token;
+
+    address public owner = address(this);
+    uint256 public backendSignerPrivateKey = 0xBEEF;
+    address public backendSigner = vm.addr(backendSignerPrivateKey);
+    address public alice = makeAddr("alice");
+    address public bob = makeAddr("bob");
+    address public charlie = makeAddr("charlie");
+    address public dave = makeAddr("dave");
+
+    uint256 public constant INITIAL_SUPPLY = 1_000_000_000 * 1e18;
+    uint256 public constant PLAYER_BALANCE = 10_000 * 1e18;
+    uint256 public constant ENTRY_FEE = 100 * 1e18;
+    uint8 public constant TIC_TAC_TOE = 0;
+    uint8 public constant CONNECT_FOUR = 1;
+    uint256 public constant SIGNATURE_TTL = 1 hours;
+
+    event TournamentCreated(
+        uint256 indexed tournamentId,
+        uint8 size,
+        uint256 entryFee,
+        uint8 gameType,
+        uint256[] prizeSplit
+    );
+    event PlayerRegistered(
+        uint256 indexed tournamentId,
+        address indexed player,
+        uint8 position
+    );
+    event TournamentStarted(uint256 indexed tournamentId);
+    event MatchReported(
+        uint256 indexed tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address indexed winner,
+        address indexed loser
+    );
+    event TournamentCompleted(
+        uint256 indexed tournamentId,
+        address indexed champion
+    );
+    event TournamentAbandoned(
+        uint256 indexed tournamentId,
+        address indexed caller,
+        uint256 refundPerPlayer
+    );
+
+    function setUp() public {
+        token = new DuelBaseToken(INITIAL_SUPPLY);
+        gameManager = new GameManager(address(token), backendSigner);
+        tournament = new Tournament(address(token), address(gameManager));
+
+        // Fund and approve players
+        address[4] memory players = [alice, bob, charlie, dave];
+        for (uint256 i = 0; i < players.length; i++) {
+            token.transfer(players[i], PLAYER_BALANCE);
+            vm.prank(players[i]);
+            token.approve(address(tournament), type(uint256).max);
+        }
+    }
+
+    // ============ Helper Functions ============
+
+    function _deadline() internal view returns (uint256) {
+        return block.timestamp + SIGNATURE_TTL;
+    }
+
+    function _signMatchResult(
+        uint256 tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address winner
+    ) internal view returns (bytes[] memory signatures) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                tournament.MATCH_RESULT_TYPEHASH(),
+                tournamentId,
+                round,
+                matchIndex,
+                winner,
+                gameManager.signatureNonce(),
+                _deadline()
+            )
+        );
+        bytes32 digest = keccak256(
+            abi.encodePacked(
+                "\x19\x01",
+                gameManager.DOMAIN_SEPARATOR(),
+                structHash
+            )
+        );
+
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(
+            backendSignerPrivateKey,
+            digest
+        );
+        signatures = new bytes[](1);
+        signatures[0] = abi.encodePacked(r, s, v);
+    }
+
+    // 70% champion, 30% runner-up
+    function _defaultSplit() internal pure returns (uint256[] memory split) {
+        split = new uint256[](2);
+        split[0] = 7000;
+        split[1] = 3000;
+    }
+
+    function _createTournament(uint8 size) internal returns (uint256) {
+        return
+            tournament.createTournament(
+                size,
+                ENTRY_FEE,
+                TIC_TAC_TOE,
+                _defaultSplit()
+            );
+    }
+
+    // Creates a 4-player tournament with alice, bob, charlie and dave seeded in order
+    function _createFullTournament() internal returns (uint256 tournamentId) {
+        tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+        _register(bob, tournamentId);
+        _register(charlie, tournamentId);
+        _register(dave, tournamentId);
+    }
+
+    function _register(address player, uint256 tournamentId) internal {
+        vm.prank(player);
+        tournament.register(tournamentId);
+    }
+
+    function _report(
+        uint256 tournamentId,
+        uint8 round,
+        uint8 matchIndex,
+        address winner
+    ) internal {
+        tournament.reportResult(
+            tournamentId,
+            round,
+            matchIndex,
+            winner,
+            _deadline(),
+            _signMatchResult(tournamentId, round, matchIndex, winner)
+        );
+    }
+
+    // ============ Constructor Tests ============
+
+    function test_constructor_sharesGameManagerDomain() public view {
+        assertEq(tournament.DOMAIN_SEPARATOR(), gameManager.DOMAIN_SEPARATOR());
+        assertEq(address(tournament.gameManager()), address(gameManager));
+        assertEq(address(tournament.duelToken()), address(token));
+        assertEq(tournament.owner(), owner);
+    }
+
+    function test_constructor_revertsWithZeroAddress() public {
+        vm.expectRevert(Tournament.InvalidAddress.selector);
+        new Tournament(address(0), address(gameManager));
+
+        vm.expectRevert(Tournament.InvalidAddress.selector);
+        new Tournament(address(token), address(0));
+    }
+
+    // ============ CreateTournament Tests ============
+
+    function test_createTournament_storesConfig() public {
+        vm.expectEmit(true, true, true, true);
+        emit TournamentCreated(0, 8, ENTRY_FEE, CONNECT_FOUR, _defaultSplit());
+
+        uint256 tournamentId = tournament.createTournament(
+            8,
+            ENTRY_FEE,
+            CONNECT_FOUR,
+            _defaultSplit()
+        );
+
+        Tournament.TournamentInfo memory info = tournament.getTournament(
+            tournamentId
+        );
+        assertEq(info.id, 0);
+        assertEq(info.size, 8);
+        assertEq(info.entryFee, ENTRY_FEE);
+        assertEq(info.gameType, CONNECT_FOUR);
+        assertEq(
+            uint256(info.status),
+            uint256(Tournament.TournamentStatus.Registration)
+        );
+        assertEq(tournament.getPrizeSplit(tournamentId).length, 2);
+        assertEq(tournament.nextTournamentId(), 1);
+    }
+
+    function test_createTournament_revertsWithInvalidSize() public {
+        vm.expectRevert(Tournament.InvalidSize.selector);
+        tournament.createTournament(
+            6,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            _defaultSplit()
+        );
+
+        vm.expectRevert(Tournament.InvalidSize.selector);
+        tournament.createTournament(
+            32,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            _defaultSplit()
+        );
+    }
+
+    function test_createTournament_revertsWithZeroEntryFee() public {
+        vm.expectRevert(Tournament.InvalidAmount.selector);
+        tournament.createTournament(
+            4,
+            0,
+            TIC_TAC_TOE,
+            _defaultSplit()
+        );
+    }
+
+    function test_createTournament_revertsIfSplitDoesNotCoverPool() public {
+        uint256[] memory split = new uint256[](2);
+        split[0] = 7000;
+        split[1] = 2000;
+
+        vm.expectRevert(Tournament.InvalidPrizeSplit.selector);
+        tournament.createTournament(
+            4,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            split
+        );
+    }
+
+    function test_createTournament_countsEachPlayerInTier() public {
+        // Champion 50%, runner-up 20%, each semifinal loser 15%
+        uint256[] memory split = new uint256[](3);
+        split[0] = 5000;
+        split[1] = 2000;
+        split[2] = 1500;
+
+        tournament.createTournament(
+            4,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            split
+        );
+        assertEq(tournament.nextTournamentId(), 1);
+    }
+
+    function test_createTournament_revertsWithTooManyTiers() public {
+        // A 4-player bracket only has champion, runner-up and semifinal tiers
+        uint256[] memory split = new uint256[](4);
+        split[0] = 10000;
+
+        vm.expectRevert(Tournament.InvalidPrizeSplit.selector);
+        tournament.createTournament(
+            4,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            split
+        );
+    }
+
+    function test_createTournament_revertsIfGameTypeUnknown() public {
+        uint256[] memory split = _defaultSplit();
+
+        vm.expectRevert(Tournament.InvalidGameType.selector);
+        tournament.createTournament(4, ENTRY_FEE, 2, split);
+    }
+
+    function test_createTournament_revertsIfGameTypeDisabled() public {
+        uint256[] memory split = _defaultSplit();
+        gameManager.updateGameType(CONNECT_FOUR, false, 500, 0, 0);
+
+        vm.expectRevert(Tournament.GameTypeDisabled.selector);
+        tournament.createTournament(4, ENTRY_FEE, CONNECT_FOUR, split);
+    }
+
+    function test_createTournament_revertsIfNotOwner() public {
+        uint256[] memory split = _defaultSplit();
+
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        tournament.createTournament(
+            4,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            split
+        );
+    }
+
+    // ============ Register Tests ============
+
+    function test_register_collectsEntryFee() public {
+        uint256 tournamentId = _createTournament(4);
+
+        vm.expectEmit(true, true, true, true);
+        emit PlayerRegistered(tournamentId, alice, 0);
+
+        _register(alice, tournamentId);
+
+        assertEq(token.balanceOf(alice), PLAYER_BALANCE - ENTRY_FEE);
+        assertEq(token.balanceOf(address(tournament)), ENTRY_FEE);
+        assertTrue(tournament.isRegistered(tournamentId, alice));
+        assertEq(tournament.getTournament(tournamentId).playerCount, 1);
+    }
+
+    function test_register_startsBracketWhenFull() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+        _register(bob, tournamentId);
+        _register(charlie, tournamentId);
+
+        vm.expectEmit(true, true, true, true);
+        emit TournamentStarted(tournamentId);
+
+        _register(dave, tournamentId);
+
+        Tournament.TournamentInfo memory info = tournament.getTournament(
+            tournamentId
+        );
+        assertEq(
+            uint256(info.status),
+            uint256(Tournament.TournamentStatus.Active)
+        );
+        assertEq(info.startedAt, block.timestamp);
+
+        // First round pairs entrants in registration order
+        (address player1, address player2, address winner) = tournament
+            .getMatch(tournamentId, 0, 1);
+        assertEq(player1, charlie);
+        assertEq(player2, dave);
+        assertEq(winner, address(0));
+    }
+
+    function test_register_revertsIfAlreadyRegistered() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+
+        vm.prank(alice);
+        vm.expectRevert(Tournament.AlreadyRegistered.selector);
+        tournament.register(tournamentId);
+    }
+
+    function test_register_revertsWhenFull() public {
+        uint256 tournamentId = _createFullTournament();
+        address eve = makeAddr("eve");
+
+        vm.prank(eve);
+        vm.expectRevert(Tournament.InvalidTournamentStatus.selector);
+        tournament.register(tournamentId);
+    }
+
+    function test_register_revertsWithInvalidTournamentId() public {
+        vm.prank(alice);
+        vm.expectRevert(Tournament.InvalidTournamentId.selector);
+        tournament.register(999);
+    }
+
+    // ============ ReportResult Tests ============
+
+    function test_reportResult_advancesWinner() public {
+        uint256 tournamentId = _createFullTournament();
+
+        vm.expectEmit(true, true, true, true);
+        emit MatchReported(tournamentId, 0, 0, bob, alice);
+
+        _report(tournamentId, 0, 0, bob);
+
+        (, , address winner) = tournament.getMatch(tournamentId, 0, 0);
+        assertEq(winner, bob);
+
+        (address finalist1, address finalist2, ) = tournament.getMatch(
+            tournamentId,
+            1,
+            0
+        );
+        assertEq(finalist1, bob);
+        assertEq(finalist2, address(0));
+    }
+
+    function test_reportResult_paysPrizeSplitAndCompletes() public {
+        uint256 tournamentId = _createFullTournament();
+        uint256 pool = ENTRY_FEE * 4;
+
+        _report(tournamentId, 0, 0, alice);
+        _report(tournamentId, 0, 1, dave);
+
+        vm.expectEmit(true, true, true, true);
+        emit TournamentCompleted(tournamentId, dave);
+
+        _report(tournamentId, 1, 0, dave);
+
+        assertEq(
+            token.balanceOf(dave),
+            PLAYER_BALANCE - ENTRY_FEE + (pool * 7000) / 10000
+        );
+        assertEq(
+            token.balanceOf(alice),
+            PLAYER_BALANCE - ENTRY_FEE + (pool * 3000) / 10000
+        );
+        // Semifinal losers get nothing under the default split
+        assertEq(token.balanceOf(bob), PLAYER_BALANCE - ENTRY_FEE);
+        assertEq(token.balanceOf(address(tournament)), 0);
+
+        Tournament.TournamentInfo memory info = tournament.getTournament(
+            tournamentId
+        );
+        assertEq(
+            uint256(info.status),
+            uint256(Tournament.TournamentStatus.Completed)
+        );
+        assertEq(info.champion, dave);
+    }
+
+    function test_reportResult_paysSemifinalLosersOnElimination() public {
+        uint256[] memory split = new uint256[](3);
+        split[0] = 5000;
+        split[1] = 2000;
+        split[2] = 1500;
+        uint256 tournamentId = tournament.createTournament(
+            4,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            split
+        );
+        _register(alice, tournamentId);
+        _register(bob, tournamentId);
+        _register(charlie, tournamentId);
+        _register(dave, tournamentId);
+
+        _report(tournamentId, 0, 0, alice);
+
+        assertEq(
+            token.balanceOf(bob),
+            PLAYER_BALANCE - ENTRY_FEE + (ENTRY_FEE * 4 * 1500) / 10000
+        );
+    }
+
+    function test_reportResult_runsEightPlayerBracket() public {
+        uint256 tournamentId = _createTournament(8);
+        address[] memory players = new address[](8);
+        for (uint256 i = 0; i < 8; i++) {
+            players[i] = makeAddr(string(abi.encodePacked("player", i)));
+            token.transfer(players[i], ENTRY_FEE);
+            vm.startPrank(players[i]);
+            token.approve(address(tournament), ENTRY_FEE);
+            tournament.register(tournamentId);
+            vm.stopPrank();
+        }
+
+        // The first player of every match wins
+        for (uint8 m = 0; m < 4; m++) {
+            _report(tournamentId, 0, m, players[m * 2]);
+        }
+        _report(tournamentId, 1, 0, players[0]);
+        _report(tournamentId, 1, 1, players[4]);
+        _report(tournamentId, 2, 0, players[0]);
+
+        assertEq(tournament.getTournament(tournamentId).champion, players[0]);
+        assertEq(token.balanceOf(players[0]), (ENTRY_FEE * 8 * 7000) / 10000);
+        assertEq(token.balanceOf(players[4]), (ENTRY_FEE * 8 * 3000) / 10000);
+    }
+
+    function test_reportResult_revertsIfAlreadyReported() public {
+        uint256 tournamentId = _createFullTournament();
+        _report(tournamentId, 0, 0, alice);
+
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, bob);
+        vm.expectRevert(Tournament.MatchAlreadyReported.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            bob,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_revertsIfMatchNotReady() public {
+        uint256 tournamentId = _createFullTournament();
+        _report(tournamentId, 0, 0, alice);
+
+        bytes[] memory signatures = _signMatchResult(tournamentId, 1, 0, alice);
+        vm.expectRevert(Tournament.MatchNotReady.selector);
+        tournament.reportResult(
+            tournamentId,
+            1,
+            0,
+            alice,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_revertsWithInvalidMatch() public {
+        uint256 tournamentId = _createFullTournament();
+
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 2, alice);
+        vm.expectRevert(Tournament.InvalidMatch.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            2,
+            alice,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_revertsIfWinnerNotInMatch() public {
+        uint256 tournamentId = _createFullTournament();
+
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, charlie);
+        vm.expectRevert(Tournament.InvalidWinner.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            charlie,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_revertsWithInvalidSignature() public {
+        uint256 tournamentId = _createFullTournament();
+
+        // Signed for the other player
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, bob);
+        vm.expectRevert(Tournament.InvalidSignature.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            alice,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_followsSignerSetRotation() public {
+        uint256 tournamentId = _createFullTournament();
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, alice);
+
+        gameManager.addSigner(makeAddr("newSigner"));
+        gameManager.removeSigner(backendSigner);
+
+        vm.expectRevert(Tournament.InvalidSignature.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            alice,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_followsSignerThreshold() public {
+        uint256 tournamentId = _createFullTournament();
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, alice);
+
+        gameManager.addSigner(makeAddr("cosigner"));
+        gameManager.setSignerThreshold(2);
+
+        assertFalse(
+            tournament.verifyResultSignature(
+                tournamentId,
+                0,
+                0,
+                alice,
+                _deadline(),
+                signatures
+            )
+        );
+        vm.expectRevert(Tournament.InvalidSignature.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            alice,
+            _deadline(),
+            signatures
+        );
+    }
+
+    function test_reportResult_revertsIfSignatureExpired() public {
+        uint256 tournamentId = _createFullTournament();
+        uint256 deadline = _deadline();
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, alice);
+
+        vm.warp(deadline + 1);
+
+        assertFalse(
+            tournament.verifyResultSignature(
+                tournamentId,
+                0,
+                0,
+                alice,
+                deadline,
+                signatures
+            )
+        );
+        vm.expectRevert(Tournament.SignatureExpired.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            alice,
+            deadline,
+            signatures
+        );
+    }
+
+    function test_reportResult_revertsAfterSignaturesInvalidated() public {
+        uint256 tournamentId = _createFullTournament();
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, alice);
+
+        gameManager.invalidateSignatures();
+
+        vm.expectRevert(Tournament.InvalidSignature.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            alice,
+            _deadline(),
+            signatures
+        );
+
+        // A fresh signature over the new nonce is accepted
+        _report(tournamentId, 0, 0, alice);
+        (, , address winner) = tournament.getMatch(tournamentId, 0, 0);
+        assertEq(winner, alice);
+    }
+
+    function test_reportResult_revertsBeforeBracketStarts() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, alice);
+        vm.expectRevert(Tournament.InvalidTournamentStatus.selector);
+        tournament.reportResult(
+            tournamentId,
+            0,
+            0,
+            alice,
+            _deadline(),
+            signatures
+        );
+    }
+
+    // ============ CancelTournament Tests ============
+
+    function test_cancelTournament_refundsEntrants() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+        _register(bob, tournamentId);
+
+        tournament.cancelTournament(tournamentId);
+
+        assertEq(token.balanceOf(alice), PLAYER_BALANCE);
+        assertEq(token.balanceOf(bob), PLAYER_BALANCE);
+        assertEq(
+            uint256(tournament.getTournament(tournamentId).status),
+            uint256(Tournament.TournamentStatus.Cancelled)
+        );
+    }
+
+    function test_cancelTournament_revertsOnceStarted() public {
+        uint256 tournamentId = _createFullTournament();
+
+        vm.expectRevert(Tournament.InvalidTournamentStatus.selector);
+        tournament.cancelTournament(tournamentId);
+    }
+
+    function test_cancelTournament_revertsIfNotOwner() public {
+        uint256 tournamentId = _createTournament(4);
+
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        tournament.cancelTournament(tournamentId);
+    }
+
+    // ============ AbandonTournament Tests ============
+
+    function test_abandonTournament_refundsEntrantsBeforeAnyResult() public {
+        uint256 tournamentId = _createFullTournament();
+
+        vm.warp(block.timestamp + 7 days);
+
+        vm.expectEmit(true, true, true, true);
+        emit TournamentAbandoned(tournamentId, alice, ENTRY_FEE);
+
+        vm.prank(alice);
+        tournament.abandonTournament(tournamentId);
+
+        assertEq(token.balanceOf(alice), PLAYER_BALANCE);
+        assertEq(token.balanceOf(bob), PLAYER_BALANCE);
+        assertEq(token.balanceOf(charlie), PLAYER_BALANCE);
+        assertEq(token.balanceOf(dave), PLAYER_BALANCE);
+        assertEq(token.balanceOf(address(tournament)), 0);
+        assertEq(
+            uint256(tournament.getTournament(tournamentId).status),
+            uint256(Tournament.TournamentStatus.Cancelled)
+        );
+    }
+
+    function test_abandonTournament_splitsUnpaidPoolBetweenRemainingPlayers()
+        public
+    {
+        uint256[] memory split = new uint256[](3);
+        split[0] = 5000;
+        split[1] = 2000;
+        split[2] = 1500;
+        uint256 tournamentId = tournament.createTournament(
+            4,
+            ENTRY_FEE,
+            TIC_TAC_TOE,
+            split
+        );
+        _register(alice, tournamentId);
+        _register(bob, tournamentId);
+        _register(charlie, tournamentId);
+        _register(dave, tournamentId);
+
+        // Bob is knocked out with his semifinal prize
+        _report(tournamentId, 0, 0, alice);
+        uint256 bobBalance = token.balanceOf(bob);
+
+        vm.warp(block.timestamp + 7 days);
+        vm.prank(bob);
+        tournament.abandonTournament(tournamentId);
+
+        // Alice (waiting in the final), charlie and dave share the rest
+        uint256 unpaid = ENTRY_FEE * 4 - (ENTRY_FEE * 4 * 1500) / 10000;
+        uint256 refund = unpaid / 3;
+        assertEq(token.balanceOf(bob), bobBalance);
+        assertEq(token.balanceOf(alice), PLAYER_BALANCE - ENTRY_FEE + refund);
+        assertEq(token.balanceOf(dave), PLAYER_BALANCE - ENTRY_FEE + refund);
+        // Rounding dust goes to the first remaining player (charlie, in round 0)
+        assertEq(
+            token.balanceOf(charlie),
+            PLAYER_BALANCE - ENTRY_FEE + unpaid - refund * 2
+        );
+        assertEq(token.balanceOf(address(tournament)), 0);
+    }
+
+    function test_abandonTournament_timeoutCountsFromStart() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+        _register(bob, tournamentId);
+        _register(charlie, tournamentId);
+
+        vm.warp(block.timestamp + 3 days);
+        _register(dave, tournamentId);
+        vm.warp(block.timestamp + 7 days - 1);
+
+        vm.prank(alice);
+        vm.expectRevert(Tournament.TimeoutNotReached.selector);
+        tournament.abandonTournament(tournamentId);
+
+        vm.warp(block.timestamp + 1);
+        vm.prank(alice);
+        tournament.abandonTournament(tournamentId);
+    }
+
+    function test_abandonTournament_revertsIfNotPlayer() public {
+        uint256 tournamentId = _createFullTournament();
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(makeAddr("stranger"));
+        vm.expectRevert(Tournament.NotPlayer.selector);
+        tournament.abandonTournament(tournamentId);
+    }
+
+    function test_abandonTournament_revertsIfNotActive() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(alice, tournamentId);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(alice);
+        vm.expectRevert(Tournament.InvalidTournamentStatus.selector);
+        tournament.abandonTournament(tournamentId);
+    }
+
+    function test_abandonTournament_revertsOnceCompleted() public {
+        uint256 tournamentId = _createFullTournament();
+        _report(tournamentId, 0, 0, alice);
+        _report(tournamentId, 0, 1, charlie);
+        _report(tournamentId, 1, 0, alice);
+        vm.warp(block.timestamp + 7 days);
+
+        vm.prank(alice);
+        vm.expectRevert(Tournament.InvalidTournamentStatus.selector);
+        tournament.abandonTournament(tournamentId);
+    }
+
+    function test_setAbandonTimeout() public {
+        tournament.setAbandonTimeout(1 days);
+        assertEq(tournament.abandonTimeout(), 1 days);
+
+        vm.prank(alice);
+        vm.expectRevert(
+            abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", alice)
+        );
+        tournament.setAbandonTimeout(2 days);
+    }
+
+    // ============ View Functions Tests ============
+
+    function test_getEntrants_returnsSeedingOrder() public {
+        uint256 tournamentId = _createTournament(4);
+        _register(charlie, tournamentId);
+        _register(alice, tournamentId);
+
+        address[] memory entrants = tournament.getEntrants(tournamentId);
+        assertEq(entrants.length, 2);
+        assertEq(entrants[0], charlie);
+        assertEq(entrants[1], alice);
+    }
+
+    function test_verifyResultSignature() public {
+        uint256 tournamentId = _createFullTournament();
+        bytes[] memory signatures = _signMatchResult(tournamentId, 0, 0, alice);
+
+        assertTrue(
+            tournament.verifyResultSignature(
+                tournamentId,
+                0,
+                0,
+                alice,
+                _deadline(),
+                signatures
+            )
+        );
+        assertFalse(
+            tournament.verifyResultSignature(
+                tournamentId,
+                0,
+                0,
+                bob,
+                _deadline(),
+                signatures
+            )
+        );
+    }
+}